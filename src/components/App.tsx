@@ -1,5 +1,6 @@
 import React, { useState, useEffect, lazy, Suspense } from 'react';
 import { Product, Sticker } from '../database/db';
+import type { ProductSearchResult } from '../lib/product-search';
 import ProductCard from './ProductCard';
 import StickerCard from './StickerCard';
 import SearchBar from './SearchBar';
@@ -30,6 +31,8 @@ const App: React.FC = () => {
   const [stickers, setStickers] = useState<Sticker[]>([]);
   const [productTypes, setProductTypes] = useState<string[]>([]);
   const [selectedType, setSelectedType] = useState<string>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHighlights, setSearchHighlights] = useState<Record<string, ProductSearchResult['highlights']>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingStickers, setIsLoadingStickers] = useState(false);
   const [isSavingNotionSettings, setIsSavingNotionSettings] = useState(false);
@@ -154,17 +157,10 @@ const App: React.FC = () => {
     loadSettings();
   }, []);
 
-  // Filter products by type
+  // Filter products by type, or search them in the main process while there is a query
   useEffect(() => {
-    if (selectedType === 'all') {
-      setFilteredProducts(products);
-    } else {
-      setFilteredProducts(products.filter(p => p.type === selectedType));
-    }
-  }, [selectedType, products]);
-
-  const handleSearch = (query: string) => {
-    if (!query.trim()) {
+    if (!searchQuery.trim()) {
+      setSearchHighlights({});
       if (selectedType === 'all') {
         setFilteredProducts(products);
       } else {
@@ -172,29 +168,34 @@ const App: React.FC = () => {
       }
       return;
     }
-    
-    const lowerQuery = query.toLowerCase();
-    const filtered = products.filter(product => {
-      const matchesType = selectedType === 'all' || product.type === selectedType;
-      const matchesSearch = 
-        product.name.toLowerCase().includes(lowerQuery) || 
-        product.type.toLowerCase().includes(lowerQuery) || 
-        product.sku.toLowerCase().includes(lowerQuery) || 
-        (product.barcode && product.barcode.toLowerCase().includes(lowerQuery));
-      
-      return matchesType && matchesSearch;
-    });
-    
-    setFilteredProducts(filtered);
+
+    // Results for a query that has been typed over arrive too late to show
+    let isCurrent = true;
+    const searchProducts = async () => {
+      try {
+        const results: ProductSearchResult[] = await window.electron.ipcRenderer.invoke('db-search-products', searchQuery, {
+          type: selectedType === 'all' ? undefined : selectedType
+        });
+        if (!isCurrent) return;
+        setFilteredProducts(results.map(result => result.product));
+        setSearchHighlights(Object.fromEntries(results.map(result => [result.product.id, result.highlights])));
+      } catch (error) {
+        console.error('Error searching products:', error);
+      }
+    };
+
+    searchProducts();
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedType, products, searchQuery]);
+
+  const handleSearch = (query: string) => {
+    setSearchQuery(query);
   };
 
   const handleFilterByType = (type: string) => {
     setSelectedType(type);
-    if (type === 'all') {
-      setFilteredProducts(products);
-    } else {
-      setFilteredProducts(products.filter(p => p.type === type));
-    }
   };
 
   const handleProductSelect = (product: Product) => {
@@ -252,10 +253,10 @@ const App: React.FC = () => {
     }
   };
 
-  const handlePrint = async (sticker: Sticker) => {
+  const handlePrint = async (sticker: Sticker, copies = 1) => {
     try {
-      console.log(`Printing sticker: ${sticker.name}`);
-      return await window.electron.ipcRenderer.invoke('print-sticker', sticker.id);
+      console.log(`Printing ${copies} x sticker: ${sticker.name}`);
+      return await window.electron.ipcRenderer.invoke('print-sticker', sticker.id, copies);
     } catch (error) {
       console.error('Error printing sticker:', error);
       return {
@@ -270,6 +271,10 @@ const App: React.FC = () => {
       setIsSavingNotionSettings(true);
       console.log('Saving Notion settings:', notionSettings);
       const updatedSettings = await window.electron.ipcRenderer.invoke('db-save-notion-settings', notionSettings);
+      if (updatedSettings?.success === false) {
+        alert(updatedSettings.message);
+        return;
+      }
       setNotionSettings(updatedSettings);
       alert('Notion settings saved successfully');
     } catch (error) {
@@ -294,6 +299,10 @@ const App: React.FC = () => {
       }
       
       const updatedSettings = await window.electron.ipcRenderer.invoke('db-save-google-drive-settings', googleDriveSettings);
+      if (updatedSettings?.success === false) {
+        alert(updatedSettings.message);
+        return;
+      }
       setGoogleDriveSettings(updatedSettings);
       alert('Google Drive settings saved successfully');
     } catch (error) {
@@ -381,6 +390,7 @@ const App: React.FC = () => {
               key={product.id}
               product={product}
               isSelected={selectedProduct?.id === product.id}
+              highlights={searchHighlights[product.id]}
               onClick={() => handleProductSelect(product)}
             />
           ))
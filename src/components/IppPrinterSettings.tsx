@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Loader2 } from 'lucide-react';
+
+interface IppPrinterSettingsProps {
+  uri: string;
+  onChange: (uri: string) => void;
+}
+
+type IppPrinterAttributes = {
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  stateReasons: string[];
+  stateMessage?: string;
+  makeAndModel?: string;
+  acceptingJobs: boolean;
+  mediaSupported: string[];
+  mediaReady: string[];
+  mediaSizes: { width: number; height: number }[];
+};
+
+export function IppPrinterSettings({ uri, onChange }: IppPrinterSettingsProps) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [attributes, setAttributes] = useState<IppPrinterAttributes | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkPrinter = async () => {
+    setIsChecking(true);
+    setAttributes(null);
+    setError(null);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('ipp-get-printer-attributes', uri);
+      if (result.success) {
+        setAttributes(result.attributes);
+      } else {
+        setError(result.message);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Loaded media first, then the rest of the supported sizes
+  const media = attributes
+    ? Array.from(new Set([...attributes.mediaReady, ...attributes.mediaSupported]))
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="ippUri">Printer URI</Label>
+      <div className="flex gap-2">
+        <Input
+          id="ippUri"
+          value={uri}
+          placeholder="ipp://192.168.1.50/ipp/print"
+          onChange={(e) => onChange(e.target.value.trim())}
+        />
+        <Button variant="outline" onClick={checkPrinter} disabled={isChecking || !uri}>
+          {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Check
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {attributes && (
+        <div className="text-xs text-gray-500 space-y-1">
+          {attributes.makeAndModel && <p>{attributes.makeAndModel}</p>}
+          <p>
+            State: {attributes.state}
+            {!attributes.acceptingJobs && ', not accepting jobs'}
+            {attributes.stateReasons.length > 0 && ` (${attributes.stateReasons.join(', ')})`}
+          </p>
+          {attributes.stateMessage && <p>{attributes.stateMessage}</p>}
+          {media.length > 0 && <p>Media: {media.join(', ')}</p>}
+          {media.length === 0 && attributes.mediaSizes.length > 0 && (
+            <p>Media: {attributes.mediaSizes.map(size => `${size.width}x${size.height}mm`).join(', ')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
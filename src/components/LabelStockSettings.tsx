@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { LabelStock } from '../database/db';
+import { useToast } from './ui/use-toast';
+
+type StockForm = {
+  id?: string;
+  name: string;
+  width: string;
+  height: string;
+  unit: LabelStock['unit'];
+  shape: LabelStock['shape'];
+  sensing: LabelStock['sensing'];
+  gap: string;
+  linerOffset: string;
+  dpi: string;
+  aliases: string;
+};
+
+const emptyForm: StockForm = {
+  name: '',
+  width: '50',
+  height: '30',
+  unit: 'mm',
+  shape: 'rectangle',
+  sensing: 'gap',
+  gap: '',
+  linerOffset: '',
+  dpi: '',
+  aliases: ''
+};
+
+const toForm = (stock: LabelStock): StockForm => ({
+  id: stock.id,
+  name: stock.name,
+  width: String(stock.width),
+  height: String(stock.height),
+  unit: stock.unit,
+  shape: stock.shape,
+  sensing: stock.sensing,
+  gap: stock.gap !== undefined ? String(stock.gap) : '',
+  linerOffset: stock.linerOffset !== undefined ? String(stock.linerOffset) : '',
+  dpi: stock.dpi !== undefined ? String(stock.dpi) : '',
+  aliases: stock.aliases.join(', ')
+});
+
+// Empty optional fields are left unset
+const optionalNumber = (value: string) => (value.trim() ? parseFloat(value) : undefined);
+
+export function LabelStockSettings() {
+  const { toast } = useToast();
+  const [stocks, setStocks] = useState<LabelStock[]>([]);
+  const [form, setForm] = useState<StockForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadStocks = async () => {
+      try {
+        const data = await window.electron.ipcRenderer.invoke('db-get-label-stocks');
+        setStocks(data || []);
+      } catch (error) {
+        console.error('Failed to load label stocks:', error);
+      }
+    };
+
+    loadStocks();
+  }, []);
+
+  const handleChange = (key: keyof StockForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSelect = (id: string) => {
+    const stock = stocks.find(s => s.id === id);
+    setForm(stock ? toForm(stock) : emptyForm);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('db-save-label-stock', {
+        id: form.id,
+        name: form.name.trim(),
+        width: parseFloat(form.width),
+        height: parseFloat(form.height),
+        unit: form.unit,
+        shape: form.shape,
+        sensing: form.sensing,
+        gap: optionalNumber(form.gap),
+        linerOffset: optionalNumber(form.linerOffset),
+        dpi: optionalNumber(form.dpi),
+        aliases: form.aliases.split(',').map(alias => alias.trim()).filter(Boolean)
+      });
+      if (!result.success) {
+        toast({ title: 'Error saving label stock', description: result.message, variant: 'destructive' });
+        return;
+      }
+
+      setStocks(prev => (prev.some(s => s.id === result.stock.id)
+        ? prev.map(s => (s.id === result.stock.id ? result.stock : s))
+        : [...prev, result.stock]));
+      setForm(toForm(result.stock));
+      toast({
+        title: 'Label stock saved',
+        description: `Stickers and printers on "${result.stock.name}" are printed at its size.`
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form.id) return;
+
+    const response = await window.electron.ipcRenderer.invoke('confirm-dialog', {
+      title: 'Delete label stock',
+      message: `Delete the label stock "${form.name}"? Stickers and printers using it go back to their size text.`,
+      buttons: ['Delete', 'Cancel']
+    });
+    if (response !== 0) return; // User did not select "Delete"
+
+    await window.electron.ipcRenderer.invoke('db-delete-label-stock', form.id);
+    setStocks(prev => prev.filter(s => s.id !== form.id));
+    setForm(emptyForm);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={form.id || 'new'} onValueChange={handleSelect}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select label stock" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">New label stock</SelectItem>
+            {stocks.map(stock => (
+              <SelectItem key={stock.id} value={stock.id}>
+                {stock.name}
+                <span className="ml-2 text-xs text-gray-500">({stock.width}x{stock.height}{stock.unit})</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={() => handleSelect('new')} title="New label stock">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stockName">Name</Label>
+        <Input id="stockName" value={form.name} onChange={(e) => handleChange('name', e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="stockWidth">Width</Label>
+          <Input id="stockWidth" type="number" value={form.width} onChange={(e) => handleChange('width', e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="stockHeight">Height</Label>
+          <Input id="stockHeight" type="number" value={form.height} onChange={(e) => handleChange('height', e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Unit</Label>
+          <Select value={form.unit} onValueChange={(value) => handleChange('unit', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mm">mm</SelectItem>
+              <SelectItem value="in">in</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Shape</Label>
+          <Select value={form.shape} onValueChange={(value) => handleChange('shape', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rectangle">Rectangle</SelectItem>
+              <SelectItem value="rounded">Rounded rectangle</SelectItem>
+              <SelectItem value="circle">Circle</SelectItem>
+              <SelectItem value="oval">Oval</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Label sensing</Label>
+          <Select value={form.sensing} onValueChange={(value) => handleChange('sensing', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="gap">Gap between labels</SelectItem>
+              <SelectItem value="blackMark">Black mark</SelectItem>
+              <SelectItem value="continuous">Continuous</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="stockGap">{form.sensing === 'blackMark' ? 'Mark length' : 'Gap'} ({form.unit})</Label>
+          <Input
+            id="stockGap"
+            type="number"
+            min={0}
+            value={form.gap}
+            disabled={form.sensing === 'continuous'}
+            onChange={(e) => handleChange('gap', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="stockOffset">Liner offset ({form.unit})</Label>
+          <Input
+            id="stockOffset"
+            type="number"
+            min={0}
+            value={form.linerOffset}
+            onChange={(e) => handleChange('linerOffset', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="stockDpi">Resolution (dpi)</Label>
+          <Input
+            id="stockDpi"
+            type="number"
+            min={0}
+            value={form.dpi}
+            placeholder="Printer"
+            onChange={(e) => handleChange('dpi', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stockAliases">Aliases</Label>
+        <Input
+          id="stockAliases"
+          value={form.aliases}
+          placeholder="50x30mm, Standard"
+          onChange={(e) => handleChange('aliases', e.target.value)}
+        />
+        <p className="text-xs text-gray-500">
+          Sticker sizes from Notion that mean this stock. Stickers of the same width and height match it without an alias.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {form.id && (
+          <Button variant="outline" onClick={handleDelete} className="gap-2">
+            <Trash2 className="h-4 w-4" /> Delete
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Label Stock
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import TextareaAutosize from 'react-textarea-autosize';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Eye, Loader2, Plus, Trash2 } from 'lucide-react';
+import { LabelTemplate } from '../database/db';
+import { useToast } from './ui/use-toast';
+
+type TemplateForm = {
+  id?: string;
+  name: string;
+  width: string;
+  height: string;
+  sizes: string;
+  productTypes: string;
+  elements: string;
+};
+
+// Starting point for a new template showing each element type and the bindings
+const exampleElements = [
+  { type: 'text', x: 2, y: 2, width: 46, maxLines: 2, text: '{{product.name}}', font: 'Helvetica-Bold', fontSize: 3 },
+  { type: 'text', x: 2, y: 10, text: 'SKU: {{product.sku}}', fontSize: 2.5 },
+  { type: 'line', x1: 2, y1: 14, x2: 48, y2: 14, thickness: 0.2 },
+  { type: 'barcode', x: 2, y: 16, width: 46, height: 12, value: '{{product.barcode}}' }
+];
+
+const emptyForm: TemplateForm = {
+  name: '',
+  width: '50',
+  height: '30',
+  sizes: '',
+  productTypes: '',
+  elements: JSON.stringify(exampleElements, null, 2)
+};
+
+const toForm = (template: LabelTemplate): TemplateForm => ({
+  id: template.id,
+  name: template.name,
+  width: String(template.width),
+  height: String(template.height),
+  sizes: (template.sizes || []).join(', '),
+  productTypes: (template.productTypes || []).join(', '),
+  elements: JSON.stringify(template.elements, null, 2)
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function LabelTemplatesSettings() {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  const [preview, setPreview] = useState<{ image: string; productName: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const data = await window.electron.ipcRenderer.invoke('db-get-label-templates');
+        setTemplates(data || []);
+      } catch (error) {
+        console.error('Failed to load label templates:', error);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  const handleChange = (key: keyof TemplateForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSelect = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setForm(template ? toForm(template) : emptyForm);
+    setPreview(null);
+  };
+
+  // Build the template from the form; returns null and reports the problem when the JSON is invalid
+  const buildTemplate = () => {
+    let elements;
+    try {
+      elements = JSON.parse(form.elements);
+    } catch (error) {
+      toast({
+        title: 'Invalid elements JSON',
+        description: error.message,
+        variant: 'destructive'
+      });
+      return null;
+    }
+
+    return {
+      id: form.id,
+      name: form.name,
+      width: parseFloat(form.width),
+      height: parseFloat(form.height),
+      sizes: splitList(form.sizes),
+      productTypes: splitList(form.productTypes),
+      elements
+    };
+  };
+
+  const handlePreview = async () => {
+    const template = buildTemplate();
+    if (!template) return;
+
+    setIsPreviewing(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('preview-label-template', template);
+      if (result.success) {
+        setPreview({ image: result.image, productName: result.productName });
+      } else {
+        toast({ title: 'Preview failed', description: result.message, variant: 'destructive' });
+      }
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const template = buildTemplate();
+    if (!template) return;
+
+    setIsSaving(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('db-save-label-template', template);
+      if (!result.success) {
+        toast({ title: 'Error saving template', description: result.message, variant: 'destructive' });
+        return;
+      }
+
+      setTemplates(prev => (prev.some(t => t.id === result.template.id)
+        ? prev.map(t => (t.id === result.template.id ? result.template : t))
+        : [...prev, result.template]));
+      setForm(toForm(result.template));
+      toast({
+        title: 'Template saved',
+        description: `"${result.template.name}" will be used for matching stickers.`
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form.id) return;
+
+    const response = await window.electron.ipcRenderer.invoke('confirm-dialog', {
+      title: 'Delete template',
+      message: `Delete the template "${form.name}"?`,
+      buttons: ['Delete', 'Cancel']
+    });
+    if (response !== 0) return; // User did not select "Delete"
+
+    await window.electron.ipcRenderer.invoke('db-delete-label-template', form.id);
+    setTemplates(prev => prev.filter(t => t.id !== form.id));
+    setForm(emptyForm);
+    setPreview(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={form.id || 'new'} onValueChange={handleSelect}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">New template</SelectItem>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={() => handleSelect('new')} title="New template">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="templateName">Name</Label>
+        <Input id="templateName" value={form.name} onChange={(e) => handleChange('name', e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="templateWidth">Width (mm)</Label>
+          <Input id="templateWidth" type="number" value={form.width} onChange={(e) => handleChange('width', e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="templateHeight">Height (mm)</Label>
+          <Input id="templateHeight" type="number" value={form.height} onChange={(e) => handleChange('height', e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="templateSizes">Use for sticker sizes</Label>
+        <Input
+          id="templateSizes"
+          value={form.sizes}
+          placeholder="40x50, 50x30"
+          onChange={(e) => handleChange('sizes', e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="templateTypes">Use for product types</Label>
+        <Input
+          id="templateTypes"
+          value={form.productTypes}
+          placeholder="Comma-separated product types"
+          onChange={(e) => handleChange('productTypes', e.target.value)}
+        />
+        <p className="text-xs text-gray-500">
+          Required. Every sticker of these product types is printed from this template instead of its PDF,
+          or only the stickers of the sizes above when sizes are listed.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="templateElements">Elements (JSON)</Label>
+        <TextareaAutosize
+          id="templateElements"
+          minRows={8}
+          maxRows={20}
+          value={form.elements}
+          onChange={(e) => handleChange('elements', e.target.value)}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs"
+          spellCheck={false}
+        />
+        <p className="text-xs text-gray-500">
+          Elements: text, image, barcode, line and box, positioned in mm from the top-left corner.
+          Bindings: {'{{product.name}}'}, {'{{product.sku}}'}, {'{{product.barcode}}'}, {'{{product.price}}'},
+          {' {{product.localImagePath}}'}, {'{{sticker.name}}'}, {'{{date}}'}.
+        </p>
+      </div>
+
+      {preview && (
+        <div className="space-y-2">
+          <Label>Preview with {preview.productName}</Label>
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-white flex justify-center">
+            <img src={preview.image} alt="Template preview" className="max-w-full max-h-60" />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {form.id && (
+          <Button variant="outline" onClick={handleDelete} className="gap-2">
+            <Trash2 className="h-4 w-4" /> Delete
+          </Button>
+        )}
+        <Button variant="outline" onClick={handlePreview} disabled={isPreviewing} className="gap-2">
+          {isPreviewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+          Preview
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Moon, Sun, Settings as SettingsIcon, RefreshCw, Maximize, Minimize } from 'lucide-react';
+import { Moon, Sun, Settings as SettingsIcon, RefreshCw, Maximize, Minimize, ListOrdered, ShoppingBasket } from 'lucide-react';
 import { Button } from './ui/button';
 import { SettingsModal } from './SettingsModal';
+import { PrintQueuePanel } from './PrintQueuePanel';
+import { PrintBasketPanel, usePrintBasket } from './PrintBasket';
 import { Toaster } from './ui/toaster';
 import {
   Tooltip,
@@ -22,6 +24,7 @@ const Layout: React.FC<LayoutProps> = ({ children, onSyncFromNotion, isSyncing =
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [appName, setAppName] = useState('HEY ❤️');
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const { lines: basketLines } = usePrintBasket();
   
   // Apply dark theme immediately for consistent UX
   useEffect(() => {
@@ -153,6 +156,29 @@ const Layout: React.FC<LayoutProps> = ({ children, onSyncFromNotion, isSyncing =
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
+              <PrintBasketPanel>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="relative text-gray-500 dark:text-gray-300 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  <ShoppingBasket className="h-5 w-5" />
+                  {basketLines.length > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-blue-500 text-white text-xs flex items-center justify-center">
+                      {basketLines.length}
+                    </span>
+                  )}
+                </Button>
+              </PrintBasketPanel>
+              <PrintQueuePanel>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="text-gray-500 dark:text-gray-300 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  <ListOrdered className="h-5 w-5" />
+                </Button>
+              </PrintQueuePanel>
               <Button 
                 variant="ghost" 
                 size="icon" 
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { OverlayField, OverlayFieldType, OverlayFont, Sticker } from '../database/db';
+import { BarcodeSymbology } from '../lib/barcode/types';
+import { useToast } from './ui/use-toast';
+
+interface OverlayFieldsEditorProps {
+  sticker: Sticker | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (sticker: Sticker) => void;
+}
+
+const fieldTypes: { value: OverlayFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'price', label: 'Price' },
+  { value: 'date', label: 'Date' },
+  { value: 'barcode', label: 'Barcode' }
+];
+
+const barcodeSymbologies: { value: BarcodeSymbology; label: string }[] = [
+  { value: 'code128', label: 'Code 128' },
+  { value: 'ean13', label: 'EAN-13' },
+  { value: 'upca', label: 'UPC-A' },
+  { value: 'qr', label: 'QR Code' },
+  { value: 'datamatrix', label: 'Data Matrix' }
+];
+
+const fonts: OverlayFont[] = ['Helvetica', 'Helvetica-Bold', 'Courier', 'Courier-Bold', 'Times-Roman', 'Times-Bold'];
+
+// Product properties that can feed an overlay field
+const productFields = ['name', 'sku', 'barcode', 'type', 'price'];
+
+// Optional number input, empty means "use the default"
+const parseOptionalNumber = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+const createField = (): OverlayField => ({
+  id: `field_${Date.now()}`,
+  type: 'text',
+  label: 'New field',
+  source: 'prompt',
+  x: 2,
+  y: 2
+});
+
+const OverlayFieldsEditor: React.FC<OverlayFieldsEditorProps> = ({ sticker, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [fields, setFields] = useState<OverlayField[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (sticker) {
+      setFields(sticker.overlayFields || []);
+    }
+  }, [sticker]);
+
+  const updateField = (id: string, updates: Partial<OverlayField>) => {
+    setFields(prev => prev.map(field => (field.id === id ? { ...field, ...updates } : field)));
+  };
+
+  const handleSave = async () => {
+    if (!sticker) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await window.electron.ipcRenderer.invoke('db-update-sticker', sticker.id, { overlayFields: fields });
+      if (updated?.success === false) {
+        toast({
+          title: 'Overlay not saved',
+          description: updated.message,
+          variant: 'destructive'
+        });
+        return;
+      }
+      onSaved(updated);
+      onOpenChange(false);
+      toast({
+        title: 'Overlay saved',
+        description: `${fields.length} ${fields.length === 1 ? 'field' : 'fields'} on ${sticker.name}`
+      });
+    } catch (error) {
+      console.error('Error saving overlay fields:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save overlay fields',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sticker} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Overlay fields</DialogTitle>
+          <DialogDescription>
+            Fields are stamped onto {sticker?.name} when it is printed. Positions and sizes are in mm from the top-left corner.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {fields.length === 0 && (
+            <div className="text-center p-4 text-gray-500 dark:text-gray-400">
+              No overlay fields
+            </div>
+          )}
+
+          {fields.map(field => (
+            <div key={field.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-3">
+              <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label>Label</Label>
+                  <Input value={field.label} onChange={(e) => updateField(field.id, { label: e.target.value })} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFields(prev => prev.filter(f => f.id !== field.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove field</span>
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={field.type}
+                    onValueChange={(value) => updateField(field.id, { type: value as OverlayFieldType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fieldTypes.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Value from</Label>
+                  <Select
+                    value={field.source}
+                    onValueChange={(value) => updateField(field.id, { source: value as OverlayField['source'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="product">Product</SelectItem>
+                      <SelectItem value="prompt">Ask before printing</SelectItem>
+                      <SelectItem value="static">Fixed value</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {field.source === 'product' ? (
+                  <div className="space-y-1">
+                    <Label>Product field</Label>
+                    <Select
+                      value={field.productField || ''}
+                      onValueChange={(value) => updateField(field.id, { productField: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {productFields.map(name => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    <Label>{field.source === 'prompt' ? 'Default value' : 'Value'}</Label>
+                    <Input value={field.value || ''} onChange={(e) => updateField(field.id, { value: e.target.value })} />
+                  </div>
+                )}
+              </div>
+
+              {(field.type === 'price' || field.type === 'date') && (
+                <div className="space-y-1">
+                  <Label>{field.type === 'price' ? 'Currency' : 'Date format'}</Label>
+                  <Input
+                    value={field.format || ''}
+                    placeholder={field.type === 'price' ? 'грн' : 'DD.MM.YYYY'}
+                    onChange={(e) => updateField(field.id, { format: e.target.value || undefined })}
+                  />
+                </div>
+              )}
+
+              {field.type === 'barcode' && (
+                <div className="space-y-1">
+                  <Label>Symbology</Label>
+                  <Select
+                    value={field.symbology || 'code128'}
+                    onValueChange={(value) => updateField(field.id, { symbology: value as BarcodeSymbology })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {barcodeSymbologies.map(symbology => (
+                        <SelectItem key={symbology.value} value={symbology.value}>{symbology.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-4 gap-2">
+                <div className="space-y-1">
+                  <Label>X (mm)</Label>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={field.x}
+                    onChange={(e) => updateField(field.id, { x: parseOptionalNumber(e.target.value) ?? 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Y (mm)</Label>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={field.y}
+                    onChange={(e) => updateField(field.id, { y: parseOptionalNumber(e.target.value) ?? 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Width (mm)</Label>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={field.width ?? ''}
+                    onChange={(e) => updateField(field.id, { width: parseOptionalNumber(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Height (mm)</Label>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={field.height ?? ''}
+                    onChange={(e) => updateField(field.id, { height: parseOptionalNumber(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Font</Label>
+                  <Select
+                    value={field.font || 'Helvetica'}
+                    onValueChange={(value) => updateField(field.id, { font: value as OverlayFont })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fonts.map(font => (
+                        <SelectItem key={font} value={font}>{font}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Font size (mm)</Label>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={field.fontSize ?? ''}
+                    placeholder="3"
+                    onChange={(e) => updateField(field.id, { fontSize: parseOptionalNumber(e.target.value) })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <Button variant="outline" onClick={() => setFields(prev => [...prev, createField()])} className="gap-2 w-full">
+            <Plus className="h-4 w-4" /> Add field
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OverlayFieldsEditor;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Printer } from 'lucide-react';
+import { OverlayField, Product, Sticker } from '../database/db';
+
+interface OverlayPromptDialogProps {
+  sticker: Sticker | null;
+  product: Product;
+  onConfirm: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+// Fields the operator has to fill in before printing
+export const getPromptFields = (sticker: Sticker): OverlayField[] =>
+  (sticker.overlayFields || []).filter(field => field.source === 'prompt');
+
+const inputTypes: Record<OverlayField['type'], string> = {
+  text: 'text',
+  price: 'number',
+  date: 'date',
+  barcode: 'text'
+};
+
+const OverlayPromptDialog: React.FC<OverlayPromptDialogProps> = ({ sticker, product, onConfirm, onCancel }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Pre-fill each field with its default value whenever a new sticker is being printed
+  useEffect(() => {
+    if (!sticker) return;
+    setValues(Object.fromEntries(getPromptFields(sticker).map(field => [field.id, field.value || ''])));
+  }, [sticker]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(values);
+  };
+
+  return (
+    <Dialog open={!!sticker} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{sticker?.name}</DialogTitle>
+            <DialogDescription>
+              Enter the values to print on this label for {product.name}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {sticker && getPromptFields(sticker).map((field, index) => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`overlay-${field.id}`}>{field.label}</Label>
+                <Input
+                  id={`overlay-${field.id}`}
+                  type={inputTypes[field.type]}
+                  step={field.type === 'price' ? '0.01' : undefined}
+                  value={values[field.id] || ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                  autoFocus={index === 0}
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" className="gap-2">
+              <Printer className="h-4 w-4" /> Print
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OverlayPromptDialog;
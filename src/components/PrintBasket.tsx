@@ -0,0 +1,270 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerBody, DrawerFooter, DrawerTrigger } from './ui/drawer';
+import { Button } from './ui/button';
+import { Loader2, Printer, Trash2, X } from 'lucide-react';
+import { PrintJob, PrintJobStatus, Product, Sticker } from '../database/db';
+import { useToast } from './ui/use-toast';
+import QuantityStepper from './QuantityStepper';
+
+export interface BasketLine {
+  id: string;
+  stickerId: string;
+  stickerName: string;
+  size: string;
+  productId: string;
+  productName: string;
+  productSku: string;
+  quantity: number;
+}
+
+type LineStatus = { status: PrintJobStatus; message?: string };
+
+type PrintBasketContextValue = {
+  lines: BasketLine[];
+  addLine: (product: Product, sticker: Sticker, quantity: number) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  removeLine: (lineId: string) => void;
+  clear: () => void;
+};
+
+const BASKET_STORAGE_KEY = 'printBasket';
+
+const PrintBasketContext = createContext<PrintBasketContextValue | null>(null);
+
+// Restore the basket saved by a previous session
+const loadStoredLines = (): BasketLine[] => {
+  try {
+    const stored = localStorage.getItem(BASKET_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading print basket:', error);
+    return [];
+  }
+};
+
+export function PrintBasketProvider({ children }: { children: React.ReactNode }) {
+  const [lines, setLines] = useState<BasketLine[]>(loadStoredLines);
+
+  useEffect(() => {
+    localStorage.setItem(BASKET_STORAGE_KEY, JSON.stringify(lines));
+  }, [lines]);
+
+  const addLine = (product: Product, sticker: Sticker, quantity: number) => {
+    setLines(prev => {
+      // Adding the same sticker again increases the quantity of its existing line
+      const existing = prev.find(line => line.stickerId === sticker.id);
+      if (existing) {
+        return prev.map(line => (line.id === existing.id ? { ...line, quantity: line.quantity + quantity } : line));
+      }
+
+      return [...prev, {
+        id: `${Date.now()}_${sticker.id}`,
+        stickerId: sticker.id,
+        stickerName: sticker.name,
+        size: sticker.size,
+        productId: product.id,
+        productName: product.name,
+        productSku: product.sku,
+        quantity
+      }];
+    });
+  };
+
+  const updateQuantity = (lineId: string, quantity: number) => {
+    setLines(prev => prev.map(line => (line.id === lineId ? { ...line, quantity } : line)));
+  };
+
+  const removeLine = (lineId: string) => {
+    setLines(prev => prev.filter(line => line.id !== lineId));
+  };
+
+  const clear = () => setLines([]);
+
+  return (
+    <PrintBasketContext.Provider value={{ lines, addLine, updateQuantity, removeLine, clear }}>
+      {children}
+    </PrintBasketContext.Provider>
+  );
+}
+
+export function usePrintBasket(): PrintBasketContextValue {
+  const context = useContext(PrintBasketContext);
+  if (!context) {
+    throw new Error('usePrintBasket must be used within a PrintBasketProvider');
+  }
+  return context;
+}
+
+const statusStyles: Record<PrintJobStatus, string> = {
+  queued: 'text-gray-500',
+  sending: 'text-blue-500 dark:text-blue-300',
+  sent: 'text-blue-600 dark:text-blue-400',
+  completed: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-yellow-600 dark:text-yellow-400'
+};
+
+export function PrintBasketPanel({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast();
+  const { lines, updateQuantity, removeLine, clear } = usePrintBasket();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lineStatuses, setLineStatuses] = useState<Record<string, LineStatus>>({});
+
+  // Follow the jobs of the submitted batch line by line
+  useEffect(() => {
+    const unsubscribe = window.electron.ipcRenderer.on('print-progress', (job: PrintJob) => {
+      if (!job.lineId) return;
+      setLineStatuses(prev => ({ ...prev, [job.lineId]: { status: job.status, message: job.error } }));
+    });
+
+    return () => unsubscribe?.();
+  }, []);
+
+  const totalLabels = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const isFinished = (lineId: string) => lineStatuses[lineId]?.status === 'completed';
+  // Lines printed or still on their way to the printer are not sent again
+  const isPending = (lineId: string) => ['queued', 'sending', 'sent'].includes(lineStatuses[lineId]?.status);
+  const linesToPrint = lines.filter(line => !isFinished(line.id) && !isPending(line.id));
+
+  const handlePrintAll = async () => {
+    if (linesToPrint.length === 0) return;
+
+    // Statuses of an earlier batch only stay on the lines that are not sent again
+    setLineStatuses(prev => Object.fromEntries(
+      Object.entries(prev).filter(([lineId]) => lines.some(line => line.id === lineId && !linesToPrint.includes(line)))
+    ));
+    setIsSubmitting(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('print-batch', linesToPrint.map(line => ({
+        lineId: line.id,
+        stickerId: line.stickerId,
+        copies: line.quantity
+      })));
+
+      // Queued lines may already have progressed through print-progress by now, so only record failures
+      const failures: Record<string, LineStatus> = {};
+      for (const lineResult of result.results) {
+        if (!lineResult.success) {
+          failures[lineResult.lineId] = { status: 'failed', message: lineResult.message };
+        }
+      }
+      setLineStatuses(prev => ({ ...prev, ...failures }));
+
+      const failed = result.results.filter(r => !r.success).length;
+      const skipped = lines.length - linesToPrint.length;
+      toast({
+        title: failed === 0 ? 'Batch sent' : 'Batch sent with errors',
+        description: (failed === 0
+          ? `${result.results.length} lines added to the print queue.`
+          : `${failed} of ${result.results.length} lines could not be queued.`)
+          + (skipped > 0 ? ` ${skipped} printed or printing ${skipped === 1 ? 'line was' : 'lines were'} not sent again.` : ''),
+        variant: failed === 0 ? 'default' : 'destructive'
+      });
+    } catch (error) {
+      console.error('Error printing basket:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to print basket',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Remove the lines that printed successfully, keeping failures for another attempt
+  const handleClearPrinted = () => {
+    lines.filter(line => isFinished(line.id)).forEach(line => removeLine(line.id));
+    setLineStatuses(prev => Object.fromEntries(Object.entries(prev).filter(([, s]) => s.status !== 'completed')));
+  };
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <DrawerTrigger asChild>
+        {children}
+      </DrawerTrigger>
+      <DrawerContent position="right" size="md">
+        <DrawerHeader>
+          <DrawerTitle className="text-xl">Print Basket</DrawerTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {lines.length} {lines.length === 1 ? 'line' : 'lines'} · {totalLabels} labels
+          </p>
+        </DrawerHeader>
+
+        <DrawerBody>
+          {lines.length === 0 ? (
+            <div className="text-center p-8 text-gray-500 dark:text-gray-400">
+              The basket is empty. Add stickers from a product to print them together.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {lines.map((line, index) => (
+                <div key={line.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="min-w-0">
+                      <h4 className="font-medium truncate" title={line.stickerName}>
+                        {index + 1}. {line.stickerName}
+                      </h4>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                        {line.productName} · {line.productSku} · {line.size}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeLine(line.id)}
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+                  <div className="flex justify-between items-center mt-2">
+                    <QuantityStepper
+                      value={line.quantity}
+                      onChange={(value) => updateQuantity(line.id, value)}
+                      disabled={isSubmitting}
+                    />
+                    {lineStatuses[line.id] && (
+                      <span className={`text-sm font-medium ${statusStyles[lineStatuses[line.id].status]}`}>
+                        {lineStatuses[line.id].status}
+                      </span>
+                    )}
+                  </div>
+                  {lineStatuses[line.id]?.message && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-2">{lineStatuses[line.id].message}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DrawerBody>
+
+        <DrawerFooter className="gap-2">
+          <Button variant="outline" onClick={clear} disabled={isSubmitting || lines.length === 0} className="gap-2">
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </Button>
+          {lines.some(line => isFinished(line.id)) && (
+            <Button variant="outline" onClick={handleClearPrinted} disabled={isSubmitting}>
+              Remove printed
+            </Button>
+          )}
+          <Button onClick={handlePrintAll} disabled={isSubmitting || linesToPrint.length === 0} className="gap-2">
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" /> Sending...
+              </>
+            ) : (
+              <>
+                <Printer className="h-4 w-4" />
+                {linesToPrint.length === lines.length ? 'Print all' : `Print ${linesToPrint.length} remaining`}
+              </>
+            )}
+          </Button>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  );
+}
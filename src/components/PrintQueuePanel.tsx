@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerBody, DrawerTrigger } from './ui/drawer';
+import { Button } from './ui/button';
+import { Loader2, RotateCcw, XCircle, Trash2 } from 'lucide-react';
+import { PrintJob, PrintJobStatus } from '../database/db';
+import { useToast } from './ui/use-toast';
+
+type PrinterFailover = {
+  groupName: string;
+  printerName: string;
+  reason: string;
+  jobIds: string[];
+};
+
+type PrintQueuePanelProps = {
+  children: React.ReactNode;
+};
+
+const statusStyles: Record<PrintJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  sending: 'bg-blue-50 text-blue-600 dark:bg-blue-950 dark:text-blue-300',
+  sent: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200',
+  cancelled: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200'
+};
+
+export function PrintQueuePanel({ children }: PrintQueuePanelProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the job history when the panel is opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadJobs = async () => {
+      setIsLoading(true);
+      try {
+        const jobsData = await window.electron.ipcRenderer.invoke('print-queue-get-jobs');
+        setJobs(jobsData || []);
+      } catch (error) {
+        console.error('Error loading print jobs:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadJobs();
+  }, [isOpen]);
+
+  // Keep the list in sync with job updates streamed from the main process
+  useEffect(() => {
+    const unsubscribe = window.electron.ipcRenderer.on('print-progress', (job: PrintJob) => {
+      setJobs(prev => {
+        const exists = prev.some(j => j.id === job.id);
+        return exists ? prev.map(j => (j.id === job.id ? job : j)) : [job, ...prev];
+      });
+    });
+
+    return () => unsubscribe?.();
+  }, []);
+
+  // A printer of a group stopped and its jobs went to the other printers
+  useEffect(() => {
+    const unsubscribe = window.electron.ipcRenderer.on('printer-failover', (failover: PrinterFailover) => {
+      toast({
+        title: `${failover.printerName} stopped`,
+        description: `${failover.reason}. ${failover.jobIds.length} ${failover.jobIds.length === 1 ? 'job moved' : 'jobs moved'} to the other printers in "${failover.groupName}".`,
+        variant: 'destructive'
+      });
+    });
+
+    return () => unsubscribe?.();
+  }, []);
+
+  const handleRetry = async (job: PrintJob) => {
+    const result = await window.electron.ipcRenderer.invoke('print-queue-retry', job.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const handleCancel = async (job: PrintJob) => {
+    const result = await window.electron.ipcRenderer.invoke('print-queue-cancel', job.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const handleClearFinished = async () => {
+    try {
+      await window.electron.ipcRenderer.invoke('print-queue-clear-finished');
+      setJobs(prev => prev.filter(j => j.status !== 'completed' && j.status !== 'cancelled'));
+    } catch (error) {
+      console.error('Error clearing print jobs:', error);
+    }
+  };
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <DrawerTrigger asChild>
+        {children}
+      </DrawerTrigger>
+      <DrawerContent position="right" size="md">
+        <DrawerHeader>
+          <DrawerTitle className="text-xl">Print Queue</DrawerTitle>
+        </DrawerHeader>
+
+        <DrawerBody>
+          <div className="flex justify-end mb-4">
+            <Button variant="outline" size="sm" onClick={handleClearFinished} className="gap-2">
+              <Trash2 className="h-4 w-4" />
+              Clear finished
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center p-8 text-gray-500 dark:text-gray-400">
+              No print jobs yet
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map(job => (
+                <div key={job.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="min-w-0">
+                      <h4 className="font-medium truncate" title={job.stickerName}>{job.stickerName}</h4>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {job.printerName} · {job.copies} {job.copies === 1 ? 'copy' : 'copies'}
+                        {job.cupsJobId && ` · ${job.cupsJobId}`}
+                        {job.ippJobId !== undefined && ` · job ${job.ippJobId}`}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(job.createdAt).toLocaleString()} · {job.submittedBy}
+                      </p>
+                    </div>
+                    <span className={`text-xs font-medium px-2 py-1 rounded ${statusStyles[job.status]}`}>
+                      {job.status}
+                    </span>
+                  </div>
+
+                  {job.error && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-2">{job.error}</p>
+                  )}
+
+                  {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'queued' || job.status === 'sending' || job.status === 'sent') && (
+                    <div className="flex justify-end gap-2 mt-2">
+                      {(job.status === 'failed' || job.status === 'cancelled') && (
+                        <Button variant="outline" size="sm" onClick={() => handleRetry(job)} className="gap-2">
+                          <RotateCcw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                      {(job.status === 'queued' || job.status === 'sending' || job.status === 'sent') && (
+                        <Button variant="outline" size="sm" onClick={() => handleCancel(job)} className="gap-2">
+                          <XCircle className="h-4 w-4" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Crosshair, Loader2 } from 'lucide-react';
+import { PrinterCalibration, PrinterSetting } from '../database/db';
+import { useToast } from './ui/use-toast';
+
+interface PrinterCalibrationSettingsProps {
+  // Printer setting as edited, so the calibration page uses the values not yet saved
+  printerSetting?: Pick<PrinterSetting, 'size' | 'printerName' | 'labelStockId' | 'options'>;
+  onChange: (calibration: PrinterCalibration | undefined) => void;
+}
+
+const emptyCalibration: PrinterCalibration = {
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  widthCorrection: 0,
+  heightCorrection: 0
+};
+
+export function PrinterCalibrationSettings({ printerSetting, onChange }: PrinterCalibrationSettingsProps) {
+  const { toast } = useToast();
+  const [isPrinting, setIsPrinting] = useState(false);
+  const calibration = printerSetting?.options.calibration || emptyCalibration;
+
+  const update = (key: keyof PrinterCalibration, value: number) => {
+    const updated = { ...calibration, [key]: value };
+    // A calibration of all zeros is the same as none
+    onChange(Object.values(updated).some(v => v !== 0) ? updated : undefined);
+  };
+
+  const numberInput = (key: keyof PrinterCalibration, label: string, step = '0.1') => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={calibration[key]}
+        onChange={(e) => update(key, parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  );
+
+  const handlePrintCalibrationPage = async () => {
+    setIsPrinting(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('print-calibration-page', printerSetting);
+      if (result.success) {
+        toast({
+          title: 'Calibration page sent',
+          description: 'Measure where the border and crosshair land and adjust the offsets.'
+        });
+      } else {
+        toast({ title: 'Calibration page failed', description: result.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Calibration page failed', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Calibration</Label>
+      <div className="grid grid-cols-3 gap-2">
+        {numberInput('offsetX', 'Right (mm)')}
+        {numberInput('offsetY', 'Down (mm)')}
+        {numberInput('rotation', 'Clockwise (°)')}
+        {numberInput('widthCorrection', 'Width +/- (mm)')}
+        {numberInput('heightCorrection', 'Height +/- (mm)')}
+      </div>
+      <p className="text-xs text-gray-500">
+        Applied to every document just before it is sent to this printer. Print the calibration page, measure how far
+        the crosshair is from the centre of the label and how long the rulers print, and enter the difference.
+      </p>
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          onClick={handlePrintCalibrationPage}
+          disabled={isPrinting || !printerSetting?.printerName}
+          className="gap-2"
+        >
+          {isPrinting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+          Print calibration page
+        </Button>
+      </div>
+    </div>
+  );
+}
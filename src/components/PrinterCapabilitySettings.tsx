@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Loader2 } from 'lucide-react';
+
+type CapabilityOption = 'media' | 'driverOptions';
+
+interface PrinterCapabilitySettingsProps {
+  printerName: string;
+  options: { media?: string; driverOptions?: Record<string, string> };
+  onChange: (key: CapabilityOption, value: any) => void;
+}
+
+type PrinterCapabilities = {
+  source: 'cups' | 'ipp' | 'virtual';
+  media: { value: string; label: string }[];
+  defaultMedia?: string;
+  customMedia: boolean;
+  resolutions: number[];
+  driverOptions: { keyword: string; label: string; choices: string[]; defaultChoice?: string }[];
+};
+
+// Select values standing for "no value set"
+const STICKER_SIZE = '__sticker';
+const PRINTER_DEFAULT = '__default';
+
+// Wait for the URI of a network printer to be typed before querying it
+const QUERY_DELAY = 500;
+
+export function PrinterCapabilitySettings({ printerName, options, onChange }: PrinterCapabilitySettingsProps) {
+  const [capabilities, setCapabilities] = useState<PrinterCapabilities | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCapabilities(null);
+    setError(null);
+    if (!printerName) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electron.ipcRenderer.invoke('get-printer-capabilities', printerName);
+        if (cancelled) return;
+        if (result.success) {
+          setCapabilities(result.capabilities);
+        } else {
+          setError(result.message);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, QUERY_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [printerName]);
+
+  const setDriverOption = (keyword: string, value: string) => {
+    const driverOptions = { ...options.driverOptions };
+    if (value === PRINTER_DEFAULT) {
+      delete driverOptions[keyword];
+    } else {
+      driverOptions[keyword] = value;
+    }
+    onChange('driverOptions', Object.keys(driverOptions).length > 0 ? driverOptions : undefined);
+  };
+
+  const media = capabilities?.media || [];
+  // Keep a custom size that is not one of the listed media selectable
+  const isCustomMedia = !!options.media && !media.some(choice => choice.value === options.media);
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center">
+        Media
+        {isLoading && <Loader2 className="ml-2 h-3 w-3 animate-spin" />}
+      </Label>
+      {media.length > 0 ? (
+        <Select
+          value={options.media || STICKER_SIZE}
+          onValueChange={(value) => onChange('media', value === STICKER_SIZE ? undefined : value)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={STICKER_SIZE}>From sticker size</SelectItem>
+            {isCustomMedia && <SelectItem value={options.media}>{options.media}</SelectItem>}
+            {media.map(choice => (
+              <SelectItem key={choice.value} value={choice.value}>
+                {choice.label}
+                {choice.value === capabilities.defaultMedia && (
+                  <span className="ml-2 text-xs text-gray-500">(default)</span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          value={options.media || ''}
+          placeholder="From sticker size, e.g. Custom.50x30mm"
+          onChange={(e) => onChange('media', e.target.value.trim() || undefined)}
+        />
+      )}
+      {capabilities?.customMedia && media.length > 0 && (
+        <p className="text-xs text-gray-500">This printer also accepts custom sizes taken from the sticker size.</p>
+      )}
+      {error && <p className="text-xs text-red-500">Could not read the printer capabilities: {error}</p>}
+
+      {capabilities && capabilities.resolutions.length > 0 && (
+        <p className="text-xs text-gray-500">Resolutions: {capabilities.resolutions.join(', ')} dpi</p>
+      )}
+
+      {capabilities && capabilities.driverOptions.length > 0 && (
+        <div className="space-y-1">
+          <Label>Driver options</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {capabilities.driverOptions.map(option => (
+              <div key={option.keyword} className="space-y-1">
+                <span className="text-xs text-gray-500">{option.label}</span>
+                <Select
+                  value={options.driverOptions?.[option.keyword] || PRINTER_DEFAULT}
+                  onValueChange={(value) => setDriverOption(option.keyword, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PRINTER_DEFAULT}>
+                      Printer default{option.defaultChoice ? ` (${option.defaultChoice})` : ''}
+                    </SelectItem>
+                    {option.choices.map(choice => (
+                      <SelectItem key={choice} value={choice}>{choice}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Activity, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { PrinterGroup, PrinterSetting } from '../database/db';
+import { useToast } from './ui/use-toast';
+
+interface PrinterGroupSettingsProps {
+  groupId?: string;
+  // Installed printers that can be added to a group
+  availablePrinters: string[];
+  // Options of the printer setting, for the status query of raw printers
+  options: PrinterSetting['options'];
+  onChange: (group: PrinterGroup | undefined) => void;
+}
+
+type MemberStatus = {
+  printerName: string;
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  problem?: string;
+  pendingJobs: number;
+};
+
+const NEW_GROUP = 'new';
+
+export function PrinterGroupSettings({ groupId, availablePrinters, options, onChange }: PrinterGroupSettingsProps) {
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<PrinterGroup[]>([]);
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState<string[]>([]);
+  const [memberUri, setMemberUri] = useState('');
+  const [statuses, setStatuses] = useState<Record<string, MemberStatus>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    const loadGroups = async () => {
+      try {
+        const data = await window.electron.ipcRenderer.invoke('db-get-printer-groups');
+        setGroups(data || []);
+      } catch (error) {
+        console.error('Failed to load printer groups:', error);
+      }
+    };
+
+    loadGroups();
+  }, []);
+
+  // Edit the group the printer setting targets
+  useEffect(() => {
+    const group = groups.find(g => g.id === groupId);
+    setName(group?.name || '');
+    setMembers(group?.members || []);
+    setStatuses({});
+  }, [groupId, groups]);
+
+  const addMember = (printerName: string) => {
+    const member = printerName.trim();
+    if (member && !members.includes(member)) {
+      setMembers(prev => [...prev, member]);
+    }
+  };
+
+  const handleAddUri = () => {
+    // Bare addresses are raw printers on port 9100, like in the raw socket settings
+    const uri = memberUri.trim();
+    addMember(/^[a-z]+:\/\//i.test(uri) ? uri : `socket://${uri}:9100`);
+    setMemberUri('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('db-save-printer-group', { id: groupId, name, members });
+      if (!result.success) {
+        toast({ title: 'Error saving printer group', description: result.message, variant: 'destructive' });
+        return;
+      }
+
+      setGroups(prev => (prev.some(g => g.id === result.group.id)
+        ? prev.map(g => (g.id === result.group.id ? result.group : g))
+        : [...prev, result.group]));
+      onChange(result.group);
+      toast({
+        title: 'Printer group saved',
+        description: `Jobs go to the least busy of ${result.group.members.length} printers. Save the printer settings to use it.`
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!groupId) return;
+
+    const response = await window.electron.ipcRenderer.invoke('confirm-dialog', {
+      title: 'Delete printer group',
+      message: `Delete the printer group "${name}"? Printer settings using it need a printer chosen again.`,
+      buttons: ['Delete', 'Cancel']
+    });
+    if (response !== 0) return; // User did not select "Delete"
+
+    await window.electron.ipcRenderer.invoke('db-delete-printer-group', groupId);
+    setGroups(prev => prev.filter(g => g.id !== groupId));
+    onChange(undefined);
+  };
+
+  const handleCheckStatus = async () => {
+    if (!groupId) return;
+
+    setIsChecking(true);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('printer-group-status', groupId, options);
+      if (result.success) {
+        setStatuses(Object.fromEntries(result.members.map((m: MemberStatus) => [m.printerName, m])));
+      } else {
+        toast({ title: 'Could not check the printers', description: result.message, variant: 'destructive' });
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const describeStatus = (status?: MemberStatus) => {
+    if (!status) return null;
+    const parts: string[] = [status.problem || status.state];
+    if (status.pendingJobs > 0) parts.push(`${status.pendingJobs} waiting`);
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Printer group</Label>
+      <Select
+        value={groupId || NEW_GROUP}
+        onValueChange={(value) => onChange(groups.find(g => g.id === value))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NEW_GROUP}>New printer group</SelectItem>
+          {groups.map(group => (
+            <SelectItem key={group.id} value={group.id}>
+              {group.name}
+              <span className="ml-2 text-xs text-gray-500">({group.members.length} printers)</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input value={name} placeholder="Group name, e.g. Packing table" onChange={(e) => setName(e.target.value)} />
+
+      <div className="space-y-1">
+        {members.map(member => (
+          <div key={member} className="flex items-center gap-2 text-sm">
+            <span className="flex-1 truncate" title={member}>{member}</span>
+            {describeStatus(statuses[member]) && (
+              <span className={`text-xs ${statuses[member].problem ? 'text-red-500' : 'text-gray-500'}`}>
+                {describeStatus(statuses[member])}
+              </span>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setMembers(prev => prev.filter(m => m !== member))}
+              title="Remove from group"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {members.length === 0 && (
+          <p className="text-xs text-gray-500">No printers in this group yet</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Select value="" onValueChange={addMember}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add installed printer" />
+          </SelectTrigger>
+          <SelectContent>
+            {availablePrinters.filter(p => !members.includes(p)).map(printer => (
+              <SelectItem key={printer} value={printer}>{printer}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={memberUri}
+          placeholder="ipp:// URI or raw printer address"
+          onChange={(e) => setMemberUri(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && memberUri.trim() && handleAddUri()}
+        />
+        <Button variant="outline" size="icon" onClick={handleAddUri} disabled={!memberUri.trim()} title="Add printer">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Each job goes to the least busy printer of the group that is working. When a printer stops, runs out of paper
+        or reports an error, its waiting jobs move to the next one. Printers should be identical and loaded with the same stock.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        {groupId && (
+          <>
+            <Button variant="outline" onClick={handleCheckStatus} disabled={isChecking} className="gap-2">
+              {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Activity className="h-4 w-4" />}
+              Check printers
+            </Button>
+            <Button variant="outline" onClick={handleDelete} className="gap-2">
+              <Trash2 className="h-4 w-4" /> Delete
+            </Button>
+          </>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Group
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { PayloadFormat, PrinterSetting } from '../database/db';
+
+type LanguageOption = 'payloadFormat' | 'dpi' | 'density' | 'speed' | 'gap' | 'darkness';
+
+interface PrinterLanguageSettingsProps {
+  options: Pick<PrinterSetting['options'], LanguageOption>;
+  // Label of the PDF format, which differs between driver queues and raw sockets
+  pdfLabel: string;
+  onChange: (key: LanguageOption, value: any) => void;
+}
+
+const payloadFormats: { value: PayloadFormat; label: string }[] = [
+  { value: 'tspl', label: 'TSPL (TSC, Gainscha)' },
+  { value: 'zpl', label: 'ZPL (Zebra)' }
+];
+
+// Formats rendered as a bitmap at the printer resolution
+const bitmapFormats: PayloadFormat[] = ['tspl', 'zpl'];
+
+export function PrinterLanguageSettings({ options, pdfLabel, onChange }: PrinterLanguageSettingsProps) {
+  const format = options.payloadFormat || 'pdf';
+
+  const numberInput = (key: Exclude<LanguageOption, 'payloadFormat' | 'dpi'>, label: string, placeholder: string, step = '1') => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        min={0}
+        placeholder={placeholder}
+        value={options[key] ?? ''}
+        onChange={(e) => onChange(key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Printer language</Label>
+      <Select
+        value={format}
+        onValueChange={(value) => onChange('payloadFormat', value === 'pdf' ? undefined : value)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="pdf">{pdfLabel}</SelectItem>
+          {payloadFormats.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {bitmapFormats.includes(format) && (
+        <>
+          <p className="text-xs text-gray-500">
+            The sticker is rendered as a black and white bitmap at the printer resolution and sent as raw data.
+          </p>
+          <div className="grid grid-cols-4 gap-2">
+            <div className="space-y-1">
+              <Label>Resolution</Label>
+              <Select
+                value={String(options.dpi || 203)}
+                onValueChange={(value) => onChange('dpi', parseInt(value, 10))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="203">203 dpi</SelectItem>
+                  <SelectItem value="300">300 dpi</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {format === 'zpl' ? (
+              numberInput('darkness', 'Darkness (0-30)', '15')
+            ) : (
+              numberInput('density', 'Density (0-15)', '8')
+            )}
+            {numberInput('speed', 'Speed (in/s)', '4')}
+            {format === 'tspl' && numberInput('gap', 'Gap (mm)', '2', '0.1')}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Product } from '../database/db';
+import type { HighlightRange, ProductSearchResult } from '../lib/product-search';
 import { Card, CardContent } from './ui/card';
 import { cn } from '../utils/cn';
 import { BarcodeIcon, ImageOff } from 'lucide-react';
@@ -7,10 +8,31 @@ import { BarcodeIcon, ImageOff } from 'lucide-react';
 interface ProductCardProps {
   product: Product;
   isSelected: boolean;
+  // Parts of the fields that matched the search query
+  highlights?: ProductSearchResult['highlights'];
   onClick: () => void;
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, onClick }) => {
+// Text with the matched ranges marked
+const Highlighted: React.FC<{ text: string; ranges?: HighlightRange[] }> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-700">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, highlights, onClick }) => {
   const [imageError, setImageError] = useState(false);
 
   // Get image URL through helper function
@@ -46,16 +68,18 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, onClick
         )}
       </div>
       <CardContent className="p-4">
-        <h3 className="text-base font-medium mb-2 text-gray-900 dark:text-gray-100 line-clamp-1">{product.name}</h3>
+        <h3 className="text-base font-medium mb-2 text-gray-900 dark:text-gray-100 line-clamp-1">
+          <Highlighted text={product.name} ranges={highlights?.name} />
+        </h3>
         <div className="space-y-1">
-          <p className="text-sm font-mono text-gray-700 dark:text-gray-300">SKU: {product.sku}</p>
+          <p className="text-sm font-mono text-gray-700 dark:text-gray-300">SKU: <Highlighted text={product.sku} ranges={highlights?.sku} /></p>
           <div className="flex flex-wrap items-center gap-2">
             <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100">
-              {product.type}
+              <Highlighted text={product.type} ranges={highlights?.type} />
             </span>
             {product.barcode && (
               <span className="flex items-center text-xs font-mono text-gray-500 dark:text-gray-400">
-                <BarcodeIcon className="w-4 h-4 mr-1" /> {product.barcode}
+                <BarcodeIcon className="w-4 h-4 mr-1" /> <Highlighted text={product.barcode} ranges={highlights?.barcode} />
               </span>
             )}
           </div>
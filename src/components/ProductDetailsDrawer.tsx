@@ -1,9 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerBody } from './ui/drawer';
 import { Button } from './ui/button';
-import { X, Loader2 } from 'lucide-react';
-import { Product, Sticker } from '../database/db';
+import { X, Loader2, ShoppingBasket, SlidersHorizontal, FileDown, ScanLine } from 'lucide-react';
+import { LabelStock, Product, Sticker } from '../database/db';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
 import { Skeleton } from './ui/skeleton';
+import QuantityStepper from './QuantityStepper';
+import StickerSize from './StickerSize';
+import { usePrintBasket } from './PrintBasket';
+import { useToast } from './ui/use-toast';
+import OverlayFieldsEditor from './OverlayFieldsEditor';
+import OverlayPromptDialog, { getPromptFields } from './OverlayPromptDialog';
+import ThermalPreviewDialog from './ThermalPreviewDialog';
+
+// Select value for a sticker matched to a label stock by its size
+const AUTO_LABEL_STOCK = '__auto';
 
 interface ProductDetailsDrawerProps {
   product: Product;
@@ -17,8 +34,15 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
   onOpenChange 
 }) => {
   const [stickers, setStickers] = useState<Sticker[]>([]);
+  const [labelStocks, setLabelStocks] = useState<LabelStock[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [printingStickers, setPrintingStickers] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [editingSticker, setEditingSticker] = useState<Sticker | null>(null);
+  const [promptSticker, setPromptSticker] = useState<Sticker | null>(null);
+  const [thermalSticker, setThermalSticker] = useState<Sticker | null>(null);
+  const { addLine } = usePrintBasket();
+  const { toast } = useToast();
   
   useEffect(() => {
     const fetchStickers = async () => {
@@ -29,6 +53,12 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
         const fetchedStickers = await window.electron.ipcRenderer.invoke('db-get-stickers', product.id);
         console.log(`Found ${fetchedStickers.length} stickers for product ${product.sku}`);
         setStickers(fetchedStickers);
+        setLabelStocks(await window.electron.ipcRenderer.invoke('db-get-label-stocks') || []);
+        
+        // Start each sticker at the quantity it was last printed with
+        setQuantities(Object.fromEntries(
+          fetchedStickers.map((s: Sticker) => [s.id, s.printQuantity || 1])
+        ));
       } catch (error) {
         console.error('Error fetching stickers:', error);
       } finally {
@@ -41,18 +71,43 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
     }
   }, [product?.id, isOpen]);
 
-  const handlePrint = async (sticker: Sticker) => {
-    console.log(`Printing sticker: ${sticker.name}`);
+  // Pin a sticker to a label stock, or let it be matched by size again
+  const handleLabelStockChange = async (sticker: Sticker, value: string) => {
+    const labelStockId = value === AUTO_LABEL_STOCK ? undefined : value;
+    const updated = await window.electron.ipcRenderer.invoke('db-update-sticker', sticker.id, { labelStockId });
+    if (updated?.success === false) {
+      toast({ title: 'Label stock not changed', description: updated.message, variant: 'destructive' });
+      return;
+    }
+    if (updated) {
+      setStickers(prev => prev.map(s => (s.id === sticker.id ? updated : s)));
+    }
+  };
+
+  // Ask for the overlay values first when the sticker has fields filled in at print time
+  const handlePrint = (sticker: Sticker) => {
+    if (getPromptFields(sticker).length > 0) {
+      setPromptSticker(sticker);
+      return;
+    }
+    printSticker(sticker);
+  };
+
+  const printSticker = async (sticker: Sticker, overlayValues?: Record<string, string>) => {
+    const copies = quantities[sticker.id] || 1;
+    console.log(`Printing ${copies} x sticker: ${sticker.name}`);
     
     // Set loading state for this specific sticker
     setPrintingStickers(prev => ({ ...prev, [sticker.id]: true }));
     
     try {
-      const result = await window.electron.ipcRenderer.invoke('print-sticker', sticker.id);
+      const result = await window.electron.ipcRenderer.invoke('print-sticker', sticker.id, copies, overlayValues);
       console.log('Print result:', result);
       
       if (!result.success) {
         console.error('Print failed:', result.message, result.details);
+      } else {
+        setStickers(prev => prev.map(s => (s.id === sticker.id ? { ...s, printQuantity: copies } : s)));
       }
     } catch (error) {
       console.error('Error printing sticker:', error);
@@ -62,6 +117,48 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
     }
   };
 
+  const handleAddToBasket = (e: React.MouseEvent, sticker: Sticker) => {
+    e.stopPropagation();
+    const quantity = quantities[sticker.id] || 1;
+    addLine(product, sticker, quantity);
+    toast({
+      title: 'Added to basket',
+      description: `${quantity} x ${sticker.name} (${product.sku})`
+    });
+  };
+
+  const handleEditOverlay = (e: React.MouseEvent, sticker: Sticker) => {
+    e.stopPropagation();
+    setEditingSticker(sticker);
+  };
+
+  const handleThermalPreview = (e: React.MouseEvent, sticker: Sticker) => {
+    e.stopPropagation();
+    setThermalSticker(sticker);
+  };
+
+  const handleSaveZpl = async (e: React.MouseEvent, sticker: Sticker) => {
+    e.stopPropagation();
+    const result = await window.electron.ipcRenderer.invoke('export-sticker-zpl', sticker.id, quantities[sticker.id] || 1);
+    if (result.success) {
+      toast({ title: 'ZPL saved', description: result.filePath });
+    } else if (!result.canceled) {
+      toast({ title: 'Could not save ZPL', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const handleOverlaySaved = (updated: Sticker) => {
+    setStickers(prev => prev.map(s => (s.id === updated.id ? { ...s, overlayFields: updated.overlayFields } : s)));
+  };
+
+  const handlePromptConfirm = (values: Record<string, string>) => {
+    const sticker = promptSticker;
+    setPromptSticker(null);
+    if (sticker) {
+      printSticker(sticker, values);
+    }
+  };
+
   return (
     <Drawer open={isOpen} onOpenChange={onOpenChange}>
       <DrawerContent position="right" size="lg">
@@ -128,7 +225,25 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
                 >
                   <div className="p-4">
                     <h4 className="font-medium">{sticker.name}</h4>
-                    <p className="text-sm text-gray-500">Size: {sticker.size}</p>
+                    <StickerSize sticker={sticker} />
+                    {labelStocks.length > 0 && (
+                      <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                        <Select
+                          value={sticker.labelStockId || AUTO_LABEL_STOCK}
+                          onValueChange={(value) => handleLabelStockChange(sticker, value)}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={AUTO_LABEL_STOCK}>Label stock by size</SelectItem>
+                            {labelStocks.map(stock => (
+                              <SelectItem key={stock.id} value={stock.id}>{stock.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="sticker-preview bg-gray-50 bg-white p-6 flex justify-center items-center border-t border-gray-200 dark:border-gray-700">
@@ -157,9 +272,50 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
                     )}
                   </div>
                   
-                  <div className="p-4 border-t">
+                  <div className="p-4 border-t flex gap-2">
+                    <QuantityStepper
+                      value={quantities[sticker.id] || 1}
+                      onChange={(value) => setQuantities(prev => ({ ...prev, [sticker.id]: value }))}
+                      disabled={printingStickers[sticker.id]}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={(e) => handleEditOverlay(e, sticker)}
+                      title="Overlay fields"
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                      <span className="sr-only">Overlay fields</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={(e) => handleThermalPreview(e, sticker)}
+                      title="Thermal preview"
+                    >
+                      <ScanLine className="h-4 w-4" />
+                      <span className="sr-only">Thermal preview</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={(e) => handleSaveZpl(e, sticker)}
+                      title="Save as ZPL"
+                    >
+                      <FileDown className="h-4 w-4" />
+                      <span className="sr-only">Save as ZPL</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={(e) => handleAddToBasket(e, sticker)}
+                      title="Add to print basket"
+                    >
+                      <ShoppingBasket className="h-4 w-4" />
+                      <span className="sr-only">Add to print basket</span>
+                    </Button>
                     <Button 
-                      className={`w-full ${printingStickers[sticker.id] ? 'bg-gray-500' : 'bg-blue-500 hover:bg-blue-600'} text-white`}
+                      className={`flex-1 ${printingStickers[sticker.id] ? 'bg-gray-500' : 'bg-blue-500 hover:bg-blue-600'} text-white`}
                       disabled={printingStickers[sticker.id]}
                     >
                       {printingStickers[sticker.id] ? (
@@ -178,6 +334,19 @@ const ProductDetailsDrawer: React.FC<ProductDetailsDrawerProps> = ({
           )}
         </DrawerBody>
       </DrawerContent>
+
+      <OverlayFieldsEditor
+        sticker={editingSticker}
+        onOpenChange={(open) => !open && setEditingSticker(null)}
+        onSaved={handleOverlaySaved}
+      />
+      <OverlayPromptDialog
+        sticker={promptSticker}
+        product={product}
+        onConfirm={handlePromptConfirm}
+        onCancel={() => setPromptSticker(null)}
+      />
+      <ThermalPreviewDialog sticker={thermalSticker} onClose={() => setThermalSticker(null)} />
     </Drawer>
   );
 };
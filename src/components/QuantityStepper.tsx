@@ -0,0 +1,74 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+
+export interface QuantityStepperProps {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  disabled?: boolean;
+  className?: string;
+}
+
+const QuantityStepper: React.FC<QuantityStepperProps> = ({
+  value,
+  onChange,
+  min = 1,
+  max = 999,
+  disabled = false,
+  className
+}) => {
+  const clamp = (next: number) => Math.min(max, Math.max(min, next));
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseInt(e.target.value, 10);
+    onChange(Number.isNaN(parsed) ? min : clamp(parsed));
+  };
+
+  return (
+    <div
+      className={cn('flex items-center', className)}
+      // Keep clicks inside the stepper from triggering the surrounding card's print action
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="h-9 w-9 rounded-r-none"
+        onClick={() => onChange(clamp(value - 1))}
+        disabled={disabled || value <= min}
+      >
+        <Minus className="h-4 w-4" />
+        <span className="sr-only">Decrease quantity</span>
+      </Button>
+      <input
+        type="number"
+        inputMode="numeric"
+        value={value}
+        min={min}
+        max={max}
+        onChange={handleInputChange}
+        onFocus={(e) => e.target.select()}
+        disabled={disabled}
+        aria-label="Quantity"
+        className="h-9 w-14 border-y border-input bg-background text-center text-sm focus-visible:outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="h-9 w-9 rounded-l-none"
+        onClick={() => onChange(clamp(value + 1))}
+        disabled={disabled || value >= max}
+      >
+        <Plus className="h-4 w-4" />
+        <span className="sr-only">Increase quantity</span>
+      </Button>
+    </div>
+  );
+};
+
+export default QuantityStepper;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Loader2 } from 'lucide-react';
+import { PayloadFormat } from '../database/db';
+
+interface RawPrinterSettingsProps {
+  uri: string;
+  // Language the status query is sent in
+  payloadFormat?: PayloadFormat;
+  onChange: (uri: string) => void;
+}
+
+type RawPrinterStatus = {
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  reasons: string[];
+  message?: string;
+};
+
+const DEFAULT_PORT = '9100';
+
+// Split socket://host:port into its parts for editing
+const parseUri = (uri: string) => {
+  const match = uri.match(/^socket:\/\/([^:/]*)(?::(\d+))?/i);
+  return { host: match?.[1] || '', port: match?.[2] || DEFAULT_PORT };
+};
+
+export function RawPrinterSettings({ uri, payloadFormat, onChange }: RawPrinterSettingsProps) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [status, setStatus] = useState<RawPrinterStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { host, port } = parseUri(uri);
+
+  const update = (nextHost: string, nextPort: string) => {
+    onChange(nextHost ? `socket://${nextHost.trim()}:${nextPort || DEFAULT_PORT}` : '');
+  };
+
+  const checkPrinter = async () => {
+    setIsChecking(true);
+    setStatus(null);
+    setError(null);
+    try {
+      const result = await window.electron.ipcRenderer.invoke('raw-printer-status', uri, payloadFormat);
+      if (result.success) {
+        setStatus(result.status);
+      } else {
+        setError(result.message);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_6rem] gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="rawHost">Printer address</Label>
+          <Input
+            id="rawHost"
+            value={host}
+            placeholder="192.168.1.60"
+            onChange={(e) => update(e.target.value, port)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rawPort">Port</Label>
+          <Input
+            id="rawPort"
+            type="number"
+            value={port}
+            onChange={(e) => update(host, e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Button variant="outline" onClick={checkPrinter} disabled={isChecking || !host}>
+        {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Check status
+      </Button>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {status && (
+        <p className="text-xs text-gray-500">
+          State: {status.state}
+          {status.reasons.length > 0 && ` (${status.reasons.join(', ')})`}
+          {status.message && ` - ${status.message}`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Settings, Save, Loader2, Trash2, Upload, FileText, Bug, RotateCcw, Trash } from 'lucide-react';
+import { Settings, Save, Loader2, Trash2, Upload, FileText, Bug, RotateCcw, Trash, FolderOpen, ShieldCheck } from 'lucide-react';
 import { useToast } from './ui/use-toast';
 import TextareaAutosize from 'react-textarea-autosize';
 import {
@@ -17,6 +17,16 @@ import {
   SelectValue,
 } from './ui/select';
 import { Switch } from './ui/switch';
+import { LabelStockSettings } from './LabelStockSettings';
+import { LabelTemplatesSettings } from './LabelTemplatesSettings';
+import { SheetLayoutSettings } from './SheetLayoutSettings';
+import { IppPrinterSettings } from './IppPrinterSettings';
+import { RawPrinterSettings } from './RawPrinterSettings';
+import { PrinterLanguageSettings } from './PrinterLanguageSettings';
+import { PrinterCapabilitySettings } from './PrinterCapabilitySettings';
+import { PrinterCalibrationSettings } from './PrinterCalibrationSettings';
+import { PrinterGroupSettings } from './PrinterGroupSettings';
+import { LabelStock, PayloadFormat, PrinterCalibration, PrinterGroup, SheetLayout } from '../database/db';
 
 type SettingsProps = {
   defaultOpen?: boolean;
@@ -36,10 +46,21 @@ type GoogleDriveSettings = {
   serviceAccountJson: string;
 };
 
+type PrinterStatus = {
+  name: string;
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  stateMessage?: string;
+  isDefault: boolean;
+  acceptingJobs: boolean;
+};
+
 type PrinterSetting = {
   id: string;
   size: string;
   printerName: string;
+  printerType?: 'system' | 'ipp' | 'raw' | 'group';
+  printerGroupId?: string;
+  labelStockId?: string;
   options: {
     media?: string;
     orientation?: 'portrait' | 'landscape';
@@ -53,11 +74,40 @@ type PrinterSetting = {
     scale?: number;
     fitToPage?: boolean;
     printScaling?: 'none' | 'fit' | 'fill';
+    driverOptions?: Record<string, string>;
+    barcodeSymbology?: BarcodeSymbology;
+    sheetLayout?: SheetLayout;
+    payloadFormat?: PayloadFormat;
+    dpi?: number;
+    density?: number;
+    speed?: number;
+    gap?: number;
+    darkness?: number;
+    calibration?: PrinterCalibration;
   };
   createdAt: string;
   updatedAt: string;
 };
 
+type BarcodeSymbology = 'ean13' | 'upca' | 'code128' | 'qr' | 'datamatrix';
+
+const barcodeSymbologies: { value: BarcodeSymbology; label: string }[] = [
+  { value: 'ean13', label: 'EAN-13' },
+  { value: 'upca', label: 'UPC-A' },
+  { value: 'code128', label: 'Code 128' },
+  { value: 'qr', label: 'QR Code' },
+  { value: 'datamatrix', label: 'Data Matrix' }
+];
+
+// App setting holding the symbology chosen per product type
+const SYMBOLOGY_BY_TYPE_SETTING = 'barcodeSymbologyByType';
+
+// Select value for a printer setting matched to stickers by its size text
+const NO_LABEL_STOCK = '__size';
+
+// Starting point when one margin of a setting without margins is changed, so all four sides are stored
+const NO_MARGINS: NonNullable<PrinterSetting['options']['margins']> = { top: 0, right: 0, bottom: 0, left: 0, units: 'mm' };
+
 export function SettingsModal({ defaultOpen = false, children, onOpenChange }: SettingsProps) {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
@@ -66,6 +116,7 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
   const [isSavingPrinter, setIsSavingPrinter] = useState(false);
   const [isSavingDebug, setIsSavingDebug] = useState(false);
   const [availablePrinters, setAvailablePrinters] = useState<string[]>([]);
+  const [printerStatuses, setPrinterStatuses] = useState<Record<string, PrinterStatus>>({});
   const [logFilePath, setLogFilePath] = useState<string>('');
   
   // State for settings
@@ -81,7 +132,12 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
   });
   
   const [printerSettings, setPrinterSettings] = useState<PrinterSetting[]>([]);
+  const [labelStocks, setLabelStocks] = useState<LabelStock[]>([]);
+  const [printerGroups, setPrinterGroups] = useState<PrinterGroup[]>([]);
   const [selectedSize, setSelectedSize] = useState<string>('40x50mm');
+  const [productTypes, setProductTypes] = useState<string[]>([]);
+  const [symbologyByType, setSymbologyByType] = useState<Record<string, BarcodeSymbology>>({});
+  const [virtualPrinterFolder, setVirtualPrinterFolder] = useState<string>('');
 
   // Debug settings
   const [debugSettings, setDebugSettings] = useState({
@@ -119,6 +175,15 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
           }
         }
         
+        setLabelStocks(await window.electron.ipcRenderer.invoke('db-get-label-stocks') || []);
+        setPrinterGroups(await window.electron.ipcRenderer.invoke('db-get-printer-groups') || []);
+        
+        // Load the barcode symbology chosen for each product type
+        const symbologySetting = await window.electron.ipcRenderer.invoke('db:getAppSetting', SYMBOLOGY_BY_TYPE_SETTING);
+        setSymbologyByType(symbologySetting?.value || {});
+        const products = await window.electron.ipcRenderer.invoke('db-get-products');
+        setProductTypes(Array.from(new Set<string>((products || []).map(p => p.type).filter(Boolean))).sort());
+        
         // Load debug settings
         const generalSettings = await window.electron.ipcRenderer.invoke('db-get-general-settings');
         setDebugSettings({
@@ -135,6 +200,13 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
         // Get available printers
         const printers = await window.electron.ipcRenderer.invoke('get-available-printers');
         setAvailablePrinters(printers || []);
+        
+        // Get the folder the virtual PDF printer writes to
+        setVirtualPrinterFolder(await window.electron.ipcRenderer.invoke('virtual-printer-get-folder'));
+        
+        // Get the queue state of each printer
+        const statuses: PrinterStatus[] = await window.electron.ipcRenderer.invoke('get-printer-statuses');
+        setPrinterStatuses(Object.fromEntries((statuses || []).map(status => [status.name, status])));
       } catch (error) {
         console.error('Failed to load settings:', error);
         toast({
@@ -155,6 +227,14 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     try {
       setIsSavingNotion(true);
       const updatedSettings = await window.electron.ipcRenderer.invoke('db-save-notion-settings', notionSettings);
+      if (updatedSettings?.success === false) {
+        toast({
+          title: 'Notion settings not saved',
+          description: updatedSettings.message,
+          variant: 'destructive'
+        });
+        return;
+      }
       setNotionSettings(updatedSettings);
       toast({
         title: 'Notion settings saved',
@@ -190,6 +270,14 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
       }
       
       const updatedSettings = await window.electron.ipcRenderer.invoke('db-save-google-drive-settings', googleDriveSettings);
+      if (updatedSettings?.success === false) {
+        toast({
+          title: 'Google Drive settings not saved',
+          description: updatedSettings.message,
+          variant: 'destructive'
+        });
+        return;
+      }
       setGoogleDriveSettings(updatedSettings);
       toast({
         title: 'Google Drive settings saved',
@@ -216,7 +304,17 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
         throw new Error('No printer setting selected');
       }
       
-      await window.electron.ipcRenderer.invoke('db-update-printer-settings', currentSetting);
+      // Options the printer does not support are rejected with the reasons
+      const result = await window.electron.ipcRenderer.invoke('db-update-printer-settings', currentSetting);
+      if (result?.success === false) {
+        toast({
+          title: 'Printer settings not saved',
+          description: result.message,
+          variant: 'destructive'
+        });
+        return;
+      }
+      await window.electron.ipcRenderer.invoke('db:createOrUpdateAppSetting', SYMBOLOGY_BY_TYPE_SETTING, symbologyByType);
       toast({
         title: 'Printer settings saved',
         description: 'Your printer settings have been updated successfully.'
@@ -233,6 +331,14 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     }
   };
 
+  // Choose the folder the virtual PDF printer writes to
+  const chooseVirtualPrinterFolder = async () => {
+    const folder = await window.electron.ipcRenderer.invoke('virtual-printer-choose-folder');
+    if (folder) {
+      setVirtualPrinterFolder(folder);
+    }
+  };
+
   // Save debug settings
   const saveDebugSettings = async () => {
     try {
@@ -258,6 +364,22 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     }
   };
 
+  // Printer whose capabilities are shown; the members of a group are identical, so the first stands for all
+  const getCapabilityPrinter = (setting?: PrinterSetting) => (setting?.printerType === 'group'
+    ? printerGroups.find(g => g.id === setting.printerGroupId)?.members[0] || ''
+    : setting?.printerName || '');
+
+  // Describe a printer queue state for display next to the printer name
+  const describePrinterStatus = (printerName?: string) => {
+    const status = printerName ? printerStatuses[printerName] : undefined;
+    if (!status) return null;
+    
+    const parts: string[] = [status.state];
+    if (!status.acceptingJobs) parts.push('not accepting jobs');
+    if (status.isDefault) parts.push('default');
+    return parts.join(', ');
+  };
+
   // Handle input changes
   const handleNotionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { id, value } = e.target;
@@ -320,6 +442,38 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     setPrinterSettings(updatedSettings);
   };
 
+  // Switching the connection clears the printer, queue names and URIs are not interchangeable
+  const handlePrinterTypeChange = (size: string, printerType: PrinterSetting['printerType']) => {
+    const updatedSettings = printerSettings.map(setting => 
+      setting.size === size 
+        ? { ...setting, printerType, printerName: '', printerGroupId: undefined }
+        : setting
+    );
+    setPrinterSettings(updatedSettings);
+  };
+
+  // A group setting shows the group name as its printer
+  const handlePrinterGroupChange = (size: string, group: PrinterGroup | undefined) => {
+    if (group) {
+      setPrinterGroups(prev => [...prev.filter(g => g.id !== group.id), group]);
+    }
+    const updatedSettings = printerSettings.map(setting => 
+      setting.size === size 
+        ? { ...setting, printerGroupId: group?.id, printerName: group?.name || '' }
+        : setting
+    );
+    setPrinterSettings(updatedSettings);
+  };
+
+  const handleLabelStockChange = (size: string, labelStockId: string | undefined) => {
+    const updatedSettings = printerSettings.map(setting => 
+      setting.size === size 
+        ? { ...setting, labelStockId }
+        : setting
+    );
+    setPrinterSettings(updatedSettings);
+  };
+
   const handleOptionChange = (size: string, key: keyof PrinterSetting['options'], value: any) => {
     const updatedSettings = printerSettings.map(setting => 
       setting.size === size 
@@ -337,6 +491,7 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
             options: {
               ...setting.options,
               margins: {
+                ...NO_MARGINS,
                 ...setting.options.margins,
                 [key]: value
               }
@@ -347,12 +502,20 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     setPrinterSettings(updatedSettings);
   };
 
+  const handleSymbologyByTypeChange = (type: string, value: string) => {
+    setSymbologyByType(prev => {
+      const { [type]: _removed, ...rest } = prev;
+      return value === 'auto' ? rest : { ...rest, [type]: value as BarcodeSymbology };
+    });
+  };
+
   const handleMarginUnitsChange = (value: 'mm' | 'in' | 'pt') => {
     setPrinterSettings(prev => prev.map(setting => ({
       ...setting,
       options: {
         ...setting.options,
         margins: {
+          ...NO_MARGINS,
           ...setting.options?.margins,
           units: value
         }
@@ -427,6 +590,53 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
     }
   };
 
+  // Check the database and downloads for leftovers, offering to clean them up
+  const checkIntegrity = async () => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('db-check-integrity', { fix: false });
+      if (!result?.success) {
+        throw new Error(result?.message);
+      }
+
+      const { orphanedStickers, missingFiles, unreferencedFiles } = result.report;
+      if (orphanedStickers.length + missingFiles.length + unreferencedFiles.length === 0) {
+        toast({
+          title: 'No problems found',
+          description: 'Every sticker has its product and every file is in use.',
+        });
+        return;
+      }
+
+      const confirmed = await window.electron.ipcRenderer.invoke('confirm-dialog', {
+        title: 'Check Integrity',
+        message: `Found ${orphanedStickers.length} stickers of deleted products, ` +
+          `${missingFiles.length} references to missing files and ${unreferencedFiles.length} unused downloaded files. ` +
+          'Delete the stickers and files and clear the references?',
+        buttons: ['Fix', 'Cancel']
+      });
+
+      if (confirmed === 0) { // User selected "Fix"
+        const fixed = await window.electron.ipcRenderer.invoke('db-check-integrity', { fix: true });
+        if (!fixed?.success) {
+          throw new Error(fixed?.message);
+        }
+
+        toast({
+          title: 'Problems fixed',
+          description: `Deleted ${fixed.report.orphanedStickers.length} stickers and ${fixed.report.unreferencedFiles.length} files, ` +
+            `cleared ${fixed.report.missingFiles.length} missing file references.`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to check integrity:', error);
+      toast({
+        title: 'Error checking integrity',
+        description: 'The database could not be checked. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
   // Update log file path whenever extended logs setting changes
   useEffect(() => {
     const updateLogPath = async () => {
@@ -497,9 +707,11 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
           <DialogTitle>Settings</DialogTitle>
         </DialogHeader>
         <Tabs defaultValue="integrations" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
             <TabsTrigger value="printer">Printer</TabsTrigger>
+            <TabsTrigger value="stock">Stock</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
             <TabsTrigger value="debug">Debug</TabsTrigger>
           </TabsList>
           <TabsContent value="integrations" className="space-y-4 pt-4">
@@ -628,24 +840,108 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
               {selectedSize && (
                 <>
                   <div className="space-y-2">
-                    <Label>Printer</Label>
+                    <Label>Label Stock</Label>
                     <Select 
-                      value={printerSettings.find(s => s.size === selectedSize)?.printerName} 
-                      onValueChange={(value) => handlePrinterChange(selectedSize, value)}
+                      value={printerSettings.find(s => s.size === selectedSize)?.labelStockId || NO_LABEL_STOCK} 
+                      onValueChange={(value) => handleLabelStockChange(selectedSize, value === NO_LABEL_STOCK ? undefined : value)}
                     >
                       <SelectTrigger>
-                        <SelectValue placeholder="Select printer" />
+                        <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {availablePrinters.map(printer => (
-                          <SelectItem key={printer} value={printer}>
-                            {printer}
+                        <SelectItem value={NO_LABEL_STOCK}>Match by size ({selectedSize})</SelectItem>
+                        {labelStocks.map(stock => (
+                          <SelectItem key={stock.id} value={stock.id}>
+                            {stock.name}
+                            <span className="ml-2 text-xs text-gray-500">({stock.width}x{stock.height}{stock.unit})</span>
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    <p className="text-xs text-gray-500">
+                      Stickers on this stock print here, at its size, unless the media is set below.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Connection</Label>
+                    <Select 
+                      value={printerSettings.find(s => s.size === selectedSize)?.printerType || 'system'} 
+                      onValueChange={(value) => handlePrinterTypeChange(selectedSize, value as PrinterSetting['printerType'])}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="system">Installed printer</SelectItem>
+                        <SelectItem value="ipp">Network printer (IPP)</SelectItem>
+                        <SelectItem value="raw">Raw socket (port 9100)</SelectItem>
+                        <SelectItem value="group">Printer group</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
 
+                  {printerSettings.find(s => s.size === selectedSize)?.printerType === 'ipp' ? (
+                    <IppPrinterSettings
+                      uri={printerSettings.find(s => s.size === selectedSize)?.printerName || ''}
+                      onChange={(uri) => handlePrinterChange(selectedSize, uri)}
+                    />
+                  ) : printerSettings.find(s => s.size === selectedSize)?.printerType === 'group' ? (
+                    <PrinterGroupSettings
+                      groupId={printerSettings.find(s => s.size === selectedSize)?.printerGroupId}
+                      availablePrinters={availablePrinters}
+                      options={printerSettings.find(s => s.size === selectedSize)?.options || {}}
+                      onChange={(group) => handlePrinterGroupChange(selectedSize, group)}
+                    />
+                  ) : printerSettings.find(s => s.size === selectedSize)?.printerType === 'raw' ? (
+                    <RawPrinterSettings
+                      uri={printerSettings.find(s => s.size === selectedSize)?.printerName || ''}
+                      payloadFormat={printerSettings.find(s => s.size === selectedSize)?.options.payloadFormat}
+                      onChange={(uri) => handlePrinterChange(selectedSize, uri)}
+                    />
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>Printer</Label>
+                      <Select 
+                        value={printerSettings.find(s => s.size === selectedSize)?.printerName} 
+                        onValueChange={(value) => handlePrinterChange(selectedSize, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select printer" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availablePrinters.map(printer => (
+                            <SelectItem key={printer} value={printer}>
+                              {printer}
+                              {describePrinterStatus(printer) && (
+                                <span className="ml-2 text-xs text-gray-500">({describePrinterStatus(printer)})</span>
+                              )}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {printerStatuses[printerSettings.find(s => s.size === selectedSize)?.printerName]?.stateMessage && (
+                        <p className="text-xs text-gray-500">
+                          {printerStatuses[printerSettings.find(s => s.size === selectedSize)?.printerName].stateMessage}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {printerSettings.find(s => s.size === selectedSize)?.printerType !== 'ipp' && (
+                    <PrinterLanguageSettings
+                      options={printerSettings.find(s => s.size === selectedSize)?.options || {}}
+                      pdfLabel={printerSettings.find(s => s.size === selectedSize)?.printerType === 'raw' ? 'PDF (PJL)' : 'PDF (printer driver)'}
+                      onChange={(key, value) => handleOptionChange(selectedSize, key, value)}
+                    />
+                  )}
+
+                  <PrinterCapabilitySettings
+                    printerName={getCapabilityPrinter(printerSettings.find(s => s.size === selectedSize))}
+                    options={printerSettings.find(s => s.size === selectedSize)?.options || {}}
+                    onChange={(key, value) => handleOptionChange(selectedSize, key, value)}
+                  />
+
                   <div className="space-y-2">
                     <Label>Orientation</Label>
                     <Select 
@@ -697,8 +993,90 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label>Barcode on generated stickers</Label>
+                    <Select 
+                      value={printerSettings.find(s => s.size === selectedSize)?.options.barcodeSymbology || 'auto'} 
+                      onValueChange={(value) => handleOptionChange(selectedSize, 'barcodeSymbology', value === 'auto' ? undefined : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select barcode" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto (from barcode value)</SelectItem>
+                        {barcodeSymbologies.map(symbology => (
+                          <SelectItem key={symbology.value} value={symbology.value}>{symbology.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                      Used for stickers without a PDF, which are generated with the product name, SKU and barcode.
+                    </p>
+                  </div>
+
+                  <SheetLayoutSettings
+                    size={selectedSize}
+                    layout={printerSettings.find(s => s.size === selectedSize)?.options.sheetLayout}
+                    onChange={(layout) => handleOptionChange(selectedSize, 'sheetLayout', layout)}
+                  />
+
+                  <PrinterCalibrationSettings
+                    printerSetting={printerSettings.find(s => s.size === selectedSize)}
+                    onChange={(calibration) => handleOptionChange(selectedSize, 'calibration', calibration)}
+                  />
                 </>
               )}
+
+              {productTypes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Barcode by product type</Label>
+                  <p className="text-xs text-gray-500">
+                    Overrides the sticker size setting for products of a type.
+                  </p>
+                  {productTypes.map(type => (
+                    <div key={type} className="grid grid-cols-2 gap-2 items-center">
+                      <span className="text-sm truncate" title={type}>{type}</span>
+                      <Select 
+                        value={symbologyByType[type] || 'auto'} 
+                        onValueChange={(value) => handleSymbologyByTypeChange(type, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Use size setting</SelectItem>
+                          {barcodeSymbologies.map(symbology => (
+                            <SelectItem key={symbology.value} value={symbology.value}>{symbology.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>PDF Output (virtual) folder</Label>
+                <div className="flex gap-2">
+                  <Input value={virtualPrinterFolder} readOnly />
+                  <Button variant="outline" onClick={chooseVirtualPrinterFolder}>
+                    Choose
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Open folder"
+                    onClick={() => window.electron.ipcRenderer.invoke('virtual-printer-open-folder')}
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Select the "PDF Output (virtual)" printer to write each print as it would come out of the printer,
+                  with a JSON file of the options used, instead of printing it.
+                </p>
+              </div>
             </div>
 
             <div className="flex justify-end">
@@ -711,6 +1089,12 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
               </Button>
             </div>
           </TabsContent>
+          <TabsContent value="stock" className="space-y-4 pt-4">
+            <LabelStockSettings />
+          </TabsContent>
+          <TabsContent value="templates" className="space-y-4 pt-4">
+            <LabelTemplatesSettings />
+          </TabsContent>
           <TabsContent value="debug" className="space-y-4 pt-4">
             <div className="space-y-4">
               <h3 className="text-lg font-medium">Debug Settings</h3>
@@ -782,6 +1166,14 @@ export function SettingsModal({ defaultOpen = false, children, onOpenChange }: S
                     <RotateCcw className="h-4 w-4" />
                     Reset Database
                   </Button>
+                  <Button 
+                    variant="outline"
+                    onClick={checkIntegrity}
+                    className="w-full flex items-center justify-center gap-2"
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                    Check Integrity
+                  </Button>
                 </div>
               </div>
               
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { SheetLayout } from '../database/db';
+
+interface SheetLayoutSettingsProps {
+  size: string;
+  layout?: SheetLayout;
+  onChange: (layout: SheetLayout | undefined) => void;
+}
+
+// Page sizes in mm
+const pageSizes: Record<Exclude<SheetLayout['pageSize'], 'custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 }
+};
+
+const parseSize = (size: string) => {
+  const match = size.match(/(\d+(?:[.,]\d+)?)\s*[xх×*]\s*(\d+(?:[.,]\d+)?)/i);
+  return match
+    ? { width: parseFloat(match[1].replace(',', '.')), height: parseFloat(match[2].replace(',', '.')) }
+    : { width: 50, height: 30 };
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Fill an A4 sheet with as many labels as fit, butted together and centered on the page
+const createDefaultLayout = (size: string): SheetLayout => {
+  const label = parseSize(size);
+  const page = pageSizes.A4;
+  const columns = Math.max(1, Math.floor(page.width / label.width));
+  const rows = Math.max(1, Math.floor(page.height / label.height));
+  return {
+    pageSize: 'A4',
+    rows,
+    columns,
+    horizontalPitch: label.width,
+    verticalPitch: label.height,
+    marginTop: round(Math.max(0, (page.height - rows * label.height) / 2)),
+    marginLeft: round(Math.max(0, (page.width - columns * label.width) / 2)),
+    startOffset: 0
+  };
+};
+
+export function SheetLayoutSettings({ size, layout, onChange }: SheetLayoutSettingsProps) {
+  const update = (updates: Partial<SheetLayout>) => {
+    onChange({ ...layout, ...updates });
+  };
+
+  const numberInput = (key: keyof SheetLayout, label: string, step = '0.1') => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        min={0}
+        value={(layout[key] as number) ?? ''}
+        onChange={(e) => update({ [key]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+      />
+    </div>
+  );
+
+  const perSheet = layout ? (layout.rows || 0) * (layout.columns || 0) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          checked={!!layout}
+          onCheckedChange={(checked) => onChange(checked ? createDefaultLayout(size) : undefined)}
+        />
+        <Label>Print on label sheets</Label>
+      </div>
+
+      {layout && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Page</Label>
+              <Select
+                value={layout.pageSize}
+                onValueChange={(value) => update({ pageSize: value as SheetLayout['pageSize'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="A4">A4</SelectItem>
+                  <SelectItem value="Letter">Letter</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {layout.pageSize === 'custom' && numberInput('pageWidth', 'Page width (mm)')}
+            {layout.pageSize === 'custom' && numberInput('pageHeight', 'Page height (mm)')}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {numberInput('columns', 'Columns', '1')}
+            {numberInput('rows', 'Rows', '1')}
+            {numberInput('horizontalPitch', 'Horizontal pitch (mm)')}
+            {numberInput('verticalPitch', 'Vertical pitch (mm)')}
+            {numberInput('marginLeft', 'Left margin (mm)')}
+            {numberInput('marginTop', 'Top margin (mm)')}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Skip labels on the first sheet</Label>
+            <Input
+              type="number"
+              step="1"
+              min={0}
+              max={Math.max(0, perSheet - 1)}
+              value={layout.startOffset ?? 0}
+              onChange={(e) => update({ startOffset: parseInt(e.target.value) || 0 })}
+            />
+            <p className="text-xs text-gray-500">
+              {perSheet} labels per sheet. Set the number of labels already used to reuse a partially printed sheet;
+              they are counted left to right, top to bottom. Each print moves this past the labels it used, so set it
+              back to 0 when you load a new sheet.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,23 +3,26 @@ import { Sticker } from '../database/db';
 import { Card, CardContent, CardFooter } from './ui/card';
 import { Button } from './ui/button';
 import { Loader2, FileText, Printer } from 'lucide-react';
+import StickerSize from './StickerSize';
 import { useToast } from './ui/use-toast';
+import QuantityStepper from './QuantityStepper';
 
 export interface StickerCardProps {
   sticker: Sticker;
-  onPrint?: () => Promise<{ success: boolean; message?: string }>;
+  onPrint?: (copies: number) => Promise<{ success: boolean; message?: string }>;
 }
 
 const StickerCard: React.FC<StickerCardProps> = ({ sticker, onPrint }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const [quantity, setQuantity] = useState(sticker.printQuantity || 1);
   const { toast } = useToast();
 
   const handlePrintClick = async () => {
     if (onPrint) {
       setIsLoading(true);
       try {
-        const result = await onPrint();
+        const result = await onPrint(quantity);
         toast({
           title: result.success ? 'Success' : 'Error',
           description: result.message,
@@ -54,7 +57,7 @@ const StickerCard: React.FC<StickerCardProps> = ({ sticker, onPrint }) => {
         <h4 className="font-medium mb-1 truncate text-gray-900 dark:text-gray-100" title={sticker.name}>
           {sticker.name}
         </h4>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">Size: {sticker.size}</p>
+        <StickerSize sticker={sticker} className="mb-3" />
         
         <div className="h-36 flex items-center justify-center border rounded bg-gray-50 dark:bg-gray-800 dark:border-gray-700 mb-3">
           {hasPreview ? (
@@ -83,9 +86,10 @@ const StickerCard: React.FC<StickerCardProps> = ({ sticker, onPrint }) => {
         </div>
       </CardContent>
       
-      <CardFooter className="px-3 pb-3 pt-0">
+      <CardFooter className="px-3 pb-3 pt-0 gap-2">
+        <QuantityStepper value={quantity} onChange={setQuantity} disabled={isLoading} />
         <Button 
-          className="w-full gap-2"
+          className="flex-1 gap-2"
           onClick={handlePrintClick}
           disabled={isLoading}
         >
@@ -0,0 +1,33 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Sticker } from '../database/db';
+import { normalizeLabelSize } from '../lib/label-size';
+
+interface StickerSizeProps {
+  sticker: Pick<Sticker, 'size' | 'detectedSize' | 'sizeMismatch'>;
+  className?: string;
+}
+
+// Declared size of a sticker, with the size of its PDF when that is what picks the printer
+const StickerSize: React.FC<StickerSizeProps> = ({ sticker, className }) => {
+  const declaredIsDetected = normalizeLabelSize(sticker.size) === sticker.detectedSize;
+
+  return (
+    <div className={className}>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Size: {sticker.size}
+        {sticker.detectedSize && !declaredIsDetected && (
+          <span className="ml-1">(PDF {sticker.detectedSize}mm)</span>
+        )}
+      </p>
+      {sticker.sizeMismatch && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          The PDF is {sticker.detectedSize}mm; printing uses the printer for that size
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StickerSize;
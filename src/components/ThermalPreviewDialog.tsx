@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Sticker } from '../database/db';
+
+interface ThermalPreviewDialogProps {
+  sticker: Sticker | null;
+  onClose: () => void;
+}
+
+type ThermalPreview = {
+  image: string;
+  dpi: number;
+  width: number;
+  height: number;
+  barcode: {
+    bars: number;
+    narrowestBar: number;
+    narrowestSpace: number;
+    narrowestMm: number;
+    readable: boolean;
+    message?: string;
+  } | null;
+};
+
+// Select value for the resolution of the printer setting
+const PRINTER_DPI = 'printer';
+
+const ThermalPreviewDialog: React.FC<ThermalPreviewDialogProps> = ({ sticker, onClose }) => {
+  const [preview, setPreview] = useState<ThermalPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dither, setDither] = useState(false);
+  const [threshold, setThreshold] = useState(128);
+  const [dpi, setDpi] = useState(PRINTER_DPI);
+
+  useEffect(() => {
+    if (!sticker) {
+      setPreview(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setIsLoading(true);
+      try {
+        const result = await window.electron.ipcRenderer.invoke('preview-sticker-thermal', sticker.id, {
+          dither,
+          threshold,
+          dpi: dpi === PRINTER_DPI ? undefined : parseInt(dpi, 10)
+        });
+        if (cancelled) return;
+        if (result.success) {
+          setPreview(result);
+          setError(null);
+        } else {
+          setError(result.message);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [sticker?.id, dither, threshold, dpi]);
+
+  return (
+    <Dialog open={!!sticker} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Thermal preview: {sticker?.name}</DialogTitle>
+          <DialogDescription>
+            Black and white dots as the printer of this sticker size prints them, shown at their real size.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label>Mode</Label>
+            <Select value={dither ? 'dither' : 'threshold'} onValueChange={(value) => setDither(value === 'dither')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="threshold">Threshold</SelectItem>
+                <SelectItem value="dither">Dither</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Threshold</Label>
+            <Input
+              type="number"
+              min={1}
+              max={254}
+              value={threshold}
+              onChange={(e) => setThreshold(Math.min(254, Math.max(1, parseInt(e.target.value, 10) || 128)))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Resolution</Label>
+            <Select value={dpi} onValueChange={setDpi}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRINTER_DPI}>Printer setting</SelectItem>
+                <SelectItem value="203">203 dpi</SelectItem>
+                <SelectItem value="300">300 dpi</SelectItem>
+                <SelectItem value="600">600 dpi</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-gray-100 flex justify-center items-center overflow-auto min-h-40">
+          {isLoading && !preview ? (
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          ) : error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : preview && (
+            <img
+              src={preview.image}
+              alt={`Thermal preview of ${sticker?.name}`}
+              // CSS millimetres are physical millimetres on a display at its nominal resolution
+              style={{ width: `${preview.width}mm`, height: `${preview.height}mm`, imageRendering: 'pixelated' }}
+              className={`bg-white shadow ${isLoading ? 'opacity-50' : ''}`}
+            />
+          )}
+        </div>
+
+        {preview && (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">
+              {preview.width} x {preview.height} mm at {preview.dpi} dpi
+            </p>
+            {preview.barcode && (preview.barcode.readable ? (
+              <p className="text-xs text-green-600 dark:text-green-400 flex items-center gap-1">
+                <CheckCircle2 className="h-3 w-3" />
+                Barcode bars are at least {Math.min(preview.barcode.narrowestBar, preview.barcode.narrowestSpace)} dots
+                ({preview.barcode.narrowestMm}mm) wide
+              </p>
+            ) : (
+              <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                {preview.barcode.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThermalPreviewDialog;
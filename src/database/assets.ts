@@ -0,0 +1,127 @@
+/**
+ * Asset Files Module
+ * Locates the files the app downloads and renders for products and stickers, so the files
+ * can be removed together with the records that use them. Only files in the app's own asset
+ * folders are ever deleted; a sticker PDF picked from elsewhere on disk is left alone.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+
+// Folders the PDFs rendered for a sticker at print time are written into, named after the sticker ID
+const STICKER_OUTPUT_FOLDERS = {
+  generated: ['downloads', 'pdfs', 'generated'],
+  templates: ['downloads', 'pdfs', 'templates']
+};
+
+// Folders under the user data directory the app writes asset files into
+const ASSET_FOLDERS = [
+  ['downloads', 'images'],
+  ['downloads', 'pdfs'],
+  ['downloads', 'previews'],
+  ['previews'],
+  ...Object.values(STICKER_OUTPUT_FOLDERS)
+];
+
+// Folders an app:// URL is looked up in, in the order the app protocol checks them
+const APP_URL_FOLDERS: Record<string, string[][]> = {
+  images: [['downloads', 'images'], ['images']],
+  pdfs: [['downloads', 'pdfs'], ['pdfs']],
+  previews: [['previews'], ['downloads', 'previews']]
+};
+
+const getUserDataPath = () => app?.getPath('userData') || path.join(process.cwd(), 'userData');
+
+/**
+ * Get the asset folders, whether they exist or not
+ * @returns Absolute paths of the folders
+ */
+export function getAssetDirectories(): string[] {
+  const userDataPath = getUserDataPath();
+  return ASSET_FOLDERS.map(folder => path.join(userDataPath, ...folder));
+}
+
+/**
+ * Get the file a PDF rendered for a sticker at print time is written to
+ * @param kind Generated from the product, or rendered from a label template
+ * @param stickerId Sticker ID
+ * @returns Absolute path of the file
+ */
+export function getStickerOutputPath(kind: keyof typeof STICKER_OUTPUT_FOLDERS, stickerId: string): string {
+  return path.join(getUserDataPath(), ...STICKER_OUTPUT_FOLDERS[kind], `${stickerId}.pdf`);
+}
+
+/**
+ * Get the PDFs rendered for a sticker at print time, which go together with the sticker
+ * @param stickerId Sticker ID
+ * @returns Absolute paths of the files, whether they exist or not
+ */
+export function getStickerOutputFiles(stickerId: string): string[] {
+  return (Object.keys(STICKER_OUTPUT_FOLDERS) as (keyof typeof STICKER_OUTPUT_FOLDERS)[])
+    .map(kind => getStickerOutputPath(kind, stickerId));
+}
+
+/**
+ * Get the files a stored path or URL can refer to
+ * @param reference Local path, app:// URL or remote URL from a record
+ * @returns Absolute paths of the files; none for remote and data URLs
+ */
+export function resolveAssetReference(reference: string | null | undefined): string[] {
+  if (!reference) return [];
+
+  if (reference.startsWith('app://')) {
+    const relativePath = decodeURI(reference.substring(6));
+    const [type, ...rest] = relativePath.split('/');
+    const userDataPath = getUserDataPath();
+    const folders = APP_URL_FOLDERS[type];
+    return folders
+      ? folders.map(folder => path.join(userDataPath, ...folder, ...rest))
+      : [path.join(userDataPath, relativePath)];
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(reference) && !path.isAbsolute(reference)) {
+    return [];
+  }
+  return [path.resolve(reference)];
+}
+
+/**
+ * Check whether a file is in one of the asset folders
+ * @param filePath Absolute path of the file
+ * @returns True when the app owns the file
+ */
+export function isAssetFile(filePath: string): boolean {
+  return getAssetDirectories().some(directory => path.dirname(filePath) === directory);
+}
+
+/**
+ * List the files in the asset folders
+ * @returns Absolute paths of the files
+ */
+export function listAssetFiles(): string[] {
+  return getAssetDirectories().flatMap(directory => {
+    if (!fs.existsSync(directory)) return [];
+    return fs.readdirSync(directory)
+      .map(file => path.join(directory, file))
+      .filter(filePath => fs.statSync(filePath).isFile());
+  });
+}
+
+/**
+ * Delete asset files, skipping the ones outside the asset folders and the ones already gone
+ * @param filePaths Absolute paths of the files
+ * @returns Paths of the files deleted
+ */
+export function removeAssetFiles(filePaths: Iterable<string>): string[] {
+  const removed: string[] = [];
+  for (const filePath of new Set(filePaths)) {
+    if (!isAssetFile(filePath) || !fs.existsSync(filePath)) continue;
+    try {
+      fs.unlinkSync(filePath);
+      removed.push(filePath);
+    } catch (error) {
+      console.error(`Failed to delete asset file ${filePath}:`, error);
+    }
+  }
+  return removed;
+}
@@ -1,10 +1,47 @@
-// Persistent database module using lowdb
+// Persistent database module using SQLite (better-sqlite3)
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import { app } from 'electron';
-import { Low } from 'lowdb';
-import { JSONFile } from 'lowdb/node';
-import { AppSetting } from './schema';
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import { importJsonDatabase } from './json-import';
+import { getStickerOutputFiles, listAssetFiles, removeAssetFiles, resolveAssetReference } from './assets';
+import {
+  assertValidRecord,
+  GOOGLE_DRIVE_SETTING_SCHEMA,
+  NOTION_SETTING_SCHEMA,
+  PRINTER_SETTING_SCHEMA,
+  PRODUCT_SCHEMA,
+  RecordSchema,
+  STICKER_SCHEMA,
+  validateRecord
+} from './schema';
+import {
+  APP_SETTINGS,
+  fromRow,
+  GOOGLE_DRIVE_SETTINGS,
+  insertSql,
+  LABEL_STOCKS,
+  LABEL_TEMPLATES,
+  NOTION_SETTINGS,
+  PRINT_JOBS,
+  PRINTER_GROUPS,
+  PRINTER_SETTINGS,
+  PRODUCTS,
+  STICKERS,
+  TableMapping,
+  toRow,
+  updateSql
+} from './tables';
+import { BarcodeSymbology } from '../lib/barcode/types';
+import {
+  buildProductSearchIndex,
+  ProductSearchIndex,
+  ProductSearchOptions,
+  ProductSearchResult,
+  searchProductIndex
+} from '../lib/product-search';
 
 // Data types
 export interface Product {
@@ -20,17 +57,58 @@ export interface Product {
   localImagePath?: string;
   tags?: string[];
   notionId?: string;
+  // Further Notion properties stored by the sync
+  partNumber?: string;
+  etsyLink?: string;
+  amazonLink?: string;
+  // Number of times the sync has updated the product
+  version?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type OverlayFieldType = 'text' | 'price' | 'date' | 'barcode';
+
+export type OverlayFont = 'Helvetica' | 'Helvetica-Bold' | 'Courier' | 'Courier-Bold' | 'Times-Roman' | 'Times-Bold';
+
+// Variable data stamped onto a sticker PDF at print time. Positions and sizes are in mm,
+// measured from the top-left corner of the sticker.
+export interface OverlayField {
+  id: string;
+  type: OverlayFieldType;
+  label: string;
+  source: 'product' | 'prompt' | 'static';
+  productField?: string;
+  value?: string;
+  format?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  font?: OverlayFont;
+  fontSize?: number;
+  // Barcode fields only, defaults to Code 128
+  symbology?: BarcodeSymbology;
 }
 
 export interface Sticker {
   id: string;
   productId: string;
+  // Label stock the sticker is printed on; matched from its size during sync when not chosen
+  labelStockId?: string;
   name: string;
+  // Size as declared in Notion, free text such as "50x30mm" or "Standard"
   size: string;
+  // Canonical "WxH" size in mm read from the PDF page box; chooses the printer when set
+  detectedSize?: string;
+  // The declared size is a WxH value that differs from the PDF
+  sizeMismatch?: boolean;
   pdfUrl: string | null;
   localPdfPath?: string;
   localPreviewPath?: string;
   previewUrl?: string;
+  printQuantity?: number;
+  overlayFields?: OverlayField[];
   createdAt: string;
   updatedAt: string;
 }
@@ -38,7 +116,14 @@ export interface Sticker {
 export interface PrinterSetting {
   id: string;
   size: string;
+  // OS print queue name, the ipp:// / ipps:// URI of a network printer or the socket://host:port of a raw printer
   printerName: string;
+  // How jobs reach the printer; "ipp" and "raw" send them straight to the URI in printerName,
+  // "group" sends each job to a member of the printer group in printerGroupId
+  printerType?: 'system' | 'ipp' | 'raw' | 'group';
+  printerGroupId?: string;
+  // Label stock loaded in the printer; its dimensions replace the size string when set
+  labelStockId?: string;
   options: {
     media?: string;
     orientation?: 'portrait' | 'landscape';
@@ -52,11 +137,210 @@ export interface PrinterSetting {
     scale?: number;
     fitToPage?: boolean;
     printScaling?: 'none' | 'fit' | 'fill';
+    // Choices of CUPS driver options by keyword (e.g. Darkness: "10"), as listed by `lpoptions -l`
+    driverOptions?: Record<string, string>;
+    // Barcode symbology of generated stickers of this size, detected from the value when not set
+    barcodeSymbology?: BarcodeSymbology;
+    // Print on sheets of die-cut labels instead of a roll
+    sheetLayout?: SheetLayout;
+    // Printer language streamed to raw socket printers; other than PDF it is also sent raw through OS queues
+    payloadFormat?: PayloadFormat;
+    // Thermal printer settings of the bitmap languages (TSPL, ZPL)
+    dpi?: number;
+    // Print speed in inches per second
+    speed?: number;
+    // TSPL density (0-15) and gap between labels in mm
+    density?: number;
+    gap?: number;
+    // ZPL darkness (0-30)
+    darkness?: number;
+    // Corrections for where this printer puts the print on the label
+    calibration?: PrinterCalibration;
   };
   createdAt: string;
   updatedAt: string;
 }
 
+// Corrections applied to the document before it is sent, measured from a calibration page
+export interface PrinterCalibration {
+  // Shift in mm; positive moves the print right and down
+  offsetX: number;
+  offsetY: number;
+  // Turn in degrees; positive is clockwise
+  rotation: number;
+  // Millimetres added to the printed width and height, e.g. 0.5 when 50mm prints as 49.5mm
+  widthCorrection: number;
+  heightCorrection: number;
+}
+
+// Payload formats a printer can be sent as raw data
+export type PayloadFormat = 'pdf' | 'tspl' | 'zpl';
+
+// Layout of a sheet of die-cut labels; all lengths are in mm
+export interface SheetLayout {
+  pageSize: 'A4' | 'Letter' | 'custom';
+  // Only used with the custom page size
+  pageWidth?: number;
+  pageHeight?: number;
+  rows: number;
+  columns: number;
+  // Distance between the left (top) edges of neighbouring labels
+  horizontalPitch: number;
+  verticalPitch: number;
+  // Position of the first label from the top-left corner of the sheet
+  marginTop: number;
+  marginLeft: number;
+  // Labels already used on the loaded sheet, counted left to right, top to bottom; moved on after each print
+  startOffset?: number;
+}
+
+// Label template elements; positions and sizes are in mm from the top-left corner of the label
+export interface LabelTemplateTextElement {
+  type: 'text';
+  x: number;
+  y: number;
+  // Text with bindings such as {{product.name}}
+  text: string;
+  // Wrap and align the text within this width
+  width?: number;
+  maxLines?: number;
+  align?: 'left' | 'center' | 'right';
+  font?: OverlayFont;
+  // Font size in mm
+  fontSize?: number;
+}
+
+export interface LabelTemplateImageElement {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Local PNG or JPEG path, usually {{product.localImagePath}}
+  src: string;
+}
+
+export interface LabelTemplateBarcodeElement {
+  type: 'barcode';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Encoded value with bindings, usually {{product.barcode}}
+  value: string;
+  // Detected from the value when not set
+  symbology?: BarcodeSymbology;
+  showText?: boolean;
+  // Font size of the human-readable text in mm
+  fontSize?: number;
+}
+
+export interface LabelTemplateLineElement {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // Line width in mm
+  thickness?: number;
+}
+
+export interface LabelTemplateBoxElement {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Border width in mm
+  thickness?: number;
+  fill?: boolean;
+}
+
+export type LabelTemplateElement =
+  | LabelTemplateTextElement
+  | LabelTemplateImageElement
+  | LabelTemplateBarcodeElement
+  | LabelTemplateLineElement
+  | LabelTemplateBoxElement;
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  // Label size in mm
+  width: number;
+  height: number;
+  elements: LabelTemplateElement[];
+  // Sticker sizes and product types the template is used for
+  sizes: string[];
+  productTypes: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Physical label stock: the size of one label and how the printer finds it on the roll or sheet
+export interface LabelStock {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  unit: 'mm' | 'in';
+  shape: 'rectangle' | 'rounded' | 'circle' | 'oval';
+  // How the printer detects the start of each label
+  sensing: 'gap' | 'blackMark' | 'continuous';
+  // Gap between labels or length of the black mark, in the stock unit
+  gap?: number;
+  // Distance from the edge of the liner to the left edge of the label, in the stock unit
+  linerOffset?: number;
+  // Printer resolution the stock is printed at
+  dpi?: number;
+  // Sticker and printer sizes that mean this stock, e.g. "50x30mm" or "Standard"
+  aliases: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Interchangeable printers loaded with the same stock; each job goes to the least busy member that is working
+export interface PrinterGroup {
+  id: string;
+  name: string;
+  // Queue names and ipp:// / socket:// URIs of the members, in order of preference
+  members: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PrintJobStatus = 'queued' | 'sending' | 'sent' | 'completed' | 'failed' | 'cancelled';
+
+export interface PrintJob {
+  id: string;
+  stickerId: string;
+  stickerName: string;
+  productId: string;
+  // Printer the job is sent to; for group jobs the member chosen when it is sent, the group name until then
+  printerName: string;
+  printerGroupId?: string;
+  // Group members that stopped or failed while they had this job
+  failedPrinters?: string[];
+  options: PrinterSetting['options'];
+  size: string;
+  labelStockId?: string;
+  copies: number;
+  submittedBy: string;
+  status: PrintJobStatus;
+  cupsJobId?: string;
+  // Job ID assigned by an IPP printer the job was sent to directly
+  ippJobId?: number;
+  batchId?: string;
+  lineId?: string;
+  overlayValues?: Record<string, string>;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  completedAt?: string;
+}
+
 export interface NotionSetting {
   id: string;
   apiKey: string;
@@ -69,116 +353,212 @@ export interface GoogleDriveSetting {
   serviceAccountJson: string;
 }
 
-// Database schema
-interface DatabaseSchema {
-  products: Product[];
-  stickers: Sticker[];
-  printerSettings: PrinterSetting[];
-  notionSetting: NotionSetting | null;
-  googleDriveSetting: GoogleDriveSetting | null;
-  appSettings: AppSetting[];
+export interface AppSetting {
+  id: string;
+  key: string;
+  value: any;
+  createdAt: string;
+  updatedAt: string;
 }
 
-// Default data
-const defaultData: DatabaseSchema = {
-  products: [],
-  stickers: [],
-  printerSettings: [
-    {
-      id: '1',
-      size: '40x50',
-      printerName: 'GD_41_LABEL',
-      options: {
-        media: 'Custom.40x50mm',
-        orientation: 'portrait',
-        margins: {
-          top: 0,
-          right: 0,
-          bottom: 0,
-          left: 0,
-          units: 'mm'
-        },
-        scale: 100,
-        fitToPage: true,
-        printScaling: 'fit'
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    },
-    {
-      id: '2',
-      size: '50x30',
-      printerName: 'GD_41_LABEL',
-      options: {
-        media: 'Custom.50x30mm',
-        orientation: 'portrait',
-        margins: {
-          top: 0,
-          right: 0,
-          bottom: 0,
-          left: 0,
-          units: 'mm'
-        },
-        scale: 100,
-        fitToPage: true,
-        printScaling: 'fit'
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+// Local file path of a record that points to a file no longer on disk
+export interface MissingFileReference {
+  recordType: 'product' | 'sticker';
+  recordId: string;
+  field: 'localImagePath' | 'localPdfPath' | 'localPreviewPath';
+  path: string;
+}
+
+// Problems found by checkIntegrity
+export interface IntegrityReport {
+  // Stickers whose product no longer exists
+  orphanedStickers: Pick<Sticker, 'id' | 'productId' | 'name'>[];
+  missingFiles: MissingFileReference[];
+  // Files in the asset folders no product or sticker uses
+  unreferencedFiles: string[];
+  // Whether the problems have been fixed
+  fixed: boolean;
+}
+
+// Printer settings of a new database
+const DEFAULT_PRINTER_SETTINGS: PrinterSetting[] = ['40x50', '50x30', '50x40'].map((size, index) => ({
+  id: String(index + 1),
+  size,
+  printerName: 'GD_41_LABEL',
+  options: {
+    media: `Custom.${size}mm`,
+    orientation: 'portrait',
+    margins: {
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+      units: 'mm'
     },
-    {
-      id: '3',
-      size: '50x40',
-      printerName: 'GD_41_LABEL',
-      options: {
-        media: 'Custom.50x40mm',
-        orientation: 'portrait',
-        margins: {
-          top: 0,
-          right: 0,
-          bottom: 0,
-          left: 0,
-          units: 'mm'
-        },
-        scale: 100,
-        fitToPage: true,
-        printScaling: 'fit'
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    }
-  ],
-  notionSetting: null,
-  googleDriveSetting: null,
-  appSettings: []
-};
+    scale: 100,
+    fitToPage: true,
+    printScaling: 'fit'
+  },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+}));
 
 // Database instance
-let db: Low<DatabaseSchema>;
+let sqlite: Database.Database;
 let isInitialized = false;
+// Prepared statements by SQL, reused for the life of the connection
+let statements = new Map<string, Database.Statement>();
+// Search index of the products, built on the first search after they change
+let searchIndex: ProductSearchIndex | null = null;
 
 // Get the app data directory
-const getDbPath = () => {
+const getDbDir = () => {
   const userDataPath = app?.getPath('userData') || path.join(process.cwd(), 'userData');
   const dbDir = path.join(userDataPath, 'db');
-  
+
   // Create db directory if it doesn't exist
   if (!fs.existsSync(dbDir)) {
     fs.mkdirSync(dbDir, { recursive: true });
   }
-  
-  return path.join(dbDir, 'database.json');
+
+  return dbDir;
+};
+
+const getDbPath = () => path.join(getDbDir(), 'database.sqlite');
+
+// lowdb file of earlier versions, imported into a new SQLite database
+const getJsonPath = () => path.join(getDbDir(), 'database.json');
+
+// Copy of the database from before the last schema upgrade
+const getBackupPath = () => path.join(getDbDir(), 'database.pre-upgrade.sqlite');
+
+const prepare = (sql: string): Database.Statement => {
+  let statement = statements.get(sql);
+  if (!statement) {
+    statement = sqlite.prepare(sql);
+    statements.set(sql, statement);
+  }
+  return statement;
+};
+
+// Records of a table in the order they were created, optionally filtered by a WHERE clause
+const selectAll = <T>(mapping: TableMapping, where?: string, ...params: unknown[]): T[] =>
+  prepare(`SELECT * FROM ${mapping.table}${where ? ` WHERE ${where}` : ''} ORDER BY rowid`)
+    .all(...params)
+    .map(row => fromRow<T>(mapping, row));
+
+const selectOne = <T>(mapping: TableMapping, where?: string, ...params: unknown[]): T | null => {
+  const row = prepare(`SELECT * FROM ${mapping.table}${where ? ` WHERE ${where}` : ''} ORDER BY rowid LIMIT 1`).get(...params);
+  return row ? fromRow<T>(mapping, row) : null;
+};
+
+const insertRecord = (mapping: TableMapping, record: object) => {
+  prepare(insertSql(mapping)).run(toRow(mapping, record));
+};
+
+const updateRecord = <T extends { id: string }>(mapping: TableMapping, record: T) => {
+  prepare(updateSql(mapping)).run(toRow(mapping, record));
+};
+
+const deleteWhere = (mapping: TableMapping, where: string, ...params: unknown[]): number =>
+  prepare(`DELETE FROM ${mapping.table} WHERE ${where}`).run(...params).changes;
+
+const closeDatabase = () => {
+  if (sqlite?.open) {
+    sqlite.close();
+  }
+  statements = new Map();
+  searchIndex = null;
+  isInitialized = false;
+};
+
+// Delete the database file with its write-ahead log
+const removeDatabaseFiles = () => {
+  const dbPath = getDbPath();
+  [dbPath, `${dbPath}-wal`, `${dbPath}-shm`].forEach(file => {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  });
+};
+
+// Check the stored records when the database is opened and report the invalid ones for the
+// user to fix; they are left as they are, cleanups of stored data belong in migrations
+const checkStoredRecords = () => {
+  const tables: [TableMapping, RecordSchema<unknown>][] = [
+    [PRODUCTS, PRODUCT_SCHEMA],
+    [STICKERS, STICKER_SCHEMA],
+    [PRINTER_SETTINGS, PRINTER_SETTING_SCHEMA],
+    [NOTION_SETTINGS, NOTION_SETTING_SCHEMA],
+    [GOOGLE_DRIVE_SETTINGS, GOOGLE_DRIVE_SETTING_SCHEMA]
+  ];
+
+  for (const [mapping, schema] of tables) {
+    for (const stored of selectAll<{ id: string }>(mapping)) {
+      const errors = validateRecord(schema, stored);
+      if (errors.length > 0) {
+        console.warn(`Invalid ${schema.name} ${stored.id} in the database: ${errors.join('; ')}`);
+      }
+    }
+  }
+};
+
+// Files the products and stickers use, by local path or app:// URL, and the PDFs rendered for the stickers
+const getAssetReferences = (products: Product[], stickers: Sticker[]): string[] => [
+  ...[
+    ...products.flatMap(product => [product.localImagePath, product.imageUrl]),
+    ...stickers.flatMap(sticker => [sticker.localPdfPath, sticker.localPreviewPath, sticker.pdfUrl, sticker.previewUrl])
+  ].flatMap(resolveAssetReference),
+  ...stickers.flatMap(sticker => getStickerOutputFiles(sticker.id))
+];
+
+// Delete the asset files of deleted records unless a remaining record still uses them,
+// as stickers with the same name on one product share their downloaded PDF
+const removeUnusedAssets = (products: Product[], stickers: Sticker[]) => {
+  const inUse = new Set(getAssetReferences(selectAll<Product>(PRODUCTS), selectAll<Sticker>(STICKERS)));
+  const removed = removeAssetFiles(getAssetReferences(products, stickers).filter(file => !inUse.has(file)));
+  if (removed.length > 0) {
+    console.log(`Deleted ${removed.length} asset files of deleted records:`, removed);
+  }
 };
 
-// Helper to save the database
+// Local file paths of the records that point to missing files
+const findMissingFiles = <T extends { id: string }>(
+  recordType: MissingFileReference['recordType'],
+  records: T[],
+  fields: MissingFileReference['field'][]
+): MissingFileReference[] =>
+  records.flatMap(record => fields
+    .map(field => ({ recordType, recordId: record.id, field, path: (record as Record<string, unknown>)[field] as string }))
+    .filter(reference => reference.path && !fs.existsSync(reference.path))
+  );
+
+// Unset the local file paths found missing on their records
+const clearMissingFiles = <T extends { id: string }>(mapping: TableMapping, records: T[], missing: MissingFileReference[]) => {
+  records.forEach(record => {
+    const fields = missing.filter(reference => reference.recordId === record.id).map(reference => reference.field);
+    if (fields.length > 0) {
+      updateRecord(mapping, { ...record, ...Object.fromEntries(fields.map(field => [field, undefined])) });
+    }
+  });
+};
+
+/**
+ * Create an ID for a new record. IDs are random, so records created in the same millisecond,
+ * as the sync does, never share one
+ * @returns New unique ID
+ */
+export const generateId = (): string => randomUUID();
+
+// Every write is committed as it happens; this moves the write-ahead log into the database file
 export const saveDatabase = async (): Promise<void> => {
-  if (!db) {
+  if (!sqlite) {
     throw new Error('Database not initialized');
   }
-  
+
   console.log('Saving database...');
   try {
-    await db.write();
+    sqlite.pragma('wal_checkpoint(PASSIVE)');
     console.log('Database saved successfully');
   } catch (error) {
     console.error('Error saving database:', error);
@@ -191,95 +571,97 @@ const dbMethods = {
   initDatabase() {
     try {
       if (isInitialized) return true;
-      
+
       const dbPath = getDbPath();
-      const adapter = new JSONFile<DatabaseSchema>(dbPath);
-      db = new Low<DatabaseSchema>(adapter, defaultData);
-      
-      // Load the database
-      try {
-        db.read();
-      } catch (error) {
-        console.error('Error reading database, creating new one:', error);
-        db.data = defaultData;
-        db.write();
-      }
-      
-      // Initialize default settings if not present
-      if (!db.data.notionSetting) {
-        db.data.notionSetting = defaultData.notionSetting;
-      }
-      
-      if (!db.data.googleDriveSetting) {
-        db.data.googleDriveSetting = defaultData.googleDriveSetting;
-      }
-      
-      // Ensure printerSettings is initialized with proper structure
-      if (!Array.isArray(db.data.printerSettings)) {
-        db.data.printerSettings = [];
+      sqlite = new Database(dbPath);
+      sqlite.pragma('journal_mode = WAL');
+
+      const { from, to } = runMigrations(sqlite, { backupPath: getBackupPath() });
+      if (from !== to) {
+        console.log(`Database schema migrated from version ${from} to ${to}`);
       }
-      
-      // Validate and fix printer settings structure
-      db.data.printerSettings = db.data.printerSettings.map(setting => {
-        if (!setting.id) setting.id = Date.now().toString();
-        if (!setting.options) setting.options = {};
-        if (!setting.createdAt) setting.createdAt = new Date().toISOString();
-        if (!setting.updatedAt) setting.updatedAt = new Date().toISOString();
-        return setting;
-      });
-      
-      // Ensure appSettings is initialized
-      if (!Array.isArray(db.data.appSettings)) {
-        db.data.appSettings = [];
+
+      // A new database takes over the JSON file of earlier versions, or starts with the default printers
+      if (from === 0) {
+        let imported: Record<string, number> | null;
+        try {
+          imported = importJsonDatabase(sqlite, getJsonPath());
+        } catch (error) {
+          // Start over on the next launch instead of running on an empty database the file is never imported into
+          closeDatabase();
+          removeDatabaseFiles();
+          throw error;
+        }
+
+        if (!imported) {
+          sqlite.transaction(() => {
+            DEFAULT_PRINTER_SETTINGS.forEach(setting => insertRecord(PRINTER_SETTINGS, setting));
+          })();
+        }
       }
-      
-      db.write();
+
+      checkStoredRecords();
+
       isInitialized = true;
       console.log('Database initialized at', dbPath);
       return true;
     } catch (error) {
       console.error('Failed to initialize database:', error);
+      closeDatabase();
       return false;
     }
   },
 
+  // Delete all data and start again with a new database
+  resetDatabase() {
+    closeDatabase();
+    removeDatabaseFiles();
+
+    const jsonPath = getJsonPath();
+    if (fs.existsSync(jsonPath)) {
+      fs.unlinkSync(jsonPath);
+    }
+
+    console.log('Database files deleted');
+    return this.initDatabase();
+  },
+
   // Products
   getProducts() {
     if (!isInitialized) this.initDatabase();
-    console.log(`Fetching ${db.data.products.length} products`);
-    return db.data.products;
+    const products = selectAll<Product>(PRODUCTS);
+    console.log(`Fetching ${products.length} products`);
+    return products;
   },
 
   getProductsByType(type: string) {
     if (!isInitialized) this.initDatabase();
-    const filteredProducts = db.data.products.filter(p => p.type === type);
+    const filteredProducts = selectAll<Product>(PRODUCTS, 'type = ?', type);
     console.log(`Fetching ${filteredProducts.length} products of type ${type}`);
     return filteredProducts;
   },
 
-  searchProducts(query: string) {
+  // Ranked search with typo tolerance and transliteration, see lib/product-search.ts
+  searchProducts(query: string, options: ProductSearchOptions = {}): ProductSearchResult[] {
     if (!isInitialized) this.initDatabase();
-    const lowerQuery = query.toLowerCase();
-    const results = db.data.products.filter(p => 
-      p.name.toLowerCase().includes(lowerQuery) || 
-      p.type.toLowerCase().includes(lowerQuery) || 
-      p.sku.toLowerCase().includes(lowerQuery) || 
-      (p.barcode && p.barcode.toLowerCase().includes(lowerQuery))
-    );
+    if (!searchIndex) {
+      searchIndex = buildProductSearchIndex(selectAll<Product>(PRODUCTS));
+    }
+    const results = searchProductIndex(searchIndex, query, options);
     console.log(`Search for "${query}" returned ${results.length} products`);
     return results;
   },
 
   getProduct(id: string) {
     if (!isInitialized) this.initDatabase();
-    const product = db.data.products.find(p => p.id === id) || null;
+    const product = selectOne<Product>(PRODUCTS, 'id = ?', id);
     console.log(`Fetching product with ID ${id}: ${product ? 'found' : 'not found'}`);
     return product;
   },
 
   getProductBySku(sku: string) {
     if (!isInitialized) this.initDatabase();
-    const product = db.data.products.find(p => p.sku === sku) || null;
+    const product = selectOne<Product>(PRODUCTS, 'sku = ?', sku);
     console.log(`Fetching product with SKU ${sku}: ${product ? 'found' : 'not found'}`);
     return product;
   },
@@ -288,113 +670,126 @@ const dbMethods = {
     if (!isInitialized) this.initDatabase();
     const newProduct = {
       ...product,
-      id: Date.now().toString()
+      id: generateId()
     };
-    db.data.products.push(newProduct);
-    await saveDatabase();
+    assertValidRecord(PRODUCT_SCHEMA, newProduct);
+    insertRecord(PRODUCTS, newProduct);
+    searchIndex = null;
     console.log(`Created new product with ID ${newProduct.id}`);
     return newProduct;
   },
 
   async updateProduct(id: string, data: Partial<Product>) {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.products.findIndex(p => p.id === id);
-    if (index !== -1) {
-      db.data.products[index] = { ...db.data.products[index], ...data };
-      await saveDatabase();
+    const product = selectOne<Product>(PRODUCTS, 'id = ?', id);
+    if (product) {
+      const updatedProduct = { ...product, ...data, id };
+      assertValidRecord(PRODUCT_SCHEMA, updatedProduct);
+      updateRecord(PRODUCTS, updatedProduct);
+      searchIndex = null;
       console.log(`Updated product with ID ${id}`);
-      return db.data.products[index];
+      return updatedProduct;
     }
     console.log(`Failed to update product: ID ${id} not found`);
     return null;
   },
 
+  // Deletes the product with its stickers and the files they downloaded
   async deleteProduct(id: string) {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.products.findIndex(p => p.id === id);
-    if (index !== -1) {
-      db.data.products.splice(index, 1);
-      await saveDatabase();
-      console.log(`Deleted product with ID ${id}`);
-      return true;
+    const product = selectOne<Product>(PRODUCTS, 'id = ?', id);
+    if (!product) {
+      console.log(`Failed to delete product: ID ${id} not found`);
+      return false;
     }
-    console.log(`Failed to delete product: ID ${id} not found`);
-    return false;
+
+    const stickers = selectAll<Sticker>(STICKERS, 'product_id = ?', id);
+    sqlite.transaction(() => {
+      deleteWhere(STICKERS, 'product_id = ?', id);
+      deleteWhere(PRODUCTS, 'id = ?', id);
+    })();
+    searchIndex = null;
+    removeUnusedAssets([product], stickers);
+    console.log(`Deleted product with ID ${id} and its ${stickers.length} stickers`);
+    return true;
   },
 
   // Stickers
   getStickers(productId: string) {
     if (!isInitialized) this.initDatabase();
-    const stickers = db.data.stickers.filter(s => s.productId === productId);
+    const stickers = selectAll<Sticker>(STICKERS, 'product_id = ?', productId);
     console.log(`Fetching ${stickers.length} stickers for product ${productId}`);
     return stickers;
   },
 
   getSticker(id: string) {
     if (!isInitialized) this.initDatabase();
-    const sticker = db.data.stickers.find(s => s.id === id) || null;
+    const sticker = selectOne<Sticker>(STICKERS, 'id = ?', id);
     console.log(`Fetching sticker with ID ${id}: ${sticker ? 'found' : 'not found'}`);
     return sticker;
   },
 
   async createSticker(sticker: Omit<Sticker, 'id'>): Promise<Sticker> {
     if (!isInitialized) this.initDatabase();
-    const id = Date.now().toString();
+    const id = generateId();
     const newSticker: Sticker = {
-      id,
-      ...sticker
+      ...sticker,
+      id
     };
-    
-    db.data.stickers.push(newSticker);
-    await saveDatabase();
+
+    assertValidRecord(STICKER_SCHEMA, newSticker);
+    insertRecord(STICKERS, newSticker);
     console.log(`Created new sticker with ID ${id}`);
     return newSticker;
   },
 
   async updateSticker(id: string, updates: Partial<Omit<Sticker, 'id' | 'productId'>>): Promise<Sticker | null> {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.stickers.findIndex(s => s.id === id);
-    if (index === -1) return null;
-    
-    const updatedSticker = { ...db.data.stickers[index], ...updates };
-    db.data.stickers[index] = updatedSticker;
-    await saveDatabase();
+    const sticker = selectOne<Sticker>(STICKERS, 'id = ?', id);
+    if (!sticker) return null;
+
+    const updatedSticker = { ...sticker, ...updates, id };
+    assertValidRecord(STICKER_SCHEMA, updatedSticker);
+    updateRecord(STICKERS, updatedSticker);
     console.log(`Updated sticker with ID ${id}`);
     return updatedSticker;
   },
 
+  // Deletes the sticker and the files it downloaded
   async deleteSticker(id: string) {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.stickers.findIndex(s => s.id === id);
-    if (index !== -1) {
-      db.data.stickers.splice(index, 1);
-      await saveDatabase();
-      console.log(`Deleted sticker with ID ${id}`);
-      return true;
+    const sticker = selectOne<Sticker>(STICKERS, 'id = ?', id);
+    if (!sticker) {
+      console.log(`Failed to delete sticker: ID ${id} not found`);
+      return false;
     }
-    console.log(`Failed to delete sticker: ID ${id} not found`);
-    return false;
+
+    deleteWhere(STICKERS, 'id = ?', id);
+    removeUnusedAssets([], [sticker]);
+    console.log(`Deleted sticker with ID ${id}`);
+    return true;
   },
 
   // Printer settings
   getPrinterSettings() {
     if (!isInitialized) this.initDatabase();
-    console.log(`Fetching ${db.data.printerSettings.length} printer settings`);
-    return db.data.printerSettings;
+    const settings = selectAll<PrinterSetting>(PRINTER_SETTINGS);
+    console.log(`Fetching ${settings.length} printer settings`);
+    return settings;
   },
 
   getPrinterSetting(size: string) {
     if (!isInitialized) this.initDatabase();
-    const setting = db.data.printerSettings.find(p => p.size === size) || null;
+    const setting = selectOne<PrinterSetting>(PRINTER_SETTINGS, 'size = ?', size);
     console.log(`Fetching printer setting for size ${size}: ${setting ? 'found' : 'not found'}`);
     return setting;
   },
 
   async createPrinterSetting(setting: Omit<PrinterSetting, 'id'>) {
     if (!isInitialized) this.initDatabase();
-    const newSetting = { ...setting, id: Date.now().toString() } as PrinterSetting;
-    db.data.printerSettings.push(newSetting);
-    await saveDatabase();
+    const newSetting = { ...setting, id: generateId() } as PrinterSetting;
+    assertValidRecord(PRINTER_SETTING_SCHEMA, newSetting);
+    insertRecord(PRINTER_SETTINGS, newSetting);
     console.log(`Created new printer setting with size ${setting.size}`);
     return newSetting;
   },
@@ -402,39 +797,41 @@ const dbMethods = {
   async updatePrinterSettings(setting: PrinterSetting) {
     if (!isInitialized) this.initDatabase();
     console.log(`Updating printer setting for size ${setting.size}`);
-    
-    const index = db.data.printerSettings.findIndex(s => s.size === setting.size);
-    
-    if (index !== -1) {
+
+    const existing = selectOne<PrinterSetting>(PRINTER_SETTINGS, 'size = ?', setting.size);
+
+    if (existing) {
       // Update existing setting
       console.log(`Found existing printer setting for size ${setting.size}, updating`);
-      db.data.printerSettings[index] = {
+      const updated = {
         ...setting,
+        id: existing.id,
+        createdAt: setting.createdAt || existing.createdAt,
         updatedAt: new Date().toISOString()
       };
+      assertValidRecord(PRINTER_SETTING_SCHEMA, updated);
+      updateRecord(PRINTER_SETTINGS, updated);
     } else {
       // Create new setting
       console.log(`No printer setting found for size ${setting.size}, creating new one`);
-      db.data.printerSettings.push({
+      const created = {
         ...setting,
-        id: Date.now().toString(),
+        id: generateId(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      });
+      };
+      assertValidRecord(PRINTER_SETTING_SCHEMA, created);
+      insertRecord(PRINTER_SETTINGS, created);
     }
-    
-    await saveDatabase();
-    const updatedSetting = db.data.printerSettings.find(s => s.size === setting.size);
+
+    const updatedSetting = selectOne<PrinterSetting>(PRINTER_SETTINGS, 'size = ?', setting.size);
     console.log(`Updated printer setting: ${JSON.stringify(updatedSetting)}`);
     return updatedSetting;
   },
 
   async deletePrinterSetting(size: string) {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.printerSettings.findIndex(p => p.size === size);
-    if (index !== -1) {
-      db.data.printerSettings.splice(index, 1);
-      await saveDatabase();
+    if (deleteWhere(PRINTER_SETTINGS, 'size = ?', size) > 0) {
       console.log(`Deleted printer setting with size ${size}`);
       return true;
     }
@@ -442,56 +839,245 @@ const dbMethods = {
     return false;
   },
 
+  // Label templates
+  getLabelTemplates() {
+    if (!isInitialized) this.initDatabase();
+    const templates = selectAll<LabelTemplate>(LABEL_TEMPLATES);
+    console.log(`Fetching ${templates.length} label templates`);
+    return templates;
+  },
+
+  getLabelTemplate(id: string) {
+    if (!isInitialized) this.initDatabase();
+    return selectOne<LabelTemplate>(LABEL_TEMPLATES, 'id = ?', id);
+  },
+
+  async createLabelTemplate(template: Omit<LabelTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<LabelTemplate> {
+    if (!isInitialized) this.initDatabase();
+    const now = new Date().toISOString();
+    const newTemplate: LabelTemplate = {
+      ...template,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now
+    };
+    insertRecord(LABEL_TEMPLATES, newTemplate);
+    console.log(`Created label template "${newTemplate.name}" with ID ${newTemplate.id}`);
+    return newTemplate;
+  },
+
+  async updateLabelTemplate(id: string, updates: Partial<Omit<LabelTemplate, 'id' | 'createdAt'>>): Promise<LabelTemplate | null> {
+    if (!isInitialized) this.initDatabase();
+    const template = selectOne<LabelTemplate>(LABEL_TEMPLATES, 'id = ?', id);
+    if (!template) return null;
+
+    const updatedTemplate = {
+      ...template,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    updateRecord(LABEL_TEMPLATES, updatedTemplate);
+    console.log(`Updated label template with ID ${id}`);
+    return updatedTemplate;
+  },
+
+  async deleteLabelTemplate(id: string) {
+    if (!isInitialized) this.initDatabase();
+    if (deleteWhere(LABEL_TEMPLATES, 'id = ?', id) > 0) {
+      console.log(`Deleted label template with ID ${id}`);
+      return true;
+    }
+    console.log(`Failed to delete label template: ID ${id} not found`);
+    return false;
+  },
+
+  // Label stocks
+  getLabelStocks() {
+    if (!isInitialized) this.initDatabase();
+    return selectAll<LabelStock>(LABEL_STOCKS);
+  },
+
+  getLabelStock(id: string) {
+    if (!isInitialized) this.initDatabase();
+    return selectOne<LabelStock>(LABEL_STOCKS, 'id = ?', id);
+  },
+
+  async createLabelStock(stock: Omit<LabelStock, 'id' | 'createdAt' | 'updatedAt'>): Promise<LabelStock> {
+    if (!isInitialized) this.initDatabase();
+    const now = new Date().toISOString();
+    const newStock: LabelStock = {
+      ...stock,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now
+    };
+    insertRecord(LABEL_STOCKS, newStock);
+    console.log(`Created label stock "${newStock.name}" with ID ${newStock.id}`);
+    return newStock;
+  },
+
+  async updateLabelStock(id: string, updates: Partial<Omit<LabelStock, 'id' | 'createdAt'>>): Promise<LabelStock | null> {
+    if (!isInitialized) this.initDatabase();
+    const stock = selectOne<LabelStock>(LABEL_STOCKS, 'id = ?', id);
+    if (!stock) return null;
+
+    const updatedStock = {
+      ...stock,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    updateRecord(LABEL_STOCKS, updatedStock);
+    console.log(`Updated label stock with ID ${id}`);
+    return updatedStock;
+  },
+
+  async deleteLabelStock(id: string) {
+    if (!isInitialized) this.initDatabase();
+    const deleted = sqlite.transaction(() => {
+      if (deleteWhere(LABEL_STOCKS, 'id = ?', id) === 0) return false;
+      // Stickers and printers on the deleted stock fall back to their size strings
+      prepare('UPDATE stickers SET label_stock_id = NULL WHERE label_stock_id = ?').run(id);
+      prepare('UPDATE printer_settings SET label_stock_id = NULL WHERE label_stock_id = ?').run(id);
+      return true;
+    })();
+
+    if (!deleted) {
+      console.log(`Failed to delete label stock: ID ${id} not found`);
+      return false;
+    }
+    console.log(`Deleted label stock with ID ${id}`);
+    return true;
+  },
+
+  // Printer groups
+  getPrinterGroups() {
+    if (!isInitialized) this.initDatabase();
+    return selectAll<PrinterGroup>(PRINTER_GROUPS);
+  },
+
+  getPrinterGroup(id: string) {
+    if (!isInitialized) this.initDatabase();
+    return selectOne<PrinterGroup>(PRINTER_GROUPS, 'id = ?', id);
+  },
+
+  async createPrinterGroup(group: Omit<PrinterGroup, 'id' | 'createdAt' | 'updatedAt'>): Promise<PrinterGroup> {
+    if (!isInitialized) this.initDatabase();
+    const now = new Date().toISOString();
+    const newGroup: PrinterGroup = {
+      ...group,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now
+    };
+    insertRecord(PRINTER_GROUPS, newGroup);
+    console.log(`Created printer group "${newGroup.name}" with ID ${newGroup.id}`);
+    return newGroup;
+  },
+
+  async updatePrinterGroup(id: string, updates: Partial<Omit<PrinterGroup, 'id' | 'createdAt'>>): Promise<PrinterGroup | null> {
+    if (!isInitialized) this.initDatabase();
+    const group = selectOne<PrinterGroup>(PRINTER_GROUPS, 'id = ?', id);
+    if (!group) return null;
+
+    const updatedGroup = {
+      ...group,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    sqlite.transaction(() => {
+      updateRecord(PRINTER_GROUPS, updatedGroup);
+      // Printer settings on the group show its name as their printer
+      prepare('UPDATE printer_settings SET printer_name = ? WHERE printer_group_id = ?').run(updatedGroup.name, id);
+    })();
+    console.log(`Updated printer group with ID ${id}`);
+    return updatedGroup;
+  },
+
+  async deletePrinterGroup(id: string) {
+    if (!isInitialized) this.initDatabase();
+    const deleted = sqlite.transaction(() => {
+      if (deleteWhere(PRINTER_GROUPS, 'id = ?', id) === 0) return false;
+      // Printer settings that targeted the group have no printer until one is chosen
+      prepare(
+        "UPDATE printer_settings SET printer_group_id = NULL, printer_type = 'system', printer_name = '' WHERE printer_group_id = ?"
+      ).run(id);
+      return true;
+    })();
+
+    if (!deleted) {
+      console.log(`Failed to delete printer group: ID ${id} not found`);
+      return false;
+    }
+    console.log(`Deleted printer group with ID ${id}`);
+    return true;
+  },
+
   // Notion settings
   getNotionSetting() {
     if (!isInitialized) this.initDatabase();
-    console.log(`Fetching Notion settings: ${db.data.notionSetting ? 'found' : 'not found'}`);
-    return db.data.notionSetting;
+    const setting = selectOne<NotionSetting>(NOTION_SETTINGS);
+    console.log(`Fetching Notion settings: ${setting ? 'found' : 'not found'}`);
+    return setting;
   },
 
   async createOrUpdateNotionSetting(setting: Omit<NotionSetting, 'id'>) {
     if (!isInitialized) this.initDatabase();
-    if (db.data.notionSetting) {
-      db.data.notionSetting = { ...db.data.notionSetting, ...setting };
+    const existing = selectOne<NotionSetting>(NOTION_SETTINGS);
+    let notionSetting: NotionSetting;
+    if (existing) {
+      notionSetting = { ...existing, ...setting, id: existing.id };
+      assertValidRecord(NOTION_SETTING_SCHEMA, notionSetting);
+      updateRecord(NOTION_SETTINGS, notionSetting);
       console.log('Updated Notion settings');
     } else {
-      db.data.notionSetting = { ...setting, id: Date.now().toString() } as NotionSetting;
+      notionSetting = { ...setting, id: generateId() } as NotionSetting;
+      assertValidRecord(NOTION_SETTING_SCHEMA, notionSetting);
+      insertRecord(NOTION_SETTINGS, notionSetting);
       console.log('Created new Notion settings');
     }
-    await saveDatabase();
-    return db.data.notionSetting;
+    return notionSetting;
   },
 
   // Google Drive settings
   getGoogleDriveSetting() {
     if (!isInitialized) this.initDatabase();
-    console.log(`Fetching Google Drive settings: ${db.data.googleDriveSetting ? 'found' : 'not found'}`);
-    return db.data.googleDriveSetting;
+    const setting = selectOne<GoogleDriveSetting>(GOOGLE_DRIVE_SETTINGS);
+    console.log(`Fetching Google Drive settings: ${setting ? 'found' : 'not found'}`);
+    return setting;
   },
 
   async createOrUpdateGoogleDriveSetting(setting: Omit<GoogleDriveSetting, 'id'>) {
     if (!isInitialized) this.initDatabase();
-    if (db.data.googleDriveSetting) {
-      db.data.googleDriveSetting = { ...db.data.googleDriveSetting, ...setting };
+    const existing = selectOne<GoogleDriveSetting>(GOOGLE_DRIVE_SETTINGS);
+    let googleDriveSetting: GoogleDriveSetting;
+    if (existing) {
+      googleDriveSetting = { ...existing, ...setting, id: existing.id };
+      assertValidRecord(GOOGLE_DRIVE_SETTING_SCHEMA, googleDriveSetting);
+      updateRecord(GOOGLE_DRIVE_SETTINGS, googleDriveSetting);
       console.log('Updated Google Drive settings');
     } else {
-      db.data.googleDriveSetting = { ...setting, id: Date.now().toString() } as GoogleDriveSetting;
+      googleDriveSetting = { ...setting, id: generateId() } as GoogleDriveSetting;
+      assertValidRecord(GOOGLE_DRIVE_SETTING_SCHEMA, googleDriveSetting);
+      insertRecord(GOOGLE_DRIVE_SETTINGS, googleDriveSetting);
       console.log('Created new Google Drive settings');
     }
-    await saveDatabase();
-    return db.data.googleDriveSetting;
+    return googleDriveSetting;
   },
-  
+
   // App Settings
   getAppSettings() {
     if (!isInitialized) this.initDatabase();
-    console.log(`Fetching ${db.data.appSettings.length} app settings`);
-    return db.data.appSettings;
+    const settings = selectAll<AppSetting>(APP_SETTINGS);
+    console.log(`Fetching ${settings.length} app settings`);
+    return settings;
   },
 
   getAppSetting(key: string) {
     if (!isInitialized) this.initDatabase();
-    const setting = db.data.appSettings.find(s => s.key === key) || null;
+    const setting = selectOne<AppSetting>(APP_SETTINGS, 'key = ?', key);
     console.log(`Fetching app setting with key ${key}: ${setting ? 'found' : 'not found'}`);
     return setting;
   },
@@ -499,39 +1085,35 @@ const dbMethods = {
   async createOrUpdateAppSetting(key: string, value: any) {
     if (!isInitialized) this.initDatabase();
     const now = new Date().toISOString();
-    const existingIndex = db.data.appSettings.findIndex(s => s.key === key);
-    
-    if (existingIndex !== -1) {
+    const existing = selectOne<AppSetting>(APP_SETTINGS, 'key = ?', key);
+
+    if (existing) {
       // Update existing setting
-      db.data.appSettings[existingIndex] = {
-        ...db.data.appSettings[existingIndex],
+      updateRecord(APP_SETTINGS, {
+        ...existing,
         value,
         updatedAt: now
-      };
+      });
       console.log(`Updated app setting with key ${key}`);
     } else {
       // Create new setting
       const newSetting: AppSetting = {
-        id: Date.now().toString(),
+        id: generateId(),
         key,
         value,
         createdAt: now,
         updatedAt: now
       };
-      db.data.appSettings.push(newSetting);
+      insertRecord(APP_SETTINGS, newSetting);
       console.log(`Created new app setting with key ${key}`);
     }
-    
-    await saveDatabase();
+
     return this.getAppSetting(key);
   },
 
   async deleteAppSetting(key: string) {
     if (!isInitialized) this.initDatabase();
-    const index = db.data.appSettings.findIndex(s => s.key === key);
-    if (index !== -1) {
-      db.data.appSettings.splice(index, 1);
-      await saveDatabase();
+    if (deleteWhere(APP_SETTINGS, 'key = ?', key) > 0) {
       console.log(`Deleted app setting with key ${key}`);
       return true;
     }
@@ -541,20 +1123,117 @@ const dbMethods = {
 
   getGeneralSettings() {
     if (!isInitialized) this.initDatabase();
-    const settings = db.data.appSettings.reduce((acc, setting) => {
+    const settings = selectAll<AppSetting>(APP_SETTINGS).reduce((acc, setting) => {
       acc[setting.key] = setting.value;
       return acc;
     }, {} as Record<string, any>);
     console.log('Fetching general settings');
     return settings;
   },
-  
-  // Clear database
+
+  // Print jobs
+  getPrintJobs() {
+    if (!isInitialized) this.initDatabase();
+    const jobs = selectAll<PrintJob>(PRINT_JOBS);
+    console.log(`Fetching ${jobs.length} print jobs`);
+    return jobs;
+  },
+
+  getPrintJob(id: string) {
+    if (!isInitialized) this.initDatabase();
+    return selectOne<PrintJob>(PRINT_JOBS, 'id = ?', id);
+  },
+
+  async createPrintJob(job: Omit<PrintJob, 'id'>): Promise<PrintJob> {
+    if (!isInitialized) this.initDatabase();
+    const newJob: PrintJob = {
+      id: generateId(),
+      ...job
+    };
+    insertRecord(PRINT_JOBS, newJob);
+    console.log(`Created print job with ID ${newJob.id}`);
+    return newJob;
+  },
+
+  async updatePrintJob(id: string, updates: Partial<Omit<PrintJob, 'id'>>): Promise<PrintJob | null> {
+    if (!isInitialized) this.initDatabase();
+    const job = selectOne<PrintJob>(PRINT_JOBS, 'id = ?', id);
+    if (!job) return null;
+
+    const updatedJob = {
+      ...job,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    updateRecord(PRINT_JOBS, updatedJob);
+    console.log(`Updated print job ${id}: ${updatedJob.status}`);
+    return updatedJob;
+  },
+
+  async deletePrintJobs(ids: string[]) {
+    if (!isInitialized) this.initDatabase();
+    const deleted = sqlite.transaction(() =>
+      ids.reduce((count, id) => count + deleteWhere(PRINT_JOBS, 'id = ?', id), 0)
+    )();
+    console.log(`Deleted ${deleted} print jobs`);
+    return deleted;
+  },
+
+  /**
+   * Look for stickers of deleted products, local file paths pointing to missing files and
+   * files in the asset folders no record uses
+   * @param options fix: delete the stickers and files and unset the paths found
+   * @returns The problems found
+   */
+  checkIntegrity({ fix = false }: { fix?: boolean } = {}): IntegrityReport {
+    if (!isInitialized) this.initDatabase();
+    const products = selectAll<Product>(PRODUCTS);
+    const productIds = new Set(products.map(product => product.id));
+    const stickers = selectAll<Sticker>(STICKERS);
+    const orphanedStickers = stickers.filter(sticker => !productIds.has(sticker.productId));
+    const validStickers = stickers.filter(sticker => productIds.has(sticker.productId));
+
+    // Orphaned stickers go away with the fix, so only the paths and files of the others count
+    const missingFiles = [
+      ...findMissingFiles('product', products, ['localImagePath']),
+      ...findMissingFiles('sticker', validStickers, ['localPdfPath', 'localPreviewPath'])
+    ];
+    const inUse = new Set(getAssetReferences(products, validStickers));
+    const unreferencedFiles = listAssetFiles().filter(file => !inUse.has(file));
+
+    console.log(
+      `Integrity check found ${orphanedStickers.length} orphaned stickers, ` +
+      `${missingFiles.length} missing files and ${unreferencedFiles.length} unreferenced files`
+    );
+
+    if (fix) {
+      sqlite.transaction(() => {
+        orphanedStickers.forEach(sticker => deleteWhere(STICKERS, 'id = ?', sticker.id));
+        clearMissingFiles(PRODUCTS, products, missingFiles.filter(reference => reference.recordType === 'product'));
+        clearMissingFiles(STICKERS, validStickers, missingFiles.filter(reference => reference.recordType === 'sticker'));
+      })();
+      const removed = removeAssetFiles(unreferencedFiles);
+      console.log(`Integrity fix deleted ${orphanedStickers.length} stickers and ${removed.length} files`);
+    }
+
+    return {
+      orphanedStickers: orphanedStickers.map(({ id, productId, name }) => ({ id, productId, name })),
+      missingFiles,
+      unreferencedFiles,
+      fixed: fix
+    };
+  },
+
+  // Clear database. Downloaded files stay for the next sync to reuse; checkIntegrity
+  // removes the ones it does not
   async clearProducts() {
     if (!isInitialized) this.initDatabase();
-    db.data.products = [];
-    db.data.stickers = [];
-    await saveDatabase();
+    sqlite.transaction(() => {
+      prepare('DELETE FROM products').run();
+      prepare('DELETE FROM stickers').run();
+    })();
+    searchIndex = null;
     console.log('Cleared all products and stickers from the database');
     return true;
   }
@@ -562,6 +1241,7 @@ const dbMethods = {
 
 export default {
   initDatabase: dbMethods.initDatabase,
+  resetDatabase: dbMethods.resetDatabase,
   getProducts: dbMethods.getProducts,
   getProductsByType: dbMethods.getProductsByType,
   searchProducts: dbMethods.searchProducts,
@@ -583,11 +1263,32 @@ export default {
   getPrinterSetting: dbMethods.getPrinterSetting,
   createPrinterSetting: dbMethods.createPrinterSetting,
   updatePrinterSettings: dbMethods.updatePrinterSettings,
+  getLabelTemplates: dbMethods.getLabelTemplates,
+  getLabelTemplate: dbMethods.getLabelTemplate,
+  createLabelTemplate: dbMethods.createLabelTemplate,
+  updateLabelTemplate: dbMethods.updateLabelTemplate,
+  deleteLabelTemplate: dbMethods.deleteLabelTemplate,
+  getLabelStocks: dbMethods.getLabelStocks,
+  getLabelStock: dbMethods.getLabelStock,
+  createLabelStock: dbMethods.createLabelStock,
+  updateLabelStock: dbMethods.updateLabelStock,
+  deleteLabelStock: dbMethods.deleteLabelStock,
+  getPrinterGroups: dbMethods.getPrinterGroups,
+  getPrinterGroup: dbMethods.getPrinterGroup,
+  createPrinterGroup: dbMethods.createPrinterGroup,
+  updatePrinterGroup: dbMethods.updatePrinterGroup,
+  deletePrinterGroup: dbMethods.deletePrinterGroup,
   clearProducts: dbMethods.clearProducts,
+  checkIntegrity: dbMethods.checkIntegrity,
   saveDatabase,
   getAppSettings: dbMethods.getAppSettings,
   getAppSetting: dbMethods.getAppSetting,
   createOrUpdateAppSetting: dbMethods.createOrUpdateAppSetting,
   deleteAppSetting: dbMethods.deleteAppSetting,
-  getGeneralSettings: dbMethods.getGeneralSettings
-}; 
\ No newline at end of file
+  getGeneralSettings: dbMethods.getGeneralSettings,
+  getPrintJobs: dbMethods.getPrintJobs,
+  getPrintJob: dbMethods.getPrintJob,
+  createPrintJob: dbMethods.createPrintJob,
+  updatePrintJob: dbMethods.updatePrintJob,
+  deletePrintJobs: dbMethods.deletePrintJobs
+};
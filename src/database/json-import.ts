@@ -0,0 +1,198 @@
+/**
+ * JSON Import Module
+ * Moves the data of the lowdb database.json file the app used to keep into SQLite.
+ * The import runs once: the file is renamed afterwards and kept as a backup.
+ */
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { generateId } from './db';
+import {
+  GOOGLE_DRIVE_SETTING_SCHEMA,
+  NOTION_SETTING_SCHEMA,
+  PRINTER_SETTING_SCHEMA,
+  PRODUCT_SCHEMA,
+  RecordSchema,
+  removeUnknownFields,
+  STICKER_SCHEMA,
+  validateRecord
+} from './schema';
+import {
+  APP_SETTINGS,
+  GOOGLE_DRIVE_SETTINGS,
+  insertSql,
+  LABEL_STOCKS,
+  LABEL_TEMPLATES,
+  NOTION_SETTINGS,
+  PRINT_JOBS,
+  PRINTER_GROUPS,
+  PRINTER_SETTINGS,
+  PRODUCTS,
+  STICKERS,
+  TableMapping,
+  toRow
+} from './tables';
+
+// Appended to the name of a database.json file once it has been imported
+export const IMPORTED_SUFFIX = '.imported';
+
+type JsonRecord = Record<string, any>;
+
+/**
+ * Create the label stock registry from the printer setting sizes, as files from before
+ * label stocks existed got it when they were first opened
+ * @param data Parsed database.json
+ */
+function seedLabelStocks(data: JsonRecord): void {
+  data.labelStocks = [];
+  (data.printerSettings || []).forEach((setting: JsonRecord) => {
+    const match = (setting.size || '').match(/(\d+(?:[.,]\d+)?)\s*[xх×*]\s*(\d+(?:[.,]\d+)?)/i);
+    if (!match) return;
+    const now = new Date().toISOString();
+    const stock = {
+      id: generateId(),
+      name: `${setting.size} mm`,
+      width: parseFloat(match[1].replace(',', '.')),
+      height: parseFloat(match[2].replace(',', '.')),
+      unit: 'mm',
+      shape: 'rectangle',
+      sensing: 'gap',
+      aliases: [setting.size],
+      createdAt: now,
+      updatedAt: now
+    };
+    data.labelStocks.push(stock);
+    setting.labelStockId = stock.id;
+  });
+}
+
+/**
+ * Check a record against its schema as writes do, dropping the properties the schema no
+ * longer has, which writes would reject
+ * @param schema Schema of the record type
+ * @param record Record from the JSON file, with its ID
+ * @returns The record with only the known properties, or null when it is still invalid
+ */
+function checkRecord(schema: RecordSchema<unknown>, record: JsonRecord): JsonRecord | null {
+  const { record: known, removed } = removeUnknownFields(schema, record);
+  if (removed.length > 0) {
+    console.log(`Not importing unknown fields of ${schema.name} ${record.id}: ${removed.join(', ')}`);
+  }
+  const errors = validateRecord(schema, known);
+  if (errors.length > 0) {
+    console.warn(`Not importing invalid ${schema.name} ${record.id}: ${errors.join('; ')}`);
+    return null;
+  }
+  return known as JsonRecord;
+}
+
+/**
+ * Insert the records of one collection, skipping the ones SQLite would reject: records
+ * with a unique value already taken keep the first one, as lookups in the JSON file did,
+ * and records sharing an ID (created in the same millisecond) get a new one. Records of
+ * types with a schema are checked against it, and invalid ones are left out; the file is
+ * kept, so they can be fixed there and entered again.
+ * @param sqlite Open database
+ * @param mapping Table to insert into
+ * @param records Records from the JSON file
+ * @param options.schema Schema the records are checked against
+ * @param options.uniqueProperty Property with a unique column besides the ID
+ * @returns Number of records inserted
+ */
+function insertRecords(
+  sqlite: Database.Database,
+  mapping: TableMapping,
+  records: JsonRecord[],
+  { schema, uniqueProperty }: { schema?: RecordSchema<unknown>; uniqueProperty?: string } = {}
+): number {
+  const insert = sqlite.prepare(insertSql(mapping));
+  const ids = new Set<string>();
+  const uniqueValues = new Set<unknown>();
+  let count = 0;
+
+  records.forEach(record => {
+    if (!record || typeof record !== 'object') return;
+
+    let id = record.id ? String(record.id) : generateId();
+    const imported = schema ? checkRecord(schema, { ...record, id }) : { ...record, id };
+    if (!imported) return;
+
+    if (uniqueProperty) {
+      if (uniqueValues.has(imported[uniqueProperty])) {
+        console.warn(`Skipping ${mapping.table} record ${id}: ${uniqueProperty} "${imported[uniqueProperty]}" is already imported`);
+        return;
+      }
+      uniqueValues.add(imported[uniqueProperty]);
+    }
+
+    if (ids.has(id)) {
+      const duplicateId = id;
+      for (let n = 1; ids.has(id); n++) id = `${duplicateId}_${n}`;
+      console.warn(`Duplicate ${mapping.table} ID ${duplicateId} imported as ${id}`);
+    }
+    ids.add(id);
+
+    insert.run(toRow(mapping, { ...imported, id }));
+    count++;
+  });
+
+  return count;
+}
+
+/**
+ * Import a lowdb database.json file into an empty SQLite database, all or nothing
+ * @param sqlite Open database with the current schema and no data
+ * @param jsonPath Path to database.json
+ * @returns Records imported by table, or null when there is no file to import
+ */
+export function importJsonDatabase(sqlite: Database.Database, jsonPath: string): Record<string, number> | null {
+  if (!fs.existsSync(jsonPath)) {
+    return null;
+  }
+
+  console.log(`Importing ${jsonPath} into SQLite`);
+  const data: JsonRecord = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+
+  // Printer settings were given missing IDs and timestamps whenever the file was opened
+  const printerSettings: JsonRecord[] = (Array.isArray(data.printerSettings) ? data.printerSettings : []).map((setting: JsonRecord) => ({
+    ...setting,
+    id: setting.id || generateId(),
+    createdAt: setting.createdAt || new Date().toISOString(),
+    updatedAt: setting.updatedAt || new Date().toISOString()
+  }));
+  data.printerSettings = printerSettings;
+  if (!Array.isArray(data.labelStocks)) {
+    seedLabelStocks(data);
+  }
+
+  const list = (value: unknown): JsonRecord[] => (Array.isArray(value) ? value : []);
+  const counts: Record<string, number> = {};
+  sqlite.transaction(() => {
+    counts.products = insertRecords(sqlite, PRODUCTS, list(data.products), { schema: PRODUCT_SCHEMA });
+    counts.stickers = insertRecords(sqlite, STICKERS, list(data.stickers), { schema: STICKER_SCHEMA });
+    counts.printerSettings = insertRecords(sqlite, PRINTER_SETTINGS, printerSettings, {
+      schema: PRINTER_SETTING_SCHEMA,
+      uniqueProperty: 'size'
+    });
+    counts.labelTemplates = insertRecords(sqlite, LABEL_TEMPLATES, list(data.labelTemplates));
+    counts.labelStocks = insertRecords(sqlite, LABEL_STOCKS, list(data.labelStocks));
+    counts.printerGroups = insertRecords(sqlite, PRINTER_GROUPS, list(data.printerGroups));
+    counts.appSettings = insertRecords(sqlite, APP_SETTINGS, list(data.appSettings), { uniqueProperty: 'key' });
+    counts.printJobs = insertRecords(sqlite, PRINT_JOBS, list(data.printJobs));
+    counts.notionSettings = insertRecords(sqlite, NOTION_SETTINGS, data.notionSetting ? [data.notionSetting] : [], {
+      schema: NOTION_SETTING_SCHEMA
+    });
+    counts.googleDriveSettings = insertRecords(sqlite, GOOGLE_DRIVE_SETTINGS, data.googleDriveSetting ? [data.googleDriveSetting] : [], {
+      schema: GOOGLE_DRIVE_SETTING_SCHEMA
+    });
+  })();
+
+  // Keep the file as a backup under a name that is not imported again
+  let importedPath = `${jsonPath}${IMPORTED_SUFFIX}`;
+  if (fs.existsSync(importedPath)) {
+    importedPath = `${jsonPath}.${Date.now()}${IMPORTED_SUFFIX}`;
+  }
+  fs.renameSync(jsonPath, importedPath);
+
+  console.log(`Imported ${jsonPath} (kept as ${importedPath}):`, counts);
+  return counts;
+}
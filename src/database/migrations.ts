@@ -0,0 +1,291 @@
+/**
+ * Database Migrations Module
+ * Numbered schema and data changes applied in order at startup. The schema version is
+ * stored in SQLite's user_version, so each migration runs once per database. A copy of
+ * the database is saved before upgrading, and the pending migrations run in one
+ * transaction: when one fails, none of them are kept and the database stays at the
+ * version it had.
+ */
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { fromRow, GOOGLE_DRIVE_SETTINGS, NOTION_SETTINGS, PRINTER_SETTINGS, PRODUCTS, STICKERS, TableMapping, toRow, updateSql } from './tables';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Changes the schema or rewrites data; runs inside the upgrade transaction
+  up(sqlite: Database.Database): void;
+}
+
+// Record of the migrations applied to a database, with when they ran and how long they took
+const HISTORY_TABLE = 'schema_migrations';
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create tables',
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE products (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          sku TEXT,
+          type TEXT,
+          barcode TEXT,
+          price REAL,
+          category TEXT,
+          description TEXT,
+          image_url TEXT,
+          local_image_path TEXT,
+          tags TEXT,
+          notion_id TEXT,
+          version INTEGER,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+        CREATE INDEX idx_products_sku ON products (sku);
+        CREATE INDEX idx_products_type ON products (type);
+
+        CREATE TABLE stickers (
+          id TEXT PRIMARY KEY,
+          product_id TEXT NOT NULL,
+          label_stock_id TEXT,
+          name TEXT,
+          size TEXT,
+          detected_size TEXT,
+          size_mismatch INTEGER,
+          pdf_url TEXT,
+          local_pdf_path TEXT,
+          local_preview_path TEXT,
+          preview_url TEXT,
+          print_quantity INTEGER,
+          overlay_fields TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+        CREATE INDEX idx_stickers_product_id ON stickers (product_id);
+
+        CREATE TABLE printer_settings (
+          id TEXT PRIMARY KEY,
+          size TEXT NOT NULL UNIQUE,
+          printer_name TEXT,
+          printer_type TEXT,
+          printer_group_id TEXT,
+          label_stock_id TEXT,
+          options TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE label_templates (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          width REAL,
+          height REAL,
+          elements TEXT,
+          sizes TEXT,
+          product_types TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE label_stocks (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          width REAL,
+          height REAL,
+          unit TEXT,
+          shape TEXT,
+          sensing TEXT,
+          gap REAL,
+          liner_offset REAL,
+          dpi INTEGER,
+          aliases TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE printer_groups (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          members TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE print_jobs (
+          id TEXT PRIMARY KEY,
+          sticker_id TEXT,
+          sticker_name TEXT,
+          product_id TEXT,
+          printer_name TEXT,
+          printer_group_id TEXT,
+          failed_printers TEXT,
+          options TEXT,
+          size TEXT,
+          label_stock_id TEXT,
+          copies INTEGER,
+          submitted_by TEXT,
+          status TEXT NOT NULL,
+          cups_job_id TEXT,
+          ipp_job_id INTEGER,
+          batch_id TEXT,
+          line_id TEXT,
+          overlay_values TEXT,
+          error TEXT,
+          attempts INTEGER,
+          created_at TEXT,
+          updated_at TEXT,
+          sent_at TEXT,
+          completed_at TEXT,
+          extra TEXT
+        );
+        CREATE INDEX idx_print_jobs_status ON print_jobs (status);
+        CREATE INDEX idx_print_jobs_created_at ON print_jobs (created_at);
+
+        CREATE TABLE notion_settings (
+          id TEXT PRIMARY KEY,
+          api_key TEXT,
+          database_id TEXT,
+          last_synced_at TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE google_drive_settings (
+          id TEXT PRIMARY KEY,
+          service_account_json TEXT,
+          extra TEXT
+        );
+
+        CREATE TABLE app_settings (
+          id TEXT PRIMARY KEY,
+          key TEXT NOT NULL UNIQUE,
+          value TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          extra TEXT
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'Remove fields the record schemas do not know',
+    up(sqlite) {
+      // Earlier versions stored properties that are no longer used; writes now reject them.
+      // The fields are those the record types had at version 2, not the current schemas,
+      // so fields added later are never removed from a database upgraded past them.
+      const tables: [TableMapping, string, string[]][] = [
+        [PRODUCTS, 'product', [
+          'id', 'name', 'sku', 'type', 'barcode', 'price', 'category', 'description', 'imageUrl', 'localImagePath',
+          'tags', 'notionId', 'partNumber', 'etsyLink', 'amazonLink', 'version', 'createdAt', 'updatedAt'
+        ]],
+        [STICKERS, 'sticker', [
+          'id', 'productId', 'labelStockId', 'name', 'size', 'detectedSize', 'sizeMismatch', 'pdfUrl', 'localPdfPath',
+          'localPreviewPath', 'previewUrl', 'printQuantity', 'overlayFields', 'createdAt', 'updatedAt'
+        ]],
+        [PRINTER_SETTINGS, 'printer setting', [
+          'id', 'size', 'printerName', 'printerType', 'printerGroupId', 'labelStockId', 'options', 'createdAt', 'updatedAt'
+        ]],
+        [NOTION_SETTINGS, 'Notion settings', ['id', 'apiKey', 'databaseId', 'lastSyncedAt']],
+        [GOOGLE_DRIVE_SETTINGS, 'Google Drive settings', ['id', 'serviceAccountJson']]
+      ];
+      for (const [mapping, name, fields] of tables) {
+        const update = sqlite.prepare(updateSql(mapping));
+        for (const row of sqlite.prepare(`SELECT * FROM ${mapping.table}`).all()) {
+          const stored = fromRow<Record<string, unknown>>(mapping, row);
+          const removed = Object.keys(stored).filter(key => !fields.includes(key));
+          if (removed.length > 0) {
+            console.log(`Removing unknown fields from ${name} ${stored.id}: ${removed.join(', ')}`);
+            removed.forEach(key => delete stored[key]);
+            update.run(toRow(mapping, stored));
+          }
+        }
+      }
+    }
+  }
+];
+
+/**
+ * Get the schema version of a database
+ * @param sqlite Open database
+ * @returns Number of the last migration applied, 0 for a new database
+ */
+export function getSchemaVersion(sqlite: Database.Database): number {
+  return sqlite.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Save a copy of the database that can be restored if an upgrade goes wrong
+ * @param sqlite Open database
+ * @param backupPath File to write; replaced when it exists
+ */
+function backupDatabase(sqlite: Database.Database, backupPath: string): void {
+  if (fs.existsSync(backupPath)) {
+    fs.unlinkSync(backupPath);
+  }
+  // Unlike a file copy this includes changes still in the write-ahead log
+  sqlite.prepare('VACUUM INTO ?').run(backupPath);
+}
+
+/**
+ * Bring a database up to the latest schema version
+ * @param sqlite Open database
+ * @param options.backupPath Where to save a copy before upgrading; no copy is made of a new database
+ * @param options.migrations Migrations in any order
+ * @returns Schema version before and after
+ */
+export function runMigrations(
+  sqlite: Database.Database,
+  { backupPath, migrations = MIGRATIONS }: { backupPath?: string; migrations?: Migration[] } = {}
+): { from: number; to: number } {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS ${HISTORY_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL
+    )
+  `);
+
+  const from = getSchemaVersion(sqlite);
+  const pending = [...migrations].sort((a, b) => a.version - b.version).filter(m => m.version > from);
+  if (pending.length === 0) {
+    return { from, to: from };
+  }
+
+  if (from > 0 && backupPath) {
+    console.log(`Backing up the database to ${backupPath} before upgrading from version ${from}`);
+    backupDatabase(sqlite, backupPath);
+  }
+
+  const recordMigration = sqlite.prepare(
+    `INSERT OR REPLACE INTO ${HISTORY_TABLE} (version, name, applied_at, duration_ms) VALUES (?, ?, ?, ?)`
+  );
+  let current: Migration | undefined;
+  try {
+    sqlite.transaction(() => {
+      for (const migration of pending) {
+        current = migration;
+        console.log(`Applying database migration ${migration.version}: ${migration.name}`);
+        const startedAt = Date.now();
+        migration.up(sqlite);
+        // PRAGMA does not take bound parameters; the version is a number from the list above
+        sqlite.pragma(`user_version = ${migration.version}`);
+        recordMigration.run(migration.version, migration.name, new Date().toISOString(), Date.now() - startedAt);
+        console.log(`Applied database migration ${migration.version} in ${Date.now() - startedAt}ms`);
+      }
+    })();
+  } catch (error) {
+    console.error(`Database migration ${current?.version} (${current?.name}) failed, rolled back to version ${from}:`, error);
+    throw error;
+  }
+
+  return { from, to: getSchemaVersion(sqlite) };
+}
@@ -1,69 +1,281 @@
-export interface Product {
-  id: string;
-  name: string;
-  sku: string;
-  imageUrl: string;
-  localImagePath?: string;
-  type: string;
-  barcode?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+/**
+ * Database Schema Module
+ * Runtime checks of the records the database stores. Each record type has a field table
+ * that must name every property of its interface in db.ts, so the two cannot drift apart.
+ * Records are checked when the database is opened, before every write and when the
+ * renderer sends them.
+ */
+import type {
+  GoogleDriveSetting,
+  NotionSetting,
+  OverlayField,
+  PrinterCalibration,
+  PrinterSetting,
+  Product,
+  SheetLayout,
+  Sticker
+} from './db';
+
+// Checks one value and returns the problems found, each naming the field
+type Rule = (value: unknown, path: string) => string[];
+
+// A rule for every property of a record type, optional ones included
+type Fields<T> = { [K in keyof T]-?: Rule };
 
-export interface Sticker {
-  id: string;
-  productId: string;
+export interface RecordSchema<T> {
+  // Record name used in error messages
   name: string;
-  size: string;
-  pdfUrl: string;
-  localPdfPath?: string;
-  localPreviewPath?: string;
-  createdAt: string;
-  updatedAt: string;
+  fields: Fields<T>;
 }
 
-export interface PrinterSetting {
-  id: string;
-  size: string;
-  printerName: string;
-  options: {
-    media?: string;
-    orientation?: 'portrait' | 'landscape';
-    margins?: {
-      top: number;
-      right: number;
-      bottom: number;
-      left: number;
-      units: 'mm' | 'in' | 'pt';
-    };
-    scale?: number;
-    fitToPage?: boolean;
-    printScaling?: 'none' | 'fit' | 'fill';
-  };
-  createdAt: string;
-  updatedAt: string;
+// Thrown when a record that fails its schema is about to be stored
+export class ValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(recordName: string, errors: string[]) {
+    super(`Invalid ${recordName}: ${errors.join('; ')}`);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
 }
 
-export interface NotionSetting {
-  id: string;
-  apiKey: string;
-  databaseId: string;
-  lastSyncedAt?: string;
-  createdAt: string;
-  updatedAt: string;
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// Required values; null and undefined are reported as missing
+const required = (check: Rule): Rule => (value, path) =>
+  value === undefined || value === null ? [`${path} is required`] : check(value, path);
+
+// Unset values pass; null clears a stored value
+const optional = (rule: Rule): Rule => (value, path) =>
+  value === undefined || value === null ? [] : rule(value, path);
+
+const text = ({ notEmpty = false } = {}): Rule => required((value, path) => {
+  if (typeof value !== 'string') return [`${path} must be text`];
+  return notEmpty && !value.trim() ? [`${path} cannot be empty`] : [];
+});
+
+const number = ({ min, max, integer = false }: { min?: number; max?: number; integer?: boolean } = {}): Rule =>
+  required((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+    if (integer && !Number.isInteger(value)) return [`${path} must be a whole number`];
+    if (min !== undefined && value < min) return [`${path} must be at least ${min}`];
+    if (max !== undefined && value > max) return [`${path} must be at most ${max}`];
+    return [];
+  });
+
+const boolean: Rule = required((value, path) => (typeof value === 'boolean' ? [] : [`${path} must be true or false`]));
+
+const oneOf = (values: readonly string[]): Rule => required((value, path) =>
+  values.includes(value as string) ? [] : [`${path} must be one of ${values.map(v => `"${v}"`).join(', ')}`]
+);
+
+const timestamp: Rule = required((value, path) =>
+  typeof value === 'string' && !isNaN(Date.parse(value)) ? [] : [`${path} must be a date`]
+);
+
+const list = (item: Rule): Rule => required((value, path) =>
+  Array.isArray(value) ? value.flatMap((element, index) => item(element, `${path}[${index}]`)) : [`${path} must be a list`]
+);
+
+const dictionary = (item: Rule): Rule => required((value, path) =>
+  isPlainObject(value)
+    ? Object.entries(value).flatMap(([key, element]) => item(element, fieldPath(path, key)))
+    : [`${path} must be an object`]
+);
+
+const checkFields = <T>(fields: Fields<T>, value: unknown, path: string): string[] => {
+  if (!isPlainObject(value)) return [`${path || 'record'} must be an object`];
+
+  const errors = Object.keys(value)
+    .filter(key => !(key in fields) && value[key] !== undefined)
+    .map(key => `${fieldPath(path, key)} is not a known field`);
+  for (const [key, rule] of Object.entries(fields) as [string, Rule][]) {
+    errors.push(...rule(value[key], fieldPath(path, key)));
+  }
+  return errors;
+};
+
+const object = <T>(fields: Fields<T>): Rule => required((value, path) => checkFields(fields, value, path));
+
+const OVERLAY_FONTS = ['Helvetica', 'Helvetica-Bold', 'Courier', 'Courier-Bold', 'Times-Roman', 'Times-Bold'];
+const BARCODE_SYMBOLOGIES = ['ean13', 'upca', 'code128', 'qr', 'datamatrix'];
+
+const OVERLAY_FIELD = object<OverlayField>({
+  id: text({ notEmpty: true }),
+  type: oneOf(['text', 'price', 'date', 'barcode']),
+  label: text(),
+  source: oneOf(['product', 'prompt', 'static']),
+  productField: optional(text()),
+  value: optional(text()),
+  format: optional(text()),
+  x: number(),
+  y: number(),
+  width: optional(number({ min: 0 })),
+  height: optional(number({ min: 0 })),
+  font: optional(oneOf(OVERLAY_FONTS)),
+  fontSize: optional(number({ min: 0 })),
+  symbology: optional(oneOf(BARCODE_SYMBOLOGIES))
+});
+
+const SHEET_LAYOUT = object<SheetLayout>({
+  pageSize: oneOf(['A4', 'Letter', 'custom']),
+  pageWidth: optional(number({ min: 0 })),
+  pageHeight: optional(number({ min: 0 })),
+  rows: number({ min: 1, integer: true }),
+  columns: number({ min: 1, integer: true }),
+  horizontalPitch: number({ min: 0 }),
+  verticalPitch: number({ min: 0 }),
+  marginTop: number(),
+  marginLeft: number(),
+  startOffset: optional(number({ min: 0, integer: true }))
+});
+
+const CALIBRATION = object<PrinterCalibration>({
+  offsetX: number(),
+  offsetY: number(),
+  rotation: number(),
+  widthCorrection: number(),
+  heightCorrection: number()
+});
+
+export const PRODUCT_SCHEMA: RecordSchema<Product> = {
+  name: 'product',
+  fields: {
+    id: text({ notEmpty: true }),
+    name: text({ notEmpty: true }),
+    sku: text(),
+    type: text(),
+    barcode: optional(text()),
+    price: optional(number({ min: 0 })),
+    category: optional(text()),
+    description: optional(text()),
+    imageUrl: optional(text()),
+    localImagePath: optional(text()),
+    tags: optional(list(text())),
+    notionId: optional(text()),
+    partNumber: optional(text()),
+    etsyLink: optional(text()),
+    amazonLink: optional(text()),
+    version: optional(number({ min: 0, integer: true })),
+    createdAt: optional(timestamp),
+    updatedAt: optional(timestamp)
+  }
+};
+
+export const STICKER_SCHEMA: RecordSchema<Sticker> = {
+  name: 'sticker',
+  fields: {
+    id: text({ notEmpty: true }),
+    productId: text({ notEmpty: true }),
+    labelStockId: optional(text()),
+    name: text(),
+    size: text(),
+    detectedSize: optional(text()),
+    sizeMismatch: optional(boolean),
+    pdfUrl: optional(text()),
+    localPdfPath: optional(text()),
+    localPreviewPath: optional(text()),
+    previewUrl: optional(text()),
+    printQuantity: optional(number({ min: 0, integer: true })),
+    overlayFields: optional(list(OVERLAY_FIELD)),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }
+};
+
+export const PRINTER_SETTING_SCHEMA: RecordSchema<PrinterSetting> = {
+  name: 'printer setting',
+  fields: {
+    id: text({ notEmpty: true }),
+    size: text({ notEmpty: true }),
+    printerName: text(),
+    printerType: optional(oneOf(['system', 'ipp', 'raw', 'group'])),
+    printerGroupId: optional(text()),
+    labelStockId: optional(text()),
+    options: object<PrinterSetting['options']>({
+      media: optional(text()),
+      orientation: optional(oneOf(['portrait', 'landscape'])),
+      margins: optional(object<NonNullable<PrinterSetting['options']['margins']>>({
+        top: number(),
+        right: number(),
+        bottom: number(),
+        left: number(),
+        units: oneOf(['mm', 'in', 'pt'])
+      })),
+      scale: optional(number({ min: 0 })),
+      fitToPage: optional(boolean),
+      printScaling: optional(oneOf(['none', 'fit', 'fill'])),
+      driverOptions: optional(dictionary(text())),
+      barcodeSymbology: optional(oneOf(BARCODE_SYMBOLOGIES)),
+      sheetLayout: optional(SHEET_LAYOUT),
+      payloadFormat: optional(oneOf(['pdf', 'tspl', 'zpl'])),
+      dpi: optional(number({ min: 1, integer: true })),
+      speed: optional(number({ min: 0 })),
+      density: optional(number({ min: 0, max: 15, integer: true })),
+      gap: optional(number({ min: 0 })),
+      darkness: optional(number({ min: 0, max: 30, integer: true })),
+      calibration: optional(CALIBRATION)
+    }),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }
+};
+
+export const NOTION_SETTING_SCHEMA: RecordSchema<NotionSetting> = {
+  name: 'Notion settings',
+  fields: {
+    id: text({ notEmpty: true }),
+    apiKey: text(),
+    databaseId: text(),
+    lastSyncedAt: optional(timestamp)
+  }
+};
+
+export const GOOGLE_DRIVE_SETTING_SCHEMA: RecordSchema<GoogleDriveSetting> = {
+  name: 'Google Drive settings',
+  fields: {
+    id: text({ notEmpty: true }),
+    serviceAccountJson: text()
+  }
+};
+
+/**
+ * Check a record against its schema
+ * @param schema Schema of the record type
+ * @param record Record to check
+ * @returns List of problems, empty when the record is valid
+ */
+export function validateRecord<T>(schema: RecordSchema<T>, record: unknown): string[] {
+  return checkFields(schema.fields, record, '');
 }
 
-export interface GoogleDriveSetting {
-  id: string;
-  serviceAccountJson: string;
-  createdAt: string;
-  updatedAt: string;
+/**
+ * Check a record before it is stored
+ * @param schema Schema of the record type
+ * @param record Record to check
+ * @throws ValidationError listing the problems when the record is invalid
+ */
+export function assertValidRecord<T>(schema: RecordSchema<T>, record: unknown): asserts record is T {
+  const errors = validateRecord(schema, record);
+  if (errors.length > 0) {
+    throw new ValidationError(schema.name, errors);
+  }
 }
 
-export interface AppSetting {
-  id: string;
-  key: string;
-  value: any;
-  createdAt: string;
-  updatedAt: string;
-} 
\ No newline at end of file
+/**
+ * Drop the top-level properties a schema does not know, such as fields earlier versions stored
+ * @param schema Schema of the record type
+ * @param record Record to clean up
+ * @returns The record without those properties and their names
+ */
+export function removeUnknownFields<T>(schema: RecordSchema<T>, record: object): { record: T; removed: string[] } {
+  const entries = Object.entries(record);
+  const removed = entries.filter(([key]) => !(key in schema.fields)).map(([key]) => key);
+  return {
+    record: Object.fromEntries(entries.filter(([key]) => key in schema.fields)) as T,
+    removed
+  };
+}
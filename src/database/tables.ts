@@ -0,0 +1,248 @@
+/**
+ * Database Tables Module
+ * Maps the records the app works with onto SQLite rows: each property has its own
+ * column, nested values are stored as JSON, and properties without a column (such as
+ * extra Notion fields on products) are kept in the row's `extra` JSON column
+ */
+
+export type ColumnType = 'text' | 'integer' | 'real' | 'boolean' | 'json';
+
+export interface TableMapping {
+  table: string;
+  // Record property -> column name and type
+  columns: Record<string, [string, ColumnType]>;
+}
+
+// Column holding the properties that have no column of their own
+const EXTRA_COLUMN = 'extra';
+
+export const PRODUCTS: TableMapping = {
+  table: 'products',
+  columns: {
+    id: ['id', 'text'],
+    name: ['name', 'text'],
+    sku: ['sku', 'text'],
+    type: ['type', 'text'],
+    barcode: ['barcode', 'text'],
+    price: ['price', 'real'],
+    category: ['category', 'text'],
+    description: ['description', 'text'],
+    imageUrl: ['image_url', 'text'],
+    localImagePath: ['local_image_path', 'text'],
+    tags: ['tags', 'json'],
+    notionId: ['notion_id', 'text'],
+    version: ['version', 'integer'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const STICKERS: TableMapping = {
+  table: 'stickers',
+  columns: {
+    id: ['id', 'text'],
+    productId: ['product_id', 'text'],
+    labelStockId: ['label_stock_id', 'text'],
+    name: ['name', 'text'],
+    size: ['size', 'text'],
+    detectedSize: ['detected_size', 'text'],
+    sizeMismatch: ['size_mismatch', 'boolean'],
+    pdfUrl: ['pdf_url', 'text'],
+    localPdfPath: ['local_pdf_path', 'text'],
+    localPreviewPath: ['local_preview_path', 'text'],
+    previewUrl: ['preview_url', 'text'],
+    printQuantity: ['print_quantity', 'integer'],
+    overlayFields: ['overlay_fields', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const PRINTER_SETTINGS: TableMapping = {
+  table: 'printer_settings',
+  columns: {
+    id: ['id', 'text'],
+    size: ['size', 'text'],
+    printerName: ['printer_name', 'text'],
+    printerType: ['printer_type', 'text'],
+    printerGroupId: ['printer_group_id', 'text'],
+    labelStockId: ['label_stock_id', 'text'],
+    options: ['options', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const LABEL_TEMPLATES: TableMapping = {
+  table: 'label_templates',
+  columns: {
+    id: ['id', 'text'],
+    name: ['name', 'text'],
+    width: ['width', 'real'],
+    height: ['height', 'real'],
+    elements: ['elements', 'json'],
+    sizes: ['sizes', 'json'],
+    productTypes: ['product_types', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const LABEL_STOCKS: TableMapping = {
+  table: 'label_stocks',
+  columns: {
+    id: ['id', 'text'],
+    name: ['name', 'text'],
+    width: ['width', 'real'],
+    height: ['height', 'real'],
+    unit: ['unit', 'text'],
+    shape: ['shape', 'text'],
+    sensing: ['sensing', 'text'],
+    gap: ['gap', 'real'],
+    linerOffset: ['liner_offset', 'real'],
+    dpi: ['dpi', 'integer'],
+    aliases: ['aliases', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const PRINTER_GROUPS: TableMapping = {
+  table: 'printer_groups',
+  columns: {
+    id: ['id', 'text'],
+    name: ['name', 'text'],
+    members: ['members', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+export const PRINT_JOBS: TableMapping = {
+  table: 'print_jobs',
+  columns: {
+    id: ['id', 'text'],
+    stickerId: ['sticker_id', 'text'],
+    stickerName: ['sticker_name', 'text'],
+    productId: ['product_id', 'text'],
+    printerName: ['printer_name', 'text'],
+    printerGroupId: ['printer_group_id', 'text'],
+    failedPrinters: ['failed_printers', 'json'],
+    options: ['options', 'json'],
+    size: ['size', 'text'],
+    labelStockId: ['label_stock_id', 'text'],
+    copies: ['copies', 'integer'],
+    submittedBy: ['submitted_by', 'text'],
+    status: ['status', 'text'],
+    cupsJobId: ['cups_job_id', 'text'],
+    ippJobId: ['ipp_job_id', 'integer'],
+    batchId: ['batch_id', 'text'],
+    lineId: ['line_id', 'text'],
+    overlayValues: ['overlay_values', 'json'],
+    error: ['error', 'text'],
+    attempts: ['attempts', 'integer'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text'],
+    sentAt: ['sent_at', 'text'],
+    completedAt: ['completed_at', 'text']
+  }
+};
+
+export const NOTION_SETTINGS: TableMapping = {
+  table: 'notion_settings',
+  columns: {
+    id: ['id', 'text'],
+    apiKey: ['api_key', 'text'],
+    databaseId: ['database_id', 'text'],
+    lastSyncedAt: ['last_synced_at', 'text']
+  }
+};
+
+export const GOOGLE_DRIVE_SETTINGS: TableMapping = {
+  table: 'google_drive_settings',
+  columns: {
+    id: ['id', 'text'],
+    serviceAccountJson: ['service_account_json', 'text']
+  }
+};
+
+export const APP_SETTINGS: TableMapping = {
+  table: 'app_settings',
+  columns: {
+    id: ['id', 'text'],
+    key: ['key', 'text'],
+    value: ['value', 'json'],
+    createdAt: ['created_at', 'text'],
+    updatedAt: ['updated_at', 'text']
+  }
+};
+
+/**
+ * Convert a record into the values of its row
+ * @param mapping Table of the record
+ * @param record Record to store
+ * @returns Values by column name, NULL for unset properties
+ */
+export function toRow(mapping: TableMapping, record: object): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [property, [column, type]] of Object.entries(mapping.columns)) {
+    const value = (record as Record<string, unknown>)[property];
+    if (value === undefined || value === null) {
+      row[column] = null;
+    } else if (type === 'json') {
+      row[column] = JSON.stringify(value);
+    } else if (type === 'boolean') {
+      row[column] = value ? 1 : 0;
+    } else {
+      row[column] = value;
+    }
+  }
+
+  const extra = Object.fromEntries(
+    Object.entries(record).filter(([property, value]) => !(property in mapping.columns) && value !== undefined)
+  );
+  row[EXTRA_COLUMN] = Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+  return row;
+}
+
+/**
+ * Convert a row back into the record it stores
+ * @param mapping Table of the row
+ * @param row Row as read from SQLite
+ * @returns The record; NULL columns are left out, as unset properties were in the JSON file
+ */
+export function fromRow<T>(mapping: TableMapping, row: Record<string, any>): T {
+  const record: Record<string, unknown> = row[EXTRA_COLUMN] ? JSON.parse(row[EXTRA_COLUMN]) : {};
+  for (const [property, [column, type]] of Object.entries(mapping.columns)) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    if (type === 'json') {
+      record[property] = JSON.parse(value);
+    } else if (type === 'boolean') {
+      record[property] = value === 1;
+    } else {
+      record[property] = value;
+    }
+  }
+  return record as T;
+}
+
+/**
+ * Build the INSERT statement of a table, with a named parameter per column
+ * @param mapping Table to insert into
+ * @returns SQL for better-sqlite3's named parameters
+ */
+export function insertSql(mapping: TableMapping): string {
+  const columns = [...Object.values(mapping.columns).map(([column]) => column), EXTRA_COLUMN];
+  return `INSERT INTO ${mapping.table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`;
+}
+
+/**
+ * Build the UPDATE statement that rewrites every column of a row by its ID
+ * @param mapping Table to update
+ * @returns SQL for better-sqlite3's named parameters
+ */
+export function updateSql(mapping: TableMapping): string {
+  const columns = [...Object.values(mapping.columns).map(([column]) => column).filter(c => c !== 'id'), EXTRA_COLUMN];
+  return `UPDATE ${mapping.table} SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`;
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeCode128Barcode, encodeCode128Values } from './code128';
+
+describe('encodeCode128Values', () => {
+  it('encodes text in subset B with its checksum', () => {
+    // Start B, W i k i p e d i a, checksum 88, stop
+    assert.deepEqual(encodeCode128Values('Wikipedia'), [104, 55, 73, 75, 73, 80, 69, 68, 73, 65, 88, 106]);
+  });
+
+  it('packs an even run of digits into subset C', () => {
+    assert.deepEqual(encodeCode128Values('123456'), [105, 12, 34, 56, 44, 106]);
+  });
+
+  it('switches to subset C for a run of digits at the end', () => {
+    assert.deepEqual(encodeCode128Values('COF-1000'), [104, 35, 47, 38, 13, 99, 10, 0, 27, 106]);
+  });
+
+  it('keeps short digit runs in subset B', () => {
+    assert.deepEqual(encodeCode128Values('A12B').slice(0, 5), [104, 33, 17, 18, 34]);
+  });
+
+  it('rejects empty and non-ASCII values', () => {
+    assert.throws(() => encodeCode128Values(''), /empty/);
+    assert.throws(() => encodeCode128Values('Кава'), /printable ASCII/);
+  });
+});
+
+describe('encodeCode128Barcode', () => {
+  it('draws the bars of each symbol', () => {
+    const modules = encodeCode128Barcode('123456').modules.map(dark => (dark ? '1' : '0')).join('');
+    assert.equal(modules, [
+      '11010011100', // start C
+      '10110011100', // 12
+      '10001011000', // 34
+      '11100010110', // 56
+      '10001101110', // checksum 44
+      '1100011101011' // stop
+    ].join(''));
+  });
+});
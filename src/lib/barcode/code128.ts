@@ -0,0 +1,124 @@
+/**
+ * Code 128 encoder
+ * Encodes printable ASCII text as Code 128 (subsets B and C) and returns the bar/space widths
+ */
+import { LinearBarcode } from './types';
+
+// Bar/space widths (in modules) for symbol values 0-106, starting with a bar
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+
+/**
+ * Count the consecutive digits starting at a position
+ */
+function digitRun(text: string, start: number): number {
+  let i = start;
+  while (i < text.length && text[i] >= '0' && text[i] <= '9') i++;
+  return i - start;
+}
+
+/**
+ * Convert text to Code 128 symbol values, switching to subset C for runs of digits
+ * @param text Printable ASCII text
+ * @returns Symbol values including start, checksum and stop
+ */
+export function encodeCode128Values(text: string): number[] {
+  if (!text) {
+    throw new Error('Code 128 value is empty');
+  }
+  if (!/^[\x20-\x7e]+$/.test(text)) {
+    throw new Error('Code 128 supports printable ASCII characters only');
+  }
+
+  const values: number[] = [];
+  let subset: 'B' | 'C';
+  let i = 0;
+
+  // Start in C when the value opens with enough digits to benefit from it
+  const leadingDigits = digitRun(text, 0);
+  if (leadingDigits >= 4 || (leadingDigits === text.length && leadingDigits % 2 === 0)) {
+    subset = 'C';
+    values.push(START_C);
+  } else {
+    subset = 'B';
+    values.push(START_B);
+  }
+
+  while (i < text.length) {
+    if (subset === 'C') {
+      if (digitRun(text, i) >= 2) {
+        values.push(parseInt(text.substr(i, 2), 10));
+        i += 2;
+      } else {
+        subset = 'B';
+        values.push(CODE_B);
+      }
+    } else {
+      const run = digitRun(text, i);
+      // Switching costs one symbol, so only do it for runs of 4+ digits (6+ in the middle of text)
+      if (run >= 4 && (i + run === text.length || run >= 6)) {
+        // Keep an odd leading digit in B so the run in C has an even length
+        if (run % 2 === 1) {
+          values.push(text.charCodeAt(i) - 32);
+          i++;
+        }
+        subset = 'C';
+        values.push(CODE_C);
+      } else {
+        values.push(text.charCodeAt(i) - 32);
+        i++;
+      }
+    }
+  }
+
+  // Checksum: start value plus each symbol value weighted by its position
+  const checksum = values.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+  values.push(checksum, STOP);
+
+  return values;
+}
+
+/**
+ * Encode text as Code 128
+ * @param text Printable ASCII text
+ * @returns Alternating bar/space widths in modules, starting with a bar (quiet zones not included)
+ */
+export function encodeCode128(text: string): number[] {
+  return encodeCode128Values(text).flatMap(value => PATTERNS[value].split('').map(Number));
+}
+
+/**
+ * Encode text as a Code 128 linear barcode with the text centered underneath
+ * @param text Printable ASCII text
+ * @returns Linear barcode
+ */
+export function encodeCode128Barcode(text: string): LinearBarcode {
+  const modules: boolean[] = [];
+  encodeCode128(text).forEach((width, index) => {
+    // Even positions are bars, odd positions are spaces
+    for (let i = 0; i < width; i++) modules.push(index % 2 === 0);
+  });
+
+  return {
+    type: 'linear',
+    modules,
+    text: [{ text, start: 0, end: modules.length }]
+  };
+}
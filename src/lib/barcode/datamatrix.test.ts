@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeDataMatrix, encodeDataMatrixCodewords } from './datamatrix';
+
+const rows = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '1' : '0')).join(''));
+
+describe('encodeDataMatrixCodewords', () => {
+  it('packs digit pairs and adds the error correction of the specification example', () => {
+    const { symbol, codewords } = encodeDataMatrixCodewords('123456');
+    assert.equal(symbol.size, 10);
+    assert.deepEqual(codewords, [142, 164, 186, 114, 25, 5, 88, 102]);
+  });
+
+  it('encodes Latin-1 text as it is, shifting the upper half', () => {
+    assert.deepEqual(encodeDataMatrixCodewords('Café').codewords.slice(0, 5), [68, 98, 103, 235, 106]);
+  });
+
+  it('marks other text as UTF-8 with ECI 26', () => {
+    const { codewords } = encodeDataMatrixCodewords('Кава');
+    // К is D0 9A in UTF-8, each byte behind an upper shift
+    assert.deepEqual(codewords.slice(0, 6), [241, 27, 235, 0xd0 - 127, 235, 0x9a - 127]);
+  });
+
+  it('picks the smallest symbol that holds the value', () => {
+    assert.equal(encodeDataMatrixCodewords('COF-25').symbol.size, 12);
+    assert.equal(encodeDataMatrixCodewords('COF-250').symbol.size, 14);
+    assert.equal(encodeDataMatrixCodewords('A'.repeat(180)).symbol.size, 52);
+    assert.throws(() => encodeDataMatrixCodewords('A'.repeat(281)), /too long for a Data Matrix/);
+  });
+});
+
+describe('encodeDataMatrix', () => {
+  it('places the codewords and finder pattern of the specification example', () => {
+    assert.deepEqual(rows(encodeDataMatrix('123456').modules), [
+      '1010101010',
+      '1100101101',
+      '1100000100',
+      '1100011101',
+      '1100001000',
+      '1000001111',
+      '1110110000',
+      '1111011001',
+      '1001110100',
+      '1111111111'
+    ]);
+  });
+
+  it('draws a finder pattern around each data region', () => {
+    const { modules } = encodeDataMatrix('A'.repeat(70));
+    assert.equal(modules.length, 36);
+    for (const edge of [0, 18]) {
+      assert.ok(modules.every(row => row[edge]), `solid column ${edge}`);
+      assert.ok(modules[edge + 17].every(Boolean), `solid row ${edge + 17}`);
+      assert.ok(modules[edge].every((dark, i) => dark === (i % 2 === 0)), `alternating row ${edge}`);
+    }
+  });
+
+  it('rejects an empty value', () => {
+    assert.throws(() => encodeDataMatrix(''), /empty/);
+  });
+});
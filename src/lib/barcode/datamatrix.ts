@@ -0,0 +1,250 @@
+/**
+ * Data Matrix (ECC 200) encoder
+ * Encodes text with ASCII encodation into the smallest square symbol (10x10 up to 64x64) that fits.
+ * Readers take the bytes as Latin-1, so other text is encoded as UTF-8 behind an ECI 26 designator.
+ */
+import { MatrixBarcode } from './types';
+import { createReedSolomon } from './reed-solomon';
+
+export interface SymbolSize {
+  size: number;
+  // Edge length of one data region and number of regions along each side
+  regionSize: number;
+  regions: number;
+  dataCodewords: number;
+  eccCodewords: number;
+  // Number of interleaved Reed-Solomon blocks
+  blocks: number;
+}
+
+const SYMBOL_SIZES: SymbolSize[] = [
+  { size: 10, regionSize: 8, regions: 1, dataCodewords: 3, eccCodewords: 5, blocks: 1 },
+  { size: 12, regionSize: 10, regions: 1, dataCodewords: 5, eccCodewords: 7, blocks: 1 },
+  { size: 14, regionSize: 12, regions: 1, dataCodewords: 8, eccCodewords: 10, blocks: 1 },
+  { size: 16, regionSize: 14, regions: 1, dataCodewords: 12, eccCodewords: 12, blocks: 1 },
+  { size: 18, regionSize: 16, regions: 1, dataCodewords: 18, eccCodewords: 14, blocks: 1 },
+  { size: 20, regionSize: 18, regions: 1, dataCodewords: 22, eccCodewords: 18, blocks: 1 },
+  { size: 22, regionSize: 20, regions: 1, dataCodewords: 30, eccCodewords: 20, blocks: 1 },
+  { size: 24, regionSize: 22, regions: 1, dataCodewords: 36, eccCodewords: 24, blocks: 1 },
+  { size: 26, regionSize: 24, regions: 1, dataCodewords: 44, eccCodewords: 28, blocks: 1 },
+  { size: 32, regionSize: 14, regions: 2, dataCodewords: 62, eccCodewords: 36, blocks: 1 },
+  { size: 36, regionSize: 16, regions: 2, dataCodewords: 86, eccCodewords: 42, blocks: 1 },
+  { size: 40, regionSize: 18, regions: 2, dataCodewords: 114, eccCodewords: 48, blocks: 1 },
+  { size: 44, regionSize: 20, regions: 2, dataCodewords: 144, eccCodewords: 56, blocks: 1 },
+  { size: 48, regionSize: 22, regions: 2, dataCodewords: 174, eccCodewords: 68, blocks: 1 },
+  { size: 52, regionSize: 24, regions: 2, dataCodewords: 204, eccCodewords: 84, blocks: 2 },
+  { size: 64, regionSize: 14, regions: 4, dataCodewords: 280, eccCodewords: 112, blocks: 2 }
+];
+
+const PAD = 129;
+const UPPER_SHIFT = 235;
+const ECI = 241;
+// ECI assignment number of UTF-8
+const ECI_UTF8 = 26;
+
+const reedSolomon = createReedSolomon(0x12d, 1);
+
+/**
+ * Encode bytes with ASCII encodation, packing pairs of digits into one codeword
+ */
+function encodeAscii(data: Buffer): number[] {
+  const codewords: number[] = [];
+  const isDigit = (byte: number) => byte >= 0x30 && byte <= 0x39;
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    if (isDigit(byte) && i + 1 < data.length && isDigit(data[i + 1])) {
+      codewords.push(130 + (byte - 0x30) * 10 + (data[i + 1] - 0x30));
+      i++;
+    } else if (byte < 128) {
+      codewords.push(byte + 1);
+    } else {
+      codewords.push(UPPER_SHIFT, byte - 127);
+    }
+  }
+
+  return codewords;
+}
+
+/**
+ * Fill the remaining data capacity with pseudo-random pad codewords
+ */
+function addPadding(codewords: number[], capacity: number): number[] {
+  const result = [...codewords];
+  if (result.length < capacity) {
+    result.push(PAD);
+  }
+  while (result.length < capacity) {
+    const position = result.length + 1;
+    let value = PAD + ((149 * position) % 253) + 1;
+    if (value > 254) value -= 254;
+    result.push(value);
+  }
+  return result;
+}
+
+/**
+ * Append error correction, interleaving the blocks of the larger symbols
+ */
+function addErrorCorrection(data: number[], symbol: SymbolSize): number[] {
+  const { blocks, dataCodewords, eccCodewords } = symbol;
+  const eccPerBlock = eccCodewords / blocks;
+  const result = [...data, ...new Array<number>(eccCodewords).fill(0)];
+
+  for (let block = 0; block < blocks; block++) {
+    const blockData = data.filter((_, index) => index % blocks === block);
+    reedSolomon.encode(blockData, eccPerBlock).forEach((value, index) => {
+      result[dataCodewords + index * blocks + block] = value;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Place codewords into the mapping matrix following the ECC 200 placement algorithm
+ * @returns Mapping matrix without finder patterns
+ */
+function placeCodewords(codewords: number[], nrow: number, ncol: number): boolean[][] {
+  const matrix: (boolean | undefined)[][] = Array.from({ length: nrow }, () => new Array(ncol).fill(undefined));
+
+  const module = (row: number, col: number, chr: number, bit: number) => {
+    if (row < 0) {
+      row += nrow;
+      col += 4 - ((nrow + 4) % 8);
+    }
+    if (col < 0) {
+      col += ncol;
+      row += 4 - ((ncol + 4) % 8);
+    }
+    matrix[row][col] = ((codewords[chr] >> (8 - bit)) & 1) === 1;
+  };
+
+  const utah = (row: number, col: number, chr: number) => {
+    module(row - 2, col - 2, chr, 1);
+    module(row - 2, col - 1, chr, 2);
+    module(row - 1, col - 2, chr, 3);
+    module(row - 1, col - 1, chr, 4);
+    module(row - 1, col, chr, 5);
+    module(row, col - 2, chr, 6);
+    module(row, col - 1, chr, 7);
+    module(row, col, chr, 8);
+  };
+
+  // Special corner shapes, as [row, col] for bits 1-8
+  const corner = (chr: number, positions: [number, number][]) => {
+    positions.forEach(([row, col], index) => module(row, col, chr, index + 1));
+  };
+  const corner1 = (chr: number) => corner(chr, [
+    [nrow - 1, 0], [nrow - 1, 1], [nrow - 1, 2], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]
+  ]);
+  const corner2 = (chr: number) => corner(chr, [
+    [nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 4], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1]
+  ]);
+  const corner3 = (chr: number) => corner(chr, [
+    [nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]
+  ]);
+  const corner4 = (chr: number) => corner(chr, [
+    [nrow - 1, 0], [nrow - 1, ncol - 1], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 3], [1, ncol - 2], [1, ncol - 1]
+  ]);
+
+  let chr = 0;
+  let row = 4;
+  let col = 0;
+
+  do {
+    if (row === nrow && col === 0) corner1(chr++);
+    if (row === nrow - 2 && col === 0 && ncol % 4 !== 0) corner2(chr++);
+    if (row === nrow - 2 && col === 0 && ncol % 8 === 4) corner3(chr++);
+    if (row === nrow + 4 && col === 2 && ncol % 8 === 0) corner4(chr++);
+
+    // Sweep up and to the right
+    do {
+      if (row < nrow && col >= 0 && matrix[row][col] === undefined) utah(row, col, chr++);
+      row -= 2;
+      col += 2;
+    } while (row >= 0 && col < ncol);
+    row += 1;
+    col += 3;
+
+    // Sweep down and to the left
+    do {
+      if (row >= 0 && col < ncol && matrix[row][col] === undefined) utah(row, col, chr++);
+      row += 2;
+      col -= 2;
+    } while (row < nrow && col >= 0);
+    row += 3;
+    col += 1;
+  } while (row < nrow || col < ncol);
+
+  // Fill the unused bottom-right corner with its fixed pattern
+  if (matrix[nrow - 1][ncol - 1] === undefined) {
+    matrix[nrow - 1][ncol - 1] = true;
+    matrix[nrow - 2][ncol - 2] = true;
+  }
+
+  return matrix.map(line => line.map(Boolean));
+}
+
+/**
+ * Encode text into the codewords of the smallest symbol that holds it
+ * @param text Text to encode
+ * @returns The symbol size and its data and error correction codewords
+ */
+export function encodeDataMatrixCodewords(text: string): { symbol: SymbolSize; codewords: number[] } {
+  if (!text) {
+    throw new Error('Data Matrix value is empty');
+  }
+
+  // ECI numbers up to 126 take one codeword holding the number plus one
+  const data = /^[\x00-\xff]*$/.test(text)
+    ? encodeAscii(Buffer.from(text, 'latin1'))
+    : [ECI, ECI_UTF8 + 1, ...encodeAscii(Buffer.from(text, 'utf8'))];
+  const symbol = SYMBOL_SIZES.find(s => s.dataCodewords >= data.length);
+  if (!symbol) {
+    throw new Error(`Value is too long for a Data Matrix (${data.length} codewords)`);
+  }
+
+  return { symbol, codewords: addErrorCorrection(addPadding(data, symbol.dataCodewords), symbol) };
+}
+
+/**
+ * Encode text as a Data Matrix symbol
+ * @param text Text to encode
+ * @returns Matrix barcode
+ */
+export function encodeDataMatrix(text: string): MatrixBarcode {
+  const { symbol, codewords } = encodeDataMatrixCodewords(text);
+  const mappingSize = symbol.regionSize * symbol.regions;
+  const mapping = placeCodewords(codewords, mappingSize, mappingSize);
+
+  const { size, regionSize } = symbol;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  // Copy each data region into the symbol, leaving room for its finder pattern
+  const toSymbol = (index: number) => Math.floor(index / regionSize) * (regionSize + 2) + (index % regionSize) + 1;
+  for (let row = 0; row < mappingSize; row++) {
+    for (let col = 0; col < mappingSize; col++) {
+      modules[toSymbol(row)][toSymbol(col)] = mapping[row][col];
+    }
+  }
+
+  // Finder patterns: alternating top and right edges, then solid left and bottom edges on top of them
+  const origins = Array.from({ length: symbol.regions }, (_, region) => region * (regionSize + 2));
+  for (const origin of origins) {
+    const far = origin + regionSize + 1;
+    for (let i = 0; i < size; i++) {
+      modules[origin][i] = i % 2 === 0;
+      modules[i][far] = i % 2 === 1;
+    }
+  }
+  for (const origin of origins) {
+    const far = origin + regionSize + 1;
+    for (let i = 0; i < size; i++) {
+      modules[i][origin] = true;
+      modules[far][i] = true;
+    }
+  }
+
+  return { type: 'matrix', modules, quietZone: 1 };
+}
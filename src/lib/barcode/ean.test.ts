@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateEanCheckDigit, encodeEan13, encodeUpcA, isValidEan13, isValidUpcA } from './ean';
+
+const bits = (modules: boolean[]) => modules.map(dark => (dark ? '1' : '0')).join('');
+
+describe('calculateEanCheckDigit', () => {
+  it('computes the check digit of known codes', () => {
+    assert.equal(calculateEanCheckDigit('590123412345'), 7);
+    assert.equal(calculateEanCheckDigit('400638133393'), 1);
+    assert.equal(calculateEanCheckDigit('03600029145'), 2);
+  });
+
+  it('validates complete codes', () => {
+    assert.ok(isValidEan13('5901234123457'));
+    assert.ok(!isValidEan13('5901234123458'));
+    assert.ok(isValidUpcA('036000291452'));
+    assert.ok(!isValidUpcA('036000291453'));
+  });
+});
+
+describe('encodeEan13', () => {
+  it('encodes the digits with the parity pattern of the first digit', () => {
+    // 5 selects LGGLLG for the left half
+    const { modules } = encodeEan13('5901234123457');
+    assert.equal(bits(modules), [
+      '101',
+      '0001011', '0100111', '0110011', '0010011', '0111101', '0011101',
+      '01010',
+      '1100110', '1101100', '1000010', '1011100', '1001110', '1000100',
+      '101'
+    ].join(''));
+  });
+
+  it('adds a missing check digit and rejects a wrong one', () => {
+    assert.deepEqual(encodeEan13('590123412345').modules, encodeEan13('5901234123457').modules);
+    assert.throws(() => encodeEan13('5901234123458'), /Invalid EAN-13 check digit/);
+  });
+
+  it('puts the first digit in the quiet zone and the halves under their bars', () => {
+    assert.deepEqual(encodeEan13('5901234123457').text, [
+      { text: '5', start: -8, end: -1 },
+      { text: '901234', start: 3, end: 45 },
+      { text: '123457', start: 50, end: 92 }
+    ]);
+  });
+});
+
+describe('encodeUpcA', () => {
+  it('encodes UPC-A as EAN-13 with a leading zero', () => {
+    assert.deepEqual(encodeUpcA('036000291452').modules, encodeEan13('0036000291452').modules);
+  });
+});
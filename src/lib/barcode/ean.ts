@@ -0,0 +1,147 @@
+/**
+ * EAN-13 and UPC-A encoder
+ * UPC-A is encoded as an EAN-13 with a leading zero, only the human-readable text differs
+ */
+import { LinearBarcode } from './types';
+
+// Left-hand odd parity (L) patterns; right-hand (R) is the complement and even parity (G) is R reversed
+const L_PATTERNS = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+// Parity of the six left-hand digits, selected by the first (implicit) digit
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const START_GUARD = '101';
+const CENTER_GUARD = '01010';
+const END_GUARD = '101';
+
+const invert = (pattern: string) => pattern.split('').map(bit => (bit === '1' ? '0' : '1')).join('');
+
+/**
+ * Calculate the check digit of an EAN/UPC number
+ * @param digits Digits without the check digit
+ * @returns Check digit
+ */
+export function calculateEanCheckDigit(digits: string): number {
+  // Weights alternate 3, 1, 3... starting from the rightmost digit
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check whether a value is a complete EAN-13 with a correct check digit
+ * @param value Value to check
+ * @returns True for a valid EAN-13
+ */
+export function isValidEan13(value: string): boolean {
+  return /^\d{13}$/.test(value) && calculateEanCheckDigit(value.slice(0, 12)) === Number(value[12]);
+}
+
+/**
+ * Check whether a value is a complete UPC-A with a correct check digit
+ * @param value Value to check
+ * @returns True for a valid UPC-A
+ */
+export function isValidUpcA(value: string): boolean {
+  return /^\d{12}$/.test(value) && calculateEanCheckDigit(value.slice(0, 11)) === Number(value[11]);
+}
+
+/**
+ * Add or verify the check digit
+ * @param value Digits with or without the check digit
+ * @param length Full length including the check digit
+ * @returns Digits including a verified check digit
+ */
+function withCheckDigit(value: string, length: number, name: string): string {
+  const digits = value.replace(/\s/g, '');
+  if (!/^\d+$/.test(digits)) {
+    throw new Error(`${name} must contain digits only`);
+  }
+
+  if (digits.length === length - 1) {
+    return digits + calculateEanCheckDigit(digits);
+  }
+  if (digits.length !== length) {
+    throw new Error(`${name} must have ${length - 1} or ${length} digits`);
+  }
+  if (calculateEanCheckDigit(digits.slice(0, -1)) !== Number(digits[length - 1])) {
+    throw new Error(`Invalid ${name} check digit in ${digits}`);
+  }
+  return digits;
+}
+
+/**
+ * Build the 95 modules of an EAN-13 symbol
+ * @param digits 13 digits including the check digit
+ */
+function encodeEanModules(digits: string): { modules: boolean[]; guards: boolean[] } {
+  const parity = PARITY[Number(digits[0])];
+  let pattern = START_GUARD;
+
+  for (let i = 1; i <= 6; i++) {
+    const left = L_PATTERNS[Number(digits[i])];
+    pattern += parity[i - 1] === 'L' ? left : invert(left).split('').reverse().join('');
+  }
+  pattern += CENTER_GUARD;
+  for (let i = 7; i <= 12; i++) {
+    pattern += invert(L_PATTERNS[Number(digits[i])]);
+  }
+  pattern += END_GUARD;
+
+  const modules = pattern.split('').map(bit => bit === '1');
+  const guards = modules.map((_, index) =>
+    index < 3 || (index >= 45 && index < 50) || index >= 92
+  );
+
+  return { modules, guards };
+}
+
+/**
+ * Encode an EAN-13 barcode
+ * @param value 12 digits (check digit is added) or 13 digits (check digit is verified)
+ * @returns Linear barcode
+ */
+export function encodeEan13(value: string): LinearBarcode {
+  const digits = withCheckDigit(value, 13, 'EAN-13');
+  const { modules, guards } = encodeEanModules(digits);
+
+  return {
+    type: 'linear',
+    modules,
+    guards,
+    text: [
+      { text: digits[0], start: -8, end: -1 },
+      { text: digits.slice(1, 7), start: 3, end: 45 },
+      { text: digits.slice(7), start: 50, end: 92 }
+    ]
+  };
+}
+
+/**
+ * Encode a UPC-A barcode
+ * @param value 11 digits (check digit is added) or 12 digits (check digit is verified)
+ * @returns Linear barcode
+ */
+export function encodeUpcA(value: string): LinearBarcode {
+  const digits = withCheckDigit(value, 12, 'UPC-A');
+  const { modules } = encodeEanModules(`0${digits}`);
+
+  // UPC-A also extends the bars of the first and last digit
+  const guards = modules.map((_, index) =>
+    index < 10 || (index >= 45 && index < 50) || index >= 85
+  );
+
+  return {
+    type: 'linear',
+    modules,
+    guards,
+    text: [
+      { text: digits[0], start: -8, end: -1 },
+      { text: digits.slice(1, 6), start: 10, end: 45 },
+      { text: digits.slice(6, 11), start: 50, end: 85 },
+      { text: digits[11], start: 96, end: 103 }
+    ]
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Barcode Module
+ * Encodes product codes in the supported symbologies for drawing onto labels
+ */
+import { Barcode, BarcodeSymbology } from './types';
+import { encodeCode128Barcode } from './code128';
+import { encodeEan13, encodeUpcA, isValidEan13, isValidUpcA } from './ean';
+import { encodeQr } from './qr';
+import { encodeDataMatrix } from './datamatrix';
+
+export * from './types';
+export { isValidEan13, isValidUpcA } from './ean';
+
+export const BARCODE_SYMBOLOGIES: { value: BarcodeSymbology; label: string }[] = [
+  { value: 'ean13', label: 'EAN-13' },
+  { value: 'upca', label: 'UPC-A' },
+  { value: 'code128', label: 'Code 128' },
+  { value: 'qr', label: 'QR Code' },
+  { value: 'datamatrix', label: 'Data Matrix' }
+];
+
+/**
+ * Encode a value in the given symbology
+ * @param symbology Barcode symbology
+ * @param value Value to encode
+ * @returns Encoded barcode ready to be drawn
+ */
+export function encodeBarcode(symbology: BarcodeSymbology, value: string): Barcode {
+  switch (symbology) {
+    case 'ean13':
+      return encodeEan13(value);
+    case 'upca':
+      return encodeUpcA(value);
+    case 'qr':
+      return encodeQr(value);
+    case 'datamatrix':
+      return encodeDataMatrix(value);
+    case 'code128':
+      return encodeCode128Barcode(value);
+    default:
+      throw new Error(`Unsupported barcode symbology: ${symbology}`);
+  }
+}
+
+/**
+ * Pick a symbology that can hold a value: retail codes keep their own symbology, other ASCII text is Code 128
+ * and anything Code 128 cannot encode (e.g. Cyrillic) goes into a QR Code
+ * @param value Value to encode
+ * @returns Best matching symbology
+ */
+export function detectSymbology(value: string): BarcodeSymbology {
+  const trimmed = value.trim();
+  if (isValidEan13(trimmed)) return 'ean13';
+  if (isValidUpcA(trimmed)) return 'upca';
+  if (!/^[\x20-\x7e]+$/.test(trimmed)) return 'qr';
+  return 'code128';
+}
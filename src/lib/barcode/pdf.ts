@@ -0,0 +1,122 @@
+/**
+ * Barcode PDF renderer
+ * Draws encoded barcodes onto pdf-lib pages as vector rectangles so they stay sharp at any printer resolution
+ */
+import { PDFFont, PDFPage, rgb } from 'pdf-lib';
+import { Barcode, LinearBarcode, MatrixBarcode } from './types';
+
+/**
+ * Area to draw into, in PDF points with the origin at the bottom-left of the page
+ */
+export interface BarcodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BarcodeDrawOptions {
+  // Font for the human-readable text of linear barcodes; without it no text is drawn
+  font?: PDFFont;
+  fontSize?: number;
+}
+
+const BLACK = rgb(0, 0, 0);
+
+/**
+ * Find runs of dark modules so each bar is drawn as one rectangle
+ * @returns [start, length] of every run
+ */
+function darkRuns(modules: boolean[]): [number, number][] {
+  const runs: [number, number][] = [];
+  let start = -1;
+  modules.forEach((dark, index) => {
+    if (dark && start === -1) start = index;
+    if (!dark && start !== -1) {
+      runs.push([start, index - start]);
+      start = -1;
+    }
+  });
+  if (start !== -1) runs.push([start, modules.length - start]);
+  return runs;
+}
+
+function drawLinear(page: PDFPage, barcode: LinearBarcode, box: BarcodeBox, options: BarcodeDrawOptions): void {
+  const { font } = options;
+  const hasText = !!font && barcode.text.length > 0;
+
+  // Text placed in the quiet zones (EAN/UPC outer digits) needs room next to the bars
+  const leftExtra = hasText ? Math.max(0, ...barcode.text.map(group => -group.start)) : 0;
+  const rightExtra = hasText ? Math.max(0, ...barcode.text.map(group => group.end - barcode.modules.length)) : 0;
+  const moduleWidth = box.width / (barcode.modules.length + leftExtra + rightExtra);
+
+  const fontSize = hasText ? options.fontSize || Math.min(moduleWidth * 9, box.height / 4) : 0;
+  const textHeight = hasText ? fontSize : 0;
+  const barsLeft = box.x + leftExtra * moduleWidth;
+  const barsBottom = box.y + textHeight;
+  const barHeight = box.height - textHeight;
+
+  for (const [start, length] of darkRuns(barcode.modules)) {
+    // Guard bars reach halfway into the text line
+    const isGuard = !!barcode.guards?.[start];
+    const extension = isGuard ? textHeight / 2 : 0;
+    page.drawRectangle({
+      x: barsLeft + start * moduleWidth,
+      y: barsBottom - extension,
+      width: length * moduleWidth,
+      height: barHeight + extension,
+      color: BLACK
+    });
+  }
+
+  if (!hasText) return;
+
+  for (const group of barcode.text) {
+    const textWidth = font.widthOfTextAtSize(group.text, fontSize);
+    const center = barsLeft + ((group.start + group.end) / 2) * moduleWidth;
+    page.drawText(group.text, {
+      x: center - textWidth / 2,
+      // Center the digits vertically in the text line
+      y: box.y + (textHeight - font.heightAtSize(fontSize, { descender: false })) / 2,
+      size: fontSize,
+      font,
+      color: BLACK
+    });
+  }
+}
+
+function drawMatrix(page: PDFPage, barcode: MatrixBarcode, box: BarcodeBox): void {
+  const size = barcode.modules.length;
+  // The symbol is square and keeps its quiet zone inside the box
+  const moduleSize = Math.min(box.width, box.height) / (size + barcode.quietZone * 2);
+  const symbolSize = moduleSize * size;
+  const left = box.x + (box.width - symbolSize) / 2;
+  const top = box.y + (box.height + symbolSize) / 2;
+
+  barcode.modules.forEach((row, rowIndex) => {
+    for (const [start, length] of darkRuns(row)) {
+      page.drawRectangle({
+        x: left + start * moduleSize,
+        y: top - (rowIndex + 1) * moduleSize,
+        width: length * moduleSize,
+        height: moduleSize,
+        color: BLACK
+      });
+    }
+  });
+}
+
+/**
+ * Draw a barcode into a box on a PDF page
+ * @param page Page to draw on
+ * @param barcode Encoded barcode
+ * @param box Area in points; linear barcodes stretch to fill it, matrix codes are centered as a square
+ * @param options Font for the human-readable text of linear barcodes
+ */
+export function drawBarcode(page: PDFPage, barcode: Barcode, box: BarcodeBox, options: BarcodeDrawOptions = {}): void {
+  if (barcode.type === 'linear') {
+    drawLinear(page, barcode, box, options);
+  } else {
+    drawMatrix(page, barcode, box);
+  }
+}
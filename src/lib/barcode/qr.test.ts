@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeQr, getQrDataCapacity } from './qr';
+
+const rows = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '1' : '0')).join(''));
+
+// Format information of level L with each mask (ISO/IEC 18004, table C.1), read around the top-left finder
+const L_FORMAT_BITS = [
+  '111011111000100', '111001011110011', '111110110101010', '111100010011101',
+  '110011000101111', '110001100011000', '110110001000001', '110100101110110'
+];
+
+describe('getQrDataCapacity', () => {
+  it('matches the data capacity tables of the specification', () => {
+    assert.equal(getQrDataCapacity(1, 'L'), 19);
+    assert.equal(getQrDataCapacity(1, 'M'), 16);
+    assert.equal(getQrDataCapacity(1, 'H'), 9);
+    assert.equal(getQrDataCapacity(10, 'Q'), 154);
+    assert.equal(getQrDataCapacity(40, 'L'), 2956);
+  });
+});
+
+describe('encodeQr', () => {
+  it('encodes a known symbol', () => {
+    assert.deepEqual(rows(encodeQr('hello', 'L').modules), [
+      '111111100101101111111',
+      '100000101101001000001',
+      '101110101100101011101',
+      '101110100101001011101',
+      '101110101000101011101',
+      '100000101001101000001',
+      '111111101010101111111',
+      '000000001111100000000',
+      '110100110110001110110',
+      '011111011100001000011',
+      '001101111010110001101',
+      '000101001001000001011',
+      '000010110110101010000',
+      '000000001111000110101',
+      '111111101110010101110',
+      '100000100111110110000',
+      '101110100101001110001',
+      '101110101011000101111',
+      '101110100110100010101',
+      '100000101110011000000',
+      '111111101011100101010'
+    ]);
+  });
+
+  it('writes valid format information for the mask it picks', () => {
+    const { modules } = encodeQr('https://example.com/p/COF-250', 'L');
+    const bits = [
+      ...[0, 1, 2, 3, 4, 5, 7, 8].map(y => modules[y][8]),
+      ...[7, 5, 4, 3, 2, 1, 0].map(x => modules[8][x])
+    ].map(dark => (dark ? '1' : '0')).reverse().join('');
+    assert.ok(L_FORMAT_BITS.includes(bits), bits);
+  });
+
+  it('picks the smallest version that holds the UTF-8 bytes', () => {
+    assert.equal(encodeQr('hello').modules.length, 21);
+    // 17 Cyrillic letters take 34 bytes, more than version 2-M holds
+    assert.equal(encodeQr('Кава Арабіка зерно').modules.length, 29);
+    assert.throws(() => encodeQr('x'.repeat(3000)), /too long for a QR Code/);
+  });
+});
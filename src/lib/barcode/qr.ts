@@ -0,0 +1,369 @@
+/**
+ * QR Code encoder
+ * Encodes UTF-8 text in byte mode, picking the smallest version (1-40) that fits
+ */
+import { MatrixBarcode } from './types';
+import { createReedSolomon } from './reed-solomon';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+// Number of error correction blocks, indexed by version (index 0 unused)
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Error correction level bits used in the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const BYTE_MODE = 0x4;
+const PAD_BYTES = [0xec, 0x11];
+
+const reedSolomon = createReedSolomon(0x11d, 0);
+
+type Grid = { modules: boolean[][]; isFunction: boolean[][]; size: number };
+
+/**
+ * Number of modules available for data and error correction in a version
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/**
+ * Number of data codewords a version holds at an error correction level
+ * @param version QR version (1-40)
+ * @param ecc Error correction level
+ * @returns Data codewords
+ */
+export function getQrDataCapacity(version: number, ecc: QrErrorCorrection): number {
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[ecc][version] * NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+}
+
+/**
+ * Center positions of the alignment patterns of a version
+ */
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+/**
+ * Build the data codewords: mode, length, data, terminator and padding
+ */
+function buildDataCodewords(data: Buffer, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(BYTE_MODE, 4);
+  append(data.length, version < 10 ? 8 : 16);
+  data.forEach(byte => append(byte, 8));
+
+  // Terminator of up to four zeros, then pad to a whole byte
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity; i++) {
+    codewords.push(PAD_BYTES[i % 2]);
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, add error correction and interleave the result
+ */
+function addErrorCorrection(data: number[], version: number, ecc: QrErrorCorrection): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const eccCodewords = reedSolomon.encode(block, blockEccLength);
+    // Short blocks get a placeholder so every block has the same length while interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(eccCodewords));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function setFunctionModule(grid: Grid, x: number, y: number, dark: boolean): void {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+}
+
+function drawFormatBits(grid: Grid, ecc: QrErrorCorrection, mask: number): void {
+  const data = (FORMAT_BITS[ecc] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+  const { size } = grid;
+
+  // Copy around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, bit(i));
+  setFunctionModule(grid, 8, 7, bit(6));
+  setFunctionModule(grid, 8, 8, bit(7));
+  setFunctionModule(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, bit(i));
+
+  // Copy split between the other two finders
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, bit(i));
+  setFunctionModule(grid, 8, size - 8, true);
+}
+
+function drawVersionBits(grid: Grid, version: number): void {
+  if (version < 7) return;
+
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  const bits = (version << 12) | rem;
+
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) !== 0;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, dark);
+    setFunctionModule(grid, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(grid: Grid, version: number, ecc: QrErrorCorrection): void {
+  const { size } = grid;
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format area, it is drawn for real once the mask is chosen
+  drawFormatBits(grid, ecc, 0);
+  drawVersionBits(grid, version);
+}
+
+/**
+ * Place the codewords in the zigzag order, skipping function modules
+ */
+function drawCodewords(grid: Grid, codewords: number[]): void {
+  const { size } = grid;
+  let i = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Skip the vertical timing pattern column
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!grid.isFunction[y][x] && i < codewords.length * 8) {
+          grid.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+/**
+ * XOR a mask over the data modules (applying it twice removes it)
+ */
+function applyMask(grid: Grid, mask: number): void {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+}
+
+/**
+ * Score a masked symbol with the penalty rules of the specification, lower is better
+ */
+function getPenaltyScore(grid: Grid): number {
+  const { modules, size } = grid;
+  let penalty = 0;
+
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  for (const line of lines) {
+    // Runs of five or more modules of the same color
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+        penalty += 40;
+      }
+    }
+  }
+
+  // 2x2 blocks of the same color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return penalty;
+}
+
+/**
+ * Encode text as a QR Code
+ * @param text Text to encode (UTF-8)
+ * @param ecc Error correction level, defaults to M (15% recovery)
+ * @returns Matrix barcode
+ */
+export function encodeQr(text: string, ecc: QrErrorCorrection = 'M'): MatrixBarcode {
+  if (!text) {
+    throw new Error('QR Code value is empty');
+  }
+
+  const data = Buffer.from(text, 'utf8');
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const headerBits = 4 + (version < 10 ? 8 : 16);
+    if (headerBits + data.length * 8 <= getQrDataCapacity(version, ecc) * 8) break;
+  }
+  if (version > 40) {
+    throw new Error(`Value is too long for a QR Code (${data.length} bytes)`);
+  }
+
+  const size = version * 4 + 17;
+  const grid: Grid = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  };
+
+  drawFunctionPatterns(grid, version, ecc);
+  const codewords = buildDataCodewords(data, version, getQrDataCapacity(version, ecc));
+  drawCodewords(grid, addErrorCorrection(codewords, version, ecc));
+
+  // Try every mask and keep the one with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, ecc, mask);
+    const penalty = getPenaltyScore(grid);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, ecc, bestMask);
+
+  return { type: 'matrix', modules: grid.modules, quietZone: 4 };
+}
@@ -0,0 +1,16 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReedSolomon } from './reed-solomon';
+
+describe('createReedSolomon', () => {
+  it('computes the QR Code error correction of the specification example', () => {
+    // HELLO WORLD as a version 1-M symbol (ISO/IEC 18004)
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    assert.deepEqual(createReedSolomon(0x11d, 0).encode(data, 10), [196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('computes the Data Matrix error correction of the specification example', () => {
+    // 123456 in a 10x10 symbol (ISO/IEC 16022)
+    assert.deepEqual(createReedSolomon(0x12d, 1).encode([142, 164, 186], 5), [114, 25, 5, 88, 102]);
+  });
+});
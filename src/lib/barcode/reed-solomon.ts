@@ -0,0 +1,75 @@
+/**
+ * Reed-Solomon error correction over GF(256)
+ * Shared by the QR Code and Data Matrix encoders, which use different field polynomials
+ */
+
+export interface ReedSolomonEncoder {
+  /**
+   * Compute the error correction codewords for a block of data
+   * @param data Data codewords
+   * @param eccLength Number of error correction codewords to produce
+   * @returns Error correction codewords
+   */
+  encode(data: number[], eccLength: number): number[];
+}
+
+/**
+ * Create an encoder for a GF(256) field
+ * @param primitive Field generator polynomial (0x11D for QR Code, 0x12D for Data Matrix)
+ * @param firstRoot Exponent of the first root of the generator polynomial (0 for QR Code, 1 for Data Matrix)
+ * @returns Reed-Solomon encoder
+ */
+export function createReedSolomon(primitive: number, firstRoot: number): ReedSolomonEncoder {
+  const exp = new Array<number>(512);
+  const log = new Array<number>(256).fill(0);
+
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    exp[i] = x;
+    log[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= primitive;
+  }
+  for (let i = 255; i < 512; i++) {
+    exp[i] = exp[i - 255];
+  }
+
+  const multiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : exp[log[a] + log[b]]);
+
+  // Generator polynomials are cached per length, highest degree first
+  const generators = new Map<number, number[]>();
+  const getGenerator = (degree: number): number[] => {
+    let generator = generators.get(degree);
+    if (!generator) {
+      generator = [1];
+      for (let i = 0; i < degree; i++) {
+        const root = exp[(i + firstRoot) % 255];
+        const next = new Array<number>(generator.length + 1).fill(0);
+        generator.forEach((coefficient, j) => {
+          next[j] ^= coefficient;
+          next[j + 1] ^= multiply(coefficient, root);
+        });
+        generator = next;
+      }
+      generators.set(degree, generator);
+    }
+    return generator;
+  };
+
+  return {
+    encode(data: number[], eccLength: number): number[] {
+      const generator = getGenerator(eccLength);
+      const remainder = new Array<number>(eccLength).fill(0);
+
+      for (const value of data) {
+        const factor = value ^ remainder.shift();
+        remainder.push(0);
+        for (let j = 0; j < eccLength; j++) {
+          remainder[j] ^= multiply(generator[j + 1], factor);
+        }
+      }
+
+      return remainder;
+    }
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Barcode types shared by the encoders and the PDF renderer
+ */
+
+export type BarcodeSymbology = 'ean13' | 'upca' | 'code128' | 'qr' | 'datamatrix';
+
+/**
+ * Human-readable text printed under a linear barcode, placed relative to its modules
+ */
+export interface BarcodeTextGroup {
+  text: string;
+  // Module range the text is centered in; negative or past the end means it sits in the quiet zone
+  start: number;
+  end: number;
+}
+
+export interface LinearBarcode {
+  type: 'linear';
+  // Dark (true) and light (false) modules from left to right, quiet zones not included
+  modules: boolean[];
+  // Modules of guard bars that extend down into the text line (EAN/UPC)
+  guards?: boolean[];
+  text: BarcodeTextGroup[];
+}
+
+export interface MatrixBarcode {
+  type: 'matrix';
+  // Rows of dark (true) and light (false) modules, top to bottom, quiet zone not included
+  modules: boolean[][];
+  // Width of the quiet zone required around the symbol, in modules
+  quietZone: number;
+}
+
+export type Barcode = LinearBarcode | MatrixBarcode;
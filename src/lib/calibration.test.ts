@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import type { PrinterCalibration } from '../database/db';
+import { applyCalibration, generateCalibrationPage, getCalibrationMatrix, hasCalibration } from './calibration';
+import { MM_TO_PT } from './label-size';
+
+const NONE: PrinterCalibration = { offsetX: 0, offsetY: 0, rotation: 0, widthCorrection: 0, heightCorrection: 0 };
+
+// Where a point of the page ends up under a PDF matrix
+function transform([a, b, c, d, e, f]: number[], x: number, y: number): [number, number] {
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+function assertPoint(actual: [number, number], expected: [number, number]) {
+  assert.ok(
+    Math.abs(actual[0] - expected[0]) < 1e-9 && Math.abs(actual[1] - expected[1]) < 1e-9,
+    `${actual.join(',')} is not ${expected.join(',')}`
+  );
+}
+
+describe('hasCalibration', () => {
+  it('is false when there is no correction', () => {
+    assert.equal(hasCalibration(undefined), false);
+    assert.equal(hasCalibration(NONE), false);
+    assert.equal(hasCalibration({ ...NONE, rotation: 0.5 }), true);
+  });
+});
+
+describe('getCalibrationMatrix', () => {
+  it('leaves the page alone without corrections', () => {
+    // Adding 0 turns the -0 of the unturned sine into 0
+    assert.deepEqual(getCalibrationMatrix(NONE, 100, 50).map(value => value + 0), [1, 0, 0, 1, 0, 0]);
+  });
+
+  it('moves the print right and down for positive offsets', () => {
+    const matrix = getCalibrationMatrix({ ...NONE, offsetX: 1, offsetY: 2 }, 100, 50);
+    assertPoint(transform(matrix, 0, 0), [MM_TO_PT, -2 * MM_TO_PT]);
+  });
+
+  it('stretches the page around its centre by the width and height corrections', () => {
+    const matrix = getCalibrationMatrix({ ...NONE, widthCorrection: 1, heightCorrection: -1 }, 100, 50);
+    assertPoint(transform(matrix, 50, 25), [50, 25]);
+    assertPoint(transform(matrix, 100, 50), [100 + MM_TO_PT / 2, 50 - MM_TO_PT / 2]);
+  });
+
+  it('turns the page clockwise around its centre for positive rotation', () => {
+    const matrix = getCalibrationMatrix({ ...NONE, rotation: 90 }, 100, 100);
+    assertPoint(transform(matrix, 50, 50), [50, 50]);
+    // The top left corner turns to the top right
+    assertPoint(transform(matrix, 0, 100), [100, 100]);
+  });
+});
+
+describe('applyCalibration', () => {
+  it('keeps the size of every page', async () => {
+    const source = await PDFDocument.create();
+    source.addPage([100, 50]).drawRectangle({ x: 0, y: 0, width: 10, height: 10 });
+    source.addPage([60, 80]).drawRectangle({ x: 0, y: 0, width: 10, height: 10 });
+
+    const calibrated = await PDFDocument.load(await applyCalibration(await source.save(), { ...NONE, offsetX: 1 }));
+    assert.deepEqual(calibrated.getPages().map(page => page.getSize()), [{ width: 100, height: 50 }, { width: 60, height: 80 }]);
+  });
+});
+
+describe('generateCalibrationPage', () => {
+  it('draws one page at the label size', async () => {
+    const page = await PDFDocument.load(await generateCalibrationPage({ width: 50, height: 30 }));
+    assert.equal(page.getPageCount(), 1);
+    const size = page.getPage(0).getSize();
+    assert.ok(Math.abs(size.width - 50 * MM_TO_PT) < 0.01 && Math.abs(size.height - 30 * MM_TO_PT) < 0.01);
+  });
+});
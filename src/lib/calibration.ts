@@ -0,0 +1,173 @@
+/**
+ * Calibration Module
+ * Corrects for printers that print off-centre, skewed or slightly too small by moving,
+ * turning and stretching the document just before it is sent, and draws the
+ * calibration page the corrections are measured from
+ */
+import * as fs from 'fs';
+import {
+  PDFDocument,
+  StandardFonts,
+  concatTransformationMatrix,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb
+} from 'pdf-lib';
+import { PrinterCalibration } from '../database/db';
+import { LabelSize, MM_TO_PT } from './label-size';
+import { getTempFilePath } from './temp-files';
+
+/**
+ * Check whether a calibration changes anything
+ * @param calibration Calibration of the printer setting
+ * @returns True when any correction is not zero
+ */
+export function hasCalibration(calibration: PrinterCalibration | undefined): boolean {
+  return !!calibration && [
+    calibration.offsetX,
+    calibration.offsetY,
+    calibration.rotation,
+    calibration.widthCorrection,
+    calibration.heightCorrection
+  ].some(value => !!value);
+}
+
+/**
+ * Build the transformation matrix of a calibration for a page. The page is stretched and
+ * turned around its centre, then moved.
+ * @param calibration Corrections in mm and degrees
+ * @param width Page width in points
+ * @param height Page height in points
+ * @returns PDF matrix [a, b, c, d, e, f]
+ */
+export function getCalibrationMatrix(
+  calibration: PrinterCalibration,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] {
+  const scaleX = width > 0 ? (width + (calibration.widthCorrection || 0) * MM_TO_PT) / width : 1;
+  const scaleY = height > 0 ? (height + (calibration.heightCorrection || 0) * MM_TO_PT) / height : 1;
+  // Positive rotation is clockwise on the printed label, PDF angles are counterclockwise
+  const angle = -(calibration.rotation || 0) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const a = scaleX * cos;
+  const b = scaleX * sin;
+  const c = -scaleY * sin;
+  const d = scaleY * cos;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  // Offsets move the print right and down; PDF y grows upwards
+  const e = centerX + (calibration.offsetX || 0) * MM_TO_PT - (a * centerX + c * centerY);
+  const f = centerY - (calibration.offsetY || 0) * MM_TO_PT - (b * centerX + d * centerY);
+  return [a, b, c, d, e, f];
+}
+
+/**
+ * Apply a calibration to every page of a document
+ * @param pdfBytes Document to print
+ * @param calibration Corrections of the printer
+ * @returns PDF bytes with the same page sizes and the content moved, turned and stretched
+ */
+export async function applyCalibration(pdfBytes: Uint8Array, calibration: PrinterCalibration): Promise<Uint8Array> {
+  const source = await PDFDocument.load(pdfBytes);
+  const pdfDoc = await PDFDocument.create();
+  const pages = await pdfDoc.embedPdf(source, source.getPageIndices());
+
+  for (const embedded of pages) {
+    const page = pdfDoc.addPage([embedded.width, embedded.height]);
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...getCalibrationMatrix(calibration, embedded.width, embedded.height)));
+    page.drawPage(embedded, { x: 0, y: 0 });
+    page.pushOperators(popGraphicsState());
+  }
+
+  return pdfDoc.save();
+}
+
+/**
+ * Apply a calibration to a PDF file and write the result to a temporary file
+ * @param pdfPath Document to print
+ * @param calibration Corrections of the printer
+ * @param fileId Name for the file, e.g. the job ID
+ * @returns Path to the calibrated PDF
+ */
+export async function createCalibratedPdf(pdfPath: string, calibration: PrinterCalibration, fileId: string): Promise<string> {
+  const outputPath = getTempFilePath('print2-calibrated', fileId);
+  fs.writeFileSync(outputPath, await applyCalibration(fs.readFileSync(pdfPath), calibration));
+
+  console.log(`Applied calibration to ${pdfPath}: ${outputPath}`);
+  return outputPath;
+}
+
+/**
+ * Draw a calibration page: a border on the label edge, millimetre rulers along the top
+ * and left edges and a crosshair in the centre, so the offsets can be measured on the print
+ * @param size Label size in mm
+ * @returns PDF bytes of one page at the label size
+ */
+export async function generateCalibrationPage(size: LabelSize): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Calibration ${size.width}x${size.height}mm`);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const width = size.width * MM_TO_PT;
+  const height = size.height * MM_TO_PT;
+  const page = pdfDoc.addPage([width, height]);
+  const black = rgb(0, 0, 0);
+  const thin = 0.1 * MM_TO_PT;
+  const fontSize = 1.6 * MM_TO_PT;
+
+  // Border half a line inside the edge, so it shows whether the print reaches every side
+  page.drawRectangle({
+    x: thin,
+    y: thin,
+    width: width - 2 * thin,
+    height: height - 2 * thin,
+    borderColor: black,
+    borderWidth: 2 * thin
+  });
+
+  // Ticks every mm, longer every 5mm, numbered every 10mm
+  const tickLength = (mm: number) => (mm % 10 === 0 ? 3 : mm % 5 === 0 ? 2 : 1) * MM_TO_PT;
+  for (let mm = 1; mm < size.width; mm++) {
+    const x = mm * MM_TO_PT;
+    page.drawLine({ start: { x, y: height }, end: { x, y: height - tickLength(mm) }, thickness: thin, color: black });
+    if (mm % 10 === 0) {
+      const label = String(mm);
+      page.drawText(label, {
+        x: x - font.widthOfTextAtSize(label, fontSize) / 2,
+        y: height - 3.2 * MM_TO_PT - fontSize,
+        size: fontSize,
+        font,
+        color: black
+      });
+    }
+  }
+  for (let mm = 1; mm < size.height; mm++) {
+    const y = height - mm * MM_TO_PT;
+    page.drawLine({ start: { x: 0, y }, end: { x: tickLength(mm), y }, thickness: thin, color: black });
+    if (mm % 10 === 0) {
+      page.drawText(String(mm), { x: 3.4 * MM_TO_PT, y: y - fontSize / 3, size: fontSize, font, color: black });
+    }
+  }
+
+  // Crosshair through the centre of the label
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const arm = Math.min(width, height) / 4;
+  page.drawLine({ start: { x: centerX - arm, y: centerY }, end: { x: centerX + arm, y: centerY }, thickness: thin, color: black });
+  page.drawLine({ start: { x: centerX, y: centerY - arm }, end: { x: centerX, y: centerY + arm }, thickness: thin, color: black });
+  page.drawCircle({ x: centerX, y: centerY, size: 2 * MM_TO_PT, borderColor: black, borderWidth: thin });
+
+  const label = `${size.width} x ${size.height} mm`;
+  page.drawText(label, {
+    // Below and right of the circle
+    x: centerX + 2.5 * MM_TO_PT,
+    y: centerY - 2.5 * MM_TO_PT - fontSize,
+    size: fontSize,
+    font,
+    color: black
+  });
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { capabilitiesFromLpoptions, parseLpoptions, parseResolution } from './driver-options';
+
+// `lpoptions -p Zebra_ZD421 -l` of a Zebra thermal queue
+const LPOPTIONS = [
+  'PageSize/Media Size: w90h18 w144h85 *w288h432 Custom.WIDTHxHEIGHT',
+  'Resolution/Resolution: *203dpi 300dpi',
+  'MediaType/Media Type: Saved *Thermal Direct',
+  'Darkness/Darkness: -1 1 2 *10 30',
+  ''
+].join('\n');
+
+describe('parseLpoptions', () => {
+  it('reads each option with its label, choices and starred default', () => {
+    const [pageSize, , mediaType] = parseLpoptions(LPOPTIONS);
+    assert.deepEqual(pageSize, {
+      keyword: 'PageSize',
+      label: 'Media Size',
+      choices: ['w90h18', 'w144h85', 'w288h432', 'Custom.WIDTHxHEIGHT'],
+      defaultChoice: 'w288h432'
+    });
+    assert.deepEqual(mediaType.choices, ['Saved', 'Thermal', 'Direct']);
+    assert.equal(mediaType.defaultChoice, 'Thermal');
+  });
+
+  it('uses the keyword when the option has no label and skips blank lines', () => {
+    const options = parseLpoptions('\nCutter: *False True\n\n');
+    assert.deepEqual(options, [{ keyword: 'Cutter', label: 'Cutter', choices: ['False', 'True'], defaultChoice: 'False' }]);
+  });
+});
+
+describe('parseResolution', () => {
+  it('converts resolutions to dpi', () => {
+    assert.equal(parseResolution('203dpi'), 203);
+    assert.equal(parseResolution('300x600dpi'), 300);
+    assert.equal(parseResolution('8dpmm'), 203);
+    assert.equal(parseResolution('118dpcm'), 300);
+  });
+
+  it('returns null for choices that are not resolutions', () => {
+    assert.equal(parseResolution('Draft'), null);
+  });
+});
+
+describe('capabilitiesFromLpoptions', () => {
+  const capabilities = capabilitiesFromLpoptions('Zebra_ZD421', parseLpoptions(LPOPTIONS));
+
+  it('lists the media sizes with their size in mm', () => {
+    assert.deepEqual(capabilities.media.map(choice => choice.label), [
+      'w90h18 (31.8x6.4mm)',
+      'w144h85 (50.8x30mm)',
+      'w288h432 (101.6x152.4mm)'
+    ]);
+    assert.equal(capabilities.defaultMedia, 'w288h432');
+  });
+
+  it('accepts custom sizes when the queue offers Custom.WIDTHxHEIGHT', () => {
+    assert.equal(capabilities.customMedia, true);
+    assert.equal(capabilitiesFromLpoptions('Office', parseLpoptions('PageSize/Page Size: *A4 Letter\n')).customMedia, false);
+  });
+
+  it('keeps the resolutions and the driver options other than the media size', () => {
+    assert.deepEqual(capabilities.resolutions, [203, 300]);
+    assert.deepEqual(capabilities.driverOptions.map(option => option.keyword), ['Resolution', 'MediaType', 'Darkness']);
+  });
+});
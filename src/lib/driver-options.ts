@@ -0,0 +1,89 @@
+/**
+ * Driver Options Module
+ * Parses the driver options of a CUPS queue, as listed by `lpoptions -p <printer> -l`,
+ * into the media, resolutions and other options the queue offers
+ */
+import type { DriverOption, PrinterCapabilities } from './printer-capabilities';
+import { LabelSize, parseMediaSize } from './label-size';
+
+// Driver option keywords that select the media size
+const MEDIA_KEYWORDS = ['PageSize', 'media', 'MediaSize'];
+
+/**
+ * Label a media choice with its size
+ * @param value Media name
+ * @param size Size in mm when it is known
+ * @returns e.g. "w144h85 (50.8x30mm)"
+ */
+export function describeMedia(value: string, size?: LabelSize): string {
+  return size ? `${value} (${size.width}x${size.height}mm)` : value;
+}
+
+/**
+ * Parse a resolution choice
+ * @param value e.g. "203dpi", "300x300dpi" or "12dpmm"
+ * @returns Horizontal resolution in dpi, or null
+ */
+export function parseResolution(value: string): number | null {
+  const match = value.match(/^(\d+)(?:x\d+)?(dpi|dpmm|dpcm)$/i);
+  if (!match) return null;
+  const dots = parseInt(match[1], 10);
+  const unit = match[2].toLowerCase();
+  if (unit === 'dpmm') return Math.round(dots * 25.4);
+  if (unit === 'dpcm') return Math.round(dots * 2.54);
+  return dots;
+}
+
+/**
+ * Parse the output of `lpoptions -p <printer> -l`
+ * @param output Lines such as "PageSize/Media Size: *w288h432 w144h85 Custom.WIDTHxHEIGHT"
+ * @returns Driver options with their choices; the starred choice is the default
+ */
+export function parseLpoptions(output: string): DriverOption[] {
+  const options: DriverOption[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^([^/:\s]+)(?:\/([^:]*))?:\s*(.*)$/);
+    if (!match) continue;
+
+    const [, keyword, label, rest] = match;
+    let defaultChoice: string | undefined;
+    const choices = rest.split(/\s+/).filter(Boolean).map(choice => {
+      if (choice.startsWith('*')) {
+        defaultChoice = choice.slice(1);
+        return defaultChoice;
+      }
+      return choice;
+    });
+    options.push({ keyword, label: (label || keyword).trim(), choices, defaultChoice });
+  }
+
+  return options;
+}
+
+/**
+ * Build the capabilities of a CUPS queue from its driver options
+ * @param printerName Queue name
+ * @param options Parsed `lpoptions -l` output
+ * @returns Capabilities of the queue
+ */
+export function capabilitiesFromLpoptions(printerName: string, options: DriverOption[]): PrinterCapabilities {
+  const mediaOption = options.find(option => MEDIA_KEYWORDS.includes(option.keyword));
+  const resolutionOption = options.find(option => option.keyword === 'Resolution');
+  const mediaChoices = mediaOption?.choices || [];
+
+  return {
+    printerName,
+    source: 'cups',
+    media: mediaChoices
+      .filter(choice => !/^Custom\.WIDTHxHEIGHT$/i.test(choice))
+      .map(value => {
+        const size = parseMediaSize(value) || undefined;
+        return { value, label: describeMedia(value, size), size };
+      }),
+    defaultMedia: mediaOption?.defaultChoice,
+    customMedia: mediaChoices.some(choice => /^Custom\.WIDTHxHEIGHT$/i.test(choice)),
+    resolutions: (resolutionOption?.choices || []).map(parseResolution).filter((dpi): dpi is number => dpi !== null),
+    driverOptions: options.filter(option => !MEDIA_KEYWORDS.includes(option.keyword))
+  };
+}
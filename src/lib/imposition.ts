@@ -0,0 +1,180 @@
+/**
+ * Imposition Module
+ * Tiles a sticker PDF onto sheets of die-cut labels (A4, Letter or a custom page)
+ * so stations without a roll printer can print on sheet label stock
+ */
+import * as fs from 'fs';
+import { PDFDocument } from 'pdf-lib';
+import { SheetLayout } from '../database/db';
+import { LabelSize, MM_TO_PT, PAGE_SIZES } from './label-size';
+import { getTempFilePath } from './temp-files';
+
+// Labels may overhang the page by this much before the layout is rejected (rounding in published specs)
+const FIT_TOLERANCE_MM = 0.5;
+
+export interface SheetPosition {
+  row: number;
+  column: number;
+}
+
+/**
+ * Get the page size of a sheet layout
+ * @param layout Sheet layout
+ * @returns Page width and height in mm
+ */
+export function getSheetPageSize(layout: SheetLayout): LabelSize {
+  if (layout.pageSize === 'custom') {
+    return { width: layout.pageWidth || 0, height: layout.pageHeight || 0 };
+  }
+  return PAGE_SIZES[layout.pageSize];
+}
+
+/**
+ * Get the CUPS media name of the sheet
+ * @param layout Sheet layout
+ * @returns Media value for `-o media=`
+ */
+export function getSheetMedia(layout: SheetLayout): string {
+  if (layout.pageSize === 'custom') {
+    const { width, height } = getSheetPageSize(layout);
+    return `Custom.${width}x${height}mm`;
+  }
+  return layout.pageSize;
+}
+
+/**
+ * Check that a layout describes labels that fit on its page
+ * @param layout Sheet layout
+ * @param labelSize Size of one label in mm
+ * @returns List of problems, empty when the layout is usable
+ */
+export function validateSheetLayout(layout: SheetLayout, labelSize: LabelSize): string[] {
+  const errors: string[] = [];
+  const page = getSheetPageSize(layout);
+
+  if (!(page.width > 0 && page.height > 0)) errors.push('Page width and height must be positive');
+  if (!Number.isInteger(layout.rows) || layout.rows < 1) errors.push('Rows must be a whole number of at least 1');
+  if (!Number.isInteger(layout.columns) || layout.columns < 1) errors.push('Columns must be a whole number of at least 1');
+  if (layout.columns > 1 && !(layout.horizontalPitch >= labelSize.width)) {
+    errors.push(`Horizontal pitch must be at least the label width (${labelSize.width}mm)`);
+  }
+  if (layout.rows > 1 && !(layout.verticalPitch >= labelSize.height)) {
+    errors.push(`Vertical pitch must be at least the label height (${labelSize.height}mm)`);
+  }
+  if (errors.length > 0) return errors;
+
+  const right = (layout.marginLeft || 0) + (layout.columns - 1) * (layout.horizontalPitch || 0) + labelSize.width;
+  const bottom = (layout.marginTop || 0) + (layout.rows - 1) * (layout.verticalPitch || 0) + labelSize.height;
+  if (right > page.width + FIT_TOLERANCE_MM || bottom > page.height + FIT_TOLERANCE_MM) {
+    errors.push(`${layout.columns}x${layout.rows} labels of ${labelSize.width}x${labelSize.height}mm do not fit on the page`);
+  }
+
+  return errors;
+}
+
+/**
+ * Assign label positions to a number of copies. The first sheet starts after the
+ * labels already used (start offset); later sheets start at the first label.
+ * @param layout Sheet layout
+ * @param copies Number of labels to print
+ * @returns Positions for each sheet, in print order
+ */
+export function planSheets(layout: SheetLayout, copies: number): SheetPosition[][] {
+  const perSheet = layout.rows * layout.columns;
+  const offset = Math.min(Math.max(Math.floor(layout.startOffset || 0), 0), perSheet - 1);
+  const sheets: SheetPosition[][] = [];
+
+  for (let i = 0; i < copies; i++) {
+    const index = offset + i;
+    const sheet = Math.floor(index / perSheet);
+    const cell = index % perSheet;
+    if (!sheets[sheet]) sheets[sheet] = [];
+    sheets[sheet].push({ row: Math.floor(cell / layout.columns), column: cell % layout.columns });
+  }
+
+  return sheets;
+}
+
+/**
+ * Get the labels used on the last sheet after printing, where the next print starts
+ * @param layout Sheet layout
+ * @param copies Number of labels printed
+ * @returns Start offset for the next print, 0 when the last sheet was used up
+ */
+export function getNextStartOffset(layout: SheetLayout, copies: number): number {
+  const perSheet = layout.rows * layout.columns;
+  const offset = Math.min(Math.max(Math.floor(layout.startOffset || 0), 0), perSheet - 1);
+  return (offset + copies) % perSheet;
+}
+
+/**
+ * Tile the first page of a sticker PDF onto sheets
+ * @param pdfBytes Sticker PDF
+ * @param layout Sheet layout
+ * @param labelSize Size of one label in mm; the sticker is scaled to fit it
+ * @param copies Number of labels to print
+ * @returns PDF bytes with one page per sheet
+ */
+export async function imposeStickerPdf(
+  pdfBytes: Uint8Array,
+  layout: SheetLayout,
+  labelSize: LabelSize,
+  copies: number
+): Promise<Uint8Array> {
+  const errors = validateSheetLayout(layout, labelSize);
+  if (errors.length > 0) {
+    throw new Error(`Invalid sheet layout: ${errors.join('; ')}`);
+  }
+
+  const source = await PDFDocument.load(pdfBytes);
+  const pdfDoc = await PDFDocument.create();
+  const [sticker] = await pdfDoc.embedPdf(source, [0]);
+
+  const page = getSheetPageSize(layout);
+  const cell = { width: labelSize.width * MM_TO_PT, height: labelSize.height * MM_TO_PT };
+  // Keep the aspect ratio of the sticker and center it on the label
+  const scale = Math.min(cell.width / sticker.width, cell.height / sticker.height);
+  const drawn = { width: sticker.width * scale, height: sticker.height * scale };
+
+  for (const positions of planSheets(layout, copies)) {
+    const sheet = pdfDoc.addPage([page.width * MM_TO_PT, page.height * MM_TO_PT]);
+    for (const { row, column } of positions) {
+      // Layout positions are mm from the top-left corner, PDF coordinates start at the bottom-left
+      const left = (layout.marginLeft + column * layout.horizontalPitch) * MM_TO_PT;
+      const top = (layout.marginTop + row * layout.verticalPitch) * MM_TO_PT;
+      sheet.drawPage(sticker, {
+        x: left + (cell.width - drawn.width) / 2,
+        y: sheet.getHeight() - top - cell.height + (cell.height - drawn.height) / 2,
+        width: drawn.width,
+        height: drawn.height
+      });
+    }
+  }
+
+  return pdfDoc.save();
+}
+
+/**
+ * Write the imposed sheets for a print job to a temporary file
+ * @param pdfPath Sticker PDF
+ * @param layout Sheet layout
+ * @param labelSize Size of one label in mm
+ * @param copies Number of labels to print
+ * @param jobId Print job the file belongs to
+ * @returns Path to the imposed PDF
+ */
+export async function createImposedPdf(
+  pdfPath: string,
+  layout: SheetLayout,
+  labelSize: LabelSize,
+  copies: number,
+  jobId: string
+): Promise<string> {
+  const imposed = await imposeStickerPdf(fs.readFileSync(pdfPath), layout, labelSize, copies);
+  const outputPath = getTempFilePath('print2-imposed', jobId);
+  fs.writeFileSync(outputPath, imposed);
+
+  const sheets = planSheets(layout, copies).length;
+  console.log(`Imposed ${copies} labels onto ${sheets} ${layout.pageSize} ${sheets === 1 ? 'sheet' : 'sheets'} for job ${jobId}: ${outputPath}`);
+  return outputPath;
+}
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { attribute, decodeResponse, encodeRequest, GROUP_TAGS, isSuccessStatus, OPERATIONS, VALUE_TAGS } from './encoding';
+
+describe('encodeRequest', () => {
+  it('writes the version, operation and request ID before the groups', () => {
+    const encoded = encodeRequest({ operation: OPERATIONS.getPrinterAttributes, requestId: 42, groups: [] });
+    assert.deepEqual([...encoded], [1, 1, 0x00, 0x0b, 0, 0, 0, 42, GROUP_TAGS.end]);
+  });
+
+  it('writes additional values of a 1setOf attribute with an empty name', () => {
+    const encoded = encodeRequest({
+      operation: OPERATIONS.getPrinterAttributes,
+      requestId: 1,
+      groups: [{ tag: GROUP_TAGS.operation, attributes: [attribute('requested-attributes', VALUE_TAGS.keyword, 'a', 'bc')] }]
+    });
+    const attributes = encoded.subarray(9, encoded.length - 1);
+    assert.deepEqual(
+      [...attributes],
+      [
+        VALUE_TAGS.keyword, 0, 20, ...Buffer.from('requested-attributes'), 0, 1, ...Buffer.from('a'),
+        VALUE_TAGS.keyword, 0, 0, 0, 2, ...Buffer.from('bc')
+      ]
+    );
+  });
+
+  it('rejects values longer than a field can hold', () => {
+    assert.throws(
+      () => encodeRequest({
+        operation: OPERATIONS.printJob,
+        requestId: 1,
+        groups: [{ tag: GROUP_TAGS.operation, attributes: [attribute('job-name', VALUE_TAGS.nameWithoutLanguage, 'x'.repeat(0x10000))] }]
+      }),
+      /too long/
+    );
+  });
+});
+
+describe('decodeResponse', () => {
+  it('decodes what encodeRequest wrote, with the operation read as the status code', () => {
+    const encoded = encodeRequest({
+      operation: 0x0001,
+      requestId: 7,
+      groups: [
+        {
+          tag: GROUP_TAGS.operation,
+          attributes: [
+            attribute('attributes-charset', VALUE_TAGS.charset, 'utf-8'),
+            attribute('status-message', VALUE_TAGS.textWithoutLanguage, 'Успішно')
+          ]
+        },
+        {
+          tag: GROUP_TAGS.printer,
+          attributes: [
+            attribute('printer-state', VALUE_TAGS.enum, 3),
+            attribute('printer-is-accepting-jobs', VALUE_TAGS.boolean, false),
+            attribute('document-format-supported', VALUE_TAGS.mimeMediaType, 'application/pdf', 'image/urf'),
+            attribute('copies-default', VALUE_TAGS.integer, -1)
+          ]
+        }
+      ]
+    });
+
+    const response = decodeResponse(encoded);
+    assert.equal(response.version, '1.1');
+    assert.equal(response.statusCode, 0x0001);
+    assert.equal(response.requestId, 7);
+    assert.deepEqual(response.groups, [
+      { tag: GROUP_TAGS.operation, attributes: { 'attributes-charset': ['utf-8'], 'status-message': ['Успішно'] } },
+      {
+        tag: GROUP_TAGS.printer,
+        attributes: {
+          'printer-state': [3],
+          'printer-is-accepting-jobs': [false],
+          'document-format-supported': ['application/pdf', 'image/urf'],
+          'copies-default': [-1]
+        }
+      }
+    ]);
+    assert.equal(response.data.length, 0);
+  });
+
+  it('decodes collections such as media-col into objects', () => {
+    const encoded = encodeRequest({
+      operation: 0,
+      requestId: 1,
+      groups: [{
+        tag: GROUP_TAGS.job,
+        attributes: [
+          attribute('media-col', VALUE_TAGS.begCollection, [
+            attribute('media-size', VALUE_TAGS.begCollection, [
+              attribute('x-dimension', VALUE_TAGS.integer, 5000),
+              attribute('y-dimension', VALUE_TAGS.integer, 3000)
+            ]),
+            attribute('media-top-margin', VALUE_TAGS.integer, 0)
+          ])
+        ]
+      }]
+    });
+
+    assert.deepEqual(decodeResponse(encoded).groups[0].attributes['media-col'], [
+      { 'media-size': { 'x-dimension': 5000, 'y-dimension': 3000 }, 'media-top-margin': 0 }
+    ]);
+  });
+
+  it('decodes ranges, resolutions and values with a language', () => {
+    const header = [2, 0, 0, 0, 0, 0, 0, 9, GROUP_TAGS.printer];
+    const range = [VALUE_TAGS.rangeOfInteger, 0, 1, ...Buffer.from('r'), 0, 8, 0, 0, 0, 1, 0, 0, 0x27, 0x10];
+    const resolution = [VALUE_TAGS.resolution, 0, 1, ...Buffer.from('d'), 0, 9, 0, 0, 1, 0x2c, 0, 0, 1, 0x2c, 3];
+    const text = [VALUE_TAGS.textWithLanguage, 0, 1, ...Buffer.from('t'), 0, 9, 0, 2, ...Buffer.from('uk'), 0, 3, ...Buffer.from('abc')];
+
+    const response = decodeResponse(Buffer.from([...header, ...range, ...resolution, ...text, GROUP_TAGS.end]));
+    assert.equal(response.version, '2.0');
+    assert.deepEqual(response.groups[0].attributes, {
+      r: [{ lower: 1, upper: 10000 }],
+      d: ['300x300dpi'],
+      t: ['abc']
+    });
+  });
+
+  it('returns the data that follows the attributes', () => {
+    const encoded = encodeRequest({ operation: OPERATIONS.printJob, requestId: 1, groups: [] });
+    const document = Buffer.from('%PDF-1.7\n');
+    assert.deepEqual(decodeResponse(Buffer.concat([encoded, document])).data, document);
+  });
+
+  it('rejects a truncated response', () => {
+    const encoded = encodeRequest({
+      operation: 0,
+      requestId: 1,
+      groups: [{ tag: GROUP_TAGS.operation, attributes: [attribute('status-message', VALUE_TAGS.textWithoutLanguage, 'Printing')] }]
+    });
+    assert.throws(() => decodeResponse(encoded.subarray(0, encoded.length - 5)), /Truncated IPP response/);
+  });
+});
+
+describe('isSuccessStatus', () => {
+  it('accepts successful-ok and its variants only', () => {
+    assert.equal(isSuccessStatus(0x0000), true);
+    assert.equal(isSuccessStatus(0x0001), true);
+    assert.equal(isSuccessStatus(0x0400), false);
+    assert.equal(isSuccessStatus(0x0501), false);
+  });
+});
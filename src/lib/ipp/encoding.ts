@@ -0,0 +1,373 @@
+/**
+ * IPP Encoding Module
+ * Encodes IPP/1.1 requests and decodes responses (RFC 8010), including
+ * collections such as media-col
+ */
+
+// Delimiter tags
+export const GROUP_TAGS = {
+  operation: 0x01,
+  job: 0x02,
+  end: 0x03,
+  printer: 0x04,
+  unsupported: 0x05
+} as const;
+
+// Value tags
+export const VALUE_TAGS = {
+  unsupported: 0x10,
+  unknown: 0x12,
+  noValue: 0x13,
+  integer: 0x21,
+  boolean: 0x22,
+  enum: 0x23,
+  octetString: 0x30,
+  dateTime: 0x31,
+  resolution: 0x32,
+  rangeOfInteger: 0x33,
+  begCollection: 0x34,
+  textWithLanguage: 0x35,
+  nameWithLanguage: 0x36,
+  endCollection: 0x37,
+  textWithoutLanguage: 0x41,
+  nameWithoutLanguage: 0x42,
+  keyword: 0x44,
+  uri: 0x45,
+  uriScheme: 0x46,
+  charset: 0x47,
+  naturalLanguage: 0x48,
+  mimeMediaType: 0x49,
+  memberAttrName: 0x4a
+} as const;
+
+export const OPERATIONS = {
+  printJob: 0x0002,
+  cancelJob: 0x0008,
+  getJobAttributes: 0x0009,
+  getPrinterAttributes: 0x000b
+} as const;
+
+export type IppValueTag = typeof VALUE_TAGS[keyof typeof VALUE_TAGS];
+
+// Value of an attribute in a request; collections are lists of member attributes
+export type IppValue = string | number | boolean | IppAttribute[];
+
+export interface IppAttribute {
+  name: string;
+  tag: IppValueTag;
+  // More than one value makes a 1setOf attribute
+  values: IppValue[];
+}
+
+export interface IppGroup {
+  tag: number;
+  attributes: IppAttribute[];
+}
+
+export interface IppRequest {
+  operation: number;
+  requestId: number;
+  groups: IppGroup[];
+}
+
+// Decoded values; collections become plain objects keyed by member name
+export type DecodedValue =
+  | string
+  | number
+  | boolean
+  | null
+  | { lower: number; upper: number }
+  | { [member: string]: DecodedValue | DecodedValue[] };
+
+export interface IppResponse {
+  version: string;
+  statusCode: number;
+  requestId: number;
+  groups: { tag: number; attributes: Record<string, DecodedValue[]> }[];
+  // Bytes after the attributes, such as the document of a Print-Job request
+  data: Buffer;
+}
+
+/**
+ * Shorthand for building an attribute
+ */
+export function attribute(name: string, tag: IppValueTag, ...values: IppValue[]): IppAttribute {
+  return { name, tag, values };
+}
+
+class ByteWriter {
+  private chunks: Buffer[] = [];
+
+  uint8(value: number) {
+    this.chunks.push(Buffer.from([value & 0xff]));
+  }
+
+  uint16(value: number) {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(value);
+    this.chunks.push(buffer);
+  }
+
+  int32(value: number) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32BE(value);
+    this.chunks.push(buffer);
+  }
+
+  // Length-prefixed bytes
+  field(bytes: Buffer) {
+    if (bytes.length > 0xffff) {
+      throw new Error('IPP value is too long');
+    }
+    this.uint16(bytes.length);
+    this.chunks.push(bytes);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/**
+ * Encode a single value without its tag and name
+ */
+function encodeValueBytes(tag: IppValueTag, value: IppValue): Buffer {
+  switch (tag) {
+    case VALUE_TAGS.integer:
+    case VALUE_TAGS.enum: {
+      const buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(Number(value));
+      return buffer;
+    }
+    case VALUE_TAGS.boolean:
+      return Buffer.from([value ? 1 : 0]);
+    case VALUE_TAGS.noValue:
+    case VALUE_TAGS.unknown:
+    case VALUE_TAGS.unsupported:
+      return Buffer.alloc(0);
+    default:
+      return Buffer.from(String(value), 'utf8');
+  }
+}
+
+function writeAttribute(writer: ByteWriter, attr: IppAttribute, name: string): void {
+  attr.values.forEach((value, index) => {
+    // Additional values of a 1setOf attribute have an empty name
+    const valueName = Buffer.from(index === 0 ? name : '', 'utf8');
+
+    if (attr.tag === VALUE_TAGS.begCollection) {
+      writer.uint8(VALUE_TAGS.begCollection);
+      writer.field(valueName);
+      writer.field(Buffer.alloc(0));
+      for (const member of value as IppAttribute[]) {
+        writer.uint8(VALUE_TAGS.memberAttrName);
+        writer.field(Buffer.alloc(0));
+        writer.field(Buffer.from(member.name, 'utf8'));
+        // Member values carry no name of their own
+        writeAttribute(writer, member, '');
+      }
+      writer.uint8(VALUE_TAGS.endCollection);
+      writer.field(Buffer.alloc(0));
+      writer.field(Buffer.alloc(0));
+      return;
+    }
+
+    writer.uint8(attr.tag);
+    writer.field(valueName);
+    writer.field(encodeValueBytes(attr.tag, value));
+  });
+}
+
+/**
+ * Encode an IPP/1.1 request
+ * @param request Operation, request ID and attribute groups
+ * @returns Encoded request, to be followed by the document data if any
+ */
+export function encodeRequest(request: IppRequest): Buffer {
+  const writer = new ByteWriter();
+  writer.uint8(1);
+  writer.uint8(1);
+  writer.uint16(request.operation);
+  writer.int32(request.requestId);
+
+  for (const group of request.groups) {
+    writer.uint8(group.tag);
+    for (const attr of group.attributes) {
+      writeAttribute(writer, attr, attr.name);
+    }
+  }
+
+  writer.uint8(GROUP_TAGS.end);
+  return writer.toBuffer();
+}
+
+class ByteReader {
+  offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated IPP response');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.buffer[this.offset++];
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  int32(): number {
+    this.ensure(4);
+    const value = this.buffer.readInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  field(): Buffer {
+    const length = this.uint16();
+    this.ensure(length);
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+/**
+ * Decode a single value from its bytes
+ */
+function decodeValue(tag: number, bytes: Buffer): DecodedValue {
+  switch (tag) {
+    case VALUE_TAGS.integer:
+    case VALUE_TAGS.enum:
+      return bytes.length === 4 ? bytes.readInt32BE(0) : null;
+    case VALUE_TAGS.boolean:
+      return bytes[0] === 1;
+    case VALUE_TAGS.rangeOfInteger:
+      return { lower: bytes.readInt32BE(0), upper: bytes.readInt32BE(4) };
+    case VALUE_TAGS.resolution:
+      return `${bytes.readInt32BE(0)}x${bytes.readInt32BE(4)}${bytes[8] === 3 ? 'dpi' : 'dpcm'}`;
+    case VALUE_TAGS.dateTime: {
+      const date = new Date(Date.UTC(bytes.readUInt16BE(0), bytes[2] - 1, bytes[3], bytes[4], bytes[5], bytes[6]));
+      return date.toISOString();
+    }
+    case VALUE_TAGS.textWithLanguage:
+    case VALUE_TAGS.nameWithLanguage: {
+      // Language and text are both length-prefixed
+      const languageLength = bytes.readUInt16BE(0);
+      const textLength = bytes.readUInt16BE(2 + languageLength);
+      return bytes.subarray(4 + languageLength, 4 + languageLength + textLength).toString('utf8');
+    }
+    case VALUE_TAGS.octetString:
+      return bytes.toString('base64');
+    default:
+      // Out-of-band values (unsupported, unknown, no-value)
+      if (tag >= 0x10 && tag <= 0x1f) return null;
+      return bytes.toString('utf8');
+  }
+}
+
+/**
+ * Decode the members of a collection after its begCollection tag
+ */
+function decodeCollection(reader: ByteReader): { [member: string]: DecodedValue | DecodedValue[] } {
+  const members: Record<string, DecodedValue[]> = {};
+  let current: string | null = null;
+
+  while (!reader.done) {
+    const tag = reader.uint8();
+    reader.field(); // Member values have an empty name
+    if (tag === VALUE_TAGS.endCollection) {
+      reader.field();
+      break;
+    }
+    if (tag === VALUE_TAGS.memberAttrName) {
+      current = reader.field().toString('utf8');
+      members[current] = [];
+      continue;
+    }
+
+    const value = tag === VALUE_TAGS.begCollection
+      ? (reader.field(), decodeCollection(reader))
+      : decodeValue(tag, reader.field());
+    if (current) members[current].push(value);
+  }
+
+  // Single values are unwrapped so members read like plain properties
+  return Object.fromEntries(Object.entries(members).map(([name, values]) => [name, values.length === 1 ? values[0] : values]));
+}
+
+/**
+ * Decode an IPP response
+ * @param buffer Response body
+ * @returns Status code, request ID, attribute groups and any data that follows them
+ */
+export function decodeResponse(buffer: Buffer): IppResponse {
+  const reader = new ByteReader(buffer);
+  const major = reader.uint8();
+  const minor = reader.uint8();
+  const response: IppResponse = {
+    version: `${major}.${minor}`,
+    statusCode: reader.uint16(),
+    requestId: reader.int32(),
+    groups: [],
+    data: Buffer.alloc(0)
+  };
+
+  let group: IppResponse['groups'][number] | null = null;
+  let lastName: string | null = null;
+
+  while (!reader.done) {
+    const tag = reader.uint8();
+    if (tag === GROUP_TAGS.end) {
+      response.data = buffer.subarray(reader.offset);
+      break;
+    }
+
+    // Delimiter tags start a new group
+    if (tag < 0x10) {
+      group = { tag, attributes: {} };
+      response.groups.push(group);
+      lastName = null;
+      continue;
+    }
+
+    const name = reader.field().toString('utf8');
+    const value = tag === VALUE_TAGS.begCollection
+      ? (reader.field(), decodeCollection(reader))
+      : decodeValue(tag, reader.field());
+
+    if (!group) {
+      throw new Error('IPP attribute outside of a group');
+    }
+    // An empty name adds another value to the previous attribute
+    if (name) {
+      lastName = name;
+      group.attributes[name] = [value];
+    } else if (lastName) {
+      group.attributes[lastName].push(value);
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Check whether an IPP status code means the request succeeded
+ * @param statusCode Status code of the response
+ * @returns True for successful-ok and its variants (0x0000-0x00ff)
+ */
+export function isSuccessStatus(statusCode: number): boolean {
+  return statusCode >= 0 && statusCode <= 0x00ff;
+}
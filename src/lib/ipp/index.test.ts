@@ -0,0 +1,180 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  cancelIppJob,
+  chooseDocumentFormat,
+  detectDocumentFormat,
+  getIppJobStatus,
+  getIppPrinterAttributes,
+  isIppUri,
+  printIppJob
+} from '.';
+import { OPERATIONS } from './encoding';
+import { startTestPrinter, TestPrinter } from './test-printer';
+
+const PDF = Buffer.from('%PDF-1.7\n%âãÏÓ\n1 0 obj\n<<>>\nendobj\n%%EOF\n');
+const ZPL = Buffer.from('^XA^FO50,50^FDLabel^FS^XZ');
+
+describe('isIppUri', () => {
+  it('recognises ipp:// and ipps:// URIs only', () => {
+    assert.equal(isIppUri('ipp://printer.local/ipp/print'), true);
+    assert.equal(isIppUri(' IPPS://10.0.0.5:631/ipp/print'), true);
+    assert.equal(isIppUri('socket://10.0.0.5:9100'), false);
+    assert.equal(isIppUri('Zebra_ZD420'), false);
+    assert.equal(isIppUri(undefined), false);
+  });
+});
+
+describe('detectDocumentFormat', () => {
+  it('recognises common document formats from their first bytes', () => {
+    assert.equal(detectDocumentFormat(PDF), 'application/pdf');
+    assert.equal(detectDocumentFormat(Buffer.from('%!PS-Adobe-3.0')), 'application/postscript');
+    assert.equal(detectDocumentFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a])), 'image/png');
+    assert.equal(detectDocumentFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+    assert.equal(detectDocumentFormat(Buffer.from('RaS2PwgRaster')), 'image/pwg-raster');
+    assert.equal(detectDocumentFormat(Buffer.from('UNIRAST\0')), 'image/urf');
+  });
+
+  it('falls back to application/octet-stream', () => {
+    assert.equal(detectDocumentFormat(ZPL), 'application/octet-stream');
+    assert.equal(detectDocumentFormat(Buffer.alloc(0)), 'application/octet-stream');
+  });
+});
+
+describe('chooseDocumentFormat', () => {
+  it('keeps a format the printer lists, whatever its case', () => {
+    assert.equal(chooseDocumentFormat('application/pdf', ['application/PDF', 'image/urf']), 'application/pdf');
+  });
+
+  it('keeps the format when the printer does not say what it accepts', () => {
+    assert.equal(chooseDocumentFormat('application/pdf', []), 'application/pdf');
+  });
+
+  it('lets a printer that auto-senses documents detect the format', () => {
+    assert.equal(chooseDocumentFormat('application/pdf', ['image/urf', 'application/octet-stream']), 'application/octet-stream');
+  });
+
+  it('refuses a format the printer cannot print', () => {
+    assert.throws(
+      () => chooseDocumentFormat('application/pdf', ['image/urf', 'image/pwg-raster']),
+      /does not accept application\/pdf documents, only image\/urf, image\/pwg-raster/
+    );
+  });
+});
+
+describe('IPP client against a stand-in printer', () => {
+  let printer: TestPrinter;
+
+  before(async () => {
+    printer = await startTestPrinter({ documentFormats: ['application/pdf', 'image/urf', 'application/octet-stream'] });
+  });
+
+  after(async () => {
+    await printer.close();
+  });
+
+  beforeEach(() => {
+    printer.forgetJobs();
+    printer.operations.length = 0;
+  });
+
+  it('reads the printer attributes', async () => {
+    const attributes = await getIppPrinterAttributes(printer.uri);
+    assert.equal(attributes.state, 'idle');
+    assert.deepEqual(attributes.stateReasons, []);
+    assert.equal(attributes.acceptingJobs, true);
+    assert.deepEqual(attributes.documentFormats, ['application/pdf', 'image/urf', 'application/octet-stream']);
+  });
+
+  it('sends a PDF declared as application/pdf with its job attributes', async () => {
+    const jobId = await printIppJob(printer.uri, PDF, {
+      copies: 2,
+      media: { width: 50, height: 30 },
+      orientation: 'landscape',
+      jobName: 'Кава "Арабіка"'
+    });
+
+    assert.equal(jobId, 1);
+    assert.deepEqual(printer.operations, [OPERATIONS.getPrinterAttributes, OPERATIONS.printJob]);
+    const [job] = printer.jobs;
+    assert.deepEqual(job.document, PDF);
+    assert.deepEqual(job.attributes['document-format'], ['application/pdf']);
+    assert.deepEqual(job.attributes['job-name'], ['Кава "Арабіка"']);
+    assert.deepEqual(job.attributes['copies'], [2]);
+    assert.deepEqual(job.attributes['orientation-requested'], [4]);
+    assert.deepEqual(job.attributes['media-col'], [{ 'media-size': { 'x-dimension': 5000, 'y-dimension': 3000 } }]);
+  });
+
+  it('declares the format of other documents instead of application/pdf', async () => {
+    await printIppJob(printer.uri, Buffer.from('UNIRAST\0'), { copies: 1 });
+    await printIppJob(printer.uri, ZPL, { copies: 1 });
+    await printIppJob(printer.uri, ZPL, { copies: 1, documentFormat: 'image/urf' });
+
+    assert.deepEqual(
+      printer.jobs.map(job => job.attributes['document-format'][0]),
+      ['image/urf', 'application/octet-stream', 'image/urf']
+    );
+  });
+
+  it('follows a job until the printer completes it', async () => {
+    const jobId = await printIppJob(printer.uri, PDF, { copies: 1 });
+    assert.deepEqual(await getIppJobStatus(printer.uri, jobId), { state: 'pending', stateReasons: [], stateMessage: undefined });
+
+    printer.setJobState(jobId, 'completed');
+    assert.equal((await getIppJobStatus(printer.uri, jobId)).state, 'completed');
+  });
+
+  it('reports a job the printer aborted, with its reasons and message', async () => {
+    const jobId = await printIppJob(printer.uri, PDF, { copies: 1 });
+    printer.setJobState(jobId, 'aborted', ['document-format-error'], 'Could not read the document');
+
+    assert.deepEqual(await getIppJobStatus(printer.uri, jobId), {
+      state: 'aborted',
+      stateReasons: ['document-format-error'],
+      stateMessage: 'Could not read the document'
+    });
+  });
+
+  it('returns null for a job the printer no longer keeps', async () => {
+    const jobId = await printIppJob(printer.uri, PDF, { copies: 1 });
+    printer.forgetJobs();
+    assert.equal(await getIppJobStatus(printer.uri, jobId), null);
+  });
+
+  it('cancels a job', async () => {
+    const jobId = await printIppJob(printer.uri, PDF, { copies: 1 });
+    await cancelIppJob(printer.uri, jobId);
+
+    const status = await getIppJobStatus(printer.uri, jobId);
+    assert.equal(status.state, 'canceled');
+    assert.deepEqual(status.stateReasons, ['job-canceled-by-user']);
+    await assert.rejects(cancelIppJob(printer.uri, 99), /IPP error 0x0406: Job not found/);
+  });
+});
+
+describe('IPP client against printers with fewer formats', () => {
+  it('refuses to send a document the printer cannot print', async () => {
+    const printer = await startTestPrinter({ documentFormats: ['image/urf', 'image/pwg-raster'] });
+    try {
+      await assert.rejects(printIppJob(printer.uri, PDF, { copies: 1 }), /does not accept application\/pdf documents/);
+      assert.deepEqual(printer.operations, [OPERATIONS.getPrinterAttributes]);
+    } finally {
+      await printer.close();
+    }
+  });
+
+  it('sends the detected format when the printer does not list its formats, and reports its refusal', async () => {
+    const printer = await startTestPrinter({ documentFormats: ['application/pdf'], failPrinterAttributes: true });
+    try {
+      assert.equal(await printIppJob(printer.uri, PDF, { copies: 1 }), 1);
+      assert.deepEqual(printer.jobs[0].attributes['document-format'], ['application/pdf']);
+
+      await assert.rejects(
+        printIppJob(printer.uri, ZPL, { copies: 1 }),
+        /IPP error 0x040a: Unsupported format application\/octet-stream/
+      );
+    } finally {
+      await printer.close();
+    }
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * IPP Module
+ * Prints directly to network printers at ipp:// or ipps:// URIs, without an
+ * installed OS queue or driver, follows the jobs it sent and reads the printers'
+ * state and supported media
+ */
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import { URL } from 'url';
+import {
+  attribute,
+  decodeResponse,
+  DecodedValue,
+  encodeRequest,
+  GROUP_TAGS,
+  IppAttribute,
+  IppGroup,
+  IppResponse,
+  isSuccessStatus,
+  OPERATIONS,
+  VALUE_TAGS
+} from './encoding';
+
+export { isSuccessStatus } from './encoding';
+
+const DEFAULT_IPP_PORT = 631;
+const REQUEST_TIMEOUT = 30000;
+
+// printer-state enum values
+const PRINTER_STATES: Record<number, 'idle' | 'printing' | 'stopped'> = { 3: 'idle', 4: 'printing', 5: 'stopped' };
+
+// job-state enum values
+const JOB_STATES: Record<number, IppJobState> = {
+  3: 'pending',
+  4: 'held',
+  5: 'processing',
+  6: 'stopped',
+  7: 'canceled',
+  8: 'aborted',
+  9: 'completed'
+};
+
+// Status code of a request about a job the printer does not know (anymore)
+const STATUS_NOT_FOUND = 0x0406;
+
+// Format a printer that auto-senses documents accepts for any of them
+const AUTO_SENSE_FORMAT = 'application/octet-stream';
+
+// Leading bytes of the document formats printers commonly accept
+const DOCUMENT_SIGNATURES: [string, string][] = [
+  ['%PDF-', 'application/pdf'],
+  ['%!PS', 'application/postscript'],
+  ['\x89PNG', 'image/png'],
+  ['\xff\xd8\xff', 'image/jpeg'],
+  ['RaS2', 'image/pwg-raster'],
+  ['UNIRAST', 'image/urf']
+];
+
+let nextRequestId = 1;
+
+export interface IppPrintOptions {
+  copies: number;
+  // Media size in mm
+  media?: { width: number; height: number };
+  orientation?: 'portrait' | 'landscape';
+  printScaling?: 'none' | 'fit' | 'fill';
+  // Margins in mm
+  margins?: { top?: number; right?: number; bottom?: number; left?: number };
+  jobName?: string;
+  // MIME type of the document; detected from its first bytes when not set
+  documentFormat?: string;
+}
+
+export type IppJobState = 'pending' | 'held' | 'processing' | 'stopped' | 'canceled' | 'aborted' | 'completed' | 'unknown';
+
+export interface IppJobStatus {
+  state: IppJobState;
+  // job-state-reasons other than "none", e.g. "job-canceled-at-device" or "document-format-error"
+  stateReasons: string[];
+  stateMessage?: string;
+}
+
+export interface IppPrinterAttributes {
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  stateReasons: string[];
+  stateMessage?: string;
+  makeAndModel?: string;
+  acceptingJobs: boolean;
+  documentFormats: string[];
+  // Media keywords, e.g. "oe_w2h1_2x1in" or "iso_a4_210x297mm"
+  mediaSupported: string[];
+  mediaReady: string[];
+  // Media sizes in mm from media-size-supported
+  mediaSizes: { width: number; height: number }[];
+  // Resolutions such as "300x300dpi"
+  resolutions: string[];
+}
+
+/**
+ * Check whether a printer name is an IPP printer URI
+ * @param printerName Printer name from the settings or a job
+ * @returns True for ipp:// and ipps:// URIs
+ */
+export function isIppUri(printerName: string | null | undefined): boolean {
+  return /^ipps?:\/\//i.test((printerName || '').trim());
+}
+
+/**
+ * Send an IPP request over HTTP(S) and decode the response
+ * @param printerUri ipp:// or ipps:// URI of the printer
+ * @param body Encoded request followed by the document data
+ * @returns Decoded response
+ */
+function postIpp(printerUri: string, body: Buffer): Promise<IppResponse> {
+  const uri = new URL(printerUri);
+  const secure = uri.protocol === 'ipps:';
+  const transport = secure ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request({
+      method: 'POST',
+      hostname: uri.hostname,
+      port: uri.port || DEFAULT_IPP_PORT,
+      path: `${uri.pathname || '/'}${uri.search}`,
+      headers: {
+        'Content-Type': 'application/ipp',
+        'Content-Length': body.length
+      },
+      timeout: REQUEST_TIMEOUT,
+      // Network printers ship with self-signed certificates
+      ...(secure ? { rejectUnauthorized: false } : {})
+    }, (response) => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        if (response.statusCode !== 200) {
+          reject(new Error(`Printer returned HTTP ${response.statusCode}`));
+          return;
+        }
+        try {
+          resolve(decodeResponse(Buffer.concat(chunks)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`No response from ${uri.host}`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Operation attributes every request starts with
+ */
+function operationGroup(printerUri: string, extra: IppAttribute[] = []): IppGroup {
+  return {
+    tag: GROUP_TAGS.operation,
+    attributes: [
+      attribute('attributes-charset', VALUE_TAGS.charset, 'utf-8'),
+      attribute('attributes-natural-language', VALUE_TAGS.naturalLanguage, 'en'),
+      attribute('printer-uri', VALUE_TAGS.uri, printerUri),
+      attribute('requesting-user-name', VALUE_TAGS.nameWithoutLanguage, os.userInfo().username),
+      ...extra
+    ]
+  };
+}
+
+/**
+ * Get the message of a failed response
+ */
+function describeFailure(response: IppResponse): string {
+  const message = findAttribute(response, 'status-message')?.[0];
+  return `IPP error 0x${response.statusCode.toString(16).padStart(4, '0')}${message ? `: ${message}` : ''}`;
+}
+
+/**
+ * Find an attribute in any group of a response
+ */
+function findAttribute(response: IppResponse, name: string): DecodedValue[] | undefined {
+  for (const group of response.groups) {
+    if (group.attributes[name]) return group.attributes[name];
+  }
+  return undefined;
+}
+
+/**
+ * Build the job template attributes for a print
+ * @param options Copies, media, orientation, scaling and margins
+ * @returns Attributes of the job group
+ */
+export function buildJobAttributes(options: IppPrintOptions): IppAttribute[] {
+  const attributes: IppAttribute[] = [attribute('copies', VALUE_TAGS.integer, options.copies)];
+
+  if (options.orientation) {
+    attributes.push(attribute('orientation-requested', VALUE_TAGS.enum, options.orientation === 'landscape' ? 4 : 3));
+  }
+  if (options.printScaling) {
+    attributes.push(attribute('print-scaling', VALUE_TAGS.keyword, options.printScaling));
+  }
+
+  if (options.media) {
+    // media-col sizes and margins are in hundredths of a millimetre
+    const hundredths = (mm: number) => Math.round(mm * 100);
+    const members: IppAttribute[] = [
+      attribute('media-size', VALUE_TAGS.begCollection, [
+        attribute('x-dimension', VALUE_TAGS.integer, hundredths(options.media.width)),
+        attribute('y-dimension', VALUE_TAGS.integer, hundredths(options.media.height))
+      ])
+    ];
+    if (options.margins) {
+      const { top, right, bottom, left } = options.margins;
+      members.push(
+        attribute('media-top-margin', VALUE_TAGS.integer, hundredths(top || 0)),
+        attribute('media-right-margin', VALUE_TAGS.integer, hundredths(right || 0)),
+        attribute('media-bottom-margin', VALUE_TAGS.integer, hundredths(bottom || 0)),
+        attribute('media-left-margin', VALUE_TAGS.integer, hundredths(left || 0))
+      );
+    }
+    attributes.push(attribute('media-col', VALUE_TAGS.begCollection, members));
+  }
+
+  return attributes;
+}
+
+/**
+ * Detect the format of a document from its first bytes
+ * @param document Document bytes
+ * @returns MIME type, application/octet-stream when the format is not recognised
+ */
+export function detectDocumentFormat(document: Uint8Array): string {
+  const start = Buffer.from(document.subarray(0, 8)).toString('latin1');
+  const match = DOCUMENT_SIGNATURES.find(([signature]) => start.startsWith(signature));
+  return match ? match[1] : AUTO_SENSE_FORMAT;
+}
+
+/**
+ * Pick the document-format to declare for a document
+ * @param format MIME type of the document
+ * @param supported document-format-supported of the printer; empty when unknown
+ * @returns The document's own format, or application/octet-stream for a printer that
+ * auto-senses and does not list it
+ */
+export function chooseDocumentFormat(format: string, supported: string[]): string {
+  const normalized = supported.map(value => value.toLowerCase());
+  if (normalized.length === 0 || normalized.includes(format.toLowerCase())) {
+    return format;
+  }
+  if (normalized.includes(AUTO_SENSE_FORMAT)) {
+    return AUTO_SENSE_FORMAT;
+  }
+  throw new Error(`The printer does not accept ${format} documents, only ${supported.join(', ')}`);
+}
+
+/**
+ * Send a document to a printer with Print-Job, declared in a format the printer accepts
+ * @param printerUri ipp:// or ipps:// URI of the printer
+ * @param document Document bytes, usually a PDF
+ * @param options Copies, media, orientation, scaling, margins and the document format
+ * @returns Job ID assigned by the printer, to follow with getIppJobStatus
+ */
+export async function printIppJob(printerUri: string, document: Uint8Array, options: IppPrintOptions): Promise<number | undefined> {
+  let supportedFormats: string[] = [];
+  try {
+    supportedFormats = (await getIppPrinterAttributes(printerUri)).documentFormats;
+  } catch (error) {
+    // The Print-Job response tells whether the format is accepted
+    console.warn(`Could not read the document formats of ${printerUri}:`, error.message);
+  }
+  const documentFormat = chooseDocumentFormat(options.documentFormat || detectDocumentFormat(document), supportedFormats);
+
+  const request = encodeRequest({
+    operation: OPERATIONS.printJob,
+    requestId: nextRequestId++,
+    groups: [
+      operationGroup(printerUri, [
+        attribute('job-name', VALUE_TAGS.nameWithoutLanguage, options.jobName || 'Label'),
+        attribute('document-format', VALUE_TAGS.mimeMediaType, documentFormat)
+      ]),
+      { tag: GROUP_TAGS.job, attributes: buildJobAttributes(options) }
+    ]
+  });
+
+  const response = await postIpp(printerUri, Buffer.concat([request, Buffer.from(document)]));
+  if (!isSuccessStatus(response.statusCode)) {
+    throw new Error(describeFailure(response));
+  }
+
+  const jobId = findAttribute(response, 'job-id')?.[0];
+  return typeof jobId === 'number' ? jobId : undefined;
+}
+
+/**
+ * Query the state of a job with Get-Job-Attributes
+ * @param printerUri ipp:// or ipps:// URI of the printer
+ * @param jobId Job ID returned by printIppJob
+ * @returns State of the job, or null when the printer no longer keeps it
+ */
+export async function getIppJobStatus(printerUri: string, jobId: number): Promise<IppJobStatus | null> {
+  const request = encodeRequest({
+    operation: OPERATIONS.getJobAttributes,
+    requestId: nextRequestId++,
+    groups: [
+      operationGroup(printerUri, [
+        attribute('job-id', VALUE_TAGS.integer, jobId),
+        attribute('requested-attributes', VALUE_TAGS.keyword, 'job-state', 'job-state-reasons', 'job-state-message')
+      ])
+    ]
+  });
+
+  const response = await postIpp(printerUri, request);
+  if (response.statusCode === STATUS_NOT_FOUND) {
+    return null;
+  }
+  if (!isSuccessStatus(response.statusCode)) {
+    throw new Error(describeFailure(response));
+  }
+
+  const strings = (name: string) => (findAttribute(response, name) || []).filter((v): v is string => typeof v === 'string');
+  const state = findAttribute(response, 'job-state')?.[0];
+
+  return {
+    state: JOB_STATES[state as number] || 'unknown',
+    stateReasons: strings('job-state-reasons').filter(reason => reason !== 'none'),
+    stateMessage: strings('job-state-message')[0] || undefined
+  };
+}
+
+/**
+ * Cancel a job with Cancel-Job
+ * @param printerUri ipp:// or ipps:// URI of the printer
+ * @param jobId Job ID returned by printIppJob
+ */
+export async function cancelIppJob(printerUri: string, jobId: number): Promise<void> {
+  const request = encodeRequest({
+    operation: OPERATIONS.cancelJob,
+    requestId: nextRequestId++,
+    groups: [operationGroup(printerUri, [attribute('job-id', VALUE_TAGS.integer, jobId)])]
+  });
+
+  const response = await postIpp(printerUri, request);
+  if (!isSuccessStatus(response.statusCode)) {
+    throw new Error(describeFailure(response));
+  }
+}
+
+/**
+ * Parse a media-size collection into mm
+ */
+function toMediaSize(value: DecodedValue): { width: number; height: number } | null {
+  if (!value || typeof value !== 'object' || 'lower' in value) return null;
+  const { 'x-dimension': x, 'y-dimension': y } = value as Record<string, DecodedValue>;
+  // Roll media report a range instead of a fixed length; use its upper bound
+  const toMm = (dimension: DecodedValue) => {
+    if (typeof dimension === 'number') return dimension / 100;
+    if (dimension && typeof dimension === 'object' && 'upper' in dimension) return (dimension.upper as number) / 100;
+    return null;
+  };
+  const width = toMm(x);
+  const height = toMm(y);
+  return width && height ? { width, height } : null;
+}
+
+/**
+ * Query the state and supported media of a printer with Get-Printer-Attributes
+ * @param printerUri ipp:// or ipps:// URI of the printer
+ * @returns State and capabilities of the printer
+ */
+export async function getIppPrinterAttributes(printerUri: string): Promise<IppPrinterAttributes> {
+  const request = encodeRequest({
+    operation: OPERATIONS.getPrinterAttributes,
+    requestId: nextRequestId++,
+    groups: [
+      operationGroup(printerUri, [
+        attribute(
+          'requested-attributes',
+          VALUE_TAGS.keyword,
+          'printer-state',
+          'printer-state-reasons',
+          'printer-state-message',
+          'printer-make-and-model',
+          'printer-is-accepting-jobs',
+          'document-format-supported',
+          'media-supported',
+          'media-ready',
+          'media-size-supported',
+          'printer-resolution-supported'
+        )
+      ])
+    ]
+  });
+
+  const response = await postIpp(printerUri, request);
+  if (!isSuccessStatus(response.statusCode)) {
+    throw new Error(describeFailure(response));
+  }
+
+  const strings = (name: string) => (findAttribute(response, name) || []).filter((v): v is string => typeof v === 'string');
+  const state = findAttribute(response, 'printer-state')?.[0];
+
+  return {
+    state: PRINTER_STATES[state as number] || 'unknown',
+    stateReasons: strings('printer-state-reasons').filter(reason => reason !== 'none'),
+    stateMessage: strings('printer-state-message')[0] || undefined,
+    makeAndModel: strings('printer-make-and-model')[0],
+    acceptingJobs: findAttribute(response, 'printer-is-accepting-jobs')?.[0] !== false,
+    documentFormats: strings('document-format-supported'),
+    mediaSupported: strings('media-supported'),
+    mediaReady: strings('media-ready'),
+    mediaSizes: (findAttribute(response, 'media-size-supported') || []).map(toMediaSize).filter(Boolean),
+    resolutions: strings('printer-resolution-supported')
+  };
+}
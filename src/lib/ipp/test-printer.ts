@@ -0,0 +1,209 @@
+/**
+ * IPP Test Printer
+ * Stand-in network printer for tests: a local HTTP server that answers Get-Printer-Attributes,
+ * Print-Job, Get-Job-Attributes and Cancel-Job like an IPP Everywhere printer and keeps the
+ * jobs it receives, so the client can be exercised without a printer on the network
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  attribute,
+  decodeResponse,
+  DecodedValue,
+  encodeRequest,
+  GROUP_TAGS,
+  IppGroup,
+  OPERATIONS,
+  VALUE_TAGS
+} from './encoding';
+
+const STATUS_OK = 0x0000;
+const STATUS_BAD_REQUEST = 0x0400;
+const STATUS_NOT_FOUND = 0x0406;
+const STATUS_DOCUMENT_FORMAT_NOT_SUPPORTED = 0x040a;
+const STATUS_OPERATION_NOT_SUPPORTED = 0x0501;
+
+// job-state enum values the tests move jobs to
+const JOB_STATES = { pending: 3, processing: 5, canceled: 7, aborted: 8, completed: 9 } as const;
+
+export interface TestPrinterJob {
+  id: number;
+  // Operation and job attributes of the Print-Job request, merged
+  attributes: Record<string, DecodedValue[]>;
+  document: Buffer;
+  state: number;
+  stateReasons: string[];
+  stateMessage?: string;
+}
+
+export interface TestPrinterOptions {
+  // document-format-supported; Print-Job requests declaring another format are refused
+  documentFormats?: string[];
+  // Answer Get-Printer-Attributes with an HTTP error, like printers that only take jobs
+  failPrinterAttributes?: boolean;
+}
+
+export interface TestPrinter {
+  // ipp:// URI of the printer
+  uri: string;
+  jobs: TestPrinterJob[];
+  // Operation codes of the requests received, in order
+  operations: number[];
+  // Move a job to a state, as the printer would once it prints or fails
+  setJobState(id: number, state: keyof typeof JOB_STATES, reasons?: string[], message?: string): void;
+  // Drop all jobs, as printers do with old ones
+  forgetJobs(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Build the response groups every answer starts with
+ */
+function responseGroups(message?: string, ...groups: IppGroup[]): IppGroup[] {
+  return [
+    {
+      tag: GROUP_TAGS.operation,
+      attributes: [
+        attribute('attributes-charset', VALUE_TAGS.charset, 'utf-8'),
+        attribute('attributes-natural-language', VALUE_TAGS.naturalLanguage, 'en'),
+        ...(message ? [attribute('status-message', VALUE_TAGS.textWithoutLanguage, message)] : [])
+      ]
+    },
+    ...groups
+  ];
+}
+
+/**
+ * Start a stand-in printer on a free local port
+ * @param options Formats the printer accepts and how it misbehaves
+ * @returns The running printer; close it when the test is done
+ */
+export function startTestPrinter(options: TestPrinterOptions = {}): Promise<TestPrinter> {
+  const documentFormats = options.documentFormats || ['application/pdf', 'application/octet-stream'];
+  const jobs: TestPrinterJob[] = [];
+  const operations: number[] = [];
+
+  // Answer one request; requests have the layout of responses with the operation in place of the status code
+  const answer = (body: Buffer): { status: number; groups: IppGroup[] } => {
+    const request = decodeResponse(body);
+    const operation = request.statusCode;
+    operations.push(operation);
+    const attributes = Object.assign({}, ...request.groups.map(group => group.attributes)) as Record<string, DecodedValue[]>;
+    const findJob = () => jobs.find(job => job.id === attributes['job-id']?.[0]);
+
+    switch (operation) {
+      case OPERATIONS.getPrinterAttributes:
+        return {
+          status: STATUS_OK,
+          groups: responseGroups(undefined, {
+            tag: GROUP_TAGS.printer,
+            attributes: [
+              attribute('printer-state', VALUE_TAGS.enum, 3),
+              attribute('printer-state-reasons', VALUE_TAGS.keyword, 'none'),
+              attribute('printer-is-accepting-jobs', VALUE_TAGS.boolean, true),
+              attribute('document-format-supported', VALUE_TAGS.mimeMediaType, ...documentFormats)
+            ]
+          })
+        };
+
+      case OPERATIONS.printJob: {
+        const format = attributes['document-format']?.[0];
+        if (typeof format !== 'string') {
+          return { status: STATUS_BAD_REQUEST, groups: responseGroups('document-format is missing') };
+        }
+        if (!documentFormats.includes(format)) {
+          return { status: STATUS_DOCUMENT_FORMAT_NOT_SUPPORTED, groups: responseGroups(`Unsupported format ${format}`) };
+        }
+        const job: TestPrinterJob = {
+          id: jobs.length + 1,
+          attributes,
+          document: Buffer.from(request.data),
+          state: JOB_STATES.pending,
+          stateReasons: []
+        };
+        jobs.push(job);
+        return {
+          status: STATUS_OK,
+          groups: responseGroups(undefined, {
+            tag: GROUP_TAGS.job,
+            attributes: [attribute('job-id', VALUE_TAGS.integer, job.id), attribute('job-state', VALUE_TAGS.enum, job.state)]
+          })
+        };
+      }
+
+      case OPERATIONS.getJobAttributes: {
+        const job = findJob();
+        if (!job) {
+          return { status: STATUS_NOT_FOUND, groups: responseGroups('Job not found') };
+        }
+        return {
+          status: STATUS_OK,
+          groups: responseGroups(undefined, {
+            tag: GROUP_TAGS.job,
+            attributes: [
+              attribute('job-state', VALUE_TAGS.enum, job.state),
+              attribute('job-state-reasons', VALUE_TAGS.keyword, ...(job.stateReasons.length > 0 ? job.stateReasons : ['none'])),
+              ...(job.stateMessage ? [attribute('job-state-message', VALUE_TAGS.textWithoutLanguage, job.stateMessage)] : [])
+            ]
+          })
+        };
+      }
+
+      case OPERATIONS.cancelJob: {
+        const job = findJob();
+        if (!job) {
+          return { status: STATUS_NOT_FOUND, groups: responseGroups('Job not found') };
+        }
+        job.state = JOB_STATES.canceled;
+        job.stateReasons = ['job-canceled-by-user'];
+        return { status: STATUS_OK, groups: responseGroups() };
+      }
+
+      default:
+        return { status: STATUS_OPERATION_NOT_SUPPORTED, groups: responseGroups() };
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks);
+      if (options.failPrinterAttributes && body.readUInt16BE(2) === OPERATIONS.getPrinterAttributes) {
+        response.writeHead(500).end();
+        return;
+      }
+      const { status, groups } = answer(body);
+      // Responses are encoded like requests, with the status code in place of the operation
+      const encoded = encodeRequest({ operation: status, requestId: body.readInt32BE(4), groups });
+      response.writeHead(200, { 'Content-Type': 'application/ipp', 'Content-Length': encoded.length }).end(encoded);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        uri: `ipp://127.0.0.1:${port}/ipp/print`,
+        jobs,
+        operations,
+        setJobState(id, state, reasons = [], message) {
+          const job = jobs.find(j => j.id === id);
+          if (!job) throw new Error(`No job ${id}`);
+          job.state = JOB_STATES[state];
+          job.stateReasons = reasons;
+          job.stateMessage = message;
+        },
+        forgetJobs() {
+          jobs.length = 0;
+        },
+        close: () => new Promise<void>(done => {
+          server.close(() => done());
+          // Kept-alive client connections would hold the server open
+          server.closeAllConnections();
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getIppJobOutcome, parseCupsJobId, parseLpstatCompletedJobs, parseLpstatJobIds } from './job-status';
+
+describe('parseCupsJobId', () => {
+  it('reads the job ID lp reports', () => {
+    assert.equal(parseCupsJobId('request id is Zebra_ZD421-42 (1 file(s))\n'), 'Zebra_ZD421-42');
+  });
+
+  it('returns undefined when lp printed something else', () => {
+    assert.equal(parseCupsJobId('lp: The printer or class does not exist.\n'), undefined);
+  });
+});
+
+describe('parseLpstatJobIds', () => {
+  it('lists the job of each line', () => {
+    const stdout = [
+      'Zebra_ZD421-42          agent            2048   Mon 19 Oct 2026 10:00:00',
+      'Office-7                agent          120832   Mon 19 Oct 2026 10:01:12',
+      ''
+    ].join('\n');
+    assert.deepEqual(parseLpstatJobIds(stdout), ['Zebra_ZD421-42', 'Office-7']);
+  });
+
+  it('returns no jobs for an empty queue', () => {
+    assert.deepEqual(parseLpstatJobIds(''), []);
+  });
+});
+
+describe('parseLpstatCompletedJobs', () => {
+  const stdout = [
+    'Zebra_ZD421-40          agent            2048   Mon 19 Oct 2026 09:58:00',
+    '\tStatus: ',
+    '\tAlerts: job-completed-successfully',
+    '\tqueued for Zebra_ZD421',
+    'Zebra_ZD421-41          agent            2048   Mon 19 Oct 2026 09:59:00',
+    '\tStatus: ',
+    '\tAlerts: job-canceled-by-user',
+    'Zebra_ZD421-42          agent            2048   Mon 19 Oct 2026 10:00:00',
+    '\tStatus: Filter failed',
+    '\tAlerts: job-aborted-by-system job-completed-with-errors',
+    'Office-7                agent          120832   Mon 19 Oct 2026 10:01:12',
+    '\tAlerts: job-stopped',
+    ''
+  ].join('\n');
+  const outcomes = parseLpstatCompletedJobs(stdout);
+
+  it('tells printed jobs from cancelled ones by their alerts', () => {
+    assert.deepEqual(outcomes.get('Zebra_ZD421-40'), { status: 'completed', message: undefined });
+    assert.deepEqual(outcomes.get('Zebra_ZD421-41'), { status: 'cancelled', message: undefined });
+  });
+
+  it('keeps the status message of failed jobs, or their alerts when there is none', () => {
+    assert.deepEqual(outcomes.get('Zebra_ZD421-42'), { status: 'failed', message: 'Filter failed' });
+    assert.deepEqual(outcomes.get('Office-7'), { status: 'failed', message: 'job-stopped' });
+  });
+
+  it('counts a job listed without details as completed', () => {
+    const bare = parseLpstatCompletedJobs('Zebra_ZD421-43          agent            2048   Mon 19 Oct 2026 10:02:00\n');
+    assert.deepEqual(bare.get('Zebra_ZD421-43'), { status: 'completed', message: undefined });
+  });
+});
+
+describe('getIppJobOutcome', () => {
+  it('waits while the job is pending or printing', () => {
+    assert.equal(getIppJobOutcome({ state: 'pending', stateReasons: [] }), null);
+    assert.equal(getIppJobOutcome({ state: 'processing', stateReasons: ['job-printing'] }), null);
+  });
+
+  it('reads the final job state', () => {
+    assert.deepEqual(getIppJobOutcome({ state: 'completed', stateReasons: [] }), { status: 'completed', message: undefined });
+    assert.deepEqual(
+      getIppJobOutcome({ state: 'canceled', stateReasons: ['job-canceled-at-device'], stateMessage: 'Cancelled on the printer' }),
+      { status: 'cancelled', message: 'Cancelled on the printer' }
+    );
+  });
+
+  it('fails aborted jobs and jobs completed with errors', () => {
+    assert.deepEqual(getIppJobOutcome({ state: 'aborted', stateReasons: [] }), { status: 'failed', message: 'Job aborted by the printer' });
+    assert.deepEqual(
+      getIppJobOutcome({ state: 'completed', stateReasons: ['job-completed-with-errors'] }),
+      { status: 'failed', message: 'job-completed-with-errors' }
+    );
+  });
+
+  it('counts a job the printer no longer keeps as completed', () => {
+    assert.deepEqual(getIppJobOutcome(null), { status: 'completed' });
+  });
+});
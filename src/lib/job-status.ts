@@ -0,0 +1,95 @@
+/**
+ * Job Status Module
+ * Reads what lp, lpstat and IPP printers report about print jobs: the job ID a submission
+ * got and whether a job that left the queue printed, failed or was cancelled
+ */
+import { IppJobStatus } from './ipp';
+
+/**
+ * Extract the CUPS job ID from lp output ("request id is Printer-123 (1 file(s))")
+ * @param stdout Output of the lp command
+ * @returns CUPS job ID or undefined if it could not be found
+ */
+export function parseCupsJobId(stdout: string): string | undefined {
+  const match = stdout.match(/request id is (\S+)/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Parse `lpstat -o` output into the list of job IDs it contains
+ * @param stdout Output of lpstat
+ * @returns Job IDs in the listing
+ */
+export function parseLpstatJobIds(stdout: string): string[] {
+  return stdout
+    .split('\n')
+    .map(line => line.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+// Final state of a job CUPS or an IPP printer no longer has pending
+export interface JobOutcome {
+  status: 'completed' | 'failed' | 'cancelled';
+  // Status message kept for the job, e.g. the reason a filter failed
+  message?: string;
+}
+
+/**
+ * Parse `lpstat -W completed -l -o` output into the final state of each job. The job-state-reasons
+ * listed under "Alerts:" tell jobs that printed from ones that were cancelled or aborted
+ * @param stdout Output of lpstat
+ * @returns Outcome by job ID
+ */
+export function parseLpstatCompletedJobs(stdout: string): Map<string, JobOutcome> {
+  const outcomes = new Map<string, { reasons: string[]; message?: string }>();
+  let current: { reasons: string[]; message?: string } | null = null;
+
+  for (const line of stdout.split('\n')) {
+    if (!line.trim()) continue;
+    if (!/^\s/.test(line)) {
+      current = { reasons: [] };
+      outcomes.set(line.trim().split(/\s+/)[0], current);
+      continue;
+    }
+    const detail = line.trim();
+    if (current && detail.startsWith('Alerts:')) {
+      current.reasons = detail.slice('Alerts:'.length).trim().split(/\s+/).filter(Boolean);
+    } else if (current && detail.startsWith('Status:')) {
+      current.message = detail.slice('Status:'.length).trim() || undefined;
+    }
+  }
+
+  const result = new Map<string, JobOutcome>();
+  outcomes.forEach(({ reasons, message }, id) => {
+    if (reasons.some(reason => reason.includes('canceled') || reason.includes('cancelled'))) {
+      result.set(id, { status: 'cancelled', message });
+    } else if (reasons.some(reason => reason.includes('aborted') || reason.includes('with-errors') || reason.includes('stopped'))) {
+      result.set(id, { status: 'failed', message: message || reasons.join(', ') });
+    } else {
+      result.set(id, { status: 'completed', message });
+    }
+  });
+  return result;
+}
+
+/**
+ * Get the final state of a job from its IPP job-state
+ * @param status State returned by Get-Job-Attributes, null when the printer no longer keeps the job
+ * @returns Outcome, or null while the job is still pending or printing
+ */
+export function getIppJobOutcome(status: IppJobStatus | null): JobOutcome | null {
+  // Printers keep only their recent jobs; one that is gone was printed like those in the history
+  if (!status) return { status: 'completed' };
+
+  const message = status.stateMessage;
+  if (status.state === 'canceled') {
+    return { status: 'cancelled', message };
+  }
+  if (status.state === 'aborted' || status.stateReasons.includes('job-completed-with-errors')) {
+    return { status: 'failed', message: message || status.stateReasons.join(', ') || 'Job aborted by the printer' };
+  }
+  if (status.state === 'completed') {
+    return { status: 'completed', message };
+  }
+  return null;
+}
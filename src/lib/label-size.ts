@@ -0,0 +1,122 @@
+/**
+ * Label Size Module
+ * Parses sticker sizes such as "40x50", "50x30mm" or "58 х 40 мм" into millimetres
+ */
+import type { LabelStock } from '../database/db';
+
+export interface LabelSize {
+  // Millimetres
+  width: number;
+  height: number;
+}
+
+// 1mm in PDF points
+export const MM_TO_PT = 72 / 25.4;
+
+const MM_PER_INCH = 25.4;
+
+// Size used for stickers whose size is missing or not a WxH value (e.g. the default "Price Tag")
+export const DEFAULT_LABEL_SIZE = '50x30';
+
+// Named sheet sizes in mm
+export const PAGE_SIZES: Record<'A4' | 'Letter', LabelSize> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 }
+};
+
+/**
+ * Parse a sticker size
+ * @param size Size text from Notion or the printer settings
+ * @returns Width and height in mm, or null if the text has no WxH value
+ */
+export function parseLabelSize(size: string | null | undefined): LabelSize | null {
+  // Accept the Latin x, the multiplication sign and the Cyrillic "х" as separator
+  const match = (size || '').match(/(\d+(?:[.,]\d+)?)\s*[xх×*]\s*(\d+(?:[.,]\d+)?)/i);
+  if (!match) return null;
+
+  const width = parseFloat(match[1].replace(',', '.'));
+  const height = parseFloat(match[2].replace(',', '.'));
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Normalize a size so "50x30mm" and "50x30" compare equal
+ * @param size Size text
+ * @returns "WxH" in mm, or the trimmed lowercase text if it has no WxH value
+ */
+export function normalizeLabelSize(size: string | null | undefined): string {
+  const parsed = parseLabelSize(size);
+  return parsed ? `${parsed.width}x${parsed.height}` : (size || '').trim().toLowerCase();
+}
+
+/**
+ * Get the size a sticker is printed at, falling back to the default label size
+ * @param size Sticker size text
+ * @returns Normalized "WxH" size
+ */
+export function resolveLabelSize(size: string | null | undefined): string {
+  return parseLabelSize(size) ? normalizeLabelSize(size) : DEFAULT_LABEL_SIZE;
+}
+
+/**
+ * Get the size of a CUPS or IPP media name
+ * @param media Media value such as "A4", "Letter", "Custom.50x30mm", "w144h85" (PPD, in points)
+ * or "oe_w2h1_2x1in" (PWG)
+ * @returns Width and height in mm, or null for media names that are not known
+ */
+export function parseMediaSize(media: string | null | undefined): LabelSize | null {
+  const name = (media || '').trim();
+  const round = (mm: number) => Math.round(mm * 10) / 10;
+
+  const named = Object.keys(PAGE_SIZES).find(page => page.toLowerCase() === name.toLowerCase());
+  if (named) return PAGE_SIZES[named as keyof typeof PAGE_SIZES];
+
+  // PPD names give the size in points
+  const points = name.match(/^w(\d+(?:\.\d+)?)h(\d+(?:\.\d+)?)/i);
+  if (points) {
+    return { width: round(parseFloat(points[1]) * 25.4 / 72), height: round(parseFloat(points[2]) * 25.4 / 72) };
+  }
+
+  // PWG self-describing names end with the size and unit
+  const pwg = name.match(/_(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)(mm|in)$/i);
+  if (pwg) {
+    const factor = pwg[3].toLowerCase() === 'in' ? 25.4 : 1;
+    return { width: round(parseFloat(pwg[1]) * factor), height: round(parseFloat(pwg[2]) * factor) };
+  }
+
+  return parseLabelSize(name);
+}
+
+/**
+ * Get the media size a document is printed on: the configured media, otherwise the sticker size
+ * @param media Media value from the printer setting options
+ * @param size Sticker size
+ * @returns Width and height in mm, or null when neither is known
+ */
+export function resolveMediaSize(media: string | null | undefined, size: string | null | undefined): LabelSize | null {
+  return media ? parseMediaSize(media) : parseLabelSize(size);
+}
+
+/**
+ * Get the size of one label of a stock in mm
+ * @param stock Label stock
+ * @returns Width and height in mm
+ */
+export function stockSizeMm(stock: Pick<LabelStock, 'width' | 'height' | 'unit'>): LabelSize {
+  const factor = stock.unit === 'in' ? MM_PER_INCH : 1;
+  return {
+    width: Math.round(stock.width * factor * 10) / 10,
+    height: Math.round(stock.height * factor * 10) / 10
+  };
+}
+
+/**
+ * Convert a length of a stock from its unit to mm
+ * @param stock Label stock
+ * @param value Length in the stock unit
+ * @returns Length in mm, 0 when not set
+ */
+export function stockLengthMm(stock: Pick<LabelStock, 'unit'>, value: number | undefined): number {
+  if (!value) return 0;
+  return stock.unit === 'in' ? value * MM_PER_INCH : value;
+}
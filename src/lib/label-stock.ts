@@ -0,0 +1,136 @@
+/**
+ * Label Stock Module
+ * Resolves stickers, printer settings and print jobs to the physical label stock
+ * they are printed on, so sizes and media come from one definition instead of
+ * size strings spread across Notion and the printer settings
+ */
+import db, { LabelStock, PrintJob, PrinterSetting, Sticker } from '../database/db';
+import { LabelSize, normalizeLabelSize, parseLabelSize, resolveLabelSize, stockSizeMm } from './label-size';
+import { toSizeKey } from './sticker-size';
+
+/**
+ * Get the canonical "WxH" size key of a stock
+ * @param stock Label stock
+ * @returns e.g. "50x30"
+ */
+export function stockKey(stock: Pick<LabelStock, 'width' | 'height' | 'unit'>): string {
+  return toSizeKey(stockSizeMm(stock));
+}
+
+/**
+ * Get the CUPS media name of a stock
+ * @param stock Label stock
+ * @returns e.g. "Custom.50x30mm"
+ */
+export function getStockMedia(stock: Pick<LabelStock, 'width' | 'height' | 'unit'>): string {
+  const size = stockSizeMm(stock);
+  return `Custom.${size.width}x${size.height}mm`;
+}
+
+/**
+ * Check a label stock before it is saved
+ * @param stock Label stock to check
+ * @returns List of problems, empty when the stock is valid
+ */
+export function validateLabelStock(stock: Partial<LabelStock>): string[] {
+  const errors: string[] = [];
+
+  if (!stock.name || !stock.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!(stock.width > 0) || !(stock.height > 0)) {
+    errors.push('Width and height must be greater than zero');
+  }
+  if (stock.unit !== 'mm' && stock.unit !== 'in') {
+    errors.push('Unit must be mm or in');
+  }
+  if (stock.gap !== undefined && !(stock.gap >= 0)) {
+    errors.push('Gap cannot be negative');
+  }
+  if (stock.linerOffset !== undefined && !(stock.linerOffset >= 0)) {
+    errors.push('Liner offset cannot be negative');
+  }
+  if (stock.dpi !== undefined && !(Number.isInteger(stock.dpi) && stock.dpi > 0)) {
+    errors.push('Resolution must be a whole number of dpi');
+  }
+
+  // An alias may only point at one stock, otherwise sizes would resolve differently depending on order
+  const aliases = (stock.aliases || []).map(alias => alias.trim().toLowerCase()).filter(Boolean);
+  for (const other of db.getLabelStocks()) {
+    if (other.id === stock.id) continue;
+    const taken = other.aliases.find(alias => aliases.includes(alias.trim().toLowerCase()));
+    if (taken) {
+      errors.push(`Alias "${taken}" is already used by ${other.name}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find the label stock for a size text
+ * @param size Size text, e.g. "50x30mm", "2x1in stock" or an alias such as "Standard"
+ * @param stocks Stocks to search, all stocks by default
+ * @returns Stock whose alias matches the text, else one of the same size, or null
+ */
+export function findLabelStockForSize(
+  size: string | null | undefined,
+  stocks: LabelStock[] = db.getLabelStocks()
+): LabelStock | null {
+  const text = (size || '').trim().toLowerCase();
+  if (!text) return null;
+
+  const byAlias = stocks.find(stock => stock.aliases.some(alias => alias.trim().toLowerCase() === text));
+  if (byAlias) return byAlias;
+
+  const parsed = parseLabelSize(text);
+  if (!parsed) return null;
+  const key = toSizeKey(parsed);
+  return stocks.find(stock => stockKey(stock) === key) || null;
+}
+
+/**
+ * Get the label stock a sticker is printed on
+ * @param sticker Sticker
+ * @returns The stock chosen for the sticker, else the one matching the size of its PDF or its declared size
+ */
+export function findStickerStock(sticker: Pick<Sticker, 'labelStockId' | 'size' | 'detectedSize'>): LabelStock | null {
+  if (sticker.labelStockId) {
+    const stock = db.getLabelStock(sticker.labelStockId);
+    if (stock) return stock;
+  }
+  return findLabelStockForSize(sticker.detectedSize) || findLabelStockForSize(sticker.size);
+}
+
+/**
+ * Get the label stock of a printer setting
+ * @param setting Printer setting
+ * @returns The stock chosen for the setting, else the one matching its size, or null
+ */
+export function findPrinterSettingStock(setting: Pick<PrinterSetting, 'labelStockId' | 'size'>): LabelStock | null {
+  if (setting.labelStockId) {
+    const stock = db.getLabelStock(setting.labelStockId);
+    if (stock) return stock;
+  }
+  return findLabelStockForSize(setting.size);
+}
+
+/**
+ * Get the size of the labels a job is printed on
+ * @param job Print job
+ * @returns Size of the job's stock, otherwise the size in its size text or the default label size
+ */
+export function getJobLabelSize(job: Pick<PrintJob, 'labelStockId' | 'size'>): LabelSize {
+  const stock = job.labelStockId ? db.getLabelStock(job.labelStockId) : null;
+  return stock ? stockSizeMm(stock) : parseLabelSize(resolveLabelSize(job.size));
+}
+
+/**
+ * Get the size key a printer setting matches stickers by
+ * @param setting Printer setting
+ * @returns Size key of its stock, or its normalized size text
+ */
+export function getPrinterSettingSizeKey(setting: Pick<PrinterSetting, 'labelStockId' | 'size'>): string {
+  const stock = findPrinterSettingStock(setting);
+  return stock ? stockKey(stock) : normalizeLabelSize(setting.size);
+}
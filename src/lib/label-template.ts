@@ -0,0 +1,290 @@
+/**
+ * Label Template Module
+ * Renders JSON label templates (text, image, barcode, line and box elements with
+ * {{product.name}}-style bindings) into sticker PDFs for any product
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import db, { LabelTemplate, LabelTemplateElement, Product, Sticker } from '../database/db';
+import { getStickerOutputPath } from '../database/assets';
+import { detectSymbology, encodeBarcode } from './barcode';
+import { drawBarcode } from './barcode/pdf';
+import { MM_TO_PT, normalizeLabelSize } from './label-size';
+import { formatDate } from './overlay-format';
+import { resolveStickerSize } from './sticker-size';
+import { findStickerStock, stockKey } from './label-stock';
+import { toPrintableText, wrapText } from './pdf-text';
+
+const DEFAULT_FONT_SIZE_MM = 3;
+const DEFAULT_LINE_THICKNESS_MM = 0.3;
+// Line height as a multiple of the font size
+const LINE_HEIGHT = 1.2;
+
+type TemplateElementType = LabelTemplateElement['type'];
+// Property names of any of the element types
+type TemplateElementKey = LabelTemplateElement extends infer Element ? Element extends LabelTemplateElement ? keyof Element : never : never;
+
+// Numeric properties each element type needs
+const REQUIRED_NUMBERS: Record<TemplateElementType, TemplateElementKey[]> = {
+  text: ['x', 'y'],
+  image: ['x', 'y', 'width', 'height'],
+  barcode: ['x', 'y', 'width', 'height'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  box: ['x', 'y', 'width', 'height']
+};
+
+const ELEMENT_TYPES = Object.keys(REQUIRED_NUMBERS) as TemplateElementType[];
+
+export interface TemplateContext {
+  product: Product;
+  sticker?: Sticker | null;
+}
+
+/**
+ * Replace {{product.name}}-style bindings with values from the product and sticker.
+ * {{date}} is today's date; unknown bindings become empty.
+ * @param text Text with bindings
+ * @param context Product and sticker the label is rendered for
+ * @returns Text with the values filled in
+ */
+export function resolveBindings(text: string, context: TemplateContext): string {
+  return (text || '').replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, binding: string) => {
+    if (binding === 'date') return formatDate(new Date());
+
+    const [root, ...keys] = binding.split('.');
+    let value: unknown = root === 'product' ? context.product : root === 'sticker' ? context.sticker : undefined;
+    for (const key of keys) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Check a template before it is saved
+ * @param template Template to check
+ * @returns List of problems, empty when the template is valid
+ */
+export function validateLabelTemplate(template: Partial<LabelTemplate>): string[] {
+  const errors: string[] = [];
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+  if (!template.name || !template.name.trim()) errors.push('Name is required');
+  if (!isNumber(template.width) || template.width <= 0) errors.push('Width must be a positive number of mm');
+  if (!isNumber(template.height) || template.height <= 0) errors.push('Height must be a positive number of mm');
+  // A template replaces the sticker PDFs of every product it matches, so it has to name the products it is for
+  if (!Array.isArray(template.productTypes) || template.productTypes.length === 0) {
+    errors.push('Product types are required; the template replaces the sticker PDFs of these types');
+  }
+
+  if (!Array.isArray(template.elements)) {
+    errors.push('Elements must be an array');
+    return errors;
+  }
+
+  template.elements.forEach((element, index) => {
+    const label = `Element ${index + 1}`;
+    if (!element || !ELEMENT_TYPES.includes(element.type)) {
+      errors.push(`${label}: type must be one of ${ELEMENT_TYPES.join(', ')}`);
+      return;
+    }
+    // Elements come from JSON the user edited, so any property may be missing
+    const fields = element as Partial<Record<TemplateElementKey, unknown>>;
+    for (const key of REQUIRED_NUMBERS[element.type]) {
+      if (!isNumber(fields[key])) errors.push(`${label} (${element.type}): ${key} must be a number`);
+    }
+    if (element.type === 'text' && typeof element.text !== 'string') errors.push(`${label} (text): text is required`);
+    if (element.type === 'image' && typeof element.src !== 'string') errors.push(`${label} (image): src is required`);
+    if (element.type === 'barcode' && typeof element.value !== 'string') errors.push(`${label} (barcode): value is required`);
+  });
+
+  return errors;
+}
+
+/**
+ * Find the template assigned to a sticker. Templates apply to the product types they list, optionally
+ * only at some sizes; one restricted to the product type and size wins over one matching only the type.
+ * Templates without product types (saved before they were required) are not used.
+ * @param sticker Sticker to print
+ * @param product Product the sticker belongs to
+ * @returns Matching template or null
+ */
+export function findLabelTemplate(sticker: Sticker, product: Product): LabelTemplate | null {
+  const stock = findStickerStock(sticker);
+  const size = stock ? stockKey(stock) : resolveStickerSize(sticker);
+  let best: LabelTemplate | null = null;
+  let bestScore = 0;
+
+  for (const template of db.getLabelTemplates()) {
+    const sizes = template.sizes || [];
+    const types = template.productTypes || [];
+    const sizeMatches = sizes.some(s => normalizeLabelSize(s) === size);
+    const typeMatches = types.includes(product.type);
+
+    // The product type must match, and so must the size when the template lists sizes
+    if (!typeMatches || (sizes.length > 0 && !sizeMatches)) continue;
+    const score = sizeMatches ? 2 : 1;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Embed a local PNG or JPEG image
+ */
+async function embedImage(pdfDoc: PDFDocument, src: string) {
+  if (!src || !fs.existsSync(src)) return null;
+  const bytes = fs.readFileSync(src);
+  // Detect the format from the file signature rather than the extension
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return pdfDoc.embedPng(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return pdfDoc.embedJpg(bytes);
+  return null;
+}
+
+async function drawElement(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  element: LabelTemplateElement,
+  context: TemplateContext,
+  getFont: (name: string) => Promise<PDFFont>
+): Promise<void> {
+  const pageHeight = page.getHeight();
+  // Template coordinates are mm from the top-left corner
+  const toX = (mm: number) => mm * MM_TO_PT;
+  const toY = (mm: number) => pageHeight - mm * MM_TO_PT;
+  const black = rgb(0, 0, 0);
+
+  switch (element.type) {
+    case 'text': {
+      const font = await getFont(element.font || StandardFonts.Helvetica);
+      const size = (element.fontSize || DEFAULT_FONT_SIZE_MM) * MM_TO_PT;
+      const text = toPrintableText(resolveBindings(element.text, context), font);
+      const lines = element.width
+        ? wrapText(text, font, size, element.width * MM_TO_PT, element.maxLines || 1)
+        : [text];
+
+      let baseline = toY(element.y) - font.heightAtSize(size, { descender: false });
+      for (const line of lines) {
+        let x = toX(element.x);
+        if (element.width && element.align && element.align !== 'left') {
+          const free = element.width * MM_TO_PT - font.widthOfTextAtSize(line, size);
+          x += element.align === 'center' ? free / 2 : free;
+        }
+        page.drawText(line, { x, y: baseline, size, font, color: black });
+        baseline -= size * LINE_HEIGHT;
+      }
+      break;
+    }
+
+    case 'image': {
+      const src = resolveBindings(element.src, context);
+      const image = await embedImage(pdfDoc, src);
+      if (!image) {
+        console.warn(`Template image not found or not a PNG/JPEG: ${src}`);
+        return;
+      }
+      // Fit the image into its box keeping the aspect ratio
+      const box = { width: element.width * MM_TO_PT, height: element.height * MM_TO_PT };
+      const scaled = image.scaleToFit(box.width, box.height);
+      page.drawImage(image, {
+        x: toX(element.x) + (box.width - scaled.width) / 2,
+        y: toY(element.y + element.height) + (box.height - scaled.height) / 2,
+        width: scaled.width,
+        height: scaled.height
+      });
+      break;
+    }
+
+    case 'barcode': {
+      const value = resolveBindings(element.value, context).trim();
+      if (!value) return;
+      const barcode = encodeBarcode(element.symbology || detectSymbology(value), value);
+      drawBarcode(page, barcode, {
+        x: toX(element.x),
+        y: toY(element.y + element.height),
+        width: element.width * MM_TO_PT,
+        height: element.height * MM_TO_PT
+      }, {
+        font: element.showText === false ? undefined : await getFont(StandardFonts.Helvetica),
+        fontSize: element.fontSize ? element.fontSize * MM_TO_PT : undefined
+      });
+      break;
+    }
+
+    case 'line':
+      page.drawLine({
+        start: { x: toX(element.x1), y: toY(element.y1) },
+        end: { x: toX(element.x2), y: toY(element.y2) },
+        thickness: (element.thickness || DEFAULT_LINE_THICKNESS_MM) * MM_TO_PT,
+        color: black
+      });
+      break;
+
+    case 'box':
+      page.drawRectangle({
+        x: toX(element.x),
+        y: toY(element.y + element.height),
+        width: element.width * MM_TO_PT,
+        height: element.height * MM_TO_PT,
+        borderWidth: element.fill ? 0 : (element.thickness || DEFAULT_LINE_THICKNESS_MM) * MM_TO_PT,
+        borderColor: element.fill ? undefined : black,
+        color: element.fill ? black : undefined
+      });
+      break;
+  }
+}
+
+/**
+ * Render a template for a product
+ * @param template Label template
+ * @param context Product and sticker the label is rendered for
+ * @returns PDF bytes
+ */
+export async function renderLabelTemplate(template: LabelTemplate, context: TemplateContext): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${template.name} - ${context.product.sku}`);
+  const page = pdfDoc.addPage([template.width * MM_TO_PT, template.height * MM_TO_PT]);
+
+  const fonts: Record<string, PDFFont> = {};
+  const getFont = async (name: string) => {
+    if (!fonts[name]) {
+      fonts[name] = await pdfDoc.embedFont(name);
+    }
+    return fonts[name];
+  };
+
+  for (const [index, element] of template.elements.entries()) {
+    try {
+      await drawElement(pdfDoc, page, element, context, getFont);
+    } catch (error) {
+      throw new Error(`Template "${template.name}", element ${index + 1} (${element.type}): ${error.message}`);
+    }
+  }
+
+  return pdfDoc.save();
+}
+
+/**
+ * Render the template of a sticker into the downloaded PDFs folder.
+ * It is rendered for every print so it always reflects the current product data.
+ * @param template Label template
+ * @param sticker Sticker being printed
+ * @param product Product the sticker belongs to
+ * @returns Path to the rendered PDF
+ */
+export async function renderLabelTemplateFile(template: LabelTemplate, sticker: Sticker, product: Product): Promise<string> {
+  const outputPath = getStickerOutputPath('templates', sticker.id);
+  if (!fs.existsSync(path.dirname(outputPath))) {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, await renderLabelTemplate(template, { product, sticker }));
+
+  console.log(`Rendered template "${template.name}" for ${product.sku}: ${outputPath}`);
+  return outputPath;
+}
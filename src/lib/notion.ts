@@ -6,9 +6,28 @@ import { app } from 'electron';
 import db from '../database/db';
 import { downloadFile, extractFileId, downloadDriveFile, downloadDriveImage, directDownload } from './google-drive';
 import { preparePdfPath, getAppUrl, preparePdfWithPreview, createPdfPreview } from './pdf-utils';
+import { findStickerStock } from './label-stock';
+import { detectStickerSize } from './sticker-size';
 import { Product, Sticker } from '../database/db';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Detect the size of a sticker PDF and match the sticker to a label stock
+ * @param pdfPath Path to the sticker PDF, if it has one
+ * @param size Size text from Notion
+ * @param labelStockId Stock already chosen for the sticker, which is kept
+ * @returns Size and stock fields to store on the sticker
+ */
+async function detectStickerSizeAndStock(
+  pdfPath: string | null | undefined,
+  size: string,
+  labelStockId?: string
+): Promise<Pick<Sticker, 'detectedSize' | 'sizeMismatch' | 'labelStockId'>> {
+  const detected = await detectStickerSize(pdfPath, size);
+  const stock = findStickerStock({ labelStockId, size, detectedSize: detected.detectedSize });
+  return { ...detected, labelStockId: stock?.id };
+}
+
 // Simple function to make HTTP requests
 function makeRequest(options, data = null): Promise<any> {
   return new Promise((resolve, reject) => {
@@ -464,8 +483,7 @@ async function processStickers(productId: string, stickerPages: any[], db: any):
       // Create default price tag if no stickers provided
       const existingStickers = db.getStickers(productId);
       if (existingStickers.length === 0) {
-        const defaultSticker: Sticker = {
-          id: Date.now().toString(),
+        const defaultSticker: Sticker = await db.createSticker({
           productId,
           name: 'Price Tag',
           size: 'Default',
@@ -473,9 +491,7 @@ async function processStickers(productId: string, stickerPages: any[], db: any):
           previewUrl: null,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
-        };
-        
-        await db.createSticker(defaultSticker);
+        });
         console.log('Created default price tag sticker');
         return [defaultSticker];
       }
@@ -504,6 +520,7 @@ async function processStickers(productId: string, stickerPages: any[], db: any):
         // Download PDF if URL provided
         let appPdfUrl: string | null = null;
         let appPreviewUrl: string | null = null;
+        let localPdfPath: string | null = null;
         
         if (pdfUrl) {
           try {
@@ -538,6 +555,7 @@ async function processStickers(productId: string, stickerPages: any[], db: any):
             
             // Generate app:// URLs for PDF and its preview
             appPdfUrl = `app://pdfs/${fileName}`;
+            localPdfPath = pdfPath;
             
             // Check if preview already exists
             const previewsDir = path.join(app.getPath('userData'), 'downloads', 'previews');
@@ -576,6 +594,8 @@ async function processStickers(productId: string, stickerPages: any[], db: any):
           productId,
           name: stickerName,
           size: stickerSize || 'Standard',
+          // The size of the PDF page picks the printer when the Notion size is missing or wrong
+          ...await detectStickerSizeAndStock(localPdfPath, stickerSize, existingSticker?.labelStockId),
           pdfUrl: appPdfUrl,
           previewUrl: appPreviewUrl,
           createdAt: existingSticker ? existingSticker.createdAt : new Date().toISOString(),
@@ -651,14 +671,11 @@ export async function processStandaloneStickers(productId: string, stickers: any
                     console.log(`Created preview at ${previewUrl}`);
                   }
                 }
-                
-                // Skip the rest of PDF processing
-                continue;
               }
             }
             
-            // Use downloadAsset which now properly handles Google Drive files
-            const downloadResult = await downloadAsset(pdfUrl, 'pdf', basename);
+            // Use downloadAsset which now properly handles Google Drive files; skipped when the PDF is already local
+            const downloadResult = localPdfPath ? null : await downloadAsset(pdfUrl, 'pdf', basename);
             
             if (downloadResult) {
               localPdfPath = downloadResult.localPath;
@@ -688,6 +705,7 @@ export async function processStandaloneStickers(productId: string, stickers: any
           const updatedSticker = await db.updateSticker(existingSticker.id, {
             name,
             size,
+            ...await detectStickerSizeAndStock(localPdfPath, size, existingSticker.labelStockId),
             pdfUrl: localPdfPath ? `app://pdfs/${path.basename(localPdfPath)}` : null,
             localPdfPath,
             previewUrl,
@@ -701,6 +719,7 @@ export async function processStandaloneStickers(productId: string, stickers: any
             productId,
             name,
             size,
+            ...await detectStickerSizeAndStock(localPdfPath, size),
             pdfUrl: localPdfPath ? `app://pdfs/${path.basename(localPdfPath)}` : null,
             localPdfPath,
             previewUrl,
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OverlayField } from '../database/db';
+import { formatDate, formatOverlayValue, parseIsoDate } from './overlay-format';
+
+// West of Greenwich, where midnight UTC is still the previous day
+process.env.TZ = 'America/New_York';
+
+const field = (type: OverlayField['type'], format?: string): OverlayField => ({
+  id: type,
+  label: type,
+  type,
+  source: 'prompt',
+  format,
+  x: 0,
+  y: 0
+});
+
+describe('formatDate', () => {
+  it('fills in the tokens of the pattern', () => {
+    const date = new Date(2026, 0, 5);
+    assert.equal(formatDate(date), '05.01.2026');
+    assert.equal(formatDate(date, 'YYYY-MM-DD'), '2026-01-05');
+    assert.equal(formatDate(date, 'DD/MM/YY'), '05/01/26');
+  });
+});
+
+describe('parseIsoDate', () => {
+  it('keeps the day as written in any time zone', () => {
+    const date = parseIsoDate('2026-03-01');
+    assert.deepEqual([date.getFullYear(), date.getMonth(), date.getDate()], [2026, 2, 1]);
+    assert.equal(parseIsoDate('2026-03-01T23:30:00Z').getDate(), 1);
+  });
+
+  it('rejects text that is not a date and days a month does not have', () => {
+    assert.equal(parseIsoDate('01.03.2026'), null);
+    assert.equal(parseIsoDate('best before'), null);
+    assert.equal(parseIsoDate('2026-02-30'), null);
+    assert.equal(parseIsoDate('2026-13-01'), null);
+  });
+});
+
+describe('formatOverlayValue', () => {
+  it('reformats ISO dates with the field pattern on the day written', () => {
+    assert.equal(formatOverlayValue(field('date'), '2026-01-01'), '01.01.2026');
+    assert.equal(formatOverlayValue(field('date', 'DD/MM/YY'), ' 2026-12-31 '), '31/12/26');
+  });
+
+  it('prints other date text as entered', () => {
+    assert.equal(formatOverlayValue(field('date'), 'see lid'), 'see lid');
+  });
+
+  it('prints prices with two decimals and the currency label', () => {
+    assert.equal(formatOverlayValue(field('price', 'грн'), '12,5'), '12.50 грн');
+    assert.equal(formatOverlayValue(field('price'), '7'), '7.00');
+    assert.equal(formatOverlayValue(field('price'), 'free'), 'free');
+  });
+});
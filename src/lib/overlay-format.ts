@@ -0,0 +1,62 @@
+/**
+ * Overlay Format Module
+ * Turns the values of overlay fields into the text printed on stickers
+ */
+import type { OverlayField } from '../database/db';
+
+/**
+ * Format a date with a simple token pattern (DD, MM, YYYY, YY)
+ * @param date Date to format
+ * @param pattern Pattern, defaults to DD.MM.YYYY
+ * @returns Formatted date
+ */
+export function formatDate(date: Date, pattern = 'DD.MM.YYYY'): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return pattern
+    .replace('YYYY', date.getFullYear().toString())
+    .replace('YY', date.getFullYear().toString().slice(-2))
+    .replace('MM', pad(date.getMonth() + 1))
+    .replace('DD', pad(date.getDate()));
+}
+
+/**
+ * Read the day of an ISO date (YYYY-MM-DD, optionally followed by a time). The day is taken as
+ * written: new Date() reads a bare date as midnight UTC, which is the previous day west of Greenwich.
+ * @param value Date text
+ * @returns Local midnight of the day, or null when the text does not start with a valid date
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Days past the end of the month roll over into the next one
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Turn a raw field value into the text that is printed
+ * @param field Overlay field definition
+ * @param raw Raw value from the product, prompt or field default
+ * @returns Text to print
+ */
+export function formatOverlayValue(field: OverlayField, raw: string | undefined): string {
+  const value = (raw ?? '').toString().trim();
+
+  switch (field.type) {
+    case 'price': {
+      const amount = parseFloat(value.replace(',', '.'));
+      if (Number.isNaN(amount)) return value;
+      // format holds the currency label, e.g. "грн" or "$"
+      return field.format ? `${amount.toFixed(2)} ${field.format}` : amount.toFixed(2);
+    }
+    case 'date': {
+      // An empty date means "today"; ISO dates are reformatted with the field pattern
+      if (!value) return formatDate(new Date(), field.format);
+      const parsed = parseIsoDate(value);
+      return parsed ? formatDate(parsed, field.format) : value;
+    }
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * PDF Overlay Module
+ * Stamps variable data (text, price, date, barcode) onto sticker PDFs at print time
+ */
+import * as fs from 'fs';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { OverlayField, Product } from '../database/db';
+import { encodeBarcode } from './barcode';
+import { drawBarcode as drawBarcodeInBox } from './barcode/pdf';
+import { MM_TO_PT } from './label-size';
+import { formatOverlayValue } from './overlay-format';
+import { toPrintableText } from './pdf-text';
+import { getTempFilePath } from './temp-files';
+
+const DEFAULT_FONT_SIZE_MM = 3;
+const DEFAULT_BARCODE_HEIGHT_MM = 10;
+
+// Product properties an overlay field can be filled from
+const PRODUCT_FIELDS = ['name', 'sku', 'barcode', 'type', 'price', 'category', 'description', 'partNumber'] as const satisfies readonly (keyof Product)[];
+type OverlayProductField = typeof PRODUCT_FIELDS[number];
+
+const isOverlayProductField = (key: string): key is OverlayProductField =>
+  (PRODUCT_FIELDS as readonly string[]).includes(key);
+
+/**
+ * Work out the value of each overlay field
+ * @param fields Overlay fields of the sticker
+ * @param product Product the sticker belongs to
+ * @param promptValues Values entered by the operator before printing, keyed by field ID
+ * @returns Printed text keyed by field ID
+ */
+export function resolveOverlayValues(
+  fields: OverlayField[],
+  product: Product | null,
+  promptValues: Record<string, string> = {}
+): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const field of fields) {
+    let raw: string | undefined;
+    if (field.source === 'product' && product && field.productField) {
+      const productValue = isOverlayProductField(field.productField) ? product[field.productField] : undefined;
+      raw = productValue !== undefined && productValue !== null ? String(productValue) : field.value;
+    } else if (field.source === 'prompt') {
+      raw = promptValues[field.id] ?? field.value;
+    } else {
+      raw = field.value;
+    }
+
+    values[field.id] = formatOverlayValue(field, raw);
+  }
+
+  return values;
+}
+
+/**
+ * Draw a barcode field with its human-readable text underneath
+ */
+function drawBarcode(page: PDFPage, field: OverlayField, value: string, font: PDFFont, pageHeight: number): void {
+  const barcode = encodeBarcode(field.symbology || 'code128', value);
+  const heightMm = field.height || DEFAULT_BARCODE_HEIGHT_MM;
+
+  // Without an explicit width use a 0.25mm module, a safe minimum for 203dpi thermal heads; matrix codes are square
+  const widthMm = field.width || (barcode.type === 'linear' ? barcode.modules.length * 0.25 : heightMm);
+
+  drawBarcodeInBox(page, barcode, {
+    x: field.x * MM_TO_PT,
+    y: pageHeight - (field.y + heightMm) * MM_TO_PT,
+    width: widthMm * MM_TO_PT,
+    height: heightMm * MM_TO_PT
+  }, {
+    font,
+    fontSize: (field.fontSize || DEFAULT_FONT_SIZE_MM) * MM_TO_PT
+  });
+}
+
+/**
+ * Stamp overlay fields onto every page of a PDF
+ * @param pdfBytes Source PDF
+ * @param fields Overlay fields to draw
+ * @param values Printed text keyed by field ID
+ * @returns Stamped PDF bytes
+ */
+export async function stampOverlay(
+  pdfBytes: Uint8Array,
+  fields: OverlayField[],
+  values: Record<string, string>
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const fonts: Record<string, PDFFont> = {};
+
+  const getFont = async (name: string) => {
+    if (!fonts[name]) {
+      fonts[name] = await pdfDoc.embedFont(name);
+    }
+    return fonts[name];
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const pageHeight = page.getHeight();
+
+    for (const field of fields) {
+      const value = values[field.id];
+      if (!value) continue;
+
+      const font = await getFont(field.font || StandardFonts.Helvetica);
+
+      try {
+        if (field.type === 'barcode') {
+          drawBarcode(page, field, value, font, pageHeight);
+        } else {
+          const size = (field.fontSize || DEFAULT_FONT_SIZE_MM) * MM_TO_PT;
+          // y marks the top of the text box, drawText expects the baseline. Standard fonts only
+          // cover WinAnsi, so Cyrillic values such as the "грн" currency are transliterated
+          page.drawText(toPrintableText(value, font), {
+            x: field.x * MM_TO_PT,
+            y: pageHeight - field.y * MM_TO_PT - font.heightAtSize(size, { descender: false }),
+            size,
+            font,
+            color: rgb(0, 0, 0)
+          });
+        }
+      } catch (error) {
+        // Barcode values the symbology cannot encode
+        throw new Error(`Cannot print "${field.label}": ${error.message}`);
+      }
+    }
+  }
+
+  return pdfDoc.save();
+}
+
+/**
+ * Create a stamped copy of a sticker PDF ready to be sent to the printer
+ * @param pdfPath Source PDF path
+ * @param fields Overlay fields to draw
+ * @param values Printed text keyed by field ID
+ * @param jobId Print job the file belongs to, used to name the output
+ * @returns Path to the stamped PDF
+ */
+export async function createOverlayPdf(
+  pdfPath: string,
+  fields: OverlayField[],
+  values: Record<string, string>,
+  jobId: string
+): Promise<string> {
+  const stamped = await stampOverlay(fs.readFileSync(pdfPath), fields, values);
+  const outputPath = getTempFilePath('print2-overlays', jobId);
+  fs.writeFileSync(outputPath, stamped);
+
+  console.log(`Created overlay PDF for job ${jobId}: ${outputPath}`);
+  return outputPath;
+}
@@ -0,0 +1,59 @@
+/**
+ * PDF Text Module
+ * Helpers for laying out text with the standard PDF fonts
+ */
+import { PDFFont } from 'pdf-lib';
+import { transliterate } from './transliterate';
+
+/**
+ * Make text printable with a standard PDF font, which only covers WinAnsi (Latin) characters.
+ * Cyrillic is transliterated, anything else the font cannot draw becomes "?".
+ * @param text Text to print
+ * @param font Embedded standard font
+ * @returns Text the font can encode
+ */
+export function toPrintableText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(transliterate(text))
+    .map(char => (supported.has(char.codePointAt(0)) ? char : '?'))
+    .join('');
+}
+
+/**
+ * Break text into lines that fit a width, cutting the last line with an ellipsis
+ * @param text Text to wrap
+ * @param font Font used to measure the text
+ * @param size Font size in points
+ * @param maxWidth Available width in points
+ * @param maxLines Maximum number of lines
+ * @returns Lines of text
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] += '…';
+  }
+
+  // Trim single words that are wider than the label
+  return lines.map(line => {
+    let fitted = line;
+    while (fitted.length > 1 && font.widthOfTextAtSize(fitted, size) > maxWidth) {
+      fitted = `${fitted.slice(0, -2)}…`;
+    }
+    return fitted;
+  });
+}
@@ -5,6 +5,7 @@ import { app } from 'electron';
 import { promisify } from 'util';
 import { platform } from 'os';
 import { PDFDocument } from 'pdf-lib';
+import { pdfToPng } from 'pdf-to-png-converter';
 
 // Promisify exec
 const execPromise = promisify(exec);
@@ -101,6 +102,20 @@ export async function createPdfPreview(pdfPath: string): Promise<string | null>
   }
 }
 
+/**
+ * Render the first page of a PDF to a PNG data URL, for previews that are not stored on disk
+ * @param pdfBytes PDF to render
+ * @returns data:image/png URL
+ */
+export async function createPdfPreviewDataUrl(pdfBytes: Uint8Array): Promise<string> {
+  const buffer = Buffer.from(pdfBytes);
+  const [page] = await pdfToPng(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength), {
+    viewportScale: 3,
+    pagesToProcess: [1]
+  });
+  return `data:image/png;base64,${page.content.toString('base64')}`;
+}
+
 /**
  * Prepare a PDF file and generate its preview
  * @param pdfPath Path to the PDF file
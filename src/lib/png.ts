@@ -0,0 +1,157 @@
+/**
+ * PNG Module
+ * Decodes the non-interlaced 8-bit PNGs produced by the PDF renderer into RGBA pixels,
+ * and encodes 1-bit bitmaps as black and white PNGs for previews
+ */
+import * as zlib from 'zlib';
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // 4 bytes per pixel, rows top to bottom
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Bytes per pixel of each 8-bit colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a PNG into RGBA pixels
+ * @param png PNG file bytes
+ * @returns Image with 4 bytes per pixel
+ */
+export function decodePng(png: Buffer): RgbaImage {
+  if (!png.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    const body = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      colorType = body[9];
+      const interlace = body[12];
+      if (bitDepth !== 8 || !CHANNELS[colorType] || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const pixels = new Uint8Array(stride * height);
+
+  // Undo the per-row filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      let value = row[x];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      pixels[out + x] = value & 0xff;
+    }
+  }
+
+  if (colorType === 6) {
+    return { width, height, data: pixels };
+  }
+
+  // Expand grey, grey + alpha and RGB to RGBA
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const source = i * channels;
+    const grey = colorType === 0 || colorType === 4;
+    data[i * 4] = pixels[source];
+    data[i * 4 + 1] = grey ? pixels[source] : pixels[source + 1];
+    data[i * 4 + 2] = grey ? pixels[source] : pixels[source + 2];
+    data[i * 4 + 3] = colorType === 4 ? pixels[source + 1] : 255;
+  }
+  return { width, height, data };
+}
+
+// CRC-32 of the PNG chunks, computed a byte at a time
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const typeAndBody = Buffer.concat([Buffer.from(type, 'latin1'), body]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody));
+  return Buffer.concat([length, typeAndBody, crc]);
+}
+
+/**
+ * Encode a 1-bit bitmap as a black and white PNG
+ * @param bitmap Rows of bits, most significant bit first, where a set bit is black
+ * @returns PNG file bytes
+ */
+export function encodeMonoPng(bitmap: { width: number; height: number; bytesPerRow: number; data: Uint8Array }): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(bitmap.width, 0);
+  header.writeUInt32BE(bitmap.height, 4);
+  header[8] = 1; // bit depth
+  header[9] = 0; // greyscale
+
+  // Each row starts with filter type 0; in 1-bit greyscale a set bit is white, so the bits are inverted
+  const raw = Buffer.alloc((bitmap.bytesPerRow + 1) * bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.bytesPerRow; x++) {
+      raw[y * (bitmap.bytesPerRow + 1) + 1 + x] = ~bitmap.data[y * bitmap.bytesPerRow + x] & 0xff;
+    }
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
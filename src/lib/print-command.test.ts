@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildLpCommand, buildLpOptionArgs, buildWindowsPrintCommand } from './print-command';
+
+// Values that would break out of a shell command if it were built as a string
+const HOSTILE_VALUES = [
+  'Label "Zebra" 50x30',
+  "O'Brien's printer",
+  'Printer; rm -rf ~',
+  'Printer && shutdown -h now',
+  'Printer | cat /etc/passwd',
+  'Printer $(touch /tmp/pwned)',
+  'Printer `touch /tmp/pwned`',
+  'Printer > /dev/null',
+  '-o raw',
+  'Кава "Арабіка" 250 г & Co'
+];
+
+describe('buildLpOptionArgs', () => {
+  it('returns no arguments without options', () => {
+    assert.deepEqual(buildLpOptionArgs(), []);
+    assert.deepEqual(buildLpOptionArgs({}), []);
+  });
+
+  it('uses the media option before the label size', () => {
+    assert.deepEqual(buildLpOptionArgs({ media: 'w144h72' }, { width: 50, height: 30 }), ['-o', 'media=w144h72']);
+  });
+
+  it('derives a custom media size from the label size', () => {
+    assert.deepEqual(buildLpOptionArgs({}, { width: 58, height: 40 }), ['-o', 'media=Custom.58x40mm']);
+  });
+
+  it('translates orientation, scaling and fit options', () => {
+    assert.deepEqual(
+      buildLpOptionArgs({ orientation: 'landscape', scale: 90, fitToPage: true, printScaling: 'fit' }),
+      ['-o', 'orientation-requested=4', '-o', 'scaling=90', '-o', 'fit-to-page', '-o', 'print-scaling=fit']
+    );
+    assert.deepEqual(buildLpOptionArgs({ orientation: 'portrait', scale: 100 }), ['-o', 'orientation-requested=3']);
+  });
+
+  it('converts margins to points', () => {
+    assert.deepEqual(
+      buildLpOptionArgs({ margins: { top: 1, right: 0.5, bottom: 0, left: 2, units: 'in' } }),
+      ['-o', 'page-top=72pt', '-o', 'page-right=36pt', '-o', 'page-bottom=0pt', '-o', 'page-left=144pt']
+    );
+  });
+
+  it('passes driver options as keyword=choice', () => {
+    assert.deepEqual(
+      buildLpOptionArgs({ driverOptions: { Darkness: '10', MediaType: 'Thermal' } }),
+      ['-o', 'Darkness=10', '-o', 'MediaType=Thermal']
+    );
+  });
+
+  it('keeps each option value, whatever it contains, in one argument', () => {
+    for (const value of HOSTILE_VALUES) {
+      const args = buildLpOptionArgs({ media: value, driverOptions: { Darkness: value } });
+      assert.deepEqual(args, ['-o', `media=${value}`, '-o', `Darkness=${value}`]);
+    }
+  });
+});
+
+describe('buildLpCommand', () => {
+  it('prints copies of a file with its options', () => {
+    assert.deepEqual(
+      buildLpCommand({ printerName: 'Zebra', filePath: '/tmp/label.pdf', copies: 3, options: { fitToPage: true } }),
+      { file: 'lp', args: ['-d', 'Zebra', '-n', '3', '-o', 'fit-to-page', '/tmp/label.pdf'] }
+    );
+  });
+
+  it('sends raw data once without filter options', () => {
+    assert.deepEqual(
+      buildLpCommand({
+        printerName: 'Zebra',
+        filePath: '/tmp/label.zpl',
+        copies: 5,
+        options: { media: 'w144h72' },
+        labelSize: { width: 50, height: 30 },
+        raw: true
+      }),
+      { file: 'lp', args: ['-d', 'Zebra', '-n', '1', '-o', 'raw', '/tmp/label.zpl'] }
+    );
+  });
+
+  it('rejects a missing printer and invalid copies', () => {
+    assert.throws(() => buildLpCommand({ printerName: '', filePath: '/tmp/label.pdf', copies: 1 }), /No printer selected/);
+    for (const copies of [0, -1, 1.5, NaN]) {
+      assert.throws(() => buildLpCommand({ printerName: 'Zebra', filePath: '/tmp/label.pdf', copies }), /Invalid number of copies/);
+    }
+  });
+
+  it('keeps printer names and file paths with quotes, spaces and shell characters in one argument each', () => {
+    for (const value of HOSTILE_VALUES) {
+      const filePath = `/tmp/stickers/${value}.pdf`;
+      const { file, args } = buildLpCommand({ printerName: value, filePath, copies: 1 });
+      assert.equal(file, 'lp');
+      assert.deepEqual(args, ['-d', value, '-n', '1', filePath]);
+    }
+  });
+});
+
+describe('buildWindowsPrintCommand', () => {
+  const scriptPath = 'C:\\Users\\Label User\\AppData\\Local\\Temp\\print.ps1';
+
+  it('passes the printer, file and copies as script parameters', () => {
+    assert.deepEqual(
+      buildWindowsPrintCommand(scriptPath, { printerName: 'Zebra ZD420', filePath: 'C:\\Labels\\price tag.pdf', copies: 2 }),
+      {
+        file: 'powershell',
+        args: [
+          '-NoProfile',
+          '-ExecutionPolicy', 'Bypass',
+          '-File', scriptPath,
+          '-Printer', 'Zebra ZD420',
+          '-Path', 'C:\\Labels\\price tag.pdf',
+          '-Copies', '2'
+        ]
+      }
+    );
+  });
+
+  it('rejects invalid copies', () => {
+    assert.throws(
+      () => buildWindowsPrintCommand(scriptPath, { printerName: 'Zebra', filePath: 'C:\\label.pdf', copies: 0 }),
+      /Invalid number of copies/
+    );
+  });
+
+  it('keeps printer names and file paths with quotes, spaces and shell characters in one argument each', () => {
+    for (const value of [...HOSTILE_VALUES, "Printer'; Remove-Item -Recurse C:\\", 'Printer"; Stop-Computer; "']) {
+      const filePath = `C:\\Labels\\${value}.pdf`;
+      const { args } = buildWindowsPrintCommand(scriptPath, { printerName: value, filePath, copies: 1 });
+      assert.equal(args[args.indexOf('-Printer') + 1], value);
+      assert.equal(args[args.indexOf('-Path') + 1], filePath);
+      assert.equal(args.length, 11);
+    }
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Print Command Module
+ * Translates printer settings into argument arrays for `lp`, `cancel` and the Windows
+ * print script. Arguments are passed to execFile without a shell, so printer names and
+ * file paths (which come from Notion sticker names) cannot break or inject into the command.
+ */
+import { PrinterSetting } from '../database/db';
+import { LabelSize } from './label-size';
+
+export interface PrintCommand {
+  file: string;
+  args: string[];
+}
+
+export interface PrintRequest {
+  printerName: string;
+  filePath: string;
+  copies: number;
+  options?: PrinterSetting['options'];
+  // Label size in mm used to derive a custom media size when the options have no media
+  labelSize?: LabelSize;
+  // The file is printer-language data that the queue passes to the printer untouched
+  raw?: boolean;
+}
+
+/**
+ * Convert a margin value to PostScript points
+ * @param value Margin value
+ * @param unit Unit the value is expressed in
+ * @returns Value in points
+ */
+function toPoints(value: number, unit: string): number {
+  if (unit === 'mm') return value * 2.83465; // 1mm = 2.83465pt
+  if (unit === 'in') return value * 72; // 1in = 72pt
+  return value; // Already in points
+}
+
+/**
+ * Convert the margins of printer setting options to millimetres
+ * @param margins Margins in any supported unit
+ * @returns Margins in mm
+ */
+export function marginsToMm(margins: PrinterSetting['options']['margins']): { top: number; right: number; bottom: number; left: number } {
+  const toMm = (value: number | undefined) => toPoints(value || 0, margins.units) / 2.83465;
+  return { top: toMm(margins.top), right: toMm(margins.right), bottom: toMm(margins.bottom), left: toMm(margins.left) };
+}
+
+/**
+ * Check that a number of copies is a positive whole number
+ */
+function assertCopies(copies: number): void {
+  if (!Number.isInteger(copies) || copies < 1) {
+    throw new Error(`Invalid number of copies: ${copies}`);
+  }
+}
+
+/**
+ * Build the `-o` options for lp from printer setting options
+ * @param options Printer setting options
+ * @param labelSize Label size in mm used to derive a custom media size when no media is set
+ * @returns Arguments to pass to lp, e.g. ['-o', 'media=Custom.50x30mm']
+ */
+export function buildLpOptionArgs(options: PrinterSetting['options'] = {}, labelSize?: LabelSize): string[] {
+  const values: string[] = [];
+
+  // Add media size
+  if (options.media) {
+    values.push(`media=${options.media}`);
+  } else if (labelSize) {
+    values.push(`media=Custom.${labelSize.width}x${labelSize.height}mm`);
+  }
+
+  // Add orientation
+  if (options.orientation) {
+    values.push(`orientation-requested=${options.orientation === 'landscape' ? '4' : '3'}`);
+  }
+
+  // Add scaling
+  if (options.scale && options.scale !== 100) {
+    values.push(`scaling=${options.scale}`);
+  }
+
+  // Add fit-to-page option
+  if (options.fitToPage) {
+    values.push('fit-to-page');
+  }
+
+  // Add print scaling option
+  if (options.printScaling) {
+    values.push(`print-scaling=${options.printScaling}`);
+  }
+
+  // Add margin options if present
+  if (options.margins) {
+    const { top, right, bottom, left, units } = options.margins;
+    if (top !== undefined) values.push(`page-top=${toPoints(top, units)}pt`);
+    if (right !== undefined) values.push(`page-right=${toPoints(right, units)}pt`);
+    if (bottom !== undefined) values.push(`page-bottom=${toPoints(bottom, units)}pt`);
+    if (left !== undefined) values.push(`page-left=${toPoints(left, units)}pt`);
+  }
+
+  // Add driver options chosen from the printer's capabilities
+  for (const [keyword, choice] of Object.entries(options.driverOptions || {})) {
+    values.push(`${keyword}=${choice}`);
+  }
+
+  return values.flatMap(value => ['-o', value]);
+}
+
+/**
+ * Build the lp command that prints a file through CUPS
+ * @param request Printer, file, copies and options
+ * @returns Command for execFile
+ */
+export function buildLpCommand(request: PrintRequest): PrintCommand {
+  assertCopies(request.copies);
+  if (!request.printerName) {
+    throw new Error('No printer selected');
+  }
+
+  return {
+    file: 'lp',
+    args: [
+      '-d', request.printerName,
+      // Raw data already contains the media and copies, so it is sent once without filter options
+      ...(request.raw
+        ? ['-n', '1', '-o', 'raw']
+        : ['-n', String(request.copies), ...buildLpOptionArgs(request.options, request.labelSize)]),
+      request.filePath
+    ]
+  };
+}
+
+/**
+ * Build the command that cancels a CUPS job
+ * @param cupsJobId Job ID reported by lp, e.g. "Printer-123"
+ * @returns Command for execFile
+ */
+export function buildCancelCommand(cupsJobId: string): PrintCommand {
+  return { file: 'cancel', args: [cupsJobId] };
+}
+
+// PowerShell script that prints a file through the Windows shell; the values arrive as parameters
+export const WINDOWS_PRINT_SCRIPT = `
+param(
+  [string]$Printer,
+  [string]$Path,
+  [int]$Copies = 1
+)
+
+# Load the file as a PrintDocument
+Add-Type -AssemblyName System.Drawing
+Add-Type -AssemblyName System.Windows.Forms
+$printDoc = New-Object System.Drawing.Printing.PrintDocument
+$printDoc.PrinterSettings.PrinterName = $Printer
+$printDoc.PrinterSettings.Copies = $Copies
+
+# Create event handler for printing
+$printDoc.add_PrintPage({
+    param($sender, $eventArgs)
+
+    # For PDF files, use Windows shell to print
+    Start-Process -FilePath $Path -Verb Print -PassThru | %{
+        # Wait for process to complete or timeout
+        $completed = $_.WaitForExit(30000)
+        if (-not $completed) {
+            $_.Kill()
+        }
+    }
+
+    # Tell the document we're done printing
+    $eventArgs.HasMorePages = $false
+})
+
+$printDoc.Print()
+`;
+
+/**
+ * Build the PowerShell command that runs the Windows print script
+ * @param scriptPath Path the WINDOWS_PRINT_SCRIPT was written to
+ * @param request Printer, file and copies (Windows ignores the CUPS options)
+ * @returns Command for execFile
+ */
+export function buildWindowsPrintCommand(scriptPath: string, request: PrintRequest): PrintCommand {
+  assertCopies(request.copies);
+
+  return {
+    file: 'powershell',
+    args: [
+      '-NoProfile',
+      '-ExecutionPolicy', 'Bypass',
+      '-File', scriptPath,
+      '-Printer', request.printerName,
+      '-Path', request.filePath,
+      '-Copies', String(request.copies)
+    ]
+  };
+}
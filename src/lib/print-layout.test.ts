@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { PDFArray, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { MM_TO_PT } from './label-size';
+import { renderPrintedPdf, resolvePrintOptions, ResolvedPrintOptions } from './print-layout';
+
+const PAGE = { width: 100, height: 50 };
+
+// Document with pages of 100 x 50 pt
+async function createDocument(pageCount = 1): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage([PAGE.width, PAGE.height]).drawRectangle({ x: 10, y: 10, width: 20, height: 20 });
+  }
+  return pdfDoc.save();
+}
+
+// Transformation matrices ("cm" operators) of the first page, in the order they are applied
+async function getMatrices(pdfBytes: Uint8Array): Promise<number[][]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const contents = pdfDoc.getPage(0).node.Contents() as PDFArray;
+  const text = contents.asArray()
+    .map(ref => pdfDoc.context.lookup(ref) as PDFRawStream)
+    .map(stream => stream.dict.get(PDFName.of('Filter')) ? zlib.inflateSync(stream.contents) : Buffer.from(stream.contents))
+    .join('\n');
+  return [...text.matchAll(/^(.+) cm$/gm)].map(match => match[1].split(' ').map(Number));
+}
+
+const assertClose = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 0.01, `${actual} is not ${expected}`);
+
+describe('resolvePrintOptions', () => {
+  it('prefers the media of the options over the label size and the page size', () => {
+    assert.deepEqual(resolvePrintOptions({ media: 'A4' }, { width: 50, height: 30 }, PAGE).media, { name: 'A4', width: 210, height: 297 });
+    assert.deepEqual(resolvePrintOptions({}, { width: 50, height: 30 }, PAGE).media, { name: 'Custom.50x30mm', width: 50, height: 30 });
+    assert.deepEqual(resolvePrintOptions({}, undefined, PAGE).media, { name: 'document', width: 100, height: 50 });
+  });
+
+  it('prints at full size in portrait without margins by default', () => {
+    const resolved = resolvePrintOptions(undefined, { width: 50, height: 30 }, PAGE);
+    assert.equal(resolved.orientation, 'portrait');
+    assert.equal(resolved.scaling, 'none');
+    assert.equal(resolved.scale, 100);
+    assert.deepEqual(resolved.margins, { top: 0, right: 0, bottom: 0, left: 0 });
+  });
+
+  it('lets fit to page win over the scaling mode, as lp does', () => {
+    assert.equal(resolvePrintOptions({ printScaling: 'fill' }, undefined, PAGE).scaling, 'fill');
+    assert.equal(resolvePrintOptions({ printScaling: 'fill', fitToPage: true }, undefined, PAGE).scaling, 'fit');
+  });
+
+  it('converts the margins to points', () => {
+    const inches = resolvePrintOptions({ margins: { top: 0.5, right: 0, bottom: 1, left: 0, units: 'in' } }, undefined, PAGE);
+    assert.deepEqual(inches.margins, { top: 36, right: 0, bottom: 72, left: 0 });
+    const mm = resolvePrintOptions({ margins: { top: 0, right: 0, bottom: 0, left: 2, units: 'mm' } }, undefined, PAGE);
+    assertClose(mm.margins.left, 2 * MM_TO_PT);
+  });
+});
+
+describe('renderPrintedPdf', () => {
+  const resolved = (options: Partial<ResolvedPrintOptions>): ResolvedPrintOptions => ({
+    media: { name: 'Custom.50x30mm', width: 50, height: 30 },
+    orientation: 'portrait',
+    scaling: 'none',
+    scale: 100,
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+    ...options
+  });
+
+  it('puts each page of the document on a page of the media size', async () => {
+    const printed = await PDFDocument.load(await renderPrintedPdf(await createDocument(2), resolved({})));
+    assert.equal(printed.getPageCount(), 2);
+    const size = printed.getPage(1).getSize();
+    assertClose(size.width, 50 * MM_TO_PT);
+    assertClose(size.height, 30 * MM_TO_PT);
+  });
+
+  it('scales by the percentage and centres the page on the media', async () => {
+    const [shift, rotation, scale] = await getMatrices(await renderPrintedPdf(await createDocument(), resolved({ scale: 50 })));
+    assertClose(shift[4], (50 * MM_TO_PT - 50) / 2);
+    assertClose(shift[5], (30 * MM_TO_PT - 25) / 2);
+    assert.deepEqual(rotation, [1, 0, 0, 1, 0, 0]);
+    assert.deepEqual(scale, [0.5, 0, 0, 0.5, 0, 0]);
+  });
+
+  it('turns landscape pages and fits them inside the margins', async () => {
+    const media = { name: 'Custom.50x100mm', width: 50, height: 100 };
+    const margins = { top: 10, right: 0, bottom: 0, left: 0 };
+    const pdfBytes = await renderPrintedPdf(await createDocument(), resolved({ media, orientation: 'landscape', scaling: 'fit', margins }));
+    const [shift, rotation, scale] = await getMatrices(pdfBytes);
+
+    // The turned page is 50 pt wide and 100 pt tall, so the height inside the margins limits it
+    const factor = (100 * MM_TO_PT - 10) / 100;
+    assertClose(scale[0], factor);
+    assertClose(rotation[1], 1);
+    assertClose(rotation[2], -1);
+    // Centred across the width and shifted right by the turned width, as the turn pivots on the corner
+    assertClose(shift[4], (50 * MM_TO_PT - 50 * factor) / 2 + 50 * factor);
+    assertClose(shift[5], 0);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Print Layout Module
+ * Works out how a printer lays a document onto its media from the printer setting
+ * options, and renders the result, for the virtual printer and the thermal preview
+ */
+import {
+  PDFDocument,
+  clip,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle
+} from 'pdf-lib';
+import type { PrinterSetting } from '../database/db';
+import { LabelSize, MM_TO_PT, parseMediaSize } from './label-size';
+
+export type ScalingMode = 'none' | 'fit' | 'fill';
+
+export interface ResolvedPrintOptions {
+  // Media in mm as loaded in the printer (portrait, before orientation is applied)
+  media: LabelSize & { name: string };
+  orientation: 'portrait' | 'landscape';
+  scaling: ScalingMode;
+  // Percentage applied when the scaling mode is "none"
+  scale: number;
+  // Margins in points
+  margins: { top: number; right: number; bottom: number; left: number };
+}
+
+/**
+ * Convert a margin value to points
+ */
+function toPoints(value: number | undefined, unit: string): number {
+  if (!value) return 0;
+  if (unit === 'mm') return value * MM_TO_PT;
+  if (unit === 'in') return value * 72;
+  return value;
+}
+
+/**
+ * Work out the media, orientation, scaling and margins lp would use for these options,
+ * mirroring the arguments built by buildLpOptionArgs
+ * @param options Printer setting options
+ * @param labelSize Label size in mm used when no media is set
+ * @param pageSize Size of the document's first page in mm, used when neither is known
+ * @returns Resolved options
+ */
+export function resolvePrintOptions(
+  options: PrinterSetting['options'] = {},
+  labelSize: LabelSize | undefined,
+  pageSize: LabelSize
+): ResolvedPrintOptions {
+  const mediaSize = options.media ? parseMediaSize(options.media) : labelSize;
+  const media = mediaSize
+    ? { name: options.media || `Custom.${mediaSize.width}x${mediaSize.height}mm`, ...mediaSize }
+    : { name: 'document', ...pageSize };
+
+  const units = options.margins?.units || 'mm';
+  let scaling: ScalingMode = options.printScaling || 'none';
+  if (options.fitToPage) scaling = 'fit';
+
+  return {
+    media,
+    orientation: options.orientation || 'portrait',
+    scaling,
+    scale: options.scale || 100,
+    margins: {
+      top: toPoints(options.margins?.top, units),
+      right: toPoints(options.margins?.right, units),
+      bottom: toPoints(options.margins?.bottom, units),
+      left: toPoints(options.margins?.left, units)
+    }
+  };
+}
+
+/**
+ * Lay out every page of a document onto the media the way the printer would:
+ * landscape turns the content a quarter turn, scaling fits, fills or scales it by
+ * a percentage, and it is centered in the area inside the margins and clipped to it
+ * @param pdfBytes Document to print
+ * @param resolved Resolved print options
+ * @returns PDF bytes with one media-sized page per document page
+ */
+export async function renderPrintedPdf(pdfBytes: Uint8Array, resolved: ResolvedPrintOptions): Promise<Uint8Array> {
+  const source = await PDFDocument.load(pdfBytes);
+  const pdfDoc = await PDFDocument.create();
+  const pages = await pdfDoc.embedPdf(source, source.getPageIndices());
+  const landscape = resolved.orientation === 'landscape';
+  const { margins } = resolved;
+
+  for (const embedded of pages) {
+    const page = pdfDoc.addPage([resolved.media.width * MM_TO_PT, resolved.media.height * MM_TO_PT]);
+    const area = {
+      x: margins.left,
+      y: margins.bottom,
+      width: Math.max(0, page.getWidth() - margins.left - margins.right),
+      height: Math.max(0, page.getHeight() - margins.top - margins.bottom)
+    };
+
+    // Size of the content on the media after the orientation is applied
+    const contentWidth = landscape ? embedded.height : embedded.width;
+    const contentHeight = landscape ? embedded.width : embedded.height;
+    let factor = resolved.scale / 100;
+    if (resolved.scaling === 'fit') factor = Math.min(area.width / contentWidth, area.height / contentHeight);
+    if (resolved.scaling === 'fill') factor = Math.max(area.width / contentWidth, area.height / contentHeight);
+
+    const drawnWidth = contentWidth * factor;
+    const drawnHeight = contentHeight * factor;
+    const left = area.x + (area.width - drawnWidth) / 2;
+    const bottom = area.y + (area.height - drawnHeight) / 2;
+
+    // Nothing is printed in the margins
+    page.pushOperators(pushGraphicsState(), rectangle(area.x, area.y, area.width, area.height), clip(), endPath());
+    page.drawPage(embedded, {
+      // A quarter turn counterclockwise pivots around the bottom-left corner, so shift right by the turned width
+      x: landscape ? left + drawnWidth : left,
+      y: bottom,
+      xScale: factor,
+      yScale: factor,
+      rotate: landscape ? degrees(90) : undefined
+    });
+    page.pushOperators(popGraphicsState());
+  }
+
+  return pdfDoc.save();
+}
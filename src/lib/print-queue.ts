@@ -0,0 +1,871 @@
+/**
+ * Print Queue Module
+ * Persists print jobs in the database, sends them to the printer one at a time
+ * and tracks them through CUPS or the IPP printer until they complete
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import { app } from 'electron';
+import db, { PrintJob, PrinterSetting, SheetLayout, Sticker } from '../database/db';
+import { isCupsPlatform } from './printers';
+import { buildCancelCommand, buildLpCommand, marginsToMm } from './print-command';
+import { cancelIppJob, getIppJobStatus, isIppUri, printIppJob } from './ipp';
+import { getIppJobOutcome, JobOutcome, parseCupsJobId, parseLpstatCompletedJobs, parseLpstatJobIds } from './job-status';
+import { createRawPayloadFile, isRawPayloadFormat, isSocketUri, printRaw } from './raw-printing';
+import { isVirtualPrinter, printToVirtualPrinter } from './virtual-printer';
+import { createOverlayPdf, resolveOverlayValues } from './pdf-overlay';
+import { generateStickerPdfFile } from './sticker-generator';
+import { findLabelTemplate, renderLabelTemplateFile } from './label-template';
+import { createImposedPdf, getNextStartOffset, getSheetMedia } from './imposition';
+import { createCalibratedPdf, hasCalibration } from './calibration';
+import { parseLabelSize, parseMediaSize } from './label-size';
+import { findPrinterSettingStock, findStickerStock, getJobLabelSize, getPrinterSettingSizeKey, stockKey } from './label-stock';
+import { detectStickerSize, isSameLabelSize, resolveStickerSize } from './sticker-size';
+import { checkPrinter, choosePrinter, isGroupSetting, PrinterFailover } from './printer-groups';
+import { removeTempFiles } from './temp-files';
+import logger from './logger';
+
+const execPromise = promisify(exec);
+const execFilePromise = promisify(execFile);
+
+// Force untranslated lp/lpstat output so it can be parsed on any system locale
+const CUPS_ENV = { ...process.env, LANG: 'C', LC_ALL: 'C' };
+
+// How often sent jobs are checked against the CUPS queue and IPP printers
+const STATUS_POLL_INTERVAL = 3000;
+
+type PrintProgressListener = (job: PrintJob) => void;
+type PrinterFailoverListener = (failover: PrinterFailover) => void;
+
+let progressListener: PrintProgressListener | null = null;
+let failoverListener: PrinterFailoverListener | null = null;
+let isProcessing = false;
+let statusTimer: NodeJS.Timeout | null = null;
+let isCheckingStatus = false;
+
+/**
+ * Register the function that receives every job update (used to forward them to the renderer)
+ * @param listener Called with the job after each status change
+ */
+export function setPrintProgressListener(listener: PrintProgressListener | null): void {
+  progressListener = listener;
+}
+
+/**
+ * Register the function told when jobs move off a group member that stopped (used to notify the operator)
+ * @param listener Called with the member, the reason and the jobs moved
+ */
+export function setPrinterFailoverListener(listener: PrinterFailoverListener | null): void {
+  failoverListener = listener;
+}
+
+/**
+ * Persist changes to a job and notify the progress listener
+ */
+async function updateJob(id: string, updates: Partial<Omit<PrintJob, 'id'>>): Promise<PrintJob | null> {
+  const job = await db.updatePrintJob(id, updates);
+  if (job) {
+    emitProgress(job);
+  }
+  return job;
+}
+
+function emitProgress(job: PrintJob): void {
+  try {
+    progressListener?.(job);
+  } catch (error) {
+    console.error('Error notifying print progress listener:', error);
+  }
+}
+
+/**
+ * Get the name of the user submitting jobs from this machine
+ * @returns "user@host" identifier
+ */
+function getSubmitter(): string {
+  try {
+    return `${os.userInfo().username}@${os.hostname()}`;
+  } catch (error) {
+    return os.hostname();
+  }
+}
+
+/**
+ * Resolve the local PDF file for a sticker
+ * @param sticker Sticker to print
+ * @returns Absolute path to an existing PDF, or null if none is available
+ */
+export function resolveStickerPdfPath(sticker: Sticker): string | null {
+  if (sticker.localPdfPath && fs.existsSync(sticker.localPdfPath)) {
+    return sticker.localPdfPath;
+  }
+
+  if (sticker.pdfUrl && sticker.pdfUrl.startsWith('app://pdfs/')) {
+    const pdfFileName = sticker.pdfUrl.replace('app://pdfs/', '');
+    const pdfPath = path.join(app.getPath('userData'), 'downloads', 'pdfs', pdfFileName);
+    if (fs.existsSync(pdfPath)) {
+      return pdfPath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the printer setting for a size: one configured for exactly that size, otherwise the
+ * closest one within the tolerance a PDF size is checked against its declared size with
+ * @param settings Printer settings
+ * @param size Normalized "WxH" size
+ * @returns Matching setting, or undefined
+ */
+function findPrinterSettingForSize(settings: PrinterSetting[], size: string): PrinterSetting | undefined {
+  const exact = settings.find(s => getPrinterSettingSizeKey(s) === size);
+  const wanted = parseLabelSize(size);
+  if (exact || !wanted) return exact;
+
+  let closest: PrinterSetting | undefined;
+  let closestDistance = Infinity;
+  for (const setting of settings) {
+    const settingSize = parseLabelSize(getPrinterSettingSizeKey(setting));
+    if (!settingSize || !isSameLabelSize(settingSize, wanted)) continue;
+    const distance = Math.abs(settingSize.width - wanted.width) + Math.abs(settingSize.height - wanted.height);
+    if (distance < closestDistance) {
+      closest = setting;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Look up everything needed to print a sticker
+ * @param stickerId Sticker ID
+ * @returns The sticker and its printer setting, or an error message explaining what is missing
+ */
+export async function resolvePrintTarget(
+  stickerId: string
+): Promise<{ sticker: Sticker; printerSetting: PrinterSetting } | { error: string }> {
+  let sticker = db.getSticker(stickerId);
+  if (!sticker) {
+    console.error(`Sticker not found: ${stickerId}`);
+    return { error: 'Sticker not found' };
+  }
+
+  // Stickers synced before sizes were read from their PDFs have it read now
+  const pdfPath = resolveStickerPdfPath(sticker);
+  if (pdfPath && !sticker.detectedSize && !parseLabelSize(sticker.size)) {
+    const detected = await detectStickerSize(pdfPath, sticker.size);
+    if (detected.detectedSize) {
+      sticker = (await db.updateSticker(sticker.id, detected)) || sticker;
+    }
+  }
+
+  // A printer loaded with the sticker's label stock comes first. Otherwise "50x30mm" and "50x30" are
+  // the same size; the size read from the PDF wins over the declared one, and only stickers
+  // generated from their product use the default label
+  const stock = findStickerStock(sticker);
+  const size = stock ? stockKey(stock) : resolveStickerSize(sticker, !!pdfPath);
+  if (!size) {
+    console.error(`Unknown size for sticker ${stickerId} (declared: ${sticker.size})`);
+    return { error: `Unknown size for "${sticker.name}": "${sticker.size}" is not a size and the size of its PDF could not be read` };
+  }
+  const settings = db.getPrinterSettings();
+  const printerSetting = (stock && settings.find(s => findPrinterSettingStock(s)?.id === stock.id))
+    || findPrinterSettingForSize(settings, size);
+  if (!printerSetting) {
+    console.error(`No printer setting found for size: ${size} (declared: ${sticker.size})`);
+    return { error: `No printer configured for size: ${size}` };
+  }
+
+  // Make sure there is something to print before queueing the job: the sticker PDF, or a product to generate one from
+  if (!pdfPath && !db.getProduct(sticker.productId)) {
+    console.error(`PDF file not found for sticker: ${stickerId}`);
+    return { error: 'PDF file not found' };
+  }
+
+  return { sticker, printerSetting };
+}
+
+/**
+ * Add a sticker print job to the queue
+ * @param sticker Sticker to print
+ * @param printerSetting Printer setting matched to the sticker size
+ * @param copies Number of copies
+ * @param extras Batch and basket line the job belongs to, and overlay values entered before printing
+ * @returns The queued job
+ */
+export async function enqueuePrintJob(
+  sticker: Sticker,
+  printerSetting: PrinterSetting,
+  copies = 1,
+  extras: { batchId?: string; lineId?: string; overlayValues?: Record<string, string> } = {}
+): Promise<PrintJob> {
+  // Group jobs are shown under the group name until a member is chosen when they are sent
+  const group = isGroupSetting(printerSetting) ? db.getPrinterGroup(printerSetting.printerGroupId) : null;
+  const now = new Date().toISOString();
+  const job = await db.createPrintJob({
+    stickerId: sticker.id,
+    stickerName: sticker.name,
+    productId: sticker.productId,
+    printerName: group ? group.name : printerSetting.printerName,
+    printerGroupId: group?.id,
+    options: printerSetting.options || {},
+    size: printerSetting.size,
+    labelStockId: (findStickerStock(sticker) || findPrinterSettingStock(printerSetting))?.id,
+    copies,
+    batchId: extras.batchId,
+    lineId: extras.lineId,
+    overlayValues: extras.overlayValues,
+    submittedBy: getSubmitter(),
+    status: 'queued',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  logger.info('Print job queued', { jobId: job.id, stickerId: sticker.id, printer: job.printerName, copies });
+  emitProgress(job);
+
+  processQueue();
+  return job;
+}
+
+/**
+ * Get the PDF a sticker is printed from: its label template, its own PDF or one generated
+ * from the product, with the overlay fields stamped on
+ * @param sticker Sticker to print
+ * @param options Options of the printer setting
+ * @param overlayValues Overlay values entered before printing
+ * @param fileId Name for the temporary files, e.g. the job ID
+ * @returns Path to the PDF
+ */
+export async function prepareStickerPdf(
+  sticker: Sticker,
+  options: PrinterSetting['options'],
+  overlayValues: Record<string, string> | undefined,
+  fileId: string
+): Promise<string> {
+  // A label template assigned to the sticker size or product type replaces the sticker PDF
+  const product = db.getProduct(sticker.productId);
+  const template = product ? findLabelTemplate(sticker, product) : null;
+  let pdfPath = template ? null : resolveStickerPdfPath(sticker);
+  if (template) {
+    pdfPath = await renderLabelTemplateFile(template, sticker, product);
+  } else if (!pdfPath) {
+    // Stickers without a PDF (e.g. the default price tag) are generated from the product
+    try {
+      pdfPath = await generateStickerPdfFile(sticker, options);
+    } catch (error) {
+      throw new Error(`PDF file not found and could not be generated: ${error.message}`);
+    }
+  }
+
+  // Stamp variable data onto a copy of the PDF
+  if (sticker.overlayFields && sticker.overlayFields.length > 0) {
+    const values = resolveOverlayValues(sticker.overlayFields, product, overlayValues);
+    pdfPath = await createOverlayPdf(pdfPath, sticker.overlayFields, values, fileId);
+  }
+
+  return pdfPath;
+}
+
+/**
+ * Send a group job to the least busy member that can print, failing it when none can
+ * @param job Job of a printer group
+ * @returns The job with the chosen member as its printer, or null when it failed
+ */
+async function assignGroupMember(job: PrintJob): Promise<PrintJob | null> {
+  const group = db.getPrinterGroup(job.printerGroupId);
+  if (!group) {
+    await settleJob(job, { status: 'failed', error: 'Printer group not found' });
+    return null;
+  }
+
+  const result = await choosePrinter(group, job.options, job.failedPrinters);
+  if ('error' in result) {
+    // Keep what the last member reported, it is usually what needs fixing
+    const error = job.error ? `${result.error}. Last error: ${job.error}` : result.error;
+    await settleJob(job, { status: 'failed', error });
+    logger.error('Print job failed', { jobId: job.id, error });
+    return null;
+  }
+
+  return updateJob(job.id, { printerName: result.printerName });
+}
+
+/**
+ * Put jobs of a group member that stopped or failed back into the queue for the other members
+ * and tell the operator
+ * @param jobs Jobs of one group that were sent to the member
+ * @param printerName Member that stopped or failed
+ * @param reason What went wrong with the member
+ */
+async function moveJobsToOtherMembers(jobs: PrintJob[], printerName: string, reason: string): Promise<void> {
+  for (const job of jobs) {
+    await updateJob(job.id, {
+      status: 'queued',
+      error: `${printerName}: ${reason}`,
+      failedPrinters: [...(job.failedPrinters || []), printerName],
+      cupsJobId: undefined,
+      ippJobId: undefined,
+      sentAt: undefined
+    });
+  }
+
+  const group = db.getPrinterGroup(jobs[0].printerGroupId);
+  const failover: PrinterFailover = {
+    groupId: jobs[0].printerGroupId,
+    groupName: group?.name || '',
+    printerName,
+    reason,
+    jobIds: jobs.map(j => j.id)
+  };
+  logger.warn('Printer group failover', { ...failover });
+  try {
+    failoverListener?.(failover);
+  } catch (error) {
+    console.error('Error notifying printer failover listener:', error);
+  }
+
+  processQueue();
+}
+
+/**
+ * Record that a printer did not take a job. Group jobs move to another member instead of failing.
+ * @param job Job that could not be sent
+ * @param error What the printer or spooler reported
+ */
+async function failSend(job: PrintJob, error: string): Promise<void> {
+  if (wasCancelled(job)) return;
+  if (job.printerGroupId) {
+    await moveJobsToOtherMembers([job], job.printerName, error);
+    return;
+  }
+  await updateJob(job.id, { status: 'failed', error });
+}
+
+/**
+ * Check whether the operator cancelled a job while it was being sent
+ * @param job Job being sent
+ */
+function wasCancelled(job: PrintJob): boolean {
+  return db.getPrintJob(job.id)?.status === 'cancelled';
+}
+
+/**
+ * Record the result of sending a job, unless it was cancelled meanwhile
+ * @param job Job being sent
+ * @param updates Status and times to record
+ * @returns Whether the result was recorded
+ */
+async function settleJob(job: PrintJob, updates: Partial<Omit<PrintJob, 'id'>>): Promise<boolean> {
+  if (wasCancelled(job)) return false;
+  await updateJob(job.id, updates);
+  return true;
+}
+
+/**
+ * Send a single job to its printer
+ * @param job Job to send
+ */
+async function sendJob(job: PrintJob): Promise<void> {
+  // Group jobs go to a member chosen now, so they follow whichever printers are working
+  if (job.printerGroupId) {
+    job = await assignGroupMember(job);
+    if (!job) return;
+  }
+
+  const sticker = db.getSticker(job.stickerId);
+  if (!sticker) {
+    await settleJob(job, { status: 'failed', error: 'Sticker not found' });
+    return;
+  }
+
+  let pdfPath: string;
+  try {
+    pdfPath = await prepareStickerPdf(sticker, job.options, job.overlayValues, job.id);
+  } catch (error) {
+    console.error(`Error preparing the PDF of job ${job.id}:`, error);
+    await settleJob(job, { status: 'failed', error: error.message });
+    return;
+  }
+
+  // Size of one label from the stock registry; it is the media unless the options name one
+  const labelSize = getJobLabelSize(job);
+  const labelStock = job.labelStockId ? db.getLabelStock(job.labelStockId) || undefined : undefined;
+
+  // On sheet stock the copies are tiled onto as many sheets as needed and each sheet is printed once
+  let copies = job.copies;
+  let options = job.options;
+  const sheetLayout = getJobSheetLayout(job);
+  if (sheetLayout) {
+    try {
+      pdfPath = await createImposedPdf(pdfPath, sheetLayout, labelSize, job.copies, job.id);
+      copies = 1;
+      options = { ...job.options, sheetLayout, media: getSheetMedia(sheetLayout) };
+    } catch (error) {
+      console.error(`Error imposing job ${job.id} onto sheets:`, error);
+      await settleJob(job, { status: 'failed', error: error.message });
+      return;
+    }
+  }
+
+  const mediaSize = options?.media ? parseMediaSize(options.media) : labelSize;
+
+  // Calibration of the printer is applied last, to exactly what is sent
+  if (hasCalibration(options?.calibration)) {
+    try {
+      pdfPath = await createCalibratedPdf(pdfPath, options.calibration, job.id);
+    } catch (error) {
+      console.error(`Error calibrating job ${job.id}:`, error);
+      await settleJob(job, { status: 'failed', error: error.message });
+      return;
+    }
+  }
+
+  // Nothing has reached the printer yet, so a job cancelled while its PDF was prepared is simply dropped
+  if (wasCancelled(job)) {
+    logger.info('Print job cancelled before it was sent', { jobId: job.id });
+    return;
+  }
+
+  // The virtual printer writes the document to its folder instead of a print queue
+  if (isVirtualPrinter(job.printerName)) {
+    try {
+      await printToVirtualPrinter({
+        filePath: pdfPath,
+        copies,
+        options,
+        labelSize: sheetLayout ? undefined : labelSize,
+        jobId: job.id,
+        title: job.stickerName
+      });
+      const completedAt = new Date().toISOString();
+      await settleJob(job, { status: 'completed', sentAt: completedAt, completedAt, error: undefined });
+      logger.info('Print job written by virtual printer', { jobId: job.id });
+    } catch (error) {
+      console.error(`Virtual printer error for job ${job.id}:`, error);
+      await failSend(job, error.message);
+    }
+    return;
+  }
+
+  // Raw socket printers are sent the job in their own language over TCP
+  if (isSocketUri(job.printerName)) {
+    try {
+      await printRaw(job.printerName, fs.readFileSync(pdfPath), {
+        copies,
+        options,
+        labelSize: mediaSize || labelSize,
+        labelStock,
+        title: job.stickerName
+      });
+      // The printer has received the data; raw ports have no job to follow
+      const sentAt = new Date().toISOString();
+      await settleJob(job, { status: 'completed', sentAt, completedAt: sentAt, error: undefined });
+      logger.info('Print job sent to raw socket', { jobId: job.id, printer: job.printerName });
+    } catch (error) {
+      console.error(`Raw print error for job ${job.id}:`, error);
+      await failSend(job, error.message);
+      logger.error('Print job failed', { jobId: job.id, error: error.message });
+    }
+    return;
+  }
+
+  // Network printers are sent the job directly over IPP
+  if (isIppUri(job.printerName)) {
+    try {
+      const ippJobId = await printIppJob(job.printerName, fs.readFileSync(pdfPath), {
+        copies,
+        media: mediaSize || undefined,
+        orientation: options?.orientation,
+        printScaling: options?.printScaling,
+        margins: options?.margins ? marginsToMm(options.margins) : undefined,
+        jobName: job.stickerName,
+        documentFormat: 'application/pdf'
+      });
+      const sentAt = new Date().toISOString();
+      if (ippJobId !== undefined) {
+        // The printer accepted the job; it is followed on the printer until it prints or is aborted
+        if (await settleJob(job, { status: 'sent', ippJobId, sentAt, error: undefined })) {
+          startStatusPolling();
+        } else {
+          await cancelSentJob({ ...job, ippJobId });
+        }
+      } else {
+        await settleJob(job, { status: 'completed', sentAt, completedAt: sentAt, error: undefined });
+      }
+      logger.info('Print job sent over IPP', { jobId: job.id, ippJobId, printer: job.printerName });
+    } catch (error) {
+      console.error(`IPP print error for job ${job.id}:`, error);
+      await failSend(job, error.message);
+      logger.error('Print job failed', { jobId: job.id, error: error.message });
+    }
+    return;
+  }
+
+  // Queues of label printers that take their own language are sent the rendered program as raw data
+  const raw = isRawPayloadFormat(options?.payloadFormat);
+  if (raw) {
+    try {
+      pdfPath = await createRawPayloadFile(
+        pdfPath,
+        { copies, options, labelSize: mediaSize || labelSize, labelStock, title: job.stickerName },
+        job.id
+      );
+    } catch (error) {
+      console.error(`Error rendering ${options.payloadFormat} for job ${job.id}:`, error);
+      await settleJob(job, { status: 'failed', error: error.message });
+      return;
+    }
+  }
+
+  try {
+    const command = buildLpCommand({
+      printerName: job.printerName,
+      filePath: pdfPath,
+      copies,
+      options,
+      labelSize: sheetLayout ? undefined : labelSize,
+      raw
+    });
+    console.log(`Printing with command: ${command.file} ${command.args.join(' ')}`);
+
+    const { stdout, stderr } = await execFilePromise(command.file, command.args, { env: CUPS_ENV });
+    if (stderr && stderr.trim() !== '') {
+      console.warn(`Print stderr: ${stderr}`);
+    }
+    console.log(`Print stdout: ${stdout}`);
+
+    const cupsJobId = parseCupsJobId(stdout);
+    const sentAt = new Date().toISOString();
+
+    if (cupsJobId && isCupsPlatform()) {
+      if (await settleJob(job, { status: 'sent', cupsJobId, sentAt, error: undefined })) {
+        startStatusPolling();
+      } else {
+        // Cancelled while lp was running; take the job back out of the CUPS queue
+        await cancelSentJob({ ...job, cupsJobId });
+      }
+    } else {
+      // Without a job ID there is nothing to track, so the job is done once the spooler accepted it
+      await settleJob(job, { status: 'completed', sentAt, completedAt: sentAt, error: undefined });
+    }
+
+    logger.info('Print job sent', { jobId: job.id, cupsJobId });
+  } catch (error) {
+    console.error(`Print error: ${error.message}`);
+    await failSend(job, (error.stderr || error.message || '').trim());
+    logger.error('Print job failed', { jobId: job.id, error: error.message });
+  }
+}
+
+/**
+ * Get the sheet layout a job is imposed with. The labels already used on the sheet are read
+ * from the printer setting when the job is sent, as the jobs sent before it used some up.
+ * @param job Job to send
+ * @returns The layout, or undefined for roll stock
+ */
+function getJobSheetLayout(job: PrintJob): SheetLayout | undefined {
+  const layout = job.options?.sheetLayout;
+  if (!layout) return undefined;
+  const current = db.getPrinterSetting(job.size)?.options?.sheetLayout;
+  return current ? { ...layout, startOffset: current.startOffset } : layout;
+}
+
+/**
+ * Move the start offset of the printer setting past the labels a sheet job used, so the
+ * next print continues on the same sheet instead of printing over used labels
+ * @param job Job that was just sent
+ */
+async function advanceSheetOffset(job: PrintJob): Promise<void> {
+  const sent = db.getPrintJob(job.id);
+  if (!job.options?.sheetLayout || !sent || (sent.status !== 'sent' && sent.status !== 'completed')) return;
+
+  const setting = db.getPrinterSetting(job.size);
+  const layout = setting?.options?.sheetLayout;
+  if (!layout) return;
+  const startOffset = getNextStartOffset(layout, job.copies);
+  await db.updatePrinterSettings({ ...setting, options: { ...setting.options, sheetLayout: { ...layout, startOffset } } });
+  logger.info('Sheet start offset advanced', { jobId: job.id, size: setting.size, startOffset });
+}
+
+/**
+ * Send queued jobs to their printers in submission order
+ */
+export async function processQueue(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    let next = db.getPrintJobs().find(j => j.status === 'queued');
+    while (next) {
+      // Marked before anything is prepared, so a cancellation from now on is seen by sendJob
+      const sending = await updateJob(next.id, { status: 'sending', attempts: next.attempts + 1 });
+      if (sending) {
+        try {
+          await sendJob(sending);
+        } finally {
+          // The printer or spooler has its own copy by now, or the job failed
+          removeTempFiles(sending.id);
+        }
+        await advanceSheetOffset(sending);
+      }
+      next = db.getPrintJobs().find(j => j.status === 'queued');
+    }
+  } catch (error) {
+    console.error('Error processing print queue:', error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Check the sent jobs and record how the finished ones ended: printed, cancelled outside
+ * the app or aborted by CUPS or the printer
+ */
+async function checkSentJobs(): Promise<void> {
+  const sentJobs = db.getPrintJobs().filter(j => j.status === 'sent' && (j.cupsJobId || j.ippJobId !== undefined));
+  if (sentJobs.length === 0) {
+    stopStatusPolling();
+    return;
+  }
+
+  const cupsJobs = sentJobs.filter(j => j.cupsJobId);
+  const ippJobs = sentJobs.filter(j => !j.cupsJobId);
+  const pending = [
+    ...(cupsJobs.length > 0 ? await checkSentCupsJobs(cupsJobs) : []),
+    ...(ippJobs.length > 0 ? await checkSentIppJobs(ippJobs) : [])
+  ];
+  await moveJobsOffStoppedMembers(pending.filter(j => j.printerGroupId));
+}
+
+/**
+ * Compare jobs sent to CUPS against its queue and finish the ones that left it
+ * @param jobs Sent jobs with a CUPS job ID
+ * @returns Jobs still in the queue
+ */
+async function checkSentCupsJobs(jobs: PrintJob[]): Promise<PrintJob[]> {
+  try {
+    const { stdout } = await execPromise('lpstat -W not-completed -o', { env: CUPS_ENV });
+    const pending = new Set(parseLpstatJobIds(stdout));
+    const finished = jobs.filter(j => !pending.has(j.cupsJobId));
+
+    if (finished.length > 0) {
+      const { stdout: completedStdout } = await execFilePromise('lpstat', ['-W', 'completed', '-l', '-o'], { env: CUPS_ENV });
+      const outcomes = parseLpstatCompletedJobs(completedStdout);
+
+      for (const job of finished) {
+        // A job missing from the history too (CUPS keeps none when PreserveJobHistory is off) left the queue printed
+        await finishSentJob(job, outcomes.get(job.cupsJobId) || { status: 'completed' }, 'CUPS');
+      }
+    }
+
+    return jobs.filter(j => pending.has(j.cupsJobId));
+  } catch (error) {
+    console.warn('Failed to check CUPS job status:', error.message);
+    return [];
+  }
+}
+
+/**
+ * Ask IPP printers about the jobs sent to them and finish the ones that ended
+ * @param jobs Sent jobs with an IPP job ID
+ * @returns Jobs still pending or printing, and those whose printer did not answer
+ */
+async function checkSentIppJobs(jobs: PrintJob[]): Promise<PrintJob[]> {
+  const pending: PrintJob[] = [];
+  for (const job of jobs) {
+    try {
+      const outcome = getIppJobOutcome(await getIppJobStatus(job.printerName, job.ippJobId));
+      if (outcome) {
+        await finishSentJob(job, outcome, 'the printer');
+      } else {
+        pending.push(job);
+      }
+    } catch (error) {
+      console.warn(`Failed to check IPP job ${job.ippJobId} on ${job.printerName}:`, error.message);
+      pending.push(job);
+    }
+  }
+  return pending;
+}
+
+/**
+ * Record how a sent job ended
+ * @param job Sent job
+ * @param outcome Final state of the job
+ * @param source What reported the state, for the error of aborted jobs
+ */
+async function finishSentJob(job: PrintJob, outcome: JobOutcome, source: 'CUPS' | 'the printer'): Promise<void> {
+  const { cupsJobId, ippJobId } = job;
+  if (outcome.status === 'completed') {
+    await updateJob(job.id, { status: 'completed', completedAt: new Date().toISOString() });
+    logger.info('Print job completed', { jobId: job.id, cupsJobId, ippJobId });
+  } else if (outcome.status === 'cancelled') {
+    await updateJob(job.id, { status: 'cancelled', error: outcome.message });
+    logger.info(`Print job cancelled in ${source}`, { jobId: job.id, cupsJobId, ippJobId });
+  } else {
+    await updateJob(job.id, { status: 'failed', error: outcome.message || `Job aborted by ${source}` });
+    logger.error(`Print job aborted by ${source}`, { jobId: job.id, cupsJobId, ippJobId, error: outcome.message });
+  }
+}
+
+/**
+ * Cancel a sent job in CUPS or on the IPP printer it was sent to
+ * @param job Sent job
+ */
+async function cancelSentJob(job: PrintJob): Promise<void> {
+  try {
+    if (job.cupsJobId) {
+      const command = buildCancelCommand(job.cupsJobId);
+      await execFilePromise(command.file, command.args, { env: CUPS_ENV });
+    } else if (job.ippJobId !== undefined) {
+      await cancelIppJob(job.printerName, job.ippJobId);
+    }
+  } catch (error) {
+    console.warn(`Failed to cancel job ${job.cupsJobId || job.ippJobId} on ${job.printerName}:`, error.message);
+  }
+}
+
+/**
+ * Check the group members that still hold jobs, and move the jobs of members that stopped,
+ * ran out of paper or report an error to the other members of their group
+ * @param jobs Sent group jobs that have not completed
+ */
+async function moveJobsOffStoppedMembers(jobs: PrintJob[]): Promise<void> {
+  const byPrinter = new Map<string, PrintJob[]>();
+  for (const job of jobs) {
+    const key = `${job.printerGroupId}\n${job.printerName}`;
+    byPrinter.set(key, [...(byPrinter.get(key) || []), job]);
+  }
+
+  for (const printerJobs of Array.from(byPrinter.values())) {
+    const { printerName, options } = printerJobs[0];
+    const { problem } = await checkPrinter(printerName, options);
+    if (!problem) continue;
+
+    console.warn(`Group member ${printerName} cannot print (${problem}), moving ${printerJobs.length} jobs`);
+    // The jobs are taken back from the stopped queue so they do not print twice once it recovers
+    for (const job of printerJobs) {
+      await cancelSentJob(job);
+    }
+    await moveJobsToOtherMembers(printerJobs, printerName, problem);
+  }
+}
+
+/**
+ * Schedule the next status check. Each check is scheduled once the previous one finished,
+ * so printers that are slow to answer never have two checks running at once.
+ */
+function startStatusPolling(): void {
+  if (statusTimer || isCheckingStatus) return;
+  statusTimer = setTimeout(async () => {
+    statusTimer = null;
+    isCheckingStatus = true;
+    try {
+      await checkSentJobs();
+    } catch (error) {
+      console.error('Error checking sent print jobs:', error);
+    } finally {
+      isCheckingStatus = false;
+    }
+    if (db.getPrintJobs().some(j => j.status === 'sent')) {
+      startStatusPolling();
+    }
+  }, STATUS_POLL_INTERVAL);
+}
+
+function stopStatusPolling(): void {
+  if (statusTimer) {
+    clearTimeout(statusTimer);
+    statusTimer = null;
+  }
+}
+
+/**
+ * Put a failed or cancelled job back into the queue
+ * @param id Job ID
+ * @returns The re-queued job, or null if it cannot be retried
+ */
+export async function retryPrintJob(id: string): Promise<PrintJob | null> {
+  const job = db.getPrintJob(id);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+    return null;
+  }
+
+  const updated = await updateJob(id, {
+    status: 'queued',
+    error: undefined,
+    failedPrinters: undefined,
+    cupsJobId: undefined,
+    ippJobId: undefined,
+    sentAt: undefined,
+    completedAt: undefined
+  });
+  logger.info('Print job retried', { jobId: id });
+
+  processQueue();
+  return updated;
+}
+
+/**
+ * Cancel a job that has not completed yet. Jobs already sent to CUPS or an IPP printer are cancelled there too;
+ * a job being sent is cancelled there by sendJob once the printer has taken it.
+ * @param id Job ID
+ * @returns The cancelled job, or null if it cannot be cancelled
+ */
+export async function cancelPrintJob(id: string): Promise<PrintJob | null> {
+  const job = db.getPrintJob(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'sending' && job.status !== 'sent')) {
+    return null;
+  }
+
+  if (job.status === 'sent') {
+    await cancelSentJob(job);
+  }
+
+  const updated = await updateJob(id, { status: 'cancelled' });
+  logger.info('Print job cancelled', { jobId: id, cupsJobId: job.cupsJobId, ippJobId: job.ippJobId });
+  return updated;
+}
+
+/**
+ * Remove completed and cancelled jobs from the history
+ * @returns Number of jobs removed
+ */
+export async function clearFinishedPrintJobs(): Promise<number> {
+  const finished = db.getPrintJobs()
+    .filter(j => j.status === 'completed' || j.status === 'cancelled')
+    .map(j => j.id);
+  return db.deletePrintJobs(finished);
+}
+
+/**
+ * Get the job history, newest first
+ * @returns All stored print jobs
+ */
+export function getPrintJobs(): PrintJob[] {
+  return [...db.getPrintJobs()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Resume work left over from the previous session: send queued jobs and keep tracking sent ones
+ */
+export async function resumePrintQueue(): Promise<void> {
+  // Jobs the previous session was sending when it quit are sent again
+  for (const job of db.getPrintJobs().filter(j => j.status === 'sending')) {
+    await updateJob(job.id, { status: 'queued' });
+  }
+
+  const jobs = db.getPrintJobs();
+  if (jobs.some(j => j.status === 'sent')) {
+    startStatusPolling();
+  }
+  if (jobs.some(j => j.status === 'queued')) {
+    processQueue();
+  }
+}
@@ -1,8 +1,7 @@
 import { ipcRenderer } from 'electron';
-import db from '../database/db';
-import { Sticker } from '../database/schema';
+import db, { Sticker } from '../database/db';
 
-export async function printSticker(sticker: Sticker): Promise<{ success: boolean; message?: string }> {
+export async function printSticker(sticker: Sticker, copies = 1): Promise<{ success: boolean; message?: string }> {
   try {
     // Get printer settings for this sticker size
     const printerSetting = db.getPrinterSetting(sticker.size);
@@ -22,7 +21,7 @@ export async function printSticker(sticker: Sticker): Promise<{ success: boolean
     }
 
     // Print the PDF
-    const result = await ipcRenderer.invoke('print-sticker', sticker.id);
+    const result = await ipcRenderer.invoke('print-sticker', sticker.id, copies);
 
     if (!result.success) {
       return {
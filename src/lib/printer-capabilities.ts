@@ -0,0 +1,159 @@
+/**
+ * Printer Capabilities Module
+ * Discovers the media, resolutions and driver options a printer supports (from
+ * `lpoptions -l` on CUPS or the IPP printer attributes) and checks printer
+ * settings against them
+ */
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { PrinterSetting } from '../database/db';
+import { capabilitiesFromLpoptions, describeMedia, parseLpoptions, parseResolution } from './driver-options';
+import { getIppPrinterAttributes, isIppUri } from './ipp';
+import { LabelSize, PAGE_SIZES, parseLabelSize, parseMediaSize } from './label-size';
+import { isCupsPlatform } from './printers';
+import { isSocketUri } from './raw-printing';
+import { isVirtualPrinter } from './virtual-printer';
+
+const execFilePromise = promisify(execFile);
+
+// Force untranslated lpoptions output so it can be parsed on any system locale
+const CUPS_ENV = { ...process.env, LANG: 'C', LC_ALL: 'C' };
+
+export interface MediaChoice {
+  // Value for the media option, e.g. "w288h432", "A4" or "50x30mm"
+  value: string;
+  label: string;
+  // Size in mm when it can be read from the name
+  size?: LabelSize;
+}
+
+export interface DriverOption {
+  keyword: string;
+  label: string;
+  choices: string[];
+  defaultChoice?: string;
+}
+
+export interface PrinterCapabilities {
+  printerName: string;
+  // Where the capabilities were read from
+  source: 'cups' | 'ipp' | 'virtual';
+  media: MediaChoice[];
+  defaultMedia?: string;
+  // Whether Custom.WxHmm sizes are accepted besides the listed media
+  customMedia: boolean;
+  // Resolutions in dpi
+  resolutions: number[];
+  // Driver options other than the media size
+  driverOptions: DriverOption[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Read the capabilities of a CUPS queue
+ */
+async function getCupsCapabilities(printerName: string): Promise<PrinterCapabilities> {
+  const { stdout } = await execFilePromise('lpoptions', ['-p', printerName, '-l'], { env: CUPS_ENV });
+  return capabilitiesFromLpoptions(printerName, parseLpoptions(stdout));
+}
+
+/**
+ * Read the capabilities of an IPP printer. Media are offered as WxHmm values, which
+ * the IPP printing path turns into media-col sizes.
+ */
+async function getIppCapabilities(printerUri: string): Promise<PrinterCapabilities> {
+  const attributes = await getIppPrinterAttributes(printerUri);
+  const media: MediaChoice[] = [];
+  const seen = new Set<string>();
+
+  const addMedia = (size: LabelSize | undefined, name?: string) => {
+    if (!size) return;
+    const value = `${size.width}x${size.height}mm`;
+    if (seen.has(value)) return;
+    seen.add(value);
+    media.push({ value, label: name ? describeMedia(name, size) : value, size });
+  };
+
+  // Loaded media first, then the rest of the supported media
+  attributes.mediaReady.forEach(name => addMedia(parseMediaSize(name) || undefined, name));
+  attributes.mediaSupported.forEach(name => addMedia(parseMediaSize(name) || undefined, name));
+  attributes.mediaSizes.forEach(size => addMedia({ width: round(size.width), height: round(size.height) }));
+
+  return {
+    printerName: printerUri,
+    source: 'ipp',
+    media,
+    defaultMedia: media[0]?.value,
+    // Custom sizes are sent as media-col, which the printer rejects if it cannot print them
+    customMedia: attributes.mediaSupported.some(name => name.startsWith('custom_min_')),
+    resolutions: Array.from(new Set(attributes.resolutions.map(parseResolution).filter((dpi): dpi is number => dpi !== null))),
+    driverOptions: []
+  };
+}
+
+/**
+ * The virtual printer takes any size
+ */
+function getVirtualCapabilities(printerName: string): PrinterCapabilities {
+  return {
+    printerName,
+    source: 'virtual',
+    media: Object.entries(PAGE_SIZES).map(([value, size]) => ({ value, label: describeMedia(value, size), size })),
+    customMedia: true,
+    resolutions: [],
+    driverOptions: []
+  };
+}
+
+/**
+ * Discover what a printer supports
+ * @param printerName Queue name or printer URI
+ * @returns Capabilities, or null for printers that cannot report them (raw sockets, Windows queues)
+ */
+export async function getPrinterCapabilities(printerName: string): Promise<PrinterCapabilities | null> {
+  if (!printerName) return null;
+  if (isVirtualPrinter(printerName)) return getVirtualCapabilities(printerName);
+  if (isIppUri(printerName)) return getIppCapabilities(printerName);
+  if (isSocketUri(printerName) || !isCupsPlatform()) return null;
+  return getCupsCapabilities(printerName);
+}
+
+/**
+ * Check printer setting options against the capabilities of the printer
+ * @param options Printer setting options
+ * @param capabilities Capabilities of the printer
+ * @returns List of problems, empty when the options are supported
+ */
+export function validatePrinterOptions(options: PrinterSetting['options'], capabilities: PrinterCapabilities): string[] {
+  const errors: string[] = [];
+
+  if (options.media && capabilities.media.length > 0 && !capabilities.media.some(choice => choice.value === options.media)) {
+    // Custom sizes are allowed in the Custom.WxHmm form (WxHmm for IPP)
+    const custom = capabilities.customMedia && parseLabelSize(options.media);
+    if (!custom) {
+      errors.push(`Media "${options.media}" is not supported by ${capabilities.printerName}`);
+    }
+  }
+
+  // Bitmap languages must be rendered at a resolution the printer has
+  if (options.payloadFormat && options.payloadFormat !== 'pdf' && capabilities.resolutions.length > 0) {
+    const dpi = options.dpi || 203;
+    if (!capabilities.resolutions.includes(dpi)) {
+      errors.push(`${dpi} dpi is not supported by ${capabilities.printerName} (${capabilities.resolutions.join(', ')} dpi)`);
+    }
+  }
+
+  for (const [keyword, value] of Object.entries(options.driverOptions || {})) {
+    const option = capabilities.driverOptions.find(o => o.keyword === keyword);
+    if (!option) {
+      errors.push(`Unknown driver option: ${keyword}`);
+    } else if (!option.choices.includes(value)) {
+      errors.push(`${option.label} cannot be "${value}" (${option.choices.join(', ')})`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,188 @@
+/**
+ * Printer Groups Module
+ * Spreads jobs over a group of identical printers: each job goes to the least busy
+ * member that is working, and members that stop, run out of paper or report an error
+ * are skipped until they recover
+ */
+import db, { PrinterGroup, PrinterSetting } from '../database/db';
+import { getIppPrinterAttributes, isIppUri } from './ipp';
+import { describePrinterProblem, getMemberLoad, GroupMemberStatus, rankGroupMembers } from './printer-status';
+import { getPrinters, isCupsPlatform, PrinterInfo, PrinterState } from './printers';
+import { isSocketUri, queryRawPrinterStatus } from './raw-printing';
+import { isVirtualPrinter } from './virtual-printer';
+
+export interface PrinterFailover {
+  groupId: string;
+  groupName: string;
+  // Member that stopped or failed
+  printerName: string;
+  reason: string;
+  // Jobs moved to the other members
+  jobIds: string[];
+}
+
+/**
+ * Check whether a printer setting sends its jobs to a printer group
+ * @param setting Printer setting
+ * @returns True for group printer settings
+ */
+export function isGroupSetting(setting: Pick<PrinterSetting, 'printerType' | 'printerGroupId'>): boolean {
+  return setting.printerType === 'group' && !!setting.printerGroupId;
+}
+
+/**
+ * Check a printer group before it is saved
+ * @param group Group as entered
+ * @returns Error messages, empty when the group is valid
+ */
+export function validatePrinterGroup(group: Partial<PrinterGroup>): string[] {
+  const errors: string[] = [];
+  if (!group.name?.trim()) {
+    errors.push('Enter a name for the printer group');
+  } else if (db.getPrinterGroups().some(g => g.id !== group.id && g.name.trim() === group.name.trim())) {
+    errors.push(`A printer group named "${group.name.trim()}" already exists`);
+  }
+
+  const members = group.members || [];
+  if (members.length === 0) {
+    errors.push('Add at least one printer to the group');
+  }
+  if (new Set(members).size !== members.length) {
+    errors.push('Each printer can be in the group only once');
+  }
+  return errors;
+}
+
+/**
+ * Ask a member for its state, the way its connection allows
+ * @param printerName Queue name or printer URI
+ * @param options Options of the printer setting, for the language of raw printers
+ * @param cupsPrinters Installed printers, listed once for all members
+ * @returns State and problem of the member
+ */
+async function getMemberState(
+  printerName: string,
+  options: PrinterSetting['options'],
+  cupsPrinters: PrinterInfo[] | null
+): Promise<{ state: PrinterState; problem?: string }> {
+  try {
+    if (isVirtualPrinter(printerName)) {
+      return { state: 'idle' };
+    }
+
+    if (isIppUri(printerName)) {
+      const attributes = await getIppPrinterAttributes(printerName);
+      const problem = describePrinterProblem(attributes.state, attributes.stateReasons, attributes.stateMessage);
+      return { state: attributes.state, problem: problem || (attributes.acceptingJobs ? undefined : 'not accepting jobs') };
+    }
+
+    if (isSocketUri(printerName)) {
+      const status = await queryRawPrinterStatus(printerName, options?.payloadFormat);
+      return { state: status.state, problem: status.state === 'stopped' ? status.reasons.join(', ') || status.message || 'stopped' : undefined };
+    }
+
+    const printer = cupsPrinters?.find(p => p.name === printerName);
+    if (!printer) {
+      // Windows queues cannot be checked; on CUPS a queue that is not listed is gone
+      return isCupsPlatform() ? { state: 'unknown', problem: 'printer not found' } : { state: 'unknown' };
+    }
+    const problem = describePrinterProblem(printer.state, [], printer.stateMessage);
+    return { state: printer.state, problem: problem || (printer.acceptingJobs ? undefined : 'not accepting jobs') };
+  } catch (error) {
+    // A printer that does not answer cannot print either
+    return { state: 'unknown', problem: error.message };
+  }
+}
+
+/**
+ * Check whether one printer can print
+ * @param printerName Queue name or printer URI
+ * @param options Options of the printer setting
+ * @returns State of the printer and the problem keeping it from printing, if any
+ */
+export async function checkPrinter(
+  printerName: string,
+  options: PrinterSetting['options'] = {}
+): Promise<{ state: PrinterState; problem?: string }> {
+  const isQueue = !isVirtualPrinter(printerName) && !isIppUri(printerName) && !isSocketUri(printerName);
+  return getMemberState(printerName, options, isQueue ? await getPrinters() : null);
+}
+
+/**
+ * Check the state and load of every member of a group
+ * @param group Printer group
+ * @param options Options of the printer setting
+ * @returns Members in group order
+ */
+export async function getGroupStatus(group: PrinterGroup, options: PrinterSetting['options'] = {}): Promise<GroupMemberStatus[]> {
+  const needsQueues = group.members.some(m => !isVirtualPrinter(m) && !isIppUri(m) && !isSocketUri(m));
+  const cupsPrinters = needsQueues ? await getPrinters() : null;
+  const jobs = db.getPrintJobs();
+
+  return Promise.all(group.members.map(async printerName => ({
+    printerName,
+    ...await getMemberState(printerName, options, cupsPrinters),
+    pendingJobs: jobs.filter(j => (j.status === 'sending' || j.status === 'sent') && j.printerName === printerName).length
+  })));
+}
+
+/**
+ * Pick the member of a group a job is sent to: the working member with the fewest jobs
+ * waiting, counting one more for a member that is printing. Ties go to the member that
+ * was sent a job longest ago, so idle printers take turns.
+ * @param group Printer group
+ * @param options Options of the printer setting
+ * @param exclude Members that already failed the job
+ * @returns The chosen member, or the reason none can print
+ */
+export async function choosePrinter(
+  group: PrinterGroup,
+  options: PrinterSetting['options'] = {},
+  exclude: string[] = []
+): Promise<{ printerName: string } | { error: string }> {
+  const candidates = group.members.filter(m => !exclude.includes(m));
+  if (candidates.length === 0) {
+    return {
+      error: group.members.length === 0
+        ? `Printer group "${group.name}" has no printers`
+        : `Every printer in group "${group.name}" failed this job`
+    };
+  }
+
+  const statuses = await getGroupStatus({ ...group, members: candidates }, options);
+  const healthy = statuses.filter(s => !s.problem);
+  if (healthy.length === 0) {
+    return {
+      error: `No printer in group "${group.name}" can print: ${statuses.map(s => `${s.printerName} (${s.problem})`).join(', ')}`
+    };
+  }
+
+  const lastSent = (printerName: string) => db.getPrintJobs()
+    .filter(j => j.printerName === printerName && j.sentAt)
+    .reduce((latest, j) => (j.sentAt > latest ? j.sentAt : latest), '');
+
+  const [chosen] = rankGroupMembers(healthy, lastSent);
+  console.log(`Printer group "${group.name}": chose ${chosen.printerName} (${getMemberLoad(chosen)} jobs waiting)`);
+  return { printerName: chosen.printerName };
+}
+
+/**
+ * Get the printer a printer setting prints on right now, choosing a group member for group settings
+ * @param setting Printer setting
+ * @returns Queue name or URI of the printer
+ */
+export async function resolveSettingPrinter(setting: PrinterSetting): Promise<string> {
+  if (!isGroupSetting(setting)) {
+    return setting.printerName;
+  }
+
+  const group = db.getPrinterGroup(setting.printerGroupId);
+  if (!group) {
+    throw new Error('The printer group of this printer setting no longer exists');
+  }
+  const result = await choosePrinter(group, setting.options);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.printerName;
+}
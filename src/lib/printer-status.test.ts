@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describePrinterProblem, GroupMemberStatus, rankGroupMembers } from './printer-status';
+
+const member = (printerName: string, fields: Partial<GroupMemberStatus> = {}): GroupMemberStatus => ({
+  printerName,
+  state: 'idle',
+  pendingJobs: 0,
+  ...fields
+});
+
+describe('describePrinterProblem', () => {
+  it('names the reasons that stop a printer', () => {
+    assert.equal(describePrinterProblem('idle', ['media-empty-error', 'toner-low-warning']), 'media-empty-error');
+    assert.equal(describePrinterProblem('printing', ['media-jam', 'cover-open']), 'media-jam, cover-open');
+  });
+
+  it('ignores warnings and reports', () => {
+    assert.equal(describePrinterProblem('idle', ['media-low-warning', 'marker-supply-low-report', 'none']), undefined);
+  });
+
+  it('reads the problem from the state message of a CUPS queue', () => {
+    assert.equal(describePrinterProblem('idle', [], 'Media empty or jammed'), 'Media empty or jammed');
+    assert.equal(describePrinterProblem('idle', [], 'Ready to print.'), undefined);
+  });
+
+  it('reports a stopped printer even without a reason', () => {
+    assert.equal(describePrinterProblem('stopped', [], 'Paused by admin'), 'Paused by admin');
+    assert.equal(describePrinterProblem('stopped'), 'stopped');
+  });
+});
+
+describe('rankGroupMembers', () => {
+  const neverSent = () => '';
+
+  it('puts the member with the fewest jobs waiting first', () => {
+    const ranked = rankGroupMembers([member('a', { pendingJobs: 2 }), member('b', { pendingJobs: 1 })], neverSent);
+    assert.deepEqual(ranked.map(m => m.printerName), ['b', 'a']);
+  });
+
+  it('counts a printing member as one job busier', () => {
+    const ranked = rankGroupMembers([member('a', { state: 'printing' }), member('b', { pendingJobs: 1 })], neverSent);
+    assert.deepEqual(ranked.map(m => m.printerName), ['a', 'b']);
+    const busier = rankGroupMembers([member('a', { state: 'printing', pendingJobs: 1 }), member('b', { pendingJobs: 1 })], neverSent);
+    assert.deepEqual(busier.map(m => m.printerName), ['b', 'a']);
+  });
+
+  it('sends ties to the member that was sent a job longest ago', () => {
+    const lastSent = (printerName: string) => ({ a: '2026-10-19T10:05:00.000Z', b: '2026-10-19T10:01:00.000Z' })[printerName] || '';
+    const ranked = rankGroupMembers([member('a'), member('b'), member('c')], lastSent);
+    assert.deepEqual(ranked.map(m => m.printerName), ['c', 'b', 'a']);
+  });
+
+  it('leaves the given list alone', () => {
+    const statuses = [member('a', { pendingJobs: 1 }), member('b')];
+    rankGroupMembers(statuses, neverSent);
+    assert.deepEqual(statuses.map(m => m.printerName), ['a', 'b']);
+  });
+});
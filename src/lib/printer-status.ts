@@ -0,0 +1,58 @@
+/**
+ * Printer Status Module
+ * Tells from what a printer reports whether it can print, and orders the members
+ * of a printer group by how busy they are
+ */
+import type { PrinterState } from './printers';
+
+// IPP printer-state-reasons that stop a printer from printing; "-warning" and "-report" reasons are informational
+const BLOCKING_REASON = /-error$|^media-(empty|needed|jam)|^paused|^offline|^(door|cover)-open|^stopped/;
+
+// Queue state messages of CUPS printers that cannot print, e.g. "Media empty" or "Printer not connected"
+const BLOCKING_MESSAGE = /paper|media (empty|jam|needed)|jam|error|offline|not connected|unplugged/i;
+
+export interface GroupMemberStatus {
+  printerName: string;
+  state: PrinterState;
+  // Why the member cannot print; unset when it can
+  problem?: string;
+  // Jobs sent to the member that have not completed yet
+  pendingJobs: number;
+}
+
+/**
+ * Describe what keeps a printer from printing
+ * @param state Printer state
+ * @param reasons State reasons reported by the printer
+ * @param message State message of the printer
+ * @returns The problem, or undefined when the printer can print
+ */
+export function describePrinterProblem(state: PrinterState, reasons: string[] = [], message?: string): string | undefined {
+  const blocking = reasons.filter(reason => BLOCKING_REASON.test(reason));
+  if (blocking.length > 0) return blocking.join(', ');
+  if (message && BLOCKING_MESSAGE.test(message)) return message;
+  if (state === 'stopped') return message || 'stopped';
+  return undefined;
+}
+
+/**
+ * Get how busy a member is: its jobs waiting, and one more while it is printing
+ * @param status State and pending jobs of the member
+ * @returns Number of jobs ahead of a new one
+ */
+export function getMemberLoad(status: GroupMemberStatus): number {
+  return status.pendingJobs + (status.state === 'printing' ? 1 : 0);
+}
+
+/**
+ * Order the members a job can go to, least busy first. Ties go to the member that
+ * was sent a job longest ago, so idle printers take turns.
+ * @param statuses Members that can print
+ * @param lastSent When a member was last sent a job, as an ISO timestamp; empty when never
+ * @returns The members in the order they are chosen
+ */
+export function rankGroupMembers(statuses: GroupMemberStatus[], lastSent: (printerName: string) => string): GroupMemberStatus[] {
+  return [...statuses].sort((a, b) =>
+    getMemberLoad(a) - getMemberLoad(b) || lastSent(a.printerName).localeCompare(lastSent(b.printerName))
+  );
+}
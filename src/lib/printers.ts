@@ -0,0 +1,187 @@
+/**
+ * Printer discovery module
+ * Lists the printers installed on this machine and reports the state of each queue
+ */
+import { exec } from 'child_process';
+import { platform } from 'os';
+import { promisify } from 'util';
+import { VIRTUAL_PRINTER_NAME } from './virtual-printer';
+
+const execPromise = promisify(exec);
+
+// Force untranslated lpstat output so it can be parsed on any system locale
+const CUPS_ENV = { ...process.env, LANG: 'C', LC_ALL: 'C' };
+
+export type PrinterState = 'idle' | 'printing' | 'stopped' | 'unknown';
+
+export interface PrinterInfo {
+  name: string;
+  state: PrinterState;
+  stateMessage?: string;
+  isDefault: boolean;
+  acceptingJobs: boolean;
+}
+
+/**
+ * Check whether this platform prints through CUPS (`lp`, `lpstat`)
+ * @returns True on macOS and Linux
+ */
+export function isCupsPlatform(): boolean {
+  return platform() === 'darwin' || platform() === 'linux';
+}
+
+/**
+ * Parse the output of `lpstat -p` into printer entries
+ * @param output Raw lpstat output
+ * @returns Printers with their queue state
+ */
+export function parseLpstatPrinters(output: string): PrinterInfo[] {
+  const printers: PrinterInfo[] = [];
+  let current: PrinterInfo | null = null;
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^printer (\S+) (.*)$/);
+    if (match) {
+      const [, name, rest] = match;
+      let state: PrinterState = 'unknown';
+      if (rest.startsWith('is idle')) {
+        state = 'idle';
+      } else if (rest.startsWith('now printing')) {
+        state = 'printing';
+      } else if (rest.startsWith('disabled')) {
+        state = 'stopped';
+      }
+
+      current = { name, state, isDefault: false, acceptingJobs: true };
+      printers.push(current);
+    } else if (current && /^\s+\S/.test(line)) {
+      // Indented lines carry the printer-state-message (e.g. "Paused", "Media empty")
+      const message = line.trim();
+      current.stateMessage = current.stateMessage ? `${current.stateMessage} ${message}` : message;
+    }
+  }
+
+  return printers;
+}
+
+/**
+ * Parse the output of `lpstat -a` into a map of queue name to accepting flag
+ * @param output Raw lpstat output
+ * @returns Accepting state by printer name
+ */
+export function parseLpstatAccepting(output: string): Record<string, boolean> {
+  const accepting: Record<string, boolean> = {};
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\S+) (not )?accepting requests/);
+    if (match) {
+      accepting[match[1]] = !match[2];
+    }
+  }
+
+  return accepting;
+}
+
+/**
+ * Parse the output of `lpstat -d` to get the default destination
+ * @param output Raw lpstat output
+ * @returns Default printer name or null if none is set
+ */
+export function parseLpstatDefault(output: string): string | null {
+  const match = output.match(/system default destination: (\S+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Run an lpstat command, returning empty output when it fails
+ * (lpstat exits non-zero when no printers are installed)
+ */
+async function runLpstat(args: string): Promise<string> {
+  try {
+    const { stdout } = await execPromise(`lpstat ${args}`, { env: CUPS_ENV });
+    return stdout;
+  } catch (error) {
+    console.warn(`lpstat ${args} failed:`, error.message);
+    return error.stdout || '';
+  }
+}
+
+/**
+ * List CUPS queues with their state, default flag and whether they accept jobs
+ * @returns Printers known to the local CUPS server
+ */
+async function getCupsPrinters(): Promise<PrinterInfo[]> {
+  const [printersOutput, acceptingOutput, defaultOutput] = await Promise.all([
+    runLpstat('-p'),
+    runLpstat('-a'),
+    runLpstat('-d')
+  ]);
+
+  const printers = parseLpstatPrinters(printersOutput);
+  const accepting = parseLpstatAccepting(acceptingOutput);
+  const defaultPrinter = parseLpstatDefault(defaultOutput);
+
+  return printers.map(printer => ({
+    ...printer,
+    isDefault: printer.name === defaultPrinter,
+    acceptingJobs: accepting[printer.name] ?? true
+  }));
+}
+
+/**
+ * List Windows printers. wmic does not expose the queue state in a portable way,
+ * so every printer is reported with an unknown state.
+ * @returns Installed Windows printers
+ */
+async function getWindowsPrinters(): Promise<PrinterInfo[]> {
+  try {
+    const { stdout } = await execPromise('wmic printer get name');
+
+    // Parse output, skipping the header line
+    return stdout.trim().split('\n').slice(1).map(p => p.trim()).filter(Boolean).map(name => ({
+      name,
+      state: 'unknown' as PrinterState,
+      isDefault: false,
+      acceptingJobs: true
+    }));
+  } catch (error) {
+    console.error('Error getting printers:', error);
+    return [];
+  }
+}
+
+// The virtual PDF printer is always available, also on machines without printers
+const VIRTUAL_PRINTER: PrinterInfo = {
+  name: VIRTUAL_PRINTER_NAME,
+  state: 'idle',
+  isDefault: false,
+  acceptingJobs: true
+};
+
+/**
+ * Get the system printers available on this machine together with their queue state
+ * @returns Printer list, empty on unsupported platforms or errors
+ */
+async function getSystemPrinters(): Promise<PrinterInfo[]> {
+  try {
+    if (isCupsPlatform()) {
+      return await getCupsPrinters();
+    } else if (platform() === 'win32') {
+      return await getWindowsPrinters();
+    }
+
+    console.warn('Unsupported platform for printer listing');
+    return [];
+  } catch (error) {
+    console.error('Error listing printers:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the printers available on this machine together with their queue state
+ * @returns System printers followed by the virtual PDF printer
+ */
+export async function getPrinters(): Promise<PrinterInfo[]> {
+  return [...await getSystemPrinters(), VIRTUAL_PRINTER];
+}
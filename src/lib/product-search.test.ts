@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Product } from '../database/db';
+import { buildProductSearchIndex, normalizeSearchText, searchProductIndex } from './product-search';
+
+const product = (id: string, fields: Partial<Product>): Product => ({
+  id,
+  name: '',
+  sku: '',
+  type: 'coffee',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...fields
+} as Product);
+
+const CATALOG = [
+  product('arabica', { name: 'Кава Арабіка 250 г', sku: 'COF-250', barcode: '4820000000011', category: 'Зернова' }),
+  product('robusta', { name: 'Kava Robusta 1 kg', sku: 'COF-1000', barcode: '4820000000028' }),
+  product('mint', { name: "М'ята перцева", sku: 'TEA-010', type: 'tea', barcode: '4820000000035' }),
+  product('cups', { name: 'Paper cups 250 ml', sku: 'CUP-250', type: 'supplies', partNumber: 'PC-250-W' })
+];
+const index = buildProductSearchIndex(CATALOG);
+const search = (query: string, options = {}) => searchProductIndex(index, query, options).map(result => result.product.id);
+
+describe('normalizeSearchText', () => {
+  it('compares text in lowercase Latin without accents', () => {
+    assert.equal(normalizeSearchText('Кава'), 'kava');
+    assert.equal(normalizeSearchText('Café CRÈME'), 'cafe creme');
+  });
+});
+
+describe('searchProductIndex', () => {
+  it('finds Cyrillic names by Latin queries and the other way round', () => {
+    assert.deepEqual(search('kava arabika'), ['arabica']);
+    assert.deepEqual(search('кава робуста'), ['robusta']);
+  });
+
+  it('matches words by prefix and inside longer words', () => {
+    assert.deepEqual(search('arab'), ['arabica']);
+    assert.deepEqual(search('busta'), ['robusta']);
+  });
+
+  it('forgives a typo in longer words', () => {
+    assert.deepEqual(search('robsuta'), ['robusta']);
+    assert.deepEqual(search('arabicka'), ['arabica']);
+  });
+
+  it('does not guess at numbers, so a barcode with a wrong digit finds nothing', () => {
+    assert.deepEqual(search('4820000000019'), []);
+  });
+
+  it('puts an exact SKU, barcode or part number first, whatever its separators', () => {
+    assert.equal(search('cof250')[0], 'arabica');
+    assert.deepEqual(search('4820000000028'), ['robusta']);
+    assert.equal(search('pc 250 w')[0], 'cups');
+  });
+
+  it('needs every word of the query to match', () => {
+    assert.deepEqual(search('250').sort(), ['arabica', 'cups']);
+    assert.deepEqual(search('250 paper'), ['cups']);
+    assert.deepEqual(search('kava tea'), []);
+  });
+
+  it('keeps apostrophes inside words', () => {
+    assert.deepEqual(search("м'ята"), ['mint']);
+    assert.deepEqual(search('myata'), ['mint']);
+  });
+
+  it('filters by type and limits the results', () => {
+    assert.deepEqual(search('kava', { type: 'tea' }), []);
+    assert.deepEqual(search('250', { type: 'supplies' }), ['cups']);
+    assert.equal(search('250', { limit: 1 }).length, 1);
+  });
+
+  it('returns nothing for a query without words', () => {
+    assert.deepEqual(search(''), []);
+    assert.deepEqual(search(' - , '), []);
+  });
+
+  it('highlights the matched part of each field in the original text', () => {
+    const [result] = searchProductIndex(index, 'paper cu');
+    assert.deepEqual(result.highlights, { name: [{ start: 0, end: 5 }, { start: 6, end: 8 }] });
+
+    const [code] = searchProductIndex(index, 'COF-1000');
+    assert.deepEqual(code.highlights.sku, [{ start: 0, end: 8 }]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Product Search Module
+ * Ranked search over the product catalog. Text is split into words and compared in Latin,
+ * so "кава" finds "Kava" and the other way round; words match exactly, by prefix, inside a
+ * longer word or with a typo or two. An exact SKU or barcode always comes first.
+ */
+import type { Product } from '../database/db';
+import { transliterate } from './transliterate';
+
+export type SearchField = 'name' | 'sku' | 'barcode' | 'partNumber' | 'type' | 'category';
+
+// Characters of a field value to highlight, end excluded
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface ProductSearchResult {
+  product: Product;
+  score: number;
+  // Matched parts of the field values, in the original text
+  highlights: Partial<Record<SearchField, HighlightRange[]>>;
+}
+
+export interface ProductSearchOptions {
+  // Only products of this type
+  type?: string;
+  limit?: number;
+}
+
+interface IndexedWord {
+  // Lowercase Latin form the query is compared with
+  text: string;
+  start: number;
+  end: number;
+  // Whether the Latin form has the length of the original, so a prefix can be highlighted exactly
+  sameLength: boolean;
+}
+
+interface IndexedField {
+  field: SearchField;
+  boost: number;
+  words: IndexedWord[];
+  // Value without case, spaces and punctuation, for exact code matches
+  compact: string;
+  length: number;
+}
+
+interface IndexedProduct {
+  product: Product;
+  fields: IndexedField[];
+}
+
+export interface ProductSearchIndex {
+  products: IndexedProduct[];
+}
+
+// How much a match in each field counts; codes identify a product, categories do not
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 3,
+  sku: 3,
+  barcode: 3,
+  partNumber: 2,
+  type: 1.5,
+  category: 1
+};
+
+// Fields an exact match of the whole query puts at the top
+const CODE_FIELDS: SearchField[] = ['sku', 'barcode', 'partNumber'];
+const EXACT_CODE_BONUS = 100;
+const EXACT_NAME_BONUS = 10;
+
+const MATCH_EXACT = 1;
+const MATCH_PREFIX = 0.8;
+const MATCH_INFIX = 0.5;
+const MATCH_FUZZY = 0.6;
+// Taken off a fuzzy match for every edit
+const EDIT_PENALTY = 0.15;
+
+// Letters and digits, with apostrophes inside words as in "м'ята"
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['ʼ’][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Bring text to the form words are compared in: Latin, lowercase, without accents
+ * @param text Text in any script
+ * @returns Normalized text
+ */
+export function normalizeSearchText(text: string): string {
+  return transliterate(text).toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+const compact = (text: string) => normalizeSearchText(text).replace(/[^\p{L}\p{N}]/gu, '');
+
+const splitWords = (text: string): IndexedWord[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => {
+    const word = normalizeSearchText(match[0]).replace(/['ʼ’]/g, '');
+    const start = match.index ?? 0;
+    return {
+      text: word,
+      start,
+      end: start + match[0].length,
+      sameLength: word.length === match[0].length
+    };
+  });
+
+// Typos forgiven in a query word: none in short words, where they would match almost anything
+const allowedEdits = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Edits (insertions, deletions, substitutions and swaps of neighbours) between two words,
+// or max + 1 once it is clear there are more than max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Score one query word against one word of a field
+ * @returns Match score and the part of the word to highlight, or null when they do not match
+ */
+const matchWord = (query: string, word: IndexedWord): { score: number; range: HighlightRange } | null => {
+  const whole = { start: word.start, end: word.end };
+  if (word.text === query) {
+    return { score: MATCH_EXACT, range: whole };
+  }
+  if (word.text.startsWith(query)) {
+    const end = word.sameLength ? word.start + query.length : word.end;
+    return { score: MATCH_PREFIX, range: { start: word.start, end } };
+  }
+  if (query.length >= 3) {
+    const offset = word.text.indexOf(query);
+    if (offset > 0) {
+      const range = word.sameLength ? { start: word.start + offset, end: word.start + offset + query.length } : whole;
+      return { score: MATCH_INFIX, range };
+    }
+  }
+
+  // Numbers are not guessed at: a barcode with a wrong digit is another product's barcode
+  const maxEdits = /\d/.test(query) ? 0 : allowedEdits(query.length);
+  if (maxEdits === 0) return null;
+  // A word still being typed is compared with the start of the longer word
+  const distance = Math.min(
+    editDistance(query, word.text, maxEdits),
+    word.text.length > query.length ? editDistance(query, word.text.slice(0, query.length), maxEdits) : maxEdits + 1
+  );
+  return distance <= maxEdits ? { score: MATCH_FUZZY - EDIT_PENALTY * distance, range: whole } : null;
+};
+
+// Join overlapping ranges so the text is not cut into pieces
+const mergeRanges = (ranges: HighlightRange[]): HighlightRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+/**
+ * Build the search index of a catalog
+ * @param products Products to search
+ * @returns Index for searchProductIndex
+ */
+export function buildProductSearchIndex(products: Product[]): ProductSearchIndex {
+  return {
+    products: products.map(product => ({
+      product,
+      fields: (Object.keys(FIELD_BOOSTS) as SearchField[])
+        .filter(field => typeof product[field] === 'string' && product[field])
+        .map(field => {
+          const value = product[field] as string;
+          return {
+            field,
+            boost: FIELD_BOOSTS[field],
+            words: splitWords(value),
+            compact: compact(value),
+            length: value.length
+          };
+        })
+    }))
+  };
+}
+
+/**
+ * Search the catalog. Every word of the query has to match some field; the best match of
+ * each word counts, weighted by its field
+ * @param index Index from buildProductSearchIndex
+ * @param query Text typed by the user
+ * @param options Type filter and result limit
+ * @returns Matching products, best first
+ */
+export function searchProductIndex(
+  index: ProductSearchIndex,
+  query: string,
+  options: ProductSearchOptions = {}
+): ProductSearchResult[] {
+  const queryWords = splitWords(query).map(word => word.text).filter(Boolean);
+  if (queryWords.length === 0) return [];
+  const compactQuery = compact(query);
+
+  const results: ProductSearchResult[] = [];
+  for (const { product, fields } of index.products) {
+    if (options.type && product.type !== options.type) continue;
+
+    let score = 0;
+    const ranges: Partial<Record<SearchField, HighlightRange[]>> = {};
+    let matchesAll = true;
+
+    for (const queryWord of queryWords) {
+      let best: { score: number; field: SearchField; range: HighlightRange } | null = null;
+      for (const { field, boost, words } of fields) {
+        for (const word of words) {
+          const match = matchWord(queryWord, word);
+          if (match && (!best || match.score * boost > best.score)) {
+            best = { score: match.score * boost, field, range: match.range };
+          }
+        }
+      }
+      if (!best) {
+        matchesAll = false;
+        break;
+      }
+      score += best.score;
+      (ranges[best.field] ||= []).push(best.range);
+    }
+
+    // A scanned or typed code matches as a whole, whatever its separators
+    for (const { field, compact: value, length } of fields) {
+      if (!compactQuery || value !== compactQuery) continue;
+      if (CODE_FIELDS.includes(field)) {
+        score += EXACT_CODE_BONUS;
+        ranges[field] = [{ start: 0, end: length }];
+        matchesAll = true;
+      } else if (field === 'name') {
+        score += EXACT_NAME_BONUS;
+      }
+    }
+
+    if (!matchesAll) continue;
+    const highlights = Object.fromEntries(
+      Object.entries(ranges).map(([field, fieldRanges]) => [field, mergeRanges(fieldRanges)])
+    ) as ProductSearchResult['highlights'];
+    results.push({ product, score, highlights });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name));
+  return options.limit ? results.slice(0, options.limit) : results;
+}
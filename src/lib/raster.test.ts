@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RgbaImage } from './png';
+import { ditherToBitmap, MonoBitmap, mmToDots, thresholdToBitmap } from './raster';
+
+// Image of grey pixels given row by row as [lightness, alpha] pairs
+function image(width: number, pixels: [number, number][]): RgbaImage {
+  const data = new Uint8Array(pixels.length * 4);
+  pixels.forEach(([grey, alpha], i) => data.set([grey, grey, grey, alpha], i * 4));
+  return { width, height: pixels.length / width, data };
+}
+
+const fill = (width: number, height: number, grey: number) => image(width, Array.from({ length: width * height }, () => [grey, 255]));
+
+const countBlack = (bitmap: MonoBitmap) => bitmap.data.reduce((count, byte) => {
+  let bits = 0;
+  for (let b = byte; b; b >>= 1) bits += b & 1;
+  return count + bits;
+}, 0);
+
+const BLACK: [number, number] = [0, 255];
+const WHITE: [number, number] = [255, 255];
+const CLEAR: [number, number] = [0, 0];
+
+describe('mmToDots', () => {
+  it('converts millimetres at the printer resolution', () => {
+    assert.equal(mmToDots(25.4, 203), 203);
+    assert.equal(mmToDots(50, 203), 400);
+    assert.equal(mmToDots(50, 300), 591);
+  });
+});
+
+describe('thresholdToBitmap', () => {
+  it('sets a bit for each dark dot, most significant bit first', () => {
+    const bitmap = thresholdToBitmap(image(2, [BLACK, WHITE, WHITE, BLACK]), 2, 2);
+    assert.deepEqual(bitmap, { width: 2, height: 2, bytesPerRow: 1, data: Uint8Array.from([0b10000000, 0b01000000]) });
+  });
+
+  it('pads rows to whole bytes', () => {
+    const bitmap = thresholdToBitmap(fill(10, 1, 0), 10, 1);
+    assert.equal(bitmap.bytesPerRow, 2);
+    assert.deepEqual([...bitmap.data], [0xff, 0b11000000]);
+  });
+
+  it('prints transparent pixels as the white paper', () => {
+    assert.deepEqual([...thresholdToBitmap(image(2, [CLEAR, BLACK]), 2, 1).data], [0b01000000]);
+  });
+
+  it('prints only dots darker than the threshold', () => {
+    const grey = fill(8, 1, 128);
+    assert.equal(countBlack(thresholdToBitmap(grey, 8, 1)), 0);
+    assert.equal(countBlack(thresholdToBitmap(grey, 8, 1, 200)), 8);
+  });
+
+  it('scales the image to the label keeping its aspect ratio, centred', () => {
+    // A black pixel on a 4 x 2 label becomes a 2 x 2 square in the middle
+    const bitmap = thresholdToBitmap(image(1, [BLACK]), 4, 2);
+    assert.deepEqual([...bitmap.data], [0b01100000, 0b01100000]);
+  });
+});
+
+describe('ditherToBitmap', () => {
+  it('prints black and white areas like the threshold does', () => {
+    const picture = image(2, [BLACK, WHITE, WHITE, BLACK]);
+    assert.deepEqual(ditherToBitmap(picture, 2, 2), thresholdToBitmap(picture, 2, 2));
+  });
+
+  it('prints grey as a pattern with the share of black dots of its darkness', () => {
+    const mid = ditherToBitmap(fill(16, 16, 128), 16, 16);
+    const light = ditherToBitmap(fill(16, 16, 192), 16, 16);
+    assert.ok(Math.abs(countBlack(mid) - 128) <= 8, `${countBlack(mid)} of 256 dots are black`);
+    assert.ok(Math.abs(countBlack(light) - 64) <= 8, `${countBlack(light)} of 256 dots are black`);
+    // A threshold would print all of it white
+    assert.equal(countBlack(thresholdToBitmap(fill(16, 16, 192), 16, 16)), 0);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Raster Module
+ * Renders a sticker PDF to a 1-bit bitmap at the resolution of a thermal printer,
+ * for printer languages that take bitmaps instead of PDF (TSPL, ZPL)
+ */
+import { pdfToPng } from 'pdf-to-png-converter';
+import { LabelSize } from './label-size';
+import { decodePng, RgbaImage } from './png';
+
+// Resolution of most desktop thermal label printers
+export const DEFAULT_PRINTER_DPI = 203;
+
+// Pixels darker than this (0-255) print black
+export const DEFAULT_THRESHOLD = 128;
+
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  // Rows are padded to whole bytes
+  bytesPerRow: number;
+  // Most significant bit first; a set bit is a black dot
+  data: Uint8Array;
+}
+
+export interface RasterOptions {
+  dpi?: number;
+  // Label size in mm; the page is scaled to fit it
+  labelSize: LabelSize;
+  // Turn the page a quarter turn before fitting it to the label
+  landscape?: boolean;
+  threshold?: number;
+  // Spread the error of each dot to its neighbours instead of a hard threshold, so greys print as a pattern
+  dither?: boolean;
+}
+
+/**
+ * Convert a length to printer dots
+ * @param mm Length in mm
+ * @param dpi Printer resolution
+ * @returns Whole number of dots
+ */
+export function mmToDots(mm: number, dpi: number): number {
+  return Math.round((mm / 25.4) * dpi);
+}
+
+/**
+ * Rotate an image a quarter turn clockwise
+ */
+function rotateClockwise(image: RgbaImage): RgbaImage {
+  const { width, height } = image;
+  const data = new Uint8Array(image.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (x * height + (height - 1 - y)) * 4;
+      data.set(image.data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), target);
+    }
+  }
+  return { width: height, height: width, data };
+}
+
+/**
+ * Get the lightness of a pixel composited onto white paper
+ */
+function lightness(image: RgbaImage, x: number, y: number): number {
+  const i = (y * image.width + x) * 4;
+  const alpha = image.data[i + 3] / 255;
+  const grey = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+  return grey * alpha + 255 * (1 - alpha);
+}
+
+/**
+ * Scale an image onto a label-sized grid of lightness values, keeping its aspect ratio and centering it
+ * @param image Rendered page
+ * @param width Label width in dots
+ * @param height Label height in dots
+ * @returns Lightness (0-255) of every dot, row by row
+ */
+function scaleToLabel(image: RgbaImage, width: number, height: number): Float32Array {
+  // Dots outside the scaled page stay white
+  const grey = new Float32Array(width * height).fill(255);
+  const scale = Math.min(width / image.width, height / image.height);
+  const offsetX = (width - image.width * scale) / 2;
+  const offsetY = (height - image.height * scale) / 2;
+
+  for (let y = 0; y < height; y++) {
+    // Nearest source pixel of each dot
+    const sourceY = Math.floor((y + 0.5 - offsetY) / scale);
+    if (sourceY < 0 || sourceY >= image.height) continue;
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.floor((x + 0.5 - offsetX) / scale);
+      if (sourceX < 0 || sourceX >= image.width) continue;
+      grey[y * width + x] = lightness(image, sourceX, sourceY);
+    }
+  }
+
+  return grey;
+}
+
+/**
+ * Scale an image onto a label-sized 1-bit bitmap, keeping its aspect ratio and centering it
+ * @param image Rendered page
+ * @param width Label width in dots
+ * @param height Label height in dots
+ * @param threshold Lightness below which a dot prints black
+ * @returns 1-bit bitmap of the label
+ */
+export function thresholdToBitmap(image: RgbaImage, width: number, height: number, threshold = DEFAULT_THRESHOLD): MonoBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  const grey = scaleToLabel(image, width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grey[y * width + x] < threshold) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return { width, height, bytesPerRow, data };
+}
+
+/**
+ * Scale an image onto a label-sized 1-bit bitmap with Floyd-Steinberg error diffusion,
+ * so grey areas print as a dot pattern instead of all black or all white
+ * @param image Rendered page
+ * @param width Label width in dots
+ * @param height Label height in dots
+ * @param threshold Lightness below which a dot prints black
+ * @returns 1-bit bitmap of the label
+ */
+export function ditherToBitmap(image: RgbaImage, width: number, height: number, threshold = DEFAULT_THRESHOLD): MonoBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  const grey = scaleToLabel(image, width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = grey[i] < threshold;
+      if (black) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+
+      const error = grey[i] - (black ? 0 : 255);
+      if (x + 1 < width) grey[i + 1] += error * 7 / 16;
+      if (y + 1 < height) {
+        if (x > 0) grey[i + width - 1] += error * 3 / 16;
+        grey[i + width] += error * 5 / 16;
+        if (x + 1 < width) grey[i + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { width, height, bytesPerRow, data };
+}
+
+/**
+ * Render the first page of a PDF to a 1-bit bitmap the size of the label
+ * @param pdf Sticker PDF bytes
+ * @param options Printer resolution, label size, orientation, threshold and dithering
+ * @returns 1-bit bitmap at the printer resolution
+ */
+export async function rasterizePdf(pdf: Uint8Array, options: RasterOptions): Promise<MonoBitmap> {
+  const dpi = options.dpi || DEFAULT_PRINTER_DPI;
+  const buffer = Buffer.from(pdf);
+  // PDF units are 1/72 inch, so this renders the page at the printer resolution
+  const [page] = await pdfToPng(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength), {
+    viewportScale: dpi / 72,
+    pagesToProcess: [1]
+  });
+
+  let image = decodePng(page.content);
+  if (options.landscape) {
+    image = rotateClockwise(image);
+  }
+
+  const toBitmap = options.dither ? ditherToBitmap : thresholdToBitmap;
+  return toBitmap(
+    image,
+    mmToDots(options.labelSize.width, dpi),
+    mmToDots(options.labelSize.height, dpi),
+    options.threshold ?? DEFAULT_THRESHOLD
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Raw Printing Module
+ * Prints to socket:// printers (JetDirect port 9100) by rendering the sticker into
+ * the printer's language and streaming it over TCP, bypassing the OS print queue.
+ * Payloads for printers installed as OS queues are written to a file sent as raw data.
+ */
+import * as fs from 'fs';
+import { URL } from 'url';
+import { PDFDocument } from 'pdf-lib';
+import { LabelStock, PayloadFormat, PrinterSetting } from '../../database/db';
+import { LabelSize, MM_TO_PT } from '../label-size';
+import { getTempFilePath } from '../temp-files';
+import { getPrinterLanguage, RawPrinterStatus } from './languages';
+import { DEFAULT_RAW_PORT, queryRaw, RawEndpoint, sendRaw } from './socket';
+
+export { PRINTER_LANGUAGES, RawPrinterStatus } from './languages';
+export { DEFAULT_RAW_PORT } from './socket';
+
+export interface RawPrintRequest {
+  copies: number;
+  options?: PrinterSetting['options'];
+  // Label size in mm, the size of the PDF's first page when omitted
+  labelSize?: LabelSize;
+  // Stock the labels are on, for how the printer finds each label and where it sits on the liner
+  labelStock?: LabelStock;
+  title?: string;
+}
+
+/**
+ * Check whether a printer name is a raw socket printer URI
+ * @param printerName Printer name from the settings or a job
+ * @returns True for socket://host[:port]
+ */
+export function isSocketUri(printerName: string | null | undefined): boolean {
+  return /^socket:\/\//i.test((printerName || '').trim());
+}
+
+/**
+ * Parse a socket:// URI into host and port
+ * @param uri Printer URI, e.g. socket://192.168.1.60:9100
+ * @returns Host and port, 9100 when the URI has none
+ */
+export function parseSocketUri(uri: string): RawEndpoint {
+  const parsed = new URL(uri.trim());
+  if (parsed.protocol !== 'socket:' || !parsed.hostname) {
+    throw new Error(`Invalid raw printer address: ${uri}`);
+  }
+  return { host: parsed.hostname, port: parsed.port ? parseInt(parsed.port, 10) : DEFAULT_RAW_PORT };
+}
+
+/**
+ * Check whether a payload format is printer-language data rather than a PDF
+ * @param format Payload format from the printer setting options
+ * @returns True for every payload format other than PDF
+ */
+export function isRawPayloadFormat(format: PayloadFormat | undefined): boolean {
+  return !!format && format !== 'pdf';
+}
+
+/**
+ * Render a sticker in the printer's language
+ * @param pdf Sticker PDF bytes
+ * @param request Copies, options and label size
+ * @returns Bytes to send to the printer
+ */
+export async function renderRawPayload(pdf: Uint8Array, request: RawPrintRequest): Promise<Buffer> {
+  const language = getPrinterLanguage(request.options?.payloadFormat);
+  let labelSize = request.labelSize;
+  if (!labelSize) {
+    const page = (await PDFDocument.load(pdf)).getPage(0);
+    labelSize = { width: page.getWidth() / MM_TO_PT, height: page.getHeight() / MM_TO_PT };
+  }
+
+  return language.render(pdf, {
+    copies: request.copies,
+    options: request.options || {},
+    labelSize,
+    labelStock: request.labelStock,
+    title: request.title
+  });
+}
+
+/**
+ * Render a sticker in the printer's language and send it
+ * @param uri socket:// URI of the printer
+ * @param pdf Sticker PDF bytes
+ * @param request Copies, options and label size
+ * @returns Number of bytes sent
+ */
+export async function printRaw(uri: string, pdf: Uint8Array, request: RawPrintRequest): Promise<number> {
+  const endpoint = parseSocketUri(uri);
+  const language = getPrinterLanguage(request.options?.payloadFormat);
+  const payload = await renderRawPayload(pdf, request);
+
+  await sendRaw(endpoint, payload);
+  console.log(`Sent ${payload.length} bytes of ${language.label} to ${endpoint.host}:${endpoint.port}`);
+  return payload.length;
+}
+
+/**
+ * Render a sticker in the printer's language to a temporary file, for printing
+ * through an OS queue as raw data (`lp -o raw`)
+ * @param pdfPath Sticker PDF
+ * @param request Copies, options and label size
+ * @param jobId Print job the file belongs to
+ * @returns Path to the payload file
+ */
+export async function createRawPayloadFile(pdfPath: string, request: RawPrintRequest, jobId: string): Promise<string> {
+  const format = request.options?.payloadFormat || 'pdf';
+  const payload = await renderRawPayload(fs.readFileSync(pdfPath), request);
+  const outputPath = getTempFilePath('print2-raw', jobId, format);
+  fs.writeFileSync(outputPath, payload);
+
+  console.log(`Rendered ${payload.length} bytes of ${format} for job ${jobId}: ${outputPath}`);
+  return outputPath;
+}
+
+/**
+ * Ask a raw printer for its state, if its language has a status query
+ * @param uri socket:// URI of the printer
+ * @param format Payload format the printer speaks
+ * @returns Printer state; "unknown" when the language cannot report it
+ */
+export async function queryRawPrinterStatus(uri: string, format?: PayloadFormat): Promise<RawPrinterStatus> {
+  const endpoint = parseSocketUri(uri);
+  const language = getPrinterLanguage(format);
+  if (!language.statusQuery || !language.parseStatus) {
+    // Connecting still proves the printer is reachable
+    await queryRaw(endpoint, Buffer.alloc(0));
+    return { state: 'unknown', reasons: [], message: `${language.label} printers do not report their state` };
+  }
+
+  const reply = await queryRaw(endpoint, language.statusQuery);
+  if (!reply.trim()) {
+    return { state: 'unknown', reasons: [], message: 'The printer did not answer the status query' };
+  }
+  return language.parseStatus(reply);
+}
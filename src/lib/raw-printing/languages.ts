@@ -0,0 +1,99 @@
+/**
+ * Printer Languages Module
+ * Registry of payload formats that can be sent to a printer as raw data, over a
+ * socket or through an OS queue, each turning the sticker PDF into printer-language bytes
+ */
+import { LabelStock, PayloadFormat, PrinterSetting } from '../../database/db';
+import { LabelSize } from '../label-size';
+import { tspl } from './tspl';
+import { zpl } from './zpl';
+
+export interface RawPrinterStatus {
+  state: 'idle' | 'printing' | 'stopped' | 'unknown';
+  // Problems reported by the printer, e.g. "paper out"
+  reasons: string[];
+  message?: string;
+}
+
+export interface RenderRequest {
+  copies: number;
+  options: PrinterSetting['options'];
+  // Label size in mm
+  labelSize: LabelSize;
+  labelStock?: LabelStock;
+  title?: string;
+}
+
+export interface PrinterLanguage {
+  id: PayloadFormat;
+  label: string;
+  // Build the bytes sent to the printer for a sticker PDF
+  render(pdf: Uint8Array, request: RenderRequest): Promise<Buffer>;
+  // Query that makes the printer report its state, when the language has one
+  statusQuery?: Buffer;
+  parseStatus?(reply: string): RawPrinterStatus;
+}
+
+// PJL Universal Exit Language, starts and ends every PJL job
+const UEL = '\x1b%-12345X';
+
+/**
+ * Parse the reply to `@PJL INFO STATUS`
+ * @param reply Reply text, e.g. CODE=10001 / DISPLAY="Ready" / ONLINE=TRUE
+ * @returns Printer state
+ */
+export function parsePjlStatus(reply: string): RawPrinterStatus {
+  const code = parseInt(reply.match(/CODE=(\d+)/)?.[1] || '', 10);
+  const display = reply.match(/DISPLAY="([^"]*)"/)?.[1];
+  const online = reply.match(/ONLINE=(\w+)/)?.[1];
+
+  if (Number.isNaN(code)) {
+    return { state: 'unknown', reasons: [], message: display };
+  }
+
+  // 10023/10024: printing; 3xxxx/4xxxx: operator intervention or an error (paper out, jam, door open)
+  const reasons: string[] = [];
+  let state: RawPrinterStatus['state'] = code === 10023 || code === 10024 ? 'printing' : 'idle';
+  if (code >= 30000 || online === 'FALSE') {
+    state = 'stopped';
+    reasons.push(display || `status code ${code}`);
+  }
+  return { state, reasons, message: display };
+}
+
+const pdfOverPjl: PrinterLanguage = {
+  id: 'pdf',
+  label: 'PDF (PJL)',
+  async render(pdf, request) {
+    const header = [
+      `${UEL}@PJL`,
+      `@PJL JOB NAME="${(request.title || 'Label').replace(/["\r\n]/g, '')}"`,
+      `@PJL SET COPIES=${request.copies}`,
+      '@PJL ENTER LANGUAGE=PDF',
+      ''
+    ].join('\r\n');
+    const footer = `${UEL}@PJL EOJ\r\n${UEL}`;
+    return Buffer.concat([Buffer.from(header, 'latin1'), Buffer.from(pdf), Buffer.from(footer, 'latin1')]);
+  },
+  statusQuery: Buffer.from(`${UEL}@PJL INFO STATUS\r\n${UEL}`, 'latin1'),
+  parseStatus: parsePjlStatus
+};
+
+export const PRINTER_LANGUAGES: Record<PayloadFormat, PrinterLanguage> = {
+  pdf: pdfOverPjl,
+  tspl,
+  zpl
+};
+
+/**
+ * Look up a payload format
+ * @param format Payload format from the printer setting options
+ * @returns The language, PDF when none is set
+ */
+export function getPrinterLanguage(format: PayloadFormat | undefined): PrinterLanguage {
+  const language = PRINTER_LANGUAGES[format || 'pdf'];
+  if (!language) {
+    throw new Error(`Unsupported payload format: ${format}`);
+  }
+  return language;
+}
@@ -0,0 +1,111 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { describeSocketError, queryRaw, RawEndpoint, sendRaw } from './socket';
+
+const connections = new Map<net.Server, net.Socket[]>();
+
+// Local stand-in for a printer port; the handler decides how it treats each connection
+function listen(handler: (socket: net.Socket) => void): Promise<{ endpoint: RawEndpoint; server: net.Server }> {
+  const server = net.createServer(socket => {
+    connections.get(server).push(socket);
+    handler(socket);
+  });
+  connections.set(server, []);
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ endpoint: { host: '127.0.0.1', port: (server.address() as AddressInfo).port }, server });
+    });
+  });
+}
+
+// Stop the stand-in, dropping the connections a printer would keep open
+const close = (server: net.Server) => new Promise<void>(resolve => {
+  server.close(() => resolve());
+  connections.get(server).forEach(socket => socket.destroy());
+  connections.delete(server);
+});
+
+describe('sendRaw', () => {
+  let endpoint: RawEndpoint;
+  let server: net.Server;
+  let received: Promise<Buffer>;
+
+  before(async () => {
+    ({ endpoint, server } = await listen(socket => {
+      // Like many printers, the port stays open after the job; it only collects what arrives
+      const chunks: Buffer[] = [];
+      received = new Promise(resolve => {
+        socket.on('data', chunk => chunks.push(chunk));
+        socket.on('end', () => resolve(Buffer.concat(chunks)));
+      });
+    }));
+  });
+
+  after(() => close(server));
+
+  it('finishes once the payload is flushed, without waiting for the printer to hang up', async () => {
+    const payload = Buffer.alloc(200000, 'A');
+    const startedAt = Date.now();
+    await sendRaw(endpoint, payload);
+
+    assert.ok(Date.now() - startedAt < 5000);
+    assert.deepEqual(await received, payload);
+  });
+});
+
+describe('sendRaw errors', () => {
+  it('explains a refused connection', async () => {
+    const { endpoint, server } = await listen(() => undefined);
+    await close(server);
+
+    await assert.rejects(
+      sendRaw(endpoint, Buffer.from('^XA^XZ')),
+      { message: `Printer at 127.0.0.1:${endpoint.port} refused the connection; check the port and that raw printing is enabled` }
+    );
+  });
+});
+
+describe('queryRaw', () => {
+  it('collects the reply to a status query', async () => {
+    const { endpoint, server } = await listen(socket => {
+      socket.once('data', query => {
+        assert.equal(query.toString('latin1'), '~HS');
+        socket.write('\x02030,0,0,1245,000,0,0,0,000,0,0,0\x03\r\n');
+        socket.write('\x02000,0,0,0,0,2,4,0,00000000,1,000\x03\r\n');
+      });
+    });
+    try {
+      const reply = await queryRaw(endpoint, Buffer.from('~HS', 'latin1'));
+      assert.equal(reply, '\x02030,0,0,1245,000,0,0,0,000,0,0,0\x03\r\n\x02000,0,0,0,0,2,4,0,00000000,1,000\x03\r\n');
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('returns an empty reply when the printer says nothing', async () => {
+    const { endpoint, server } = await listen(socket => socket.end());
+    try {
+      assert.equal(await queryRaw(endpoint, Buffer.from('\x1b!?', 'latin1')), '');
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe('describeSocketError', () => {
+  const endpoint = { host: 'printer.local', port: 9100 };
+  const error = (code: string): NodeJS.ErrnoException => Object.assign(new Error(code), { code });
+
+  it('says what to check for each kind of failure', () => {
+    assert.match(describeSocketError(error('ETIMEDOUT'), endpoint).message, /did not answer in time/);
+    assert.match(describeSocketError(error('EHOSTUNREACH'), endpoint).message, /unreachable from this network/);
+    assert.equal(describeSocketError(error('ENOTFOUND'), endpoint).message, 'Printer host printer.local could not be found');
+    assert.match(describeSocketError(error('EPIPE'), endpoint).message, /closed the connection while receiving the job/);
+  });
+
+  it('keeps the message of other errors', () => {
+    assert.equal(describeSocketError(error('EACCES'), endpoint).message, 'Printer at printer.local:9100: EACCES');
+  });
+});
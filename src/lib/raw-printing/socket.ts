@@ -0,0 +1,138 @@
+/**
+ * Raw Socket Module
+ * Streams printer-language payloads to JetDirect-style ports (9100) and reads replies
+ * to status queries, turning socket errors into messages operators can act on
+ */
+import * as net from 'net';
+
+export const DEFAULT_RAW_PORT = 9100;
+
+const CONNECT_TIMEOUT = 5000;
+const SEND_TIMEOUT = 30000;
+// A status reply is complete once the printer has been quiet this long
+const REPLY_IDLE_TIMEOUT = 500;
+const REPLY_TIMEOUT = 3000;
+
+export interface RawEndpoint {
+  host: string;
+  port: number;
+}
+
+/**
+ * Turn a socket error into a message that says what to check
+ * @param error Socket error
+ * @param endpoint Printer address
+ * @returns Error with a readable message
+ */
+export function describeSocketError(error: NodeJS.ErrnoException, endpoint: RawEndpoint): Error {
+  const address = `${endpoint.host}:${endpoint.port}`;
+  switch (error.code) {
+    case 'ECONNREFUSED':
+      return new Error(`Printer at ${address} refused the connection; check the port and that raw printing is enabled`);
+    case 'ETIMEDOUT':
+    case 'ECONNABORTED':
+      return new Error(`Printer at ${address} did not answer in time; check that it is switched on and connected`);
+    case 'EHOSTUNREACH':
+    case 'ENETUNREACH':
+      return new Error(`Printer at ${address} is unreachable from this network`);
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+      return new Error(`Printer host ${endpoint.host} could not be found`);
+    case 'ECONNRESET':
+    case 'EPIPE':
+      return new Error(`Printer at ${address} closed the connection while receiving the job`);
+    default:
+      return new Error(`Printer at ${address}: ${error.message}`);
+  }
+}
+
+/**
+ * Open a connection, failing after the connect timeout
+ */
+function connect(endpoint: RawEndpoint): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: endpoint.host, port: endpoint.port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      const error: NodeJS.ErrnoException = new Error('Connection timed out');
+      error.code = 'ETIMEDOUT';
+      reject(describeSocketError(error, endpoint));
+    }, CONNECT_TIMEOUT);
+
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(describeSocketError(error, endpoint));
+    });
+  });
+}
+
+/**
+ * Send a payload and close the connection once it has been handed over. Many printers keep
+ * the port open after a job, so the send is done when the data is flushed, not when the
+ * printer hangs up
+ * @param endpoint Printer address
+ * @param payload Printer-language bytes
+ */
+export async function sendRaw(endpoint: RawEndpoint, payload: Buffer): Promise<void> {
+  const socket = await connect(endpoint);
+
+  await new Promise<void>((resolve, reject) => {
+    // Only the write is timed: a printer that stops taking data never flushes it
+    const timer = setTimeout(() => {
+      const error: NodeJS.ErrnoException = new Error('Send timed out');
+      error.code = 'ETIMEDOUT';
+      socket.destroy(error);
+    }, SEND_TIMEOUT);
+
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(describeSocketError(error, endpoint));
+    });
+    // The end() callback runs once the payload is flushed and our side is closed
+    socket.end(payload, () => {
+      clearTimeout(timer);
+      socket.destroy();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Send a query and collect the reply
+ * @param endpoint Printer address
+ * @param query Status query in the printer language
+ * @returns Reply text, empty when the printer did not answer
+ */
+export async function queryRaw(endpoint: RawEndpoint, query: Buffer): Promise<string> {
+  const socket = await connect(endpoint);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let idleTimer: NodeJS.Timeout | null = null;
+
+    const finish = () => {
+      clearTimeout(overallTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      socket.destroy();
+      resolve(Buffer.concat(chunks).toString('latin1'));
+    };
+    const overallTimer = setTimeout(finish, REPLY_TIMEOUT);
+
+    socket.on('data', (chunk) => {
+      chunks.push(chunk);
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(finish, REPLY_IDLE_TIMEOUT);
+    });
+    socket.once('end', finish);
+    socket.once('error', (error) => {
+      clearTimeout(overallTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      reject(describeSocketError(error, endpoint));
+    });
+    socket.write(query);
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MonoBitmap } from '../raster';
+import { buildTsplProgram, parseTsplStatus } from './tspl';
+
+// 10 x 2 dots: the first row has its first and last dots black, the second is white
+const BITMAP: MonoBitmap = {
+  width: 10,
+  height: 2,
+  bytesPerRow: 2,
+  data: Uint8Array.from([0b10000000, 0b01000000, 0, 0])
+};
+
+const SETTINGS = { width: 50, height: 30, gap: 2, density: 8, speed: 4, copies: 3 };
+
+describe('buildTsplProgram', () => {
+  it('sets up the label and prints the bitmap', () => {
+    const text = buildTsplProgram(BITMAP, SETTINGS).toString('latin1');
+    assert.ok(text.startsWith([
+      'SIZE 50 mm,30 mm',
+      'GAP 2 mm,0 mm',
+      'DIRECTION 1,0',
+      'DENSITY 8',
+      'SPEED 4',
+      'CLS',
+      'BITMAP 0,0,2,2,0,'
+    ].join('\r\n')));
+    assert.ok(text.endsWith('\r\nPRINT 3\r\n'));
+  });
+
+  it('inverts the bitmap, as TSPL prints a dot for every cleared bit', () => {
+    const program = buildTsplProgram(BITMAP, SETTINGS);
+    const start = program.indexOf('BITMAP 0,0,2,2,0,') + 'BITMAP 0,0,2,2,0,'.length;
+    assert.deepEqual([...program.subarray(start, start + 4)], [0b01111111, 0b10111111, 0xff, 0xff]);
+  });
+
+  it('finds labels by the black mark or not at all on continuous media', () => {
+    assert.match(buildTsplProgram(BITMAP, { ...SETTINGS, sensing: 'blackMark', gap: 3 }).toString('latin1'), /\r\nBLINE 3 mm,0 mm\r\n/);
+    assert.match(buildTsplProgram(BITMAP, { ...SETTINGS, sensing: 'continuous' }).toString('latin1'), /\r\nGAP 0 mm,0 mm\r\n/);
+  });
+
+  it('shifts the label by the liner offset and rounds sizes to a tenth of a mm', () => {
+    const text = buildTsplProgram(BITMAP, { ...SETTINGS, width: 50.8, height: 25.4 * 1.25, offset: 16 }).toString('latin1');
+    assert.ok(text.startsWith('SIZE 50.8 mm,31.8 mm\r\n'));
+    assert.match(text, /\r\nREFERENCE 16,0\r\n/);
+  });
+});
+
+describe('parseTsplStatus', () => {
+  it('reads an idle or printing printer', () => {
+    assert.deepEqual(parseTsplStatus('\x00'), { state: 'idle', reasons: [] });
+    assert.deepEqual(parseTsplStatus('\x20'), { state: 'printing', reasons: [] });
+  });
+
+  it('lists every problem the status byte reports', () => {
+    assert.deepEqual(parseTsplStatus('\x05'), { state: 'stopped', reasons: ['head opened', 'out of paper'] });
+  });
+
+  it('does not know the state without a reply', () => {
+    assert.deepEqual(parseTsplStatus(''), { state: 'unknown', reasons: [] });
+  });
+});
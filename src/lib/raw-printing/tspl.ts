@@ -0,0 +1,126 @@
+/**
+ * TSPL Module
+ * Renders stickers as TSPL/TSPL2 programs for TSC and Gainscha label printers:
+ * the sticker is rasterized at the printer resolution and sent as a BITMAP
+ */
+import { LabelStock } from '../../database/db';
+import { stockLengthMm } from '../label-size';
+import { DEFAULT_PRINTER_DPI, mmToDots, MonoBitmap, rasterizePdf } from '../raster';
+import { PrinterLanguage, RawPrinterStatus } from './languages';
+
+export const DEFAULT_TSPL_DENSITY = 8;
+export const DEFAULT_TSPL_SPEED = 4;
+// Gap between die-cut labels in mm; 0 for continuous media
+export const DEFAULT_TSPL_GAP = 2;
+
+// <ESC>!? makes the printer answer with a single status byte
+const STATUS_QUERY = Buffer.from('\x1b!?', 'latin1');
+
+// Meaning of the bits of the status byte
+const STATUS_BITS: [number, string][] = [
+  [0x01, 'head opened'],
+  [0x02, 'paper jam'],
+  [0x04, 'out of paper'],
+  [0x08, 'out of ribbon'],
+  [0x10, 'paused'],
+  [0x40, 'cover opened'],
+  [0x80, 'printer error']
+];
+const PRINTING_BIT = 0x20;
+
+/**
+ * Parse the reply to the <ESC>!? status query
+ * @param reply Status byte as a latin1 string
+ * @returns Printer state
+ */
+export function parseTsplStatus(reply: string): RawPrinterStatus {
+  if (!reply) {
+    return { state: 'unknown', reasons: [] };
+  }
+  const status = reply.charCodeAt(0);
+  const reasons = STATUS_BITS.filter(([bit]) => status & bit).map(([, reason]) => reason);
+  if (reasons.length > 0) {
+    return { state: 'stopped', reasons };
+  }
+  return { state: status & PRINTING_BIT ? 'printing' : 'idle', reasons };
+}
+
+/**
+ * Format a number the way TSPL expects it (no exponent, at most one decimal)
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Build a TSPL program that prints a bitmap
+ * @param bitmap 1-bit bitmap of the whole label
+ * @param settings Label size and gap (or black mark) in mm, how labels are sensed, horizontal
+ * offset in dots, density, speed and copies
+ * @returns Program bytes
+ */
+export function buildTsplProgram(
+  bitmap: MonoBitmap,
+  settings: {
+    width: number;
+    height: number;
+    gap: number;
+    sensing?: LabelStock['sensing'];
+    offset?: number;
+    density: number;
+    speed: number;
+    copies: number;
+  }
+): Buffer {
+  const sensing = settings.sensing || 'gap';
+  const header = [
+    `SIZE ${formatNumber(settings.width)} mm,${formatNumber(settings.height)} mm`,
+    // Continuous media has no gap; black mark stock is found by the mark on the back of the liner
+    sensing === 'blackMark'
+      ? `BLINE ${formatNumber(settings.gap)} mm,0 mm`
+      : `GAP ${sensing === 'continuous' ? 0 : formatNumber(settings.gap)} mm,0 mm`,
+    ...(settings.offset ? [`REFERENCE ${settings.offset},0`] : []),
+    // Print the top of the label first, as it comes out of the printer
+    'DIRECTION 1,0',
+    `DENSITY ${settings.density}`,
+    `SPEED ${settings.speed}`,
+    'CLS',
+    `BITMAP 0,0,${bitmap.bytesPerRow},${bitmap.height},0,`
+  ].join('\r\n');
+
+  // TSPL bitmaps print a dot for every cleared bit
+  const data = Buffer.from(bitmap.data.map(byte => ~byte & 0xff));
+
+  return Buffer.concat([
+    Buffer.from(header, 'latin1'),
+    data,
+    Buffer.from(`\r\nPRINT ${settings.copies}\r\n`, 'latin1')
+  ]);
+}
+
+export const tspl: PrinterLanguage = {
+  id: 'tspl',
+  label: 'TSPL (TSC, Gainscha)',
+  async render(pdf, request) {
+    const { options, labelSize, labelStock } = request;
+    // The printer settings win over the stock definition, which wins over the defaults
+    const dpi = options.dpi || labelStock?.dpi || DEFAULT_PRINTER_DPI;
+    const bitmap = await rasterizePdf(pdf, {
+      dpi,
+      labelSize,
+      landscape: options.orientation === 'landscape'
+    });
+    return buildTsplProgram(bitmap, {
+      width: labelSize.width,
+      height: labelSize.height,
+      gap: options.gap ?? (labelStock?.gap !== undefined ? stockLengthMm(labelStock, labelStock.gap) : DEFAULT_TSPL_GAP),
+      sensing: labelStock?.sensing,
+      offset: labelStock ? mmToDots(stockLengthMm(labelStock, labelStock.linerOffset), dpi) : 0,
+      density: options.density ?? DEFAULT_TSPL_DENSITY,
+      speed: options.speed ?? DEFAULT_TSPL_SPEED,
+      copies: request.copies
+    });
+  },
+  statusQuery: STATUS_QUERY,
+  parseStatus: parseTsplStatus
+};
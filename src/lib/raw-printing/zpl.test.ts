@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MonoBitmap } from '../raster';
+import { buildZplProgram, parseZplStatus } from './zpl';
+
+// 10 x 2 dots: the first row has its first and last dots black, the second is white
+const BITMAP: MonoBitmap = {
+  width: 10,
+  height: 2,
+  bytesPerRow: 2,
+  data: Uint8Array.from([0b10000000, 0b01000000, 0, 0])
+};
+
+const SETTINGS = { darkness: 15, speed: 4, copies: 3 };
+
+// ~HS reply of an idle printer, with fields of the first and second strings replaced
+function hostStatus(first: Record<number, string> = {}, second: Record<number, string> = {}): string {
+  const fill = (fields: string[], changes: Record<number, string>) =>
+    fields.map((field, index) => changes[index] ?? field).join(',');
+  return [
+    `\x02${fill('030,0,0,1245,000,0,0,0,000,0,0,0'.split(','), first)}\x03\r\n`,
+    `\x02${fill('000,0,0,0,0,2,4,0,00000000,1,000'.split(','), second)}\x03\r\n`,
+    '\x021234,0\x03\r\n'
+  ].join('');
+}
+
+describe('buildZplProgram', () => {
+  it('sizes the label from the bitmap and sends it as a hex graphic field', () => {
+    assert.equal(buildZplProgram(BITMAP, SETTINGS), [
+      '~SD15',
+      '^XA',
+      '^PW10',
+      '^LL2',
+      '^PR4',
+      '^MNY',
+      '^LH0,0',
+      // ZPL prints a dot for every set bit, so the bitmap is sent as it is
+      '^FO0,0^GFA,4,4,2,80400000^FS',
+      '^PQ3',
+      '^XZ',
+      ''
+    ].join('\n'));
+  });
+
+  it('tracks black marks or continuous media and shifts the label by the liner offset', () => {
+    assert.match(buildZplProgram(BITMAP, { ...SETTINGS, sensing: 'blackMark', offset: 16 }), /\n\^MNM\n\^LH16,0\n/);
+    assert.match(buildZplProgram(BITMAP, { ...SETTINGS, sensing: 'continuous' }), /\n\^MNN\n/);
+  });
+
+  it('keeps darkness and speed within what the printer accepts', () => {
+    const program = buildZplProgram(BITMAP, { ...SETTINGS, darkness: 42, speed: 0.4 });
+    assert.ok(program.startsWith('~SD30\n'));
+    assert.match(program, /\n\^PR1\n/);
+    assert.ok(buildZplProgram(BITMAP, { ...SETTINGS, darkness: 4.6 }).startsWith('~SD05\n'));
+  });
+});
+
+describe('parseZplStatus', () => {
+  it('reads an idle printer', () => {
+    assert.deepEqual(parseZplStatus(hostStatus()), { state: 'idle', reasons: [] });
+  });
+
+  it('is printing while formats or labels are left', () => {
+    assert.deepEqual(parseZplStatus(hostStatus({ 4: '002' })), { state: 'printing', reasons: [] });
+    assert.deepEqual(parseZplStatus(hostStatus({}, { 8: '00000005' })), { state: 'printing', reasons: [] });
+  });
+
+  it('lists the problems, and reports a pause only when nothing else explains the stop', () => {
+    assert.deepEqual(
+      parseZplStatus(hostStatus({ 1: '1', 2: '1' }, { 2: '1' })),
+      { state: 'stopped', reasons: ['out of paper', 'head opened'] }
+    );
+    assert.deepEqual(parseZplStatus(hostStatus({ 2: '1' })), { state: 'stopped', reasons: ['paused'] });
+  });
+
+  it('does not know the state from a short or missing reply', () => {
+    assert.deepEqual(parseZplStatus(''), { state: 'unknown', reasons: [] });
+    assert.deepEqual(parseZplStatus('\x02030,0,0\x03'), { state: 'unknown', reasons: [] });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * ZPL Module
+ * Renders stickers as ZPL II labels for Zebra printers: the sticker is rasterized
+ * at the printer resolution and sent as a ^GF graphic field
+ */
+import { LabelStock } from '../../database/db';
+import { stockLengthMm } from '../label-size';
+import { DEFAULT_PRINTER_DPI, mmToDots, MonoBitmap, rasterizePdf } from '../raster';
+import { PrinterLanguage, RawPrinterStatus } from './languages';
+
+// ~SD darkness, 0-30
+export const DEFAULT_ZPL_DARKNESS = 15;
+// ^PR print speed in inches per second
+export const DEFAULT_ZPL_SPEED = 4;
+
+// ^MN media tracking mode for each way of sensing labels
+const MEDIA_TRACKING: Record<LabelStock['sensing'], string> = {
+  gap: 'Y',
+  blackMark: 'M',
+  continuous: 'N'
+};
+
+const STX = '\x02';
+const ETX = '\x03';
+
+/**
+ * Parse the reply to the ~HS host status query
+ * @param reply Three <STX>...<ETX> strings of comma-separated flags
+ * @returns Printer state
+ */
+export function parseZplStatus(reply: string): RawPrinterStatus {
+  const strings = reply
+    .split(STX)
+    .map(part => part.split(ETX)[0].trim())
+    .filter(Boolean)
+    .map(part => part.split(','));
+  if (strings.length < 2 || strings[0].length < 3 || strings[1].length < 4) {
+    return { state: 'unknown', reasons: [] };
+  }
+
+  const [first, second] = strings;
+  const flag = (value: string | undefined) => value === '1';
+  const reasons: string[] = [];
+  if (flag(first[1])) reasons.push('out of paper');
+  if (flag(second[2])) reasons.push('head opened');
+  if (flag(second[3])) reasons.push('out of ribbon');
+  if (flag(first[9])) reasons.push('memory corrupted');
+  if (flag(first[10])) reasons.push('head too cold');
+  if (flag(first[11])) reasons.push('head too hot');
+
+  // The pause flag is set after an error too, so it only explains a stop on its own
+  if (reasons.length === 0 && flag(first[2])) reasons.push('paused');
+  if (reasons.length > 0) {
+    return { state: 'stopped', reasons };
+  }
+
+  // Formats still in the receive buffer or labels left in the batch mean it is printing
+  const pending = parseInt(first[4] || '0', 10) > 0 || parseInt(second[8] || '0', 10) > 0;
+  return { state: pending ? 'printing' : 'idle', reasons };
+}
+
+/**
+ * Clamp a setting to a range and round it to a whole number
+ */
+function clampSetting(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * Build a ZPL label that prints a bitmap
+ * @param bitmap 1-bit bitmap of the whole label
+ * @param settings Darkness, print speed, how labels are sensed, horizontal offset in dots and copies
+ * @returns ZPL program
+ */
+export function buildZplProgram(
+  bitmap: MonoBitmap,
+  settings: { darkness: number; speed: number; sensing?: LabelStock['sensing']; offset?: number; copies: number }
+): string {
+  const total = bitmap.bytesPerRow * bitmap.height;
+  const hex = Buffer.from(bitmap.data).toString('hex').toUpperCase();
+
+  return [
+    `~SD${String(clampSetting(settings.darkness, 0, 30)).padStart(2, '0')}`,
+    '^XA',
+    `^PW${bitmap.width}`,
+    `^LL${bitmap.height}`,
+    `^PR${clampSetting(settings.speed, 1, 14)}`,
+    // Web (gap) sensing, mark sensing or continuous media
+    `^MN${MEDIA_TRACKING[settings.sensing || 'gap']}`,
+    `^LH${settings.offset || 0},0`,
+    `^FO0,0^GFA,${total},${total},${bitmap.bytesPerRow},${hex}^FS`,
+    `^PQ${settings.copies}`,
+    '^XZ',
+    ''
+  ].join('\n');
+}
+
+export const zpl: PrinterLanguage = {
+  id: 'zpl',
+  label: 'ZPL (Zebra)',
+  async render(pdf, request) {
+    const { options, labelSize, labelStock } = request;
+    const dpi = options.dpi || labelStock?.dpi || DEFAULT_PRINTER_DPI;
+    // ^PW and ^LL come from the label size at the printer resolution
+    const bitmap = await rasterizePdf(pdf, {
+      dpi,
+      labelSize,
+      landscape: options.orientation === 'landscape'
+    });
+    const program = buildZplProgram(bitmap, {
+      darkness: options.darkness ?? DEFAULT_ZPL_DARKNESS,
+      speed: options.speed ?? DEFAULT_ZPL_SPEED,
+      sensing: labelStock?.sensing,
+      offset: labelStock ? mmToDots(stockLengthMm(labelStock, labelStock.linerOffset), dpi) : 0,
+      copies: request.copies
+    });
+    return Buffer.from(program, 'latin1');
+  },
+  statusQuery: Buffer.from('~HS', 'latin1'),
+  parseStatus: parseZplStatus
+};
@@ -0,0 +1,128 @@
+/**
+ * Sticker Generator Module
+ * Generates a printable sticker PDF with the product name, SKU and barcode
+ * for stickers that have no PDF of their own
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import db, { PrinterSetting, Product, Sticker } from '../database/db';
+import { getStickerOutputPath } from '../database/assets';
+import { BarcodeSymbology, detectSymbology, encodeBarcode } from './barcode';
+import { drawBarcode } from './barcode/pdf';
+import { LabelSize, MM_TO_PT, parseLabelSize, resolveLabelSize, stockSizeMm } from './label-size';
+import { findStickerStock } from './label-stock';
+import { toPrintableText, wrapText } from './pdf-text';
+
+// App setting holding the symbology chosen per product type
+export const SYMBOLOGY_BY_TYPE_SETTING = 'barcodeSymbologyByType';
+
+const MARGIN_MM = 2;
+const GAP_MM = 1;
+
+/**
+ * Pick the barcode symbology for a product: the product type setting wins over the size setting,
+ * otherwise it is detected from the value
+ * @param product Product the sticker is generated for
+ * @param value Value that will be encoded
+ * @param options Printer setting options of the sticker size
+ * @returns Symbology to use
+ */
+export function chooseSymbology(product: Product, value: string, options?: PrinterSetting['options']): BarcodeSymbology {
+  const byType: Record<string, BarcodeSymbology> = db.getAppSetting(SYMBOLOGY_BY_TYPE_SETTING)?.value || {};
+  return byType[product.type] || options?.barcodeSymbology || detectSymbology(value);
+}
+
+/**
+ * Generate a sticker PDF for a product
+ * @param product Product to print
+ * @param size Label size in mm
+ * @param symbology Barcode symbology, detected from the value when omitted
+ * @returns PDF bytes
+ */
+export async function generateStickerPdf(product: Product, size: LabelSize, symbology?: BarcodeSymbology): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${product.sku} ${product.name}`);
+
+  const page = pdfDoc.addPage([size.width * MM_TO_PT, size.height * MM_TO_PT]);
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const margin = MARGIN_MM * MM_TO_PT;
+  const gap = GAP_MM * MM_TO_PT;
+  const contentWidth = page.getWidth() - margin * 2;
+  let top = page.getHeight() - margin;
+
+  // Text scales with the label so it stays readable on small and large stock
+  const nameSize = Math.max(5, Math.min(10, size.height * 0.25));
+  const skuSize = Math.max(5, nameSize * 0.8);
+
+  const nameLines = wrapText(toPrintableText(product.name || '', bold), bold, nameSize, contentWidth, 2);
+  for (const line of nameLines) {
+    top -= bold.heightAtSize(nameSize, { descender: false });
+    page.drawText(line, { x: margin, y: top, size: nameSize, font: bold, color: rgb(0, 0, 0) });
+    top -= gap;
+  }
+
+  if (product.sku) {
+    top -= regular.heightAtSize(skuSize, { descender: false });
+    page.drawText(toPrintableText(`SKU: ${product.sku}`, regular), {
+      x: margin,
+      y: top,
+      size: skuSize,
+      font: regular,
+      color: rgb(0, 0, 0)
+    });
+    top -= gap;
+  }
+
+  // Products without a barcode get their SKU encoded instead
+  const value = (product.barcode || product.sku || '').trim();
+  const barcodeHeight = top - margin;
+  if (value && barcodeHeight > 3 * MM_TO_PT) {
+    let barcode;
+    try {
+      barcode = encodeBarcode(symbology || detectSymbology(value), value);
+    } catch (error) {
+      // e.g. EAN-13 configured for a type but this product has a shorter code
+      console.warn(`Cannot encode ${value} as ${symbology}, using ${detectSymbology(value)}: ${error.message}`);
+      barcode = encodeBarcode(detectSymbology(value), value);
+    }
+    drawBarcode(page, barcode, { x: margin, y: margin, width: contentWidth, height: barcodeHeight }, {
+      font: regular,
+      fontSize: Math.max(4, Math.min(8, barcodeHeight * 0.2))
+    });
+  }
+
+  return pdfDoc.save();
+}
+
+/**
+ * Generate the PDF for a sticker that has none and store it with the downloaded PDFs.
+ * It is regenerated for every print so it always reflects the current product data.
+ * @param sticker Sticker without a PDF
+ * @param options Printer setting options of the sticker size
+ * @returns Path to the generated PDF
+ */
+export async function generateStickerPdfFile(sticker: Sticker, options?: PrinterSetting['options']): Promise<string> {
+  const product = db.getProduct(sticker.productId);
+  if (!product) {
+    throw new Error('Product not found');
+  }
+
+  // Generate at the size of the sticker's label stock, or of its declared size
+  const stock = findStickerStock(sticker);
+  const size = stock ? stockSizeMm(stock) : parseLabelSize(resolveLabelSize(sticker.size));
+  const value = (product.barcode || product.sku || '').trim();
+  const symbology = value ? chooseSymbology(product, value, options) : undefined;
+
+  const outputPath = getStickerOutputPath('generated', sticker.id);
+  if (!fs.existsSync(path.dirname(outputPath))) {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, await generateStickerPdf(product, size, symbology));
+
+  console.log(`Generated sticker PDF for ${product.sku} (${size.width}x${size.height}mm, ${symbology || 'no barcode'}): ${outputPath}`);
+  return outputPath;
+}
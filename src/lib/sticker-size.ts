@@ -0,0 +1,131 @@
+/**
+ * Sticker Size Module
+ * Reads the physical size of a sticker PDF from its page box, so stickers whose Notion
+ * size is "Standard" or wrong are still matched to the printer for their real size
+ */
+import * as fs from 'fs';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { Sticker } from '../database/db';
+import { DEFAULT_LABEL_SIZE, LabelSize, normalizeLabelSize, parseLabelSize } from './label-size';
+
+// 1pt = 25.4/72 mm
+const PT_TO_MM = 25.4 / 72;
+
+// Declared and detected sizes closer than this (in mm) are the same size; exports round differently
+const SIZE_TOLERANCE_MM = 1;
+
+export interface DetectedSize extends LabelSize {
+  // Canonical "WxH" key in mm
+  size: string;
+  // Page box the size was read from
+  box: 'TrimBox' | 'MediaBox';
+}
+
+// Lengths this close to a whole millimetre are snapped to it (49.9mm exports of a 50mm label)
+const SNAP_MM = 0.25;
+
+/**
+ * Build the canonical "WxH" key of a size in mm
+ * @param size Width and height in mm
+ * @returns e.g. "50x30" or "50.8x25.4"
+ */
+export function toSizeKey(size: LabelSize): string {
+  const round = (mm: number) => (Math.abs(mm - Math.round(mm)) <= SNAP_MM ? Math.round(mm) : Math.round(mm * 10) / 10);
+  return `${round(size.width)}x${round(size.height)}`;
+}
+
+/**
+ * Get the trimmed size of a page as it is printed
+ * @param page First page of the sticker PDF
+ * @returns Size in mm and the box it came from
+ */
+export function getPageSize(page: PDFPage): DetectedSize {
+  // The TrimBox is the finished label; without one the MediaBox is the whole page
+  const box = page.node.TrimBox() ? 'TrimBox' : 'MediaBox';
+  const { width, height } = box === 'TrimBox' ? page.getTrimBox() : page.getMediaBox();
+
+  // A page rotated a quarter turn is displayed and printed with its sides swapped
+  const rotated = Math.abs(page.getRotation().angle) % 180 === 90;
+  const size = {
+    width: Math.round((rotated ? height : width) * PT_TO_MM * 10) / 10,
+    height: Math.round((rotated ? width : height) * PT_TO_MM * 10) / 10
+  };
+  return { ...size, size: toSizeKey(size), box };
+}
+
+/**
+ * Detect the size of a sticker PDF from its first page
+ * @param pdfPath Path to the sticker PDF
+ * @returns Detected size, or null when the file cannot be read
+ */
+export async function detectPdfSize(pdfPath: string): Promise<DetectedSize | null> {
+  try {
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(pdfPath), { ignoreEncryption: true });
+    if (pdfDoc.getPageCount() === 0) return null;
+    return getPageSize(pdfDoc.getPage(0));
+  } catch (error) {
+    console.warn(`Could not read the page size of ${pdfPath}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Check whether two sizes are the same label, allowing for how differently exports round
+ * @param a Size in mm
+ * @param b Size in mm
+ * @returns True when both sides differ by no more than SIZE_TOLERANCE_MM
+ */
+export function isSameLabelSize(a: LabelSize, b: LabelSize): boolean {
+  return Math.abs(a.width - b.width) <= SIZE_TOLERANCE_MM && Math.abs(a.height - b.height) <= SIZE_TOLERANCE_MM;
+}
+
+/**
+ * Check whether a declared size disagrees with the detected one
+ * @param declared Size text from Notion, e.g. "50x30mm" or "Standard"
+ * @param detected Size detected from the PDF
+ * @returns True when the declared text is a WxH size that differs from the PDF; text without a size is not a mismatch
+ */
+export function isSizeMismatch(declared: string | null | undefined, detected: LabelSize): boolean {
+  const parsed = parseLabelSize(declared);
+  if (!parsed) return false;
+  return !isSameLabelSize(parsed, detected);
+}
+
+/**
+ * Detect the size of a sticker's PDF and compare it with the declared size
+ * @param pdfPath Path to the sticker PDF, if it has one
+ * @param declared Size text from Notion
+ * @returns Fields to store on the sticker, cleared when there is no readable PDF
+ */
+export async function detectStickerSize(
+  pdfPath: string | null | undefined,
+  declared: string | null | undefined
+): Promise<Pick<Sticker, 'detectedSize' | 'sizeMismatch'>> {
+  if (!pdfPath || !fs.existsSync(pdfPath)) return { detectedSize: undefined, sizeMismatch: undefined };
+
+  const detected = await detectPdfSize(pdfPath);
+  if (!detected) return { detectedSize: undefined, sizeMismatch: undefined };
+
+  const sizeMismatch = isSizeMismatch(declared, detected);
+  if (sizeMismatch) {
+    console.warn(`Sticker size "${declared}" does not match its PDF (${detected.size}mm ${detected.box})`);
+  }
+  return { detectedSize: detected.size, sizeMismatch };
+}
+
+/**
+ * Get the size a sticker is printed at: the size detected from its PDF, otherwise the declared size.
+ * Only stickers generated from their product fall back to the default label size; one printed
+ * from its own PDF on the default printer would come out at the wrong size
+ * @param sticker Sticker
+ * @param hasPdf Whether the sticker is printed from its own PDF
+ * @returns Normalized "WxH" size, or null when the size of a sticker with a PDF is unknown
+ */
+export function resolveStickerSize(
+  sticker: Pick<Sticker, 'size' | 'detectedSize' | 'localPdfPath' | 'pdfUrl'>,
+  hasPdf = !!(sticker.localPdfPath || sticker.pdfUrl)
+): string | null {
+  if (sticker.detectedSize) return normalizeLabelSize(sticker.detectedSize);
+  if (parseLabelSize(sticker.size)) return normalizeLabelSize(sticker.size);
+  return hasPdf ? null : DEFAULT_LABEL_SIZE;
+}
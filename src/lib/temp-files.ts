@@ -0,0 +1,75 @@
+/**
+ * Temporary Files Module
+ * Copies of a sticker written while a print is prepared (e.g. stamped with overlay values)
+ * go into folders of the system temp directory, named after the job they belong to. They are
+ * removed once the job has been sent or has failed, and whatever a session left behind when
+ * it quit is removed when the app starts.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Folders of the temp directory print files are written into
+const TEMP_FOLDERS = ['print2-overlays', 'print2-imposed', 'print2-raw', 'print2-calibrated', 'print2-calibration'] as const;
+
+export type TempFolder = typeof TEMP_FOLDERS[number];
+
+// The system temp directory, which is also what Electron reports as the app's temp path
+const getFolderPath = (folder: TempFolder) => path.join(os.tmpdir(), folder);
+
+/**
+ * Get the path a temporary print file is written to, creating its folder
+ * @param folder Temp folder of the kind of file
+ * @param fileId Job ID or other name the file belongs to
+ * @param extension File extension without the dot
+ * @returns Absolute path of the file
+ */
+export function getTempFilePath(folder: TempFolder, fileId: string, extension = 'pdf'): string {
+  const directory = getFolderPath(folder);
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+  return path.join(directory, `${fileId}.${extension}`);
+}
+
+/**
+ * Delete files of the temp folders, skipping the ones already gone
+ * @param filter Which files to delete, by file name
+ * @returns Number of files deleted
+ */
+function removeFiles(filter: (fileName: string) => boolean): number {
+  let removed = 0;
+  for (const folder of TEMP_FOLDERS) {
+    const directory = getFolderPath(folder);
+    if (!fs.existsSync(directory)) continue;
+    for (const fileName of fs.readdirSync(directory).filter(filter)) {
+      try {
+        fs.unlinkSync(path.join(directory, fileName));
+        removed++;
+      } catch (error) {
+        console.warn(`Failed to delete temporary file ${fileName}:`, error.message);
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Delete the temporary files written for a job, once it has been sent or has failed
+ * @param fileId Job ID or other name the files were written under
+ */
+export function removeTempFiles(fileId: string): void {
+  removeFiles(fileName => path.parse(fileName).name === fileId);
+}
+
+/**
+ * Empty the temp folders, removing the files of prints a previous session did not finish
+ * @returns Number of files deleted
+ */
+export function purgeTempFiles(): number {
+  const removed = removeFiles(() => true);
+  if (removed > 0) {
+    console.log(`Deleted ${removed} temporary print files left by the previous session`);
+  }
+  return removed;
+}
@@ -0,0 +1,230 @@
+/**
+ * Thermal Preview Module
+ * Shows what a thermal head will actually print: the sticker is laid out with the
+ * printer's scaling, margins, orientation and calibration, rendered at the printer
+ * resolution and reduced to black and white dots, and its barcodes are checked for
+ * bars too thin to survive
+ */
+import { PDFDocument } from 'pdf-lib';
+import { LabelStock, PrinterSetting } from '../database/db';
+import { applyCalibration, hasCalibration } from './calibration';
+import { LabelSize, MM_TO_PT } from './label-size';
+import { encodeMonoPng } from './png';
+import { DEFAULT_PRINTER_DPI, DEFAULT_THRESHOLD, mmToDots, MonoBitmap, rasterizePdf } from './raster';
+import { isRawPayloadFormat } from './raw-printing';
+import { renderPrintedPdf, resolvePrintOptions } from './print-layout';
+
+// Bars and spaces narrower than this many dots merge or break on a thermal head
+const MIN_BAR_DOTS = 2;
+// Narrowest bar most scanners read reliably
+const MIN_BAR_MM = 0.19;
+// A run of this many bars in a row is taken for a barcode rather than text
+const MIN_BARCODE_BARS = 15;
+
+export interface BarcodeReadability {
+  // Bars in the longest barcode found
+  bars: number;
+  // Narrowest bar and space in dots
+  narrowestBar: number;
+  narrowestSpace: number;
+  // Narrowest bar or space in mm
+  narrowestMm: number;
+  readable: boolean;
+  message?: string;
+}
+
+export interface ThermalPreview {
+  // Data URL of a black and white PNG, one pixel per printer dot
+  image: string;
+  dpi: number;
+  // Printed size in mm, for showing the preview at true size
+  width: number;
+  height: number;
+  // Readability of the 1D barcode on the label, null when none was found
+  barcode: BarcodeReadability | null;
+}
+
+export interface ThermalPreviewOptions {
+  // Printer resolution; the printer setting or label stock resolution when not set
+  dpi?: number;
+  threshold?: number;
+  dither?: boolean;
+}
+
+function isBlack(bitmap: MonoBitmap, x: number, y: number): boolean {
+  return (bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+}
+
+/**
+ * Split a row of a bitmap into runs of black and white dots
+ */
+function getRuns(bitmap: MonoBitmap, y: number): { black: boolean; start: number; length: number }[] {
+  const runs: { black: boolean; start: number; length: number }[] = [];
+  for (let x = 0; x < bitmap.width; x++) {
+    const black = isBlack(bitmap, x, y);
+    const last = runs[runs.length - 1];
+    if (last && last.black === black) {
+      last.length++;
+    } else {
+      runs.push({ black, start: x, length: 1 });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Check whether a stretch of a row repeats above and below it, as barcode bars do and text does not:
+ * the same number of bars, starting and ending at the same dots. Bars are counted rather than compared
+ * dot by dot, since dithering scatters the dots along their edges.
+ */
+function isRepeatedVertically(bitmap: MonoBitmap, y: number, start: number, end: number, bars: number, distance: number): boolean {
+  if (y - distance < 0 || y + distance >= bitmap.height) return false;
+  const edgeTolerance = 2;
+
+  return [y - distance, y + distance].every(row => {
+    let count = 0;
+    let first = -1;
+    let last = -1;
+    for (let x = Math.max(0, start - edgeTolerance); x < Math.min(bitmap.width, end + edgeTolerance); x++) {
+      if (!isBlack(bitmap, x, row)) continue;
+      if (x === 0 || !isBlack(bitmap, x - 1, row)) count++;
+      if (first === -1) first = x;
+      last = x;
+    }
+    return Math.abs(count - bars) <= bars * 0.2
+      && Math.abs(first - start) <= edgeTolerance
+      && Math.abs(last + 1 - end) <= edgeTolerance;
+  });
+}
+
+/**
+ * Swap the rows and columns of a bitmap, so barcodes printed sideways can be read row by row
+ */
+function transpose(bitmap: MonoBitmap): MonoBitmap {
+  const bytesPerRow = Math.ceil(bitmap.height / 8);
+  const data = new Uint8Array(bytesPerRow * bitmap.width);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (isBlack(bitmap, x, y)) data[x * bytesPerRow + (y >> 3)] |= 0x80 >> (y & 7);
+    }
+  }
+  return { width: bitmap.height, height: bitmap.width, bytesPerRow, data };
+}
+
+/**
+ * Find the 1D barcode with the most bars in the rows of a bitmap
+ */
+function findBarcodeBars(bitmap: MonoBitmap, dpi: number): { bars: number; narrowestBar: number; narrowestSpace: number } | null {
+  // Bars and spaces of a barcode are at most four modules wide
+  const maxRun = mmToDots(2, dpi);
+  // Barcodes are at least a few mm tall; lines of small text are not
+  const distance = mmToDots(1.5, dpi);
+  let best: { bars: number; narrowestBar: number; narrowestSpace: number } | null = null;
+
+  for (let y = 0; y < bitmap.height; y += Math.max(1, mmToDots(0.5, dpi))) {
+    const runs = getRuns(bitmap, y);
+    let i = 0;
+    while (i < runs.length) {
+      // A barcode is a stretch of narrow runs from its first black bar to its last
+      if (!runs[i].black || runs[i].length > maxRun) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j + 1 < runs.length && runs[j + 1].length <= maxRun) j++;
+      if (!runs[j].black) j--;
+
+      const stretch = runs.slice(i, j + 1);
+      const bars = stretch.filter(run => run.black);
+      const spaces = stretch.filter(run => !run.black);
+      const end = runs[j].start + runs[j].length;
+      if (bars.length >= MIN_BARCODE_BARS && (!best || bars.length > best.bars)
+        && isRepeatedVertically(bitmap, y, runs[i].start, end, bars.length, distance)) {
+        best = {
+          bars: bars.length,
+          narrowestBar: Math.min(...bars.map(run => run.length)),
+          narrowestSpace: spaces.length > 0 ? Math.min(...spaces.map(run => run.length)) : 0
+        };
+      }
+      i = j + 2;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the 1D barcode on a label, upright or sideways, and check that its bars will print
+ * @param bitmap Label at the printer resolution
+ * @param dpi Printer resolution
+ * @returns Width of the narrowest bars and spaces, or null when the label has no barcode
+ */
+export function analyzeBarcode(bitmap: MonoBitmap, dpi: number): BarcodeReadability | null {
+  const upright = findBarcodeBars(bitmap, dpi);
+  const sideways = findBarcodeBars(transpose(bitmap), dpi);
+  const best = upright && (!sideways || upright.bars >= sideways.bars) ? upright : sideways;
+  if (!best) return null;
+
+  const narrowest = Math.min(best.narrowestBar, best.narrowestSpace || best.narrowestBar);
+  const narrowestMm = Math.round(narrowest / dpi * 25.4 * 100) / 100;
+  let message: string | undefined;
+  if (narrowest < MIN_BAR_DOTS) {
+    message = `The narrowest barcode ${best.narrowestBar <= best.narrowestSpace ? 'bars' : 'spaces'} are ${narrowest} dot wide at ${dpi} dpi and will merge or break. Print the barcode larger or at a higher resolution.`;
+  } else if (narrowestMm < MIN_BAR_MM) {
+    message = `The narrowest barcode bars are ${narrowestMm}mm wide; scanners may not read bars under ${MIN_BAR_MM}mm. Print the barcode larger.`;
+  }
+
+  return { ...best, narrowestMm, readable: !message, message };
+}
+
+/**
+ * Render a sticker the way a thermal printer prints it
+ * @param pdf Sticker PDF bytes
+ * @param options Options of the printer setting
+ * @param labelSize Size of one label in mm
+ * @param labelStock Stock of the label, for its resolution
+ * @param previewOptions Resolution, threshold and dithering of the preview
+ * @returns Black and white preview with its printed size and barcode check
+ */
+export async function renderThermalPreview(
+  pdf: Uint8Array,
+  options: PrinterSetting['options'] = {},
+  labelSize: LabelSize,
+  labelStock?: LabelStock,
+  previewOptions: ThermalPreviewOptions = {}
+): Promise<ThermalPreview> {
+  const dpi = previewOptions.dpi || options.dpi || labelStock?.dpi || DEFAULT_PRINTER_DPI;
+  let document = pdf;
+  if (hasCalibration(options.calibration)) {
+    document = await applyCalibration(document, options.calibration);
+  }
+
+  // Printer languages fit the page to the label themselves; driver queues lay it out on the media
+  // with the orientation, scaling and margins of the printer setting
+  const raw = isRawPayloadFormat(options.payloadFormat);
+  if (!raw) {
+    const firstPage = (await PDFDocument.load(document)).getPage(0).getSize();
+    const resolved = resolvePrintOptions(options, labelSize, {
+      width: firstPage.width / MM_TO_PT,
+      height: firstPage.height / MM_TO_PT
+    });
+    document = await renderPrintedPdf(document, resolved);
+    labelSize = { width: resolved.media.width, height: resolved.media.height };
+  }
+
+  const bitmap = await rasterizePdf(document, {
+    dpi,
+    labelSize,
+    landscape: raw && options.orientation === 'landscape',
+    threshold: previewOptions.threshold ?? DEFAULT_THRESHOLD,
+    dither: previewOptions.dither
+  });
+
+  return {
+    image: `data:image/png;base64,${encodeMonoPng(bitmap).toString('base64')}`,
+    dpi,
+    width: Math.round(bitmap.width / dpi * 25.4 * 10) / 10,
+    height: Math.round(bitmap.height / dpi * 25.4 * 10) / 10,
+    barcode: analyzeBarcode(bitmap, dpi)
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Transliteration Module
+ * Converts Ukrainian and Russian Cyrillic to Latin using the Ukrainian national transliteration table
+ */
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'h', ґ: 'g', д: 'd', е: 'e', є: 'ie', ж: 'zh', з: 'z',
+  и: 'y', і: 'i', ї: 'i', й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p',
+  р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ь: '', ю: 'iu', я: 'ia',
+  // Russian letters not used in Ukrainian
+  ё: 'io', ы: 'y', э: 'e', ъ: ''
+};
+
+// Iotated letters are spelled differently at the start of a word
+const WORD_START: Record<string, string> = { є: 'ye', ї: 'yi', й: 'y', ю: 'yu', я: 'ya' };
+
+const APOSTROPHES = ["'", 'ʼ', '’'];
+const isCyrillic = (char: string | undefined) => !!char && /[\u0400-\u04ff]/.test(char);
+
+/**
+ * Transliterate Cyrillic text to Latin, keeping the case of each letter
+ * @param text Text to transliterate
+ * @returns Latin text; characters without a mapping are kept as they are
+ */
+export function transliterate(text: string): string {
+  const chars = Array.from(text);
+
+  return chars.map((char, index) => {
+    // The apostrophe inside a Cyrillic word (e.g. "м'ята") is dropped
+    if (APOSTROPHES.includes(char) && isCyrillic(chars[index - 1]) && isCyrillic(chars[index + 1])) {
+      return '';
+    }
+
+    const lower = char.toLowerCase();
+    // Look past a dropped apostrophe, "Знам'янка" is still one word
+    const before = APOSTROPHES.includes(chars[index - 1]) ? chars[index - 2] : chars[index - 1];
+    const previous = (before || '').toLowerCase();
+    let latin = CYRILLIC_TO_LATIN[lower];
+    if (latin === undefined) return char;
+
+    if (WORD_START[lower] && !/\p{L}/u.test(previous)) {
+      latin = WORD_START[lower];
+    } else if (lower === 'г' && previous === 'з') {
+      // "зг" is written "zgh" to tell it apart from "ж"
+      latin = 'gh';
+    }
+
+    return char === lower ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+  }).join('');
+}
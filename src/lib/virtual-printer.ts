@@ -0,0 +1,101 @@
+/**
+ * Virtual Printer Module
+ * A "PDF Output" printer that writes the document exactly as it would be printed
+ * (media size, orientation, scaling and margins applied) into a folder, together
+ * with a JSON sidecar of the resolved options. Used to test printer settings without
+ * label stock and as an archive of printed labels.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { PDFDocument } from 'pdf-lib';
+import db, { PrinterSetting } from '../database/db';
+import { LabelSize, MM_TO_PT } from './label-size';
+import { renderPrintedPdf, resolvePrintOptions } from './print-layout';
+
+export const VIRTUAL_PRINTER_NAME = 'PDF Output (virtual)';
+
+// App setting holding the folder the virtual printer writes to
+export const VIRTUAL_PRINTER_FOLDER_SETTING = 'virtualPrinterFolder';
+
+export interface VirtualPrintRequest {
+  filePath: string;
+  copies: number;
+  options?: PrinterSetting['options'];
+  // Label size in mm used when no media is set
+  labelSize?: LabelSize;
+  jobId?: string;
+  title?: string;
+}
+
+/**
+ * Check whether a printer name refers to the virtual PDF printer
+ * @param printerName Printer name from the settings or a job
+ * @returns True for the virtual printer
+ */
+export function isVirtualPrinter(printerName: string | null | undefined): boolean {
+  return printerName === VIRTUAL_PRINTER_NAME;
+}
+
+/**
+ * Get the folder the virtual printer writes to
+ * @returns Folder from the app settings, or "print2-output" in the documents folder
+ */
+export function getVirtualPrinterFolder(): string {
+  const folder = db.getAppSetting(VIRTUAL_PRINTER_FOLDER_SETTING)?.value;
+  return typeof folder === 'string' && folder.trim()
+    ? folder.trim()
+    : path.join(app.getPath('documents'), 'print2-output');
+}
+
+/**
+ * Make a string safe to use in a file name
+ */
+function toFileName(text: string): string {
+  return text.replace(/[^\p{L}\p{N}._-]+/gu, '_').replace(/^_+|_+$/g, '').slice(0, 80) || 'document';
+}
+
+/**
+ * "Print" a document to the virtual printer folder
+ * @param request File, copies and options of the print
+ * @returns Paths of the written PDF and JSON sidecar
+ */
+export async function printToVirtualPrinter(request: VirtualPrintRequest): Promise<{ pdfPath: string; sidecarPath: string }> {
+  const folder = getVirtualPrinterFolder();
+  if (!fs.existsSync(folder)) {
+    fs.mkdirSync(folder, { recursive: true });
+  }
+
+  const sourceBytes = fs.readFileSync(request.filePath);
+  const source = await PDFDocument.load(sourceBytes);
+  const firstPage = source.getPage(0).getSize();
+  const resolved = resolvePrintOptions(request.options, request.labelSize, {
+    width: firstPage.width / MM_TO_PT,
+    height: firstPage.height / MM_TO_PT
+  });
+
+  const printedAt = new Date();
+  const baseName = [
+    printedAt.toISOString().replace(/[:.]/g, '-'),
+    toFileName(request.title || path.basename(request.filePath, path.extname(request.filePath)))
+  ].join('_');
+  const pdfPath = path.join(folder, `${baseName}.pdf`);
+  const sidecarPath = path.join(folder, `${baseName}.json`);
+
+  fs.writeFileSync(pdfPath, await renderPrintedPdf(sourceBytes, resolved));
+  fs.writeFileSync(sidecarPath, JSON.stringify({
+    printedAt: printedAt.toISOString(),
+    printerName: VIRTUAL_PRINTER_NAME,
+    jobId: request.jobId,
+    title: request.title,
+    sourceFile: request.filePath,
+    pages: source.getPageCount(),
+    copies: request.copies,
+    labelSize: request.labelSize,
+    options: request.options || {},
+    resolved
+  }, null, 2));
+
+  console.log(`Virtual printer wrote ${request.copies} x ${pdfPath}`);
+  return { pdfPath, sidecarPath };
+}
@@ -1,9 +1,10 @@
-import { app, BrowserWindow, ipcMain, dialog, protocol, Menu, WebContents, globalShortcut } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, protocol, Menu, WebContents, globalShortcut, shell, Notification } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec, execFile } from 'child_process';
+import { execFile } from 'child_process';
 import { platform } from 'os';
-import db from '../database/db';
+import db, { PayloadFormat, PrinterSetting, Sticker } from '../database/db';
+import { ValidationError } from '../database/schema';
 import * as https from 'https';
 import * as http from 'http';
 import { URL } from 'url';
@@ -11,6 +12,39 @@ import * as googleDrive from '../lib/google-drive';
 import { syncWithNotion } from '../lib/notion';
 import * as querystring from 'querystring';
 import logger, { initLogger, updateLoggerSettings } from '../lib/logger';
+import { getPrinters, isCupsPlatform } from '../lib/printers';
+import { buildLpCommand, buildWindowsPrintCommand, marginsToMm, PrintCommand, WINDOWS_PRINT_SCRIPT } from '../lib/print-command';
+import { getIppPrinterAttributes, isIppUri, printIppJob } from '../lib/ipp';
+import { getPrinterCapabilities, validatePrinterOptions } from '../lib/printer-capabilities';
+import { createRawPayloadFile, isRawPayloadFormat, isSocketUri, printRaw, queryRawPrinterStatus, renderRawPayload } from '../lib/raw-printing';
+import { parseLabelSize, parseMediaSize, resolveLabelSize, resolveMediaSize, stockSizeMm } from '../lib/label-size';
+import { createCalibratedPdf, generateCalibrationPage, hasCalibration } from '../lib/calibration';
+import { renderThermalPreview, ThermalPreviewOptions } from '../lib/thermal-preview';
+import { findPrinterSettingStock, findStickerStock, validateLabelStock } from '../lib/label-stock';
+import { resolveStickerSize } from '../lib/sticker-size';
+import { getGroupStatus, isGroupSetting, resolveSettingPrinter, validatePrinterGroup } from '../lib/printer-groups';
+import {
+  getVirtualPrinterFolder,
+  isVirtualPrinter,
+  printToVirtualPrinter,
+  VIRTUAL_PRINTER_FOLDER_SETTING
+} from '../lib/virtual-printer';
+import { renderLabelTemplate, validateLabelTemplate } from '../lib/label-template';
+import { createPdfPreviewDataUrl } from '../lib/pdf-utils';
+import { getTempFilePath, purgeTempFiles, removeTempFiles } from '../lib/temp-files';
+import {
+  enqueuePrintJob,
+  retryPrintJob,
+  cancelPrintJob,
+  clearFinishedPrintJobs,
+  getPrintJobs,
+  prepareStickerPdf,
+  resolvePrintTarget,
+  resolveStickerPdfPath,
+  resumePrintQueue,
+  setPrinterFailoverListener,
+  setPrintProgressListener
+} from '../lib/print-queue';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (require('electron-squirrel-startup')) {
@@ -81,9 +115,17 @@ const createWindow = async (): Promise<void> => {
 // This method will be called when Electron has finished initialization
 // and is ready to create browser windows.
 app.whenReady().then(async () => {
-  // Initialize database
-  db.initDatabase();
-  
+  // Initialize database; running on a database that failed to upgrade would corrupt it further
+  if (!db.initDatabase()) {
+    dialog.showErrorBox(
+      'Database error',
+      `The database in ${path.join(app.getPath('userData'), 'db')} could not be opened or upgraded and was left unchanged. ` +
+      'A copy from before the last upgrade is kept there as database.pre-upgrade.sqlite.'
+    );
+    app.quit();
+    return;
+  }
+
   // Initialize logger
   await initLogger();
   logger.info('Application started');
@@ -100,9 +142,30 @@ app.whenReady().then(async () => {
   // Set up IPC handlers for debug operations
   setupDebugIpcHandlers();
   
+  // Forward print job updates to the renderer
+  setPrintProgressListener(job => {
+    mainWindow?.webContents.send('print-progress', job);
+  });
+  
+  // Tell the operator when a printer of a group stops and its jobs move to the others,
+  // with a system notification in case the window is hidden behind other work
+  setPrinterFailoverListener(failover => {
+    mainWindow?.webContents.send('printer-failover', failover);
+    if (Notification.isSupported()) {
+      new Notification({
+        title: `${failover.printerName} stopped`,
+        body: `${failover.reason}. ${failover.jobIds.length} ${failover.jobIds.length === 1 ? 'job moves' : 'jobs move'} to the other printers in "${failover.groupName}".`
+      }).show();
+    }
+  });
+  
   // Create window
   createWindow();
   
+  // Continue jobs left over from the previous session, after clearing the files of the prints it was preparing
+  purgeTempFiles();
+  await resumePrintQueue();
+  
   // Register global keyboard shortcuts
   globalShortcut.register('F11', () => {
     if (mainWindow) {
@@ -171,92 +234,99 @@ const downloadedPdfsPath = path.join(downloadsPath, 'pdfs');
 
 // Use path.join to ensure correct path resolution for native modules
 
-// IPC handlers for printing
-ipcMain.handle('print-pdf', async (event, { filePath, printerName, copies = 1, options = {} }) => {
-  return new Promise((resolve, reject) => {
+// Upper bound for copies in a single sticker print job
+const MAX_PRINT_COPIES = 999;
+
+/**
+ * Print a PDF file on any kind of printer
+ * @param request File, printer, copies and printer setting options
+ * @returns Result message once the printer or spooler has the job
+ */
+async function printPdfFile(
+  { filePath, printerName, copies = 1, options = {} }: { filePath: string; printerName: string; copies?: number; options?: PrinterSetting['options'] }
+): Promise<{ success: boolean; message: string }> {
+  // Calibrated and raw copies of the file are written under this name and deleted once the job is sent
+  const fileId = `print_${Date.now()}`;
+  // Calibration of the printer is applied last, to exactly what is sent
+  if (hasCalibration(options.calibration)) {
+    filePath = await createCalibratedPdf(filePath, options.calibration, fileId);
+  }
+
+  return new Promise<{ success: boolean; message: string }>((resolve, reject) => {
     try {
-      let command = '';
+      let command: PrintCommand;
       let tempScriptPath = ''; // For Windows temporary script
       
-      if (platform() === 'darwin') {
-        // macOS printing using lp
-        command = `lp -d "${printerName}" -n ${copies}`;
-        
-        // Add options if provided
-        if (options.media) {
-          command += ` -o media=${options.media}`;
-        }
-        
-        if (options.orientation) {
-          command += ` -o orientation-requested=${options.orientation}`;
-        }
-        
-        if (options.fitToPage !== undefined) {
-          command += ` -o fit-to-page`;
-        }
-        
-        if (options.printScaling) {
-          command += ` -o print-scaling=${options.printScaling}`;
+      if (isVirtualPrinter(printerName)) {
+        printToVirtualPrinter({ filePath, copies: Number(copies), options })
+          .then(({ pdfPath }) => resolve({ success: true, message: `Saved to ${pdfPath}` }))
+          .catch(reject);
+        return;
+      } else if (isSocketUri(printerName)) {
+        printRaw(printerName, fs.readFileSync(filePath), {
+          copies: Number(copies),
+          options,
+          labelSize: resolveMediaSize(options.media, undefined) || undefined,
+          title: path.basename(filePath)
+        })
+          .then(() => resolve({ success: true, message: 'Print job sent to printer' }))
+          .catch(reject);
+        return;
+      } else if (isIppUri(printerName)) {
+        printIppJob(printerName, fs.readFileSync(filePath), {
+          copies: Number(copies),
+          media: resolveMediaSize(options.media, undefined) || undefined,
+          orientation: options.orientation,
+          printScaling: options.printScaling,
+          margins: options.margins ? marginsToMm(options.margins) : undefined,
+          jobName: path.basename(filePath)
+        })
+          .then(() => resolve({ success: true, message: 'Print job sent to printer' }))
+          .catch(reject);
+        return;
+      } else if (isRawPayloadFormat(options.payloadFormat)) {
+        if (!isCupsPlatform()) {
+          reject(new Error('Printer languages other than PDF need a CUPS queue or a socket:// printer'));
+          return;
         }
-        
-        command += ` "${filePath}"`;
+        // Render the printer-language program and pass it through the queue as raw data
+        createRawPayloadFile(filePath, {
+          copies: Number(copies),
+          options,
+          labelSize: resolveMediaSize(options.media, undefined) || undefined,
+          title: path.basename(filePath)
+        }, fileId)
+          .then(payloadPath => {
+            const rawCommand = buildLpCommand({ printerName, filePath: payloadPath, copies: Number(copies), raw: true });
+            console.log(`Printing with command: ${rawCommand.file} ${rawCommand.args.join(' ')}`);
+            execFile(rawCommand.file, rawCommand.args, (error) => {
+              if (error) {
+                console.error('Error printing:', error);
+                reject(error);
+                return;
+              }
+              resolve({ success: true, message: 'Print job sent to printer' });
+            });
+          })
+          .catch(reject);
+        return;
+      } else if (isCupsPlatform()) {
+        // macOS and Linux printing through CUPS using lp
+        command = buildLpCommand({ printerName, filePath, copies: Number(copies), options });
       } else if (platform() === 'win32') {
-        // Windows printing using native system commands
-        // Create a temporary PowerShell script to handle the printing
+        // Windows printing through a temporary PowerShell script that receives the printer and file as parameters
         tempScriptPath = path.join(app.getPath('temp'), 'print-script.ps1');
-        
-        // Build PowerShell script content
-        let scriptContent = `
-$printer = "${printerName}"
-$file = "${filePath.replace(/\\/g, '\\\\')}"
-$copies = ${copies}
-
-# Load the file as a PrintDocument
-Add-Type -AssemblyName System.Drawing
-Add-Type -AssemblyName System.Windows.Forms
-$printDoc = New-Object System.Drawing.Printing.PrintDocument
-$printDoc.PrinterSettings.PrinterName = $printer
-$printDoc.PrinterSettings.Copies = $copies
-
-# Create event handler for printing
-$printDoc.add_PrintPage({
-    param($sender, $eventArgs)
-    
-    # For PDF files, use Windows shell to print
-    Start-Process -FilePath "$file" -Verb Print -PassThru | %{
-        # Wait for process to complete or timeout
-        $completed = $_.WaitForExit(30000) 
-        if (-not $completed) {
-            $_.Kill()
-        }
-    }
-    
-    # Tell the document we're done printing
-    $eventArgs.HasMorePages = $false
-})
-
-$printDoc.Print()
-`;
-        
-        // Write script to temp file
-        fs.writeFileSync(tempScriptPath, scriptContent);
-        
-        // Execute PowerShell script
-        command = `powershell -ExecutionPolicy Bypass -File "${tempScriptPath}"`;
+        fs.writeFileSync(tempScriptPath, WINDOWS_PRINT_SCRIPT);
+        command = buildWindowsPrintCommand(tempScriptPath, { printerName, filePath, copies: Number(copies) });
       } else {
         reject(new Error('Unsupported platform'));
         return;
       }
       
-      exec(command, (error, stdout, stderr) => {
-        if (error) {
-          console.error('Error printing:', error);
-          reject(error);
-          return;
-        }
-        
+      console.log(`Printing with command: ${command.file} ${command.args.join(' ')}`);
+      execFile(command.file, command.args, (error, stdout, stderr) => {
         // Clean up temporary script file on Windows
-        if (platform() === 'win32' && tempScriptPath) {
+        if (tempScriptPath) {
           try {
             fs.unlinkSync(tempScriptPath);
           } catch (err) {
@@ -264,6 +334,12 @@ $printDoc.Print()
           }
         }
         
+        if (error) {
+          console.error('Error printing:', error);
+          reject(error);
+          return;
+        }
+        
         console.log('Print job sent to printer');
         console.log('stdout:', stdout);
         console.log('stderr:', stderr);
@@ -272,140 +348,174 @@ $printDoc.Print()
     } catch (error) {
       reject(error);
     }
-  });
+  }).finally(() => removeTempFiles(fileId));
+}
+
+// IPC handlers for printing
+ipcMain.handle('print-pdf', async (event, request) => {
+  return printPdfFile(request);
+});
+
+// Print a calibration page at the label size of a printer setting, with its calibration applied
+ipcMain.handle('print-calibration-page', async (event, printerSetting: PrinterSetting) => {
+  try {
+    if (!printerSetting?.printerName) {
+      return { success: false, message: 'Select a printer first' };
+    }
+    // A group prints the page on the member its next job would go to
+    const printerName = await resolveSettingPrinter(printerSetting);
+
+    const options = printerSetting.options || {};
+    const stock = findPrinterSettingStock(printerSetting);
+    const labelSize = (options.media && parseMediaSize(options.media))
+      || (stock ? stockSizeMm(stock) : parseLabelSize(resolveLabelSize(printerSetting.size)));
+
+    const fileId = `calibration_${Date.now()}`;
+    const filePath = getTempFilePath('print2-calibration', fileId);
+    fs.writeFileSync(filePath, await generateCalibrationPage(labelSize));
+
+    console.log(`Printing calibration page (${labelSize.width}x${labelSize.height}mm) on ${printerName}`);
+    return await printPdfFile({
+      filePath,
+      printerName,
+      copies: 1,
+      // The page is exactly one label, so it is printed at its own size rather than fitted or tiled
+      options: {
+        ...options,
+        media: options.media || `Custom.${labelSize.width}x${labelSize.height}mm`,
+        fitToPage: false,
+        printScaling: 'none',
+        scale: 100,
+        sheetLayout: undefined
+      }
+    }).finally(() => removeTempFiles(fileId));
+  } catch (error) {
+    console.error('Error printing calibration page:', error);
+    return { success: false, message: error.message };
+  }
 });
 
 // Handle printing a sticker
-ipcMain.handle('print-sticker', async (event, stickerId) => {
+ipcMain.handle('print-sticker', async (event, stickerId, copies = 1, overlayValues?: Record<string, string>) => {
   try {
-    // Get the sticker
-    const sticker = db.getSticker(stickerId);
-    if (!sticker) {
-      console.error(`Sticker not found: ${stickerId}`);
-      return { success: false, message: 'Sticker not found' };
+    const quantity = Number(copies);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_PRINT_COPIES) {
+      return { success: false, message: `Copies must be a whole number between 1 and ${MAX_PRINT_COPIES}` };
     }
     
-    console.log(`Found sticker with size: ${sticker.size}`);
 
-    // Get printer settings for the sticker size
-    const settings = db.getPrinterSettings();
-    console.log(`Available printer settings: ${settings.map(s => s.size).join(', ')}`);
-    
-    const printerSetting = settings.find(s => s.size === sticker.size);
-    
-    if (!printerSetting) {
-      console.error(`No printer setting found for size: ${sticker.size}`);
-      return { success: false, message: `No printer configured for size: ${sticker.size}` };
+    const target = await resolvePrintTarget(stickerId);
+    if ('error' in target) {
+      return { success: false, message: target.error };
     }
-    
+    const { sticker, printerSetting } = target;
     console.log(`Using printer setting: ${JSON.stringify(printerSetting)}`);
 
-    // Get the PDF path
-    let pdfPath = '';
-    if (sticker.localPdfPath && fs.existsSync(sticker.localPdfPath)) {
-      pdfPath = sticker.localPdfPath;
-    } else if (sticker.pdfUrl && sticker.pdfUrl.startsWith('app://pdfs/')) {
-      const pdfFileName = sticker.pdfUrl.replace('app://pdfs/', '');
-      pdfPath = path.join(downloadedPdfsPath, pdfFileName);
+    // Remember the chosen quantity for the next time this sticker is printed
+    if (sticker.printQuantity !== quantity) {
+      await db.updateSticker(sticker.id, { printQuantity: quantity });
     }
 
-    if (!pdfPath || !fs.existsSync(pdfPath)) {
-      console.error(`PDF file not found for sticker: ${stickerId}`);
-      return { success: false, message: 'PDF file not found' };
+    const job = await enqueuePrintJob(sticker, printerSetting, quantity, { overlayValues });
+    return {
+      success: true,
+      message: `${quantity} ${quantity === 1 ? 'copy' : 'copies'} added to print queue`,
+      jobId: job.id
+    };
+  } catch (error) {
+    console.error('Error printing sticker:', error);
+    return { success: false, message: error.message || 'An unexpected error occurred' };
+  }
+});
+
+// Handle printing a batch of basket lines. Lines are validated individually so one
+// missing PDF or printer does not block the rest; valid lines are queued grouped by printer.
+ipcMain.handle('print-batch', async (event, lines: { lineId: string; stickerId: string; copies: number }[]) => {
+  const batchId = `batch_${Date.now()}`;
+  const results: { lineId: string; success: boolean; jobId?: string; message?: string }[] = [];
+  const groups = new Map<string, { line: typeof lines[number]; sticker: Sticker; printerSetting: PrinterSetting }[]>();
+
+  for (const line of lines || []) {
+    const quantity = Number(line.copies);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_PRINT_COPIES) {
+      results.push({ lineId: line.lineId, success: false, message: `Copies must be a whole number between 1 and ${MAX_PRINT_COPIES}` });
+      continue;
     }
 
-    // Start with basic printer command
-    let printCommand = `lp -d "${printerSetting.printerName}"`;
-    
-    // Add options from the printer settings if available
-    if (printerSetting.options) {
-      // Add media size
-      if (printerSetting.options.media) {
-        printCommand += ` -o media=${printerSetting.options.media}`;
-      } else if (printerSetting.size) {
-        // Extract dimensions from size and create custom media size
-        const sizeParts = printerSetting.size.toLowerCase().split('x');
-        if (sizeParts.length === 2) {
-          const width = sizeParts[0].replace(/\D/g, '');
-          const height = sizeParts[1].replace(/\D/g, '');
-          printCommand += ` -o media=Custom.${width}x${height}mm`;
-        }
-      }
-      
-      // Add orientation
-      if (printerSetting.options.orientation) {
-        const orientationValue = printerSetting.options.orientation === 'landscape' ? '4' : '3';
-        printCommand += ` -o orientation-requested=${orientationValue}`;
-      }
-      
-      // Add scaling
-      if (printerSetting.options.scale && printerSetting.options.scale !== 100) {
-        printCommand += ` -o scaling=${printerSetting.options.scale}`;
-      }
-      
-      // Add fit-to-page option
-      if (printerSetting.options.fitToPage) {
-        printCommand += ` -o fit-to-page`;
-      }
-      
-      // Add print scaling option
-      if (printerSetting.options.printScaling) {
-        printCommand += ` -o print-scaling=${printerSetting.options.printScaling}`;
-      }
-      
-      // Add margin options if present
-      if (printerSetting.options.margins) {
-        const { top, right, bottom, left, units } = printerSetting.options.margins;
-        
-        // Convert margins to points based on the units
-        const toPoints = (value: number, unit: string) => {
-          if (unit === 'mm') return value * 2.83465; // 1mm = 2.83465pt
-          if (unit === 'in') return value * 72; // 1in = 72pt
-          return value; // Already in points
-        };
-        
-        // Add each margin with proper unit conversion
-        if (top !== undefined) printCommand += ` -o page-top=${toPoints(top, units)}pt`;
-        if (right !== undefined) printCommand += ` -o page-right=${toPoints(right, units)}pt`;
-        if (bottom !== undefined) printCommand += ` -o page-bottom=${toPoints(bottom, units)}pt`;
-        if (left !== undefined) printCommand += ` -o page-left=${toPoints(left, units)}pt`;
+    const target = await resolvePrintTarget(line.stickerId);
+    if ('error' in target) {
+      results.push({ lineId: line.lineId, success: false, message: target.error });
+      continue;
+    }
+
+    const printerName = target.printerSetting.printerName;
+    if (!groups.has(printerName)) {
+      groups.set(printerName, []);
+    }
+    groups.get(printerName).push({ line: { ...line, copies: quantity }, ...target });
+  }
+
+  // Queue each printer's lines together, keeping basket order within a printer
+  for (const [printerName, entries] of Array.from(groups.entries())) {
+    console.log(`Queueing ${entries.length} basket lines for printer ${printerName}`);
+    for (const { line, sticker, printerSetting } of entries) {
+      try {
+        const job = await enqueuePrintJob(sticker, printerSetting, line.copies, { batchId, lineId: line.lineId });
+        results.push({ lineId: line.lineId, success: true, jobId: job.id });
+      } catch (error) {
+        console.error(`Error queueing basket line ${line.lineId}:`, error);
+        results.push({ lineId: line.lineId, success: false, message: error.message });
       }
     }
-    
-    // Add file path at the end
-    printCommand += ` "${pdfPath}"`;
-    console.log(`Printing with command: ${printCommand}`);
-    
-    // Execute print command
-    try {
-      const result = await new Promise((resolve, reject) => {
-        exec(printCommand, (error, stdout, stderr) => {
-          if (error) {
-            console.error(`Print error: ${error.message}`);
-            if (stderr) {
-              console.error(`Error stderr: ${stderr}`);
-            }
-            reject(error);
-            return;
-          }
-          
-          if (stderr && stderr.trim() !== '') {
-            console.warn(`Print stderr: ${stderr}`);
-          }
-          
-          console.log(`Print stdout: ${stdout}`);
-          resolve({ success: true, stdout });
-        });
-      });
-      
-      return { success: true, message: 'Sticker sent to printer' };
-    } catch (error) {
-      console.error('Error executing print command:', error);
-      return { success: false, message: `Failed to print: ${error.message}` };
+  }
+
+  const failed = results.filter(r => !r.success).length;
+  logger.info('Print batch submitted', { batchId, lines: results.length, failed });
+  return { success: failed === 0, batchId, results };
+});
+
+// Print queue handlers
+ipcMain.handle('print-queue-get-jobs', () => {
+  return getPrintJobs();
+});
+
+ipcMain.handle('print-queue-retry', async (event, jobId) => {
+  const job = await retryPrintJob(jobId);
+  return job
+    ? { success: true, job }
+    : { success: false, message: 'Only failed or cancelled jobs can be retried' };
+});
+
+ipcMain.handle('print-queue-cancel', async (event, jobId) => {
+  const job = await cancelPrintJob(jobId);
+  return job
+    ? { success: true, job }
+    : { success: false, message: 'Only jobs that have not finished can be cancelled' };
+});
+
+ipcMain.handle('print-queue-clear-finished', async () => {
+  const removed = await clearFinishedPrintJobs();
+  return { success: true, removed };
+});
+
+// Render a (possibly unsaved) label template for a product and return a PNG preview
+ipcMain.handle('preview-label-template', async (event, template, productId?: string) => {
+  try {
+    const errors = validateLabelTemplate(template);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
     }
+
+    const product = productId ? db.getProduct(productId) : db.getProducts()[0];
+    if (!product) {
+      return { success: false, message: 'No product to preview the template with' };
+    }
+
+    const pdfBytes = await renderLabelTemplate(template, { product });
+    return { success: true, image: await createPdfPreviewDataUrl(pdfBytes), productName: product.name };
   } catch (error) {
-    console.error('Error printing sticker:', error);
-    return { success: false, message: error.message || 'An unexpected error occurred' };
+    console.error('Error previewing label template:', error);
+    return { success: false, message: error.message };
   }
 });
 
@@ -494,8 +604,8 @@ function setupDatabaseIpcHandlers() {
     return db.getProductsByType(type);
   });
 
-  ipcMain.handle('db-search-products', (event, query) => {
-    return db.searchProducts(query);
+  ipcMain.handle('db-search-products', (event, query, options) => {
+    return db.searchProducts(String(query ?? ''), { type: options?.type, limit: options?.limit });
   });
 
   ipcMain.handle('db-get-product', (event, id) => {
@@ -503,7 +613,12 @@ function setupDatabaseIpcHandlers() {
   });
 
   ipcMain.handle('db-update-product', async (event, id, data) => {
-    return db.updateProduct(id, data);
+    try {
+      return await db.updateProduct(id, data);
+    } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
+      throw error;
+    }
   });
 
   // Sticker handlers
@@ -520,7 +635,12 @@ function setupDatabaseIpcHandlers() {
   });
 
   ipcMain.handle('db-update-sticker', async (event, id, data) => {
-    return db.updateSticker(id, data);
+    try {
+      return await db.updateSticker(id, data);
+    } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
+      throw error;
+    }
   });
 
   // Printer settings handlers
@@ -536,8 +656,24 @@ function setupDatabaseIpcHandlers() {
   ipcMain.handle('db-update-printer-settings', async (event, settings) => {
     try {
       console.log('Updating printer settings:', settings);
+
+      // Reject options the printer does not support; printers that cannot be queried are saved as is.
+      // Members of a group are identical, so the first one stands for all of them
+      const printerName = isGroupSetting(settings)
+        ? db.getPrinterGroup(settings.printerGroupId)?.members[0]
+        : settings.printerName;
+      const capabilities = await getPrinterCapabilities(printerName).catch(error => {
+        console.warn(`Could not read the capabilities of ${printerName}:`, error.message);
+        return null;
+      });
+      const errors = capabilities ? validatePrinterOptions(settings.options || {}, capabilities) : [];
+      if (errors.length > 0) {
+        return { success: false, message: errors.join('\n') };
+      }
+
       return await db.updatePrinterSettings(settings);
     } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
       console.error('Error updating printer settings:', error);
       throw error;
     }
@@ -558,18 +694,114 @@ function setupDatabaseIpcHandlers() {
     try {
       return await db.createPrinterSetting(printerSetting);
     } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
       console.error('Error creating printer setting:', error);
       throw error;
     }
   });
 
+  // Label template handlers
+  ipcMain.handle('db-get-label-templates', async () => {
+    return db.getLabelTemplates();
+  });
+
+  ipcMain.handle('db-save-label-template', async (event, template) => {
+    try {
+      const errors = validateLabelTemplate(template);
+      if (errors.length > 0) {
+        return { success: false, message: errors.join('\n') };
+      }
+
+      const { id, createdAt, updatedAt, ...data } = template;
+      const saved = id
+        ? await db.updateLabelTemplate(id, data)
+        : await db.createLabelTemplate({ sizes: [], productTypes: [], ...data });
+      if (!saved) {
+        return { success: false, message: 'Template not found' };
+      }
+      return { success: true, template: saved };
+    } catch (error) {
+      console.error('Error saving label template:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  ipcMain.handle('db-delete-label-template', async (event, id) => {
+    return db.deleteLabelTemplate(id);
+  });
+
+  // Label stock handlers
+  ipcMain.handle('db-get-label-stocks', async () => {
+    return db.getLabelStocks();
+  });
+
+  ipcMain.handle('db-save-label-stock', async (event, stock) => {
+    try {
+      const errors = validateLabelStock(stock);
+      if (errors.length > 0) {
+        return { success: false, message: errors.join('\n') };
+      }
+
+      const { id, createdAt, updatedAt, ...data } = stock;
+      const saved = id
+        ? await db.updateLabelStock(id, data)
+        : await db.createLabelStock({ aliases: [], ...data });
+      if (!saved) {
+        return { success: false, message: 'Label stock not found' };
+      }
+      return { success: true, stock: saved };
+    } catch (error) {
+      console.error('Error saving label stock:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  ipcMain.handle('db-delete-label-stock', async (event, id) => {
+    return db.deleteLabelStock(id);
+  });
+
+  // Printer group handlers
+  ipcMain.handle('db-get-printer-groups', async () => {
+    return db.getPrinterGroups();
+  });
+
+  ipcMain.handle('db-save-printer-group', async (event, group) => {
+    try {
+      const errors = validatePrinterGroup(group);
+      if (errors.length > 0) {
+        return { success: false, message: errors.join('\n') };
+      }
+
+      const { id, createdAt, updatedAt, ...data } = group;
+      const saved = id
+        ? await db.updatePrinterGroup(id, { ...data, name: data.name.trim() })
+        : await db.createPrinterGroup({ ...data, name: data.name.trim() });
+      if (!saved) {
+        return { success: false, message: 'Printer group not found' };
+      }
+      return { success: true, group: saved };
+    } catch (error) {
+      console.error('Error saving printer group:', error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  ipcMain.handle('db-delete-printer-group', async (event, id) => {
+    return db.deletePrinterGroup(id);
+  });
+
   // Notion settings handlers
   ipcMain.handle('db-get-notion-settings', async () => {
     return db.getNotionSetting();
   });
 
   ipcMain.handle('db-save-notion-settings', async (event, settings) => {
-    return db.createOrUpdateNotionSetting(settings);
+    try {
+      return await db.createOrUpdateNotionSetting(settings);
+    } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
+      throw error;
+    }
   });
 
   // Google Drive settings handlers
@@ -584,8 +816,9 @@ function setupDatabaseIpcHandlers() {
         console.error('Missing required fields in service account JSON');
         return { success: false, message: 'Invalid service account JSON format' };
       }
-      return db.createOrUpdateGoogleDriveSetting(settings);
+      return await db.createOrUpdateGoogleDriveSetting(settings);
     } catch (error) {
+      if (error instanceof ValidationError) return { success: false, message: error.message };
       console.error('Error saving Google Drive settings:', error);
       throw error;
     }
@@ -636,44 +869,180 @@ ipcMain.handle('sync-notion', async (event) => {
 
 // Get available printers
 ipcMain.handle('get-available-printers', async () => {
-  return new Promise((resolve, reject) => {
+  const printers = await getPrinters();
+  console.log('Available printers:', printers.map(p => p.name));
+  return printers.map(p => p.name);
+});
+
+// Get available printers together with their queue state
+ipcMain.handle('get-printer-statuses', async () => {
+  return getPrinters();
+});
+
+// Check the state and waiting jobs of each member of a printer group
+ipcMain.handle('printer-group-status', async (event, groupId: string, options?: PrinterSetting['options']) => {
+  const group = db.getPrinterGroup(groupId);
+  if (!group) {
+    return { success: false, message: 'Printer group not found' };
+  }
+  try {
+    return { success: true, members: await getGroupStatus(group, options) };
+  } catch (error) {
+    console.error(`Error checking printer group ${group.name}:`, error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Query the state and supported media of a network printer
+ipcMain.handle('ipp-get-printer-attributes', async (event, printerUri: string) => {
+  if (!isIppUri(printerUri)) {
+    return { success: false, message: 'Enter an ipp:// or ipps:// printer URI' };
+  }
+  try {
+    return { success: true, attributes: await getIppPrinterAttributes(printerUri.trim()) };
+  } catch (error) {
+    console.error(`Error querying IPP printer ${printerUri}:`, error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Discover the media, resolutions and driver options of a printer
+ipcMain.handle('get-printer-capabilities', async (event, printerName: string) => {
+  try {
+    return { success: true, capabilities: await getPrinterCapabilities(printerName) };
+  } catch (error) {
+    console.error(`Error reading the capabilities of ${printerName}:`, error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Query the state of a raw socket printer
+ipcMain.handle('raw-printer-status', async (event, printerUri: string, payloadFormat?: PayloadFormat) => {
+  if (!isSocketUri(printerUri)) {
+    return { success: false, message: 'Enter the printer address as host or host:port' };
+  }
+  try {
+    return { success: true, status: await queryRawPrinterStatus(printerUri, payloadFormat) };
+  } catch (error) {
+    console.error(`Error querying raw printer ${printerUri}:`, error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Render a sticker as the thermal printer of its size prints it: at the printer resolution, in black and white
+ipcMain.handle('preview-sticker-thermal', async (event, stickerId: string, previewOptions: ThermalPreviewOptions = {}) => {
+  try {
+    const target = await resolvePrintTarget(stickerId);
+    if ('error' in target) {
+      return { success: false, message: target.error };
+    }
+    const { sticker, printerSetting } = target;
+
+    const options = printerSetting.options || {};
+    const labelStock = findStickerStock(sticker) || findPrinterSettingStock(printerSetting);
+    const labelSize = labelStock ? stockSizeMm(labelStock) : parseLabelSize(resolveStickerSize(sticker, !!resolveStickerPdfPath(sticker)));
+    const fileId = `thermal_${Date.now()}`;
+    const pdfPath = await prepareStickerPdf(sticker, options, undefined, fileId);
+    // Sheets are previewed one label at a time
+    const previewPrinterOptions = options.sheetLayout ? { ...options, media: undefined, sheetLayout: undefined } : options;
+    let preview: Awaited<ReturnType<typeof renderThermalPreview>>;
     try {
-      if (platform() === 'darwin') {
-        // macOS: Use lpstat to get printer list
-        exec('lpstat -p | grep -o "printer [^ ]* is" | cut -d " " -f 2', (error, stdout, stderr) => {
-          if (error) {
-            console.error('Error getting printers:', error);
-            resolve([]);
-            return;
-          }
-          
-          const printers = stdout.trim().split('\n').filter(Boolean);
-          console.log('Available printers:', printers);
-          resolve(printers);
-        });
-      } else if (platform() === 'win32') {
-        // Windows: Use wmic to get printer list
-        exec('wmic printer get name', (error, stdout, stderr) => {
-          if (error) {
-            console.error('Error getting printers:', error);
-            resolve([]);
-            return;
-          }
-          
-          // Parse output, skipping the header line
-          const printers = stdout.trim().split('\n').slice(1).map(p => p.trim()).filter(Boolean);
-          console.log('Available printers:', printers);
-          resolve(printers);
-        });
-      } else {
-        console.warn('Unsupported platform for printer listing');
-        resolve([]);
-      }
-    } catch (error) {
-      console.error('Error listing printers:', error);
-      resolve([]);
+      preview = await renderThermalPreview(
+        fs.readFileSync(pdfPath),
+        previewPrinterOptions,
+        labelSize,
+        labelStock || undefined,
+        previewOptions
+      );
+    } finally {
+      removeTempFiles(fileId);
+    }
+
+    return { success: true, ...preview };
+  } catch (error) {
+    console.error('Error rendering thermal preview:', error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Save a sticker as a ZPL file, rendered with the resolution, darkness and speed of its printer setting
+ipcMain.handle('export-sticker-zpl', async (event, stickerId: string, copies = 1) => {
+  try {
+    const quantity = Number(copies);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_PRINT_COPIES) {
+      return { success: false, message: `Copies must be a whole number between 1 and ${MAX_PRINT_COPIES}` };
     }
+
+    const target = await resolvePrintTarget(stickerId);
+    if ('error' in target) {
+      return { success: false, message: target.error };
+    }
+    const { sticker, printerSetting } = target;
+
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+      title: 'Save ZPL',
+      defaultPath: `${sticker.name.replace(/[\\/:*?"<>|]/g, '_')}.zpl`,
+      filters: [{ name: 'ZPL', extensions: ['zpl'] }]
+    });
+    if (canceled || !filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const options = printerSetting.options || {};
+    const labelStock = findStickerStock(sticker) || findPrinterSettingStock(printerSetting);
+    const labelSize = labelStock ? stockSizeMm(labelStock) : parseLabelSize(resolveStickerSize(sticker, !!resolveStickerPdfPath(sticker)));
+    const fileId = `zpl_${Date.now()}`;
+    const pdfPath = await prepareStickerPdf(sticker, options, undefined, fileId);
+    let payload: Buffer;
+    try {
+      payload = await renderRawPayload(fs.readFileSync(pdfPath), {
+        copies: quantity,
+        options: { ...options, payloadFormat: 'zpl' },
+        labelSize: (options.media && parseMediaSize(options.media)) || labelSize,
+        labelStock: labelStock || undefined,
+        title: sticker.name
+      });
+    } finally {
+      removeTempFiles(fileId);
+    }
+    fs.writeFileSync(filePath, payload);
+
+    console.log(`Saved ZPL of sticker ${sticker.id} to ${filePath}`);
+    return { success: true, filePath };
+  } catch (error) {
+    console.error('Error exporting ZPL:', error);
+    return { success: false, message: error.message };
+  }
+});
+
+// Folder the virtual PDF printer writes to
+ipcMain.handle('virtual-printer-get-folder', () => {
+  return getVirtualPrinterFolder();
+});
+
+// Let the user pick the virtual printer folder
+ipcMain.handle('virtual-printer-choose-folder', async () => {
+  if (!mainWindow) return null;
+
+  const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+    title: 'Virtual printer output folder',
+    defaultPath: getVirtualPrinterFolder(),
+    properties: ['openDirectory', 'createDirectory']
   });
+  if (canceled || filePaths.length === 0) return null;
+
+  await db.createOrUpdateAppSetting(VIRTUAL_PRINTER_FOLDER_SETTING, filePaths[0]);
+  return filePaths[0];
+});
+
+// Open the virtual printer folder in the file manager
+ipcMain.handle('virtual-printer-open-folder', async () => {
+  const folder = getVirtualPrinterFolder();
+  if (!fs.existsSync(folder)) {
+    fs.mkdirSync(folder, { recursive: true });
+  }
+  const error = await shell.openPath(folder);
+  return error ? { success: false, message: error } : { success: true };
 });
 
 // Clear products before syncing
@@ -895,19 +1264,12 @@ function setupDebugIpcHandlers() {
   // Reset database
   ipcMain.handle('reset-database', async () => {
     try {
-      // Get the database path first
-      const dbPath = path.join(app.getPath('userData'), 'db', 'database.json');
-      
-      logger.info('Resetting database', { dbPath });
-      
-      // If the database file exists, delete it
-      if (fs.existsSync(dbPath)) {
-        fs.unlinkSync(dbPath);
-        logger.info('Database file deleted', { dbPath });
+      logger.info('Resetting database');
+
+      // Delete the database files and re-initialize the database
+      if (!db.resetDatabase()) {
+        throw new Error('Database could not be re-initialized');
       }
-      
-      // Re-initialize the database
-      db.initDatabase();
       logger.info('Database re-initialized');
       
       return { success: true };
@@ -963,6 +1325,26 @@ function setupDebugIpcHandlers() {
       throw error;
     }
   });
+
+  // Check the database for orphaned stickers, missing files and unused downloads, fixing them if asked
+  ipcMain.handle('db-check-integrity', async (event, options) => {
+    try {
+      const fix = Boolean(options?.fix);
+      logger.info('Checking database integrity', { fix });
+      const report = db.checkIntegrity({ fix });
+      logger.info('Database integrity checked', {
+        orphanedStickers: report.orphanedStickers.length,
+        missingFiles: report.missingFiles.length,
+        unreferencedFiles: report.unreferencedFiles.length,
+        fixed: report.fixed
+      });
+      return { success: true, report };
+    } catch (error) {
+      console.error('Error checking database integrity:', error);
+      logger.error('Failed to check database integrity', { error: error.message });
+      return { success: false, message: error.message };
+    }
+  });
   
   // Restart application
   ipcMain.handle('restart-app', () => {
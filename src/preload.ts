@@ -21,6 +21,16 @@ contextBridge.exposeInMainWorld('electron', {
         'db-update-printer-settings',
         'db-get-printer-setting',
         'db-create-printer-setting',
+        'db-get-label-templates',
+        'db-save-label-template',
+        'db-delete-label-template',
+        'db-get-label-stocks',
+        'db-save-label-stock',
+        'db-delete-label-stock',
+        'db-get-printer-groups',
+        'db-save-printer-group',
+        'db-delete-printer-group',
+        'preview-label-template',
         'db-get-notion-settings',
         'db-save-notion-settings',
         'db-get-google-drive-settings',
@@ -32,7 +42,24 @@ contextBridge.exposeInMainWorld('electron', {
         'download-image-from-drive',
         'get-app-path',
         'get-available-printers',
+        'get-printer-statuses',
+        'get-printer-capabilities',
+        'ipp-get-printer-attributes',
+        'printer-group-status',
+        'raw-printer-status',
+        'export-sticker-zpl',
+        'virtual-printer-get-folder',
+        'virtual-printer-choose-folder',
+        'virtual-printer-open-folder',
         'print-pdf',
+        'print-calibration-page',
+        'preview-sticker-thermal',
+        'print-sticker',
+        'print-batch',
+        'print-queue-get-jobs',
+        'print-queue-retry',
+        'print-queue-cancel',
+        'print-queue-clear-finished',
         'toggle-fullscreen',
         'is-fullscreen',
         'db:getAppSetting',
@@ -42,6 +69,7 @@ contextBridge.exposeInMainWorld('electron', {
         // Debug feature channels
         'reset-database',
         'flush-downloaded-files',
+        'db-check-integrity',
         'restart-app',
         'confirm-dialog',
         'get-log-file-path',
@@ -58,6 +86,7 @@ contextBridge.exposeInMainWorld('electron', {
       // List of allowed channels for send
       const validChannels = [
         'print-progress',
+        'printer-failover',
         'log-message'
       ];
       
@@ -69,6 +98,7 @@ contextBridge.exposeInMainWorld('electron', {
       // List of allowed channels for on
       const validChannels = [
         'print-progress',
+        'printer-failover',
         'log-message'
       ];
       
@@ -84,6 +114,7 @@ contextBridge.exposeInMainWorld('electron', {
       // List of allowed channels for once
       const validChannels = [
         'print-progress',
+        'printer-failover',
         'log-message'
       ];
       
@@ -95,6 +126,7 @@ contextBridge.exposeInMainWorld('electron', {
       // List of allowed channels for removeAllListeners
       const validChannels = [
         'print-progress',
+        'printer-failover',
         'log-message'
       ];
       
@@ -2,6 +2,7 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { HashRouter } from 'react-router-dom';
 import App from '../components/App';
+import { PrintBasketProvider } from '../components/PrintBasket';
 import '../styles/globals.css';
 
 // Check if the electron API is exposed
@@ -17,7 +18,9 @@ const root = createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <HashRouter>
-      <App />
+      <PrintBasketProvider>
+        <App />
+      </PrintBasketProvider>
     </HashRouter>
   </React.StrictMode>
 ); 
\ No newline at end of file
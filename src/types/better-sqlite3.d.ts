@@ -1 +1,42 @@
-declare module 'better-sqlite3'; 
\ No newline at end of file
+// Type declarations for the parts of better-sqlite3 the database module uses
+declare module 'better-sqlite3' {
+  namespace Database {
+    interface RunResult {
+      changes: number;
+      lastInsertRowid: number | bigint;
+    }
+
+    interface Statement<Row = any> {
+      run(...params: any[]): RunResult;
+      get(...params: any[]): Row | undefined;
+      all(...params: any[]): Row[];
+    }
+
+    interface Options {
+      readonly?: boolean;
+      fileMustExist?: boolean;
+      timeout?: number;
+      verbose?: (message?: any, ...additionalArgs: any[]) => void;
+    }
+
+    interface Database {
+      readonly name: string;
+      readonly open: boolean;
+      readonly inTransaction: boolean;
+      prepare<Row = any>(sql: string): Statement<Row>;
+      exec(sql: string): this;
+      pragma(source: string, options?: { simple?: boolean }): any;
+      transaction<F extends (...args: any[]) => any>(fn: F): F;
+      backup(destination: string): Promise<{ totalPages: number; remainingPages: number }>;
+      close(): this;
+    }
+  }
+
+  interface DatabaseConstructor {
+    new (filename: string, options?: Database.Options): Database.Database;
+    (filename: string, options?: Database.Options): Database.Database;
+  }
+
+  const Database: DatabaseConstructor;
+  export = Database;
+}
@@ -4,7 +4,7 @@ declare global {
       ipcRenderer: {
         invoke: (channel: string, ...args: any[]) => Promise<any>;
         send: (channel: string, ...args: any[]) => void;
-        on: (channel: string, func: (...args: any[]) => void) => void;
+        on: (channel: string, func: (...args: any[]) => void) => (() => void) | undefined;
         once: (channel: string, func: (...args: any[]) => void) => void;
         removeAllListeners: (channel: string) => void;
       };